@@ -10,6 +10,7 @@ import { BackendAdapter } from './api/BackendAdapter'
 import { simulationEngineAPI } from './api/SimulationEngineAPI'
 import { BackendNetworkAPI } from './api/BackendNetworkAPI'
 import { BackendStatsAPI } from './api/BackendStatsAPI'
+import type { PeerSyncStatus, PeerLink } from './api/BackendStatsAPI'
 import { SimulationControlAPI } from './api/SimulationControlAPI'
 import './App.css'
 
@@ -30,7 +31,7 @@ function App() {
   const [syncStatus, setSyncStatus] = useState<Map<string, { isSynced: boolean, syncPercentage: number }>>(new Map())
   const [databasesInitialized, setDatabasesInitialized] = useState(false)
   const [backendAdapters, setBackendAdapters] = useState<Map<string, BackendAdapter>>(new Map())
-  const [databaseStats, setDatabaseStats] = useState<Map<string, { eventCount: number, syncPercentage: number }>>(new Map())
+  const [databaseStats, setDatabaseStats] = useState<Map<string, { eventCount: number, syncPercentage: number, peers: PeerSyncStatus[], links: PeerLink[] }>>(new Map())
   const [showIndicator, setShowIndicator] = useState(true)
   const [backendNetworkAPI] = useState(() => new BackendNetworkAPI())
   const [backendStatsAPIs] = useState(() => {
@@ -215,7 +216,7 @@ function App() {
       
       // Fetch device stats from backends
       const syncStatusMap = new Map<string, { isSynced: boolean, syncPercentage: number }>()
-      const dbStats = new Map<string, { eventCount: number, syncPercentage: number }>()
+      const dbStats = new Map<string, { eventCount: number, syncPercentage: number, peers: PeerSyncStatus[], links: PeerLink[] }>()
       
       for (const [deviceId, statsAPI] of backendStatsAPIs) {
         const stats = await statsAPI.getStats()
@@ -226,7 +227,9 @@ function App() {
           })
           dbStats.set(deviceId, {
             eventCount: stats.eventCount,
-            syncPercentage: stats.syncPercentage
+            syncPercentage: stats.syncPercentage,
+            peers: stats.peers ?? [],
+            links: await statsAPI.getPeers()
           })
           
           // Update frequencies with actual backend online status
@@ -1,7 +1,9 @@
 import { MessageAPI } from './MessageAPI'
+import { PresenceAPI } from './PresenceAPI'
 import { ChatAPI } from './ChatAPI'
 import { simulationEngineAPI } from './SimulationEngineAPI'
-import type { Message, FileAttachment } from '../types/message'
+import type { Message, Channel, FileAttachment, BackendMessage, MessageSearchOptions, MessageSearchResult, MessageThread } from '../types/message'
+import type { PeerPresence } from '../types/presence'
 
 /**
  * Adapter that can use either the backend API or the local ChatAPI
@@ -9,9 +11,20 @@ import type { Message, FileAttachment } from '../types/message'
  */
 export class BackendAdapter {
   private messageAPI: MessageAPI | null = null
+  private presenceAPI: PresenceAPI | null = null
   private chatAPI: ChatAPI | null = null
   private deviceId: string
-  private lastSyncTime: number = 0
+  private pageSize: number = 50
+  private channelId: string = 'general'
+  private revision: number | null = null
+  private oldestCursor: string | null = null
+  private oldestTimestamp: number | null = null
+  private hasOlder: boolean = false
+  private deletedIds: string[] = [] // Deletions seen by the most recent getMessages()
+  private pendingRead: Set<string> = new Set()
+  private requestedRead: Set<string> = new Set() // Never ask the backend about the same message twice
+  private readTimer: ReturnType<typeof setTimeout> | null = null
+  private typingSentAt: number = 0 // When we last told peers we're typing; 0 when not typing
   private pollingInterval: NodeJS.Timeout | null = null
 
   private convertAttachmentForUI(raw: any): FileAttachment {
@@ -33,6 +46,7 @@ export class BackendAdapter {
     
     if (backendUrl) {
       this.messageAPI = new MessageAPI(backendUrl)
+      this.presenceAPI = new PresenceAPI(backendUrl)
     } else if (chatAPI) {
       this.chatAPI = chatAPI
     } else {
@@ -40,7 +54,7 @@ export class BackendAdapter {
     }
   }
 
-  async sendMessage(content: string, attachments?: any[]): Promise<Message | null> {
+  async sendMessage(content: string, attachments?: any[], replyTo?: string): Promise<Message | null> {
     // Record to simulation engine (fire and forget)
     simulationEngineAPI.recordEvent({
       type: 'message',
@@ -54,7 +68,7 @@ export class BackendAdapter {
     
     if (this.messageAPI) {
       // Use backend API - returns the message with real ID
-      const message = await this.messageAPI.sendMessage(content, attachments)
+      const message = await this.messageAPI.sendMessage(content, attachments, replyTo, this.channelId)
       return {
         ...message,
         isOwn: message.author === this.deviceId
@@ -68,6 +82,79 @@ export class BackendAdapter {
     return null
   }
 
+  async editMessage(messageId: string, content: string): Promise<Message | null> {
+    if (!this.messageAPI) {
+      // Edits are signed events, so they need the backend
+      return null
+    }
+    const message = await this.messageAPI.editMessage(messageId, content)
+    return this.toUIMessage(message)
+  }
+
+  async deleteMessage(messageId: string): Promise<void> {
+    if (this.messageAPI) {
+      await this.messageAPI.deleteMessage(messageId)
+    }
+  }
+
+  // Peers show "typing" for a few seconds per signal, so refresh it at most every 3s
+  setTyping(typing: boolean): void {
+    if (!this.presenceAPI) {
+      return
+    }
+    const now = Date.now()
+    if (typing && now - this.typingSentAt < 3000) {
+      return
+    }
+    if (!typing && this.typingSentAt === 0) {
+      return
+    }
+    this.typingSentAt = typing ? now : 0
+    this.presenceAPI.setTyping(this.channelId, typing).catch(error => {
+      console.error('[BackendAdapter] Failed to send typing indicator:', error)
+    })
+  }
+
+  // Returns an unsubscribe function; a no-op without a backend
+  subscribePresence(onUpdate: (peers: PeerPresence[]) => void): () => void {
+    if (!this.presenceAPI) {
+      return () => {}
+    }
+    return this.presenceAPI.subscribe(onUpdate)
+  }
+
+  // Queue read receipts; seen messages are sent together once per second
+  markRead(messageIds: string[]): void {
+    if (!this.messageAPI) {
+      return
+    }
+    for (const id of messageIds) {
+      if (!this.requestedRead.has(id)) {
+        this.requestedRead.add(id)
+        this.pendingRead.add(id)
+      }
+    }
+    if (this.pendingRead.size > 0 && !this.readTimer) {
+      this.readTimer = setTimeout(() => this.flushReadReceipts(), 1000)
+    }
+  }
+
+  private async flushReadReceipts(): Promise<void> {
+    this.readTimer = null
+    const messageIds = Array.from(this.pendingRead)
+    this.pendingRead.clear()
+    if (!this.messageAPI || messageIds.length === 0) {
+      return
+    }
+    try {
+      await this.messageAPI.markRead(messageIds)
+    } catch (error) {
+      // Let the next markRead() retry them
+      messageIds.forEach(id => this.requestedRead.delete(id))
+      console.error('[BackendAdapter] Failed to send read receipts:', error)
+    }
+  }
+
   async addReaction(messageId: string, emoji: string): Promise<void> {
     if (this.messageAPI) {
       // Use backend API
@@ -88,33 +175,62 @@ export class BackendAdapter {
     }
   }
 
+  // Mark messages as own/received and normalize attachments
+  private toUIMessage(msg: BackendMessage): Message {
+    const isOwn = msg.author === this.deviceId
+    const attachments = Array.isArray(msg.attachments)
+      ? msg.attachments.map(a => this.convertAttachmentForUI(a))
+      : undefined
+    return {
+      id: msg.id,
+      author: msg.author,
+      content: msg.content,
+      timestamp: msg.timestamp,
+      reactions: msg.reactions,
+      editedAt: msg.editedAt,
+      editHistory: msg.editHistory,
+      replyTo: msg.replyTo,
+      replyCount: msg.replyCount,
+      channelId: msg.channelId,
+      receipts: msg.receipts,
+      attachments,
+      isOwn
+    }
+  }
+
   async getMessages(): Promise<Message[]> {
     if (this.messageAPI) {
       // Use backend API
-      // On first load (lastSyncTime = 0), get all messages. Otherwise get since last sync.
-      const sinceTime = this.lastSyncTime === 0 ? undefined : this.lastSyncTime
-      console.log(`[BackendAdapter ${this.deviceId}] Fetching messages since ${sinceTime || 'beginning'}`)
-      const messages = await this.messageAPI.getMessages(sinceTime)
-      console.log(`[BackendAdapter ${this.deviceId}] Received ${messages.length} messages`)
+      // On first load fetch the newest page, then poll for anything new or changed since
+      const isFirstLoad = this.revision === null
+      const channelId = this.channelId
+      console.log(`[BackendAdapter ${this.deviceId}] Fetching #${channelId} messages ${isFirstLoad ? 'from latest page' : `changed since revision ${this.revision}`}`)
+      const page = isFirstLoad
+        ? await this.messageAPI.getMessages({ channelId, limit: this.pageSize })
+        : await this.messageAPI.getMessages({ channelId, changedSince: this.revision! })
+      console.log(`[BackendAdapter ${this.deviceId}] Received ${page.messages.length} messages`)
       
-      if (messages.length > 0) {
-        this.lastSyncTime = Math.max(...messages.map(m => m.timestamp))
-        console.log(`[BackendAdapter ${this.deviceId}] Updated lastSyncTime to ${this.lastSyncTime}`)
+      // The channel was switched while this request was in flight
+      if (channelId !== this.channelId) {
+        this.deletedIds = []
+        return []
       }
       
-      // Mark messages as own/received and normalize attachments
-      return messages.map(msg => {
-        const isOwn = msg.author === this.deviceId
-        console.log(`[BackendAdapter] Message from ${msg.author}, deviceId=${this.deviceId}, isOwn=${isOwn}`)
-        const attachments = Array.isArray(msg.attachments)
-          ? msg.attachments.map(a => this.convertAttachmentForUI(a))
-          : undefined
-        return {
-          ...msg,
-          attachments,
-          isOwn
-        }
-      })
+      this.revision = page.revision
+      this.deletedIds = page.deleted || []
+      if (isFirstLoad) {
+        this.oldestCursor = page.nextCursor
+        this.oldestTimestamp = page.messages[0]?.timestamp ?? null
+        this.hasOlder = page.hasMore
+        return page.messages.map(msg => this.toUIMessage(msg))
+      }
+      
+      // Changes to history we haven't scrolled back to yet arrive with that page instead
+      const loaded = this.hasOlder && this.oldestTimestamp !== null
+        ? page.messages.filter(msg => msg.timestamp >= this.oldestTimestamp!)
+        : page.messages
+      
+      return loaded.map(msg => this.toUIMessage(msg))
     } else if (this.chatAPI) {
       // Use local ChatAPI - this returns messages with reactions already included
       const messages = await this.chatAPI.loadMessages()
@@ -132,15 +248,103 @@ export class BackendAdapter {
     return []
   }
 
-  // Start polling for new messages
-  startPolling(onNewMessages: (messages: Message[]) => void, interval: number = 1000): void {
+  // Fetch the page of history just before the oldest message loaded so far
+  async loadOlderMessages(): Promise<Message[]> {
+    if (!this.messageAPI || !this.hasOlder || !this.oldestCursor) {
+      return []
+    }
+    
+    const channelId = this.channelId
+    const page = await this.messageAPI.getMessages({ channelId, before: this.oldestCursor, limit: this.pageSize })
+    console.log(`[BackendAdapter ${this.deviceId}] Loaded ${page.messages.length} older messages`)
+    if (channelId !== this.channelId) {
+      return []
+    }
+    
+    this.oldestCursor = page.nextCursor
+    this.oldestTimestamp = page.messages[0]?.timestamp ?? this.oldestTimestamp
+    this.hasOlder = page.hasMore
+    
+    return page.messages.map(msg => this.toUIMessage(msg))
+  }
+
+  hasOlderMessages(): boolean {
+    return this.hasOlder
+  }
+
+  getChannelId(): string {
+    return this.channelId
+  }
+
+  // Switch channels; the next getMessages() starts again from that channel's latest page
+  setChannel(channelId: string): void {
+    if (channelId === this.channelId) {
+      return
+    }
+    this.setTyping(false)
+    this.channelId = channelId
+    this.revision = null
+    this.oldestCursor = null
+    this.oldestTimestamp = null
+    this.hasOlder = false
+    this.deletedIds = []
+  }
+
+  async getChannels(): Promise<Channel[]> {
+    if (!this.messageAPI) {
+      // Channels are synced events, so they need the backend
+      return []
+    }
+    return this.messageAPI.getChannels()
+  }
+
+  async createChannel(name: string): Promise<Channel | null> {
+    if (!this.messageAPI) {
+      return null
+    }
+    return this.messageAPI.createChannel(name)
+  }
+
+  async updateChannel(channelId: string, changes: { name?: string, archived?: boolean }): Promise<Channel | null> {
+    if (!this.messageAPI) {
+      return null
+    }
+    return this.messageAPI.updateChannel(channelId, changes)
+  }
+
+  async setChannelMembership(channelId: string, joined: boolean): Promise<Channel | null> {
+    if (!this.messageAPI) {
+      return null
+    }
+    return this.messageAPI.setChannelMembership(channelId, joined)
+  }
+
+  async getThread(messageId: string): Promise<MessageThread<Message> | null> {
+    if (!this.messageAPI) {
+      // Threads are assembled by the backend projection
+      return null
+    }
+    const thread = await this.messageAPI.getThread(messageId)
+    return { ...thread, messages: thread.messages.map(msg => this.toUIMessage(msg)) }
+  }
+
+  async searchMessages(query: string, options?: MessageSearchOptions): Promise<MessageSearchResult[]> {
+    if (!this.messageAPI) {
+      // Search runs against the backend's in-memory index only
+      return []
+    }
+    return this.messageAPI.searchMessages(query, options)
+  }
+
+  // Start polling for new, changed and deleted messages
+  startPolling(onNewMessages: (messages: Message[], deletedIds: string[]) => void, interval: number = 1000): void {
     this.stopPolling() // Clear any existing interval
     
     const poll = async () => {
       try {
         const messages = await this.getMessages()
-        if (messages.length > 0) {
-          onNewMessages(messages)
+        if (messages.length > 0 || this.deletedIds.length > 0) {
+          onNewMessages(messages, this.deletedIds)
         }
       } catch (error) {
         console.error('Error polling messages:', error)
@@ -159,6 +363,10 @@ export class BackendAdapter {
       clearInterval(this.pollingInterval)
       this.pollingInterval = null
     }
+    if (this.readTimer) {
+      clearTimeout(this.readTimer)
+      this.flushReadReceipts()
+    }
   }
 
   // Get backend type for debugging
@@ -1,8 +1,30 @@
+export interface PeerSyncStatus {
+  peerId: string
+  syncPercentage: number
+  localEvents: number
+  peerEvents: number
+  sharedEvents: number
+  pendingEvents: number
+  deliveryRate: number | null
+  lastFilterAt: number
+}
+
+// How reachable a peer is, as measured by pings
+export interface PeerLink {
+  deviceId: string
+  state: 'unknown' | 'alive' | 'suspect' | 'dead'
+  rtt: number | null // Smoothed round trip, in ms
+  loss: number | null // Share of recent pings lost, 0..1
+  lastSeen: number | null
+  wireVersion: number
+}
+
 export interface DeviceStats {
   deviceId: string
   eventCount: number
   messageCount: number
-  syncPercentage: number
+  syncPercentage: number // Least-synced peer
+  peers: PeerSyncStatus[]
   isOnline: boolean
   timestamp: number
 }
@@ -28,6 +50,21 @@ export class BackendStatsAPI {
     }
   }
   
+  async getPeers(): Promise<PeerLink[]> {
+    try {
+      const response = await fetch(`${this.backendUrl}/api/peers`)
+      if (!response.ok) {
+        throw new Error(`Failed to fetch peers: ${response.statusText}`)
+      }
+      
+      const result = await response.json()
+      return result.peers
+    } catch (error) {
+      console.error('[BackendStatsAPI] Error fetching peers:', error)
+      return []
+    }
+  }
+  
   async setDeviceStatus(online: boolean): Promise<boolean> {
     try {
       const response = await fetch(`${this.backendUrl}/api/device-status`, {
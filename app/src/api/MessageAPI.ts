@@ -1,17 +1,17 @@
-import type { BackendMessage } from '../types/message'
+import type { BackendMessage, Channel, MessagePage, MessageQuery, MessageSearchOptions, MessageSearchResult, MessageThread } from '../types/message'
 
 export type Message = BackendMessage
 
 export class MessageAPI {
   constructor(private backendUrl: string) {}
 
-  async sendMessage(content: string, attachments?: any[]): Promise<Message> {
+  async sendMessage(content: string, attachments?: any[], replyTo?: string, channelId?: string): Promise<Message> {
     const response = await fetch(`${this.backendUrl}/api/messages`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
       },
-      body: JSON.stringify({ content, attachments })
+      body: JSON.stringify({ content, attachments, replyTo, channelId })
     })
 
     if (!response.ok) {
@@ -21,10 +21,19 @@ export class MessageAPI {
     return response.json()
   }
 
-  async getMessages(since?: number): Promise<Message[]> {
-    const url = since 
-      ? `${this.backendUrl}/api/messages?since=${since}`
+  async getMessages(query: MessageQuery = {}): Promise<MessagePage> {
+    const params = new URLSearchParams()
+    if (query.since) params.set('since', String(query.since))
+    if (query.before) params.set('before', query.before)
+    if (query.after) params.set('after', query.after)
+    if (query.limit) params.set('limit', String(query.limit))
+    if (query.changedSince !== undefined) params.set('changedSince', String(query.changedSince))
+
+    const queryString = params.toString()
+    const base = query.channelId
+      ? `${this.backendUrl}/api/channels/${encodeURIComponent(query.channelId)}/messages`
       : `${this.backendUrl}/api/messages`
+    const url = queryString ? `${base}?${queryString}` : base
 
     const response = await fetch(url)
     
@@ -32,8 +41,25 @@ export class MessageAPI {
       throw new Error(`Failed to get messages: ${response.statusText}`)
     }
 
+    return response.json()
+  }
+
+  async searchMessages(query: string, options: MessageSearchOptions = {}): Promise<MessageSearchResult[]> {
+    const params = new URLSearchParams({ q: query })
+    if (options.author) params.set('author', options.author)
+    if (options.channelId) params.set('channelId', options.channelId)
+    if (options.since) params.set('since', String(options.since))
+    if (options.until) params.set('until', String(options.until))
+    if (options.limit) params.set('limit', String(options.limit))
+
+    const response = await fetch(`${this.backendUrl}/api/messages/search?${params}`)
+
+    if (!response.ok) {
+      throw new Error(`Failed to search messages: ${response.statusText}`)
+    }
+
     const data = await response.json()
-    return data.messages
+    return data.results
   }
 
   async getMessage(id: string): Promise<Message> {
@@ -46,6 +72,60 @@ export class MessageAPI {
     return response.json()
   }
 
+  async getThread(id: string): Promise<MessageThread> {
+    const response = await fetch(`${this.backendUrl}/api/messages/${id}/thread`)
+
+    if (!response.ok) {
+      throw new Error(`Failed to get thread: ${response.statusText}`)
+    }
+
+    return response.json()
+  }
+
+  async editMessage(id: string, content: string): Promise<Message> {
+    const response = await fetch(`${this.backendUrl}/api/messages/${id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ content })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to edit message: ${response.statusText}`)
+    }
+
+    return response.json()
+  }
+
+  async deleteMessage(id: string): Promise<void> {
+    const response = await fetch(`${this.backendUrl}/api/messages/${id}`, {
+      method: 'DELETE'
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete message: ${response.statusText}`)
+    }
+  }
+
+  // Returns the IDs the backend actually acknowledged (skipping own and already-read messages)
+  async markRead(messageIds: string[]): Promise<string[]> {
+    const response = await fetch(`${this.backendUrl}/api/messages/read`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ messageIds })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to mark messages read: ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    return data.messageIds
+  }
+
   async addReaction(messageId: string, emoji: string): Promise<void> {
     const response = await fetch(`${this.backendUrl}/api/messages/${messageId}/reactions`, {
       method: 'POST',
@@ -69,4 +149,60 @@ export class MessageAPI {
       throw new Error(`Failed to remove reaction: ${response.statusText}`)
     }
   }
-}
\ No newline at end of file
+
+  async getChannels(): Promise<Channel[]> {
+    const response = await fetch(`${this.backendUrl}/api/channels`)
+
+    if (!response.ok) {
+      throw new Error(`Failed to get channels: ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    return data.channels
+  }
+
+  async createChannel(name: string): Promise<Channel> {
+    const response = await fetch(`${this.backendUrl}/api/channels`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ name })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to create channel: ${response.statusText}`)
+    }
+
+    return response.json()
+  }
+
+  async updateChannel(id: string, changes: { name?: string, archived?: boolean }): Promise<Channel> {
+    const response = await fetch(`${this.backendUrl}/api/channels/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(changes)
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to update channel: ${response.statusText}`)
+    }
+
+    return response.json()
+  }
+
+  async setChannelMembership(id: string, joined: boolean): Promise<Channel> {
+    const action = joined ? 'join' : 'leave'
+    const response = await fetch(`${this.backendUrl}/api/channels/${encodeURIComponent(id)}/${action}`, {
+      method: 'POST'
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to ${action} channel: ${response.statusText}`)
+    }
+
+    return response.json()
+  }
+}
@@ -0,0 +1,50 @@
+import type { PeerPresence } from '../types/presence'
+
+/**
+ * Typing indicators and presence; these are ephemeral and never stored
+ */
+export class PresenceAPI {
+  private backendUrl: string
+
+  constructor(backendUrl: string) {
+    this.backendUrl = backendUrl
+  }
+
+  async setTyping(channelId: string, typing: boolean): Promise<void> {
+    const response = await fetch(`${this.backendUrl}/api/typing`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ channelId, typing })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to send typing indicator: ${response.statusText}`)
+    }
+  }
+
+  async getPresence(): Promise<PeerPresence[]> {
+    const response = await fetch(`${this.backendUrl}/api/presence`)
+
+    if (!response.ok) {
+      throw new Error(`Failed to get presence: ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    return data.peers
+  }
+
+  // Server-sent events; EventSource reconnects on its own if the backend restarts
+  subscribe(onUpdate: (peers: PeerPresence[]) => void): () => void {
+    const source = new EventSource(`${this.backendUrl}/api/presence/stream`)
+    source.onmessage = (event) => {
+      try {
+        onUpdate(JSON.parse(event.data).peers)
+      } catch (error) {
+        console.error('[PresenceAPI] Bad presence update:', error)
+      }
+    }
+    return () => source.close()
+  }
+}
@@ -0,0 +1,107 @@
+import { useState } from 'react'
+import type { Channel } from '../types/message'
+
+export interface ChannelSidebarProps {
+  deviceId: string
+  channels: Channel[]
+  activeChannelId: string
+  onSelect: (channelId: string) => void
+  onCreate: (name: string) => void
+  onUpdate: (channelId: string, changes: { name?: string, archived?: boolean }) => void
+  onSetMembership: (channelId: string, joined: boolean) => void
+}
+
+/**
+ * Channel list shown beside a device's messages
+ * Only a channel's creator can rename or archive it; anyone can join or leave.
+ */
+export function ChannelSidebar({ deviceId, channels, activeChannelId, onSelect, onCreate, onUpdate, onSetMembership }: ChannelSidebarProps) {
+  const [creating, setCreating] = useState(false)
+  const [newName, setNewName] = useState('')
+
+  const submitNewChannel = () => {
+    const name = newName.trim()
+    if (name) {
+      onCreate(name)
+    }
+    setCreating(false)
+    setNewName('')
+  }
+
+  const handleRename = (channel: Channel) => {
+    const name = window.prompt('Rename channel', channel.name)?.trim()
+    if (name && name !== channel.name) {
+      onUpdate(channel.id, { name })
+    }
+  }
+
+  return (
+    <div className="channel-sidebar" data-testid={`channels-${deviceId}`}>
+      <div className="channel-sidebar-header">
+        <span>Channels</span>
+        <button
+          className="channel-add-button"
+          onClick={() => setCreating(true)}
+          title="New channel"
+          aria-label="New channel"
+        >
+          +
+        </button>
+      </div>
+      {creating && (
+        <input
+          className="channel-name-input"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') submitNewChannel()
+            if (e.key === 'Escape') setCreating(false)
+          }}
+          onBlur={submitNewChannel}
+          placeholder="channel name"
+          autoFocus
+        />
+      )}
+      <div className="channel-list">
+        {channels.map(channel => {
+          const isCreator = channel.createdBy === deviceId
+          const isMember = channel.members.includes(deviceId)
+          return (
+            <div
+              key={channel.id}
+              className={`channel-item ${channel.id === activeChannelId ? 'active' : ''} ${channel.archived ? 'archived' : ''}`}
+            >
+              <button className="channel-name" onClick={() => onSelect(channel.id)} title={channel.archived ? 'Archived' : channel.name}>
+                # {channel.name}
+              </button>
+              {channel.createdBy !== null && (
+                <span className="channel-actions">
+                  {isCreator ? (
+                    <>
+                      <button onClick={() => handleRename(channel)} title="Rename channel" aria-label="Rename channel">✏️</button>
+                      <button
+                        onClick={() => onUpdate(channel.id, { archived: !channel.archived })}
+                        title={channel.archived ? 'Unarchive channel' : 'Archive channel'}
+                        aria-label={channel.archived ? 'Unarchive channel' : 'Archive channel'}
+                      >
+                        {channel.archived ? '📤' : '📥'}
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => onSetMembership(channel.id, !isMember)}
+                      title={isMember ? 'Leave channel' : 'Join channel'}
+                      aria-label={isMember ? 'Leave channel' : 'Join channel'}
+                    >
+                      {isMember ? '👋' : '➕'}
+                    </button>
+                  )}
+                </span>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
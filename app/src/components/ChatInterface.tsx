@@ -1,7 +1,10 @@
 import { useState, useEffect, forwardRef, useImperativeHandle, useRef } from 'react'
 import { BackendAdapter } from '../api/BackendAdapter'
 import { EmojiPicker } from './EmojiPicker'
-import type { Message, FileAttachment } from '../types/message'
+import { ChannelSidebar } from './ChannelSidebar'
+import type { Message, Channel, FileAttachment, MessageSearchResult, MessageThread } from '../types/message'
+import type { PeerPresence } from '../types/presence'
+import type { PeerSyncStatus, PeerLink } from '../api/BackendStatsAPI'
 
 // Utility function for formatting file sizes
 const formatFileSize = (bytes: number): string => {
@@ -12,6 +15,19 @@ const formatFileSize = (bytes: number): string => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i]
 }
 
+// Render a search snippet with its matched ranges wrapped in <mark>
+const renderSnippet = (result: MessageSearchResult) => {
+  const parts: React.ReactNode[] = []
+  let position = 0
+  result.highlights.forEach(([start, end], index) => {
+    if (start > position) parts.push(result.snippet.slice(position, start))
+    parts.push(<mark key={index}>{result.snippet.slice(start, end)}</mark>)
+    position = end
+  })
+  if (position < result.snippet.length) parts.push(result.snippet.slice(position))
+  return parts
+}
+
 interface ChatInterfaceProps {
   deviceId: string
   currentSimTime: number
@@ -19,7 +35,7 @@ interface ChatInterfaceProps {
   imageAttachmentPercentage: number
   onManualMessage: (deviceId: string, content: string, attachments?: FileAttachment[]) => void
   backendAdapter?: BackendAdapter
-  databaseStats?: { eventCount: number, syncPercentage: number }
+  databaseStats?: { eventCount: number, syncPercentage: number, peers: PeerSyncStatus[], links: PeerLink[] }
   isOnline?: boolean
   onToggleOnline?: (deviceId: string, isOnline: boolean) => void
 }
@@ -36,8 +52,22 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
     const [showEmojiPicker, setShowEmojiPicker] = useState(false)
     const [emojiPickerMessageId, setEmojiPickerMessageId] = useState<string | null>(null)
     const [emojiPickerPosition, setEmojiPickerPosition] = useState<{ x: number, y: number } | undefined>()
+    const [loadingOlder, setLoadingOlder] = useState(false)
+    const [showSearch, setShowSearch] = useState(false)
+    const [searchQuery, setSearchQuery] = useState('')
+    const [searchResults, setSearchResults] = useState<MessageSearchResult[] | null>(null)
+    const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
+    const [editValue, setEditValue] = useState('')
+    const [replyingTo, setReplyingTo] = useState<Message | null>(null)
+    const [threadMessageId, setThreadMessageId] = useState<string | null>(null)
+    const [thread, setThread] = useState<MessageThread<Message> | null>(null)
+    const [channels, setChannels] = useState<Channel[]>([])
+    const [activeChannelId, setActiveChannelId] = useState(() => backendAdapter?.getChannelId() ?? 'general')
+    const [peers, setPeers] = useState<PeerPresence[]>([])
     const fileInputRef = useRef<HTMLInputElement>(null)
     const messagesContainerRef = useRef<HTMLDivElement>(null)
+    // Scroll height before older messages were prepended, used to keep the view anchored
+    const prependScrollHeightRef = useRef<number | null>(null)
 
     // Subscribe to backend message updates
     useEffect(() => {
@@ -49,7 +79,7 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
       console.log(`[ChatInterface ${deviceId}] Starting message polling with backend adapter`)
       
       // Poll backend for messages
-      backendAdapter.startPolling((newMessages) => {
+      backendAdapter.startPolling((newMessages, deletedIds) => {
         console.log(`[ChatInterface ${deviceId}] Received ${newMessages.length} new messages from backend`)
         setMessages(prevMessages => {
           // Convert backend messages to our Message format
@@ -61,7 +91,13 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
             author: msg.author,
             fromSimulation: false,
             attachments: msg.attachments,
-            reactions: msg.reactions
+            reactions: msg.reactions,
+            editedAt: msg.editedAt,
+            editHistory: msg.editHistory,
+            replyTo: msg.replyTo,
+            replyCount: msg.replyCount,
+            channelId: msg.channelId,
+            receipts: msg.receipts
           }))
           
           // Create a map of all messages by ID for efficient lookup
@@ -77,6 +113,9 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
             messageMap.set(msg.id, msg)
           })
           
+          // Drop messages retracted by their author
+          deletedIds.forEach(id => messageMap.delete(id))
+          
           const finalMessages = Array.from(messageMap.values()).sort((a, b) => a.timestamp - b.timestamp)
           console.log(`[ChatInterface ${deviceId}] Total messages after update: ${finalMessages.length}`)
           
@@ -90,13 +129,150 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
       }
     }, [backendAdapter])
 
-    // Auto-scroll to bottom when messages change
+    // Channels arrive through sync like messages do, so keep the list fresh
     useEffect(() => {
-      if (messagesContainerRef.current) {
-        messagesContainerRef.current.scrollTop = messagesContainerRef.current.scrollHeight
+      if (!backendAdapter) return
+      
+      const loadChannels = async () => {
+        try {
+          setChannels(await backendAdapter.getChannels())
+        } catch (error) {
+          console.error('[ChatInterface] Failed to load channels:', error)
+        }
+      }
+      
+      loadChannels()
+      const interval = setInterval(loadChannels, 2000)
+      return () => clearInterval(interval)
+    }, [backendAdapter])
+
+    const handleSelectChannel = (channelId: string) => {
+      if (!backendAdapter || channelId === activeChannelId) return
+      
+      backendAdapter.setChannel(channelId)
+      setActiveChannelId(channelId)
+      setMessages([])
+      setReplyingTo(null)
+      setThreadMessageId(null)
+      setEditingMessageId(null)
+    }
+
+    const refreshChannel = (updated: Channel | null) => {
+      if (updated) {
+        setChannels(prev => prev.some(c => c.id === updated.id)
+          ? prev.map(c => c.id === updated.id ? updated : c)
+          : [...prev, updated])
+      }
+    }
+
+    const handleCreateChannel = async (name: string) => {
+      if (!backendAdapter) return
+      try {
+        const channel = await backendAdapter.createChannel(name)
+        refreshChannel(channel)
+        if (channel) handleSelectChannel(channel.id)
+      } catch (error) {
+        console.error('[ChatInterface] Failed to create channel:', error)
+      }
+    }
+
+    const handleUpdateChannel = async (channelId: string, changes: { name?: string, archived?: boolean }) => {
+      if (!backendAdapter) return
+      try {
+        refreshChannel(await backendAdapter.updateChannel(channelId, changes))
+      } catch (error) {
+        console.error('[ChatInterface] Failed to update channel:', error)
+      }
+    }
+
+    const handleSetMembership = async (channelId: string, joined: boolean) => {
+      if (!backendAdapter) return
+      try {
+        refreshChannel(await backendAdapter.setChannelMembership(channelId, joined))
+      } catch (error) {
+        console.error('[ChatInterface] Failed to update channel membership:', error)
+      }
+    }
+
+    const activeChannel = channels.find(c => c.id === activeChannelId)
+
+    // Presence and typing are pushed by the backend as they change
+    useEffect(() => {
+      if (!backendAdapter) return
+      return backendAdapter.subscribePresence(setPeers)
+    }, [backendAdapter])
+
+    const typingPeers = peers.filter(peer => peer.typingIn === activeChannelId).map(peer => peer.deviceId)
+
+    const handleInputChange = (value: string) => {
+      setInputValue(value)
+      backendAdapter?.setTyping(value.trim().length > 0)
+    }
+
+    // Everything loaded in the open chat counts as seen
+    useEffect(() => {
+      if (!backendAdapter) return
+      backendAdapter.markRead(messages
+        .filter(msg => !msg.isOwn && !msg.fromSimulation && !msg.id.startsWith('temp-'))
+        .map(msg => msg.id))
+    }, [messages, backendAdapter])
+
+    // Sent, delivered or read, from the other devices' receipts
+    const renderReceiptTicks = (message: Message) => {
+      if (message.id.startsWith('temp-')) return null
+      const receipts = message.receipts || []
+      const readBy = receipts.filter(r => r.readAt !== undefined).map(r => r.device)
+      const deliveredTo = receipts.map(r => r.device)
+      const [ticks, status, title] = readBy.length > 0
+        ? ['✓✓', 'read', `Read by ${readBy.join(', ')}`]
+        : deliveredTo.length > 0
+          ? ['✓✓', 'delivered', `Delivered to ${deliveredTo.join(', ')}`]
+          : ['✓', 'sent', 'Sent']
+      return (
+        <span className={`message-receipt ${status}`} title={title} data-testid="message-receipt">
+          {ticks}
+        </span>
+      )
+    }
+
+    // Auto-scroll to bottom when messages change, unless older history was just prepended
+    useEffect(() => {
+      const container = messagesContainerRef.current
+      if (!container) return
+      
+      if (prependScrollHeightRef.current !== null) {
+        container.scrollTop = container.scrollHeight - prependScrollHeightRef.current
+        prependScrollHeightRef.current = null
+      } else {
+        container.scrollTop = container.scrollHeight
       }
     }, [messages])
 
+    // Infinite scroll: load the previous page when scrolled to the top
+    const handleMessagesScroll = async () => {
+      const container = messagesContainerRef.current
+      if (!container || !backendAdapter || loadingOlder) return
+      if (container.scrollTop > 50 || !backendAdapter.hasOlderMessages()) return
+      
+      setLoadingOlder(true)
+      try {
+        const olderMessages = await backendAdapter.loadOlderMessages()
+        if (olderMessages.length > 0) {
+          prependScrollHeightRef.current = container.scrollHeight
+          setMessages(prev => {
+            const messageMap = new Map<string, Message>()
+            olderMessages.forEach(msg => messageMap.set(msg.id, { ...msg, fromSimulation: false }))
+            prev.forEach(msg => messageMap.set(msg.id, msg))
+            return Array.from(messageMap.values()).sort((a, b) => a.timestamp - b.timestamp)
+          })
+        }
+      } catch (error) {
+        console.error('[ChatInterface] Failed to load older messages:', error)
+      } finally {
+        setLoadingOlder(false)
+      }
+    }
+
     useImperativeHandle(ref, () => ({
       handleSimulationMessage: (content: string, attachments?: any[]) => {
         // Convert simulation engine attachments to UI format
@@ -164,6 +340,7 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
       
       const content = inputValue.trim()
       const files = selectedFiles.length > 0 ? selectedFiles : undefined
+      const replyTo = replyingTo?.id
       
       try {
         if (backendAdapter) {
@@ -175,12 +352,16 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
             timestamp: Date.now(),
             isOwn: true,
             author: deviceId,
-            attachments: files
+            attachments: files,
+            replyTo,
+            channelId: activeChannelId
           }
           setMessages(prev => [...prev, optimisticMessage])
           
+          backendAdapter.setTyping(false)
+          
           // Send to backend and get the real message with ID
-          const sentMessage = await backendAdapter.sendMessage(content, files)
+          const sentMessage = await backendAdapter.sendMessage(content, files, replyTo)
           
           if (sentMessage) {
             // Replace the temporary message with the real one
@@ -197,6 +378,7 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
         
         setInputValue('')
         setSelectedFiles([])
+        setReplyingTo(null)
       } catch (error) {
         console.error('[ChatInterface] Failed to send message:', error)
       }
@@ -234,6 +416,121 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
       }
     }
 
+    const startEditing = (message: Message) => {
+      setEditingMessageId(message.id)
+      setEditValue(message.content)
+    }
+
+    const cancelEditing = () => {
+      setEditingMessageId(null)
+      setEditValue('')
+    }
+
+    const handleSaveEdit = async () => {
+      const content = editValue.trim()
+      const original = messages.find(msg => msg.id === editingMessageId)
+      if (!backendAdapter || !original || !content || content === original.content) {
+        cancelEditing()
+        return
+      }
+      
+      try {
+        const edited = await backendAdapter.editMessage(original.id, content)
+        if (edited) {
+          setMessages(prev => prev.map(msg => msg.id === edited.id ? { ...msg, ...edited, attachments: msg.attachments } : msg))
+        }
+        cancelEditing()
+      } catch (error) {
+        console.error('[ChatInterface] Failed to edit message:', error)
+      }
+    }
+
+    const handleDeleteMessage = async (messageId: string) => {
+      if (!backendAdapter || !window.confirm('Delete this message for everyone?')) {
+        return
+      }
+      
+      try {
+        await backendAdapter.deleteMessage(messageId)
+        setMessages(prev => prev.filter(msg => msg.id !== messageId))
+      } catch (error) {
+        console.error('[ChatInterface] Failed to delete message:', error)
+      }
+    }
+
+    const handleEditKeyDown = (e: React.KeyboardEvent) => {
+      if (e.key === 'Enter') {
+        handleSaveEdit()
+      } else if (e.key === 'Escape') {
+        cancelEditing()
+      }
+    }
+
+    // Debounced search against the backend index
+    useEffect(() => {
+      const query = searchQuery.trim()
+      if (!backendAdapter || !query) {
+        setSearchResults(null)
+        return
+      }
+      
+      const timer = setTimeout(async () => {
+        try {
+          setSearchResults(await backendAdapter.searchMessages(query))
+        } catch (error) {
+          console.error('[ChatInterface] Search failed:', error)
+        }
+      }, 300)
+      
+      return () => clearTimeout(timer)
+    }, [searchQuery, backendAdapter])
+
+    const closeSearch = () => {
+      setShowSearch(false)
+      setSearchQuery('')
+      setSearchResults(null)
+    }
+
+    const handleSearchResultClick = (messageId: string) => {
+      const element = messagesContainerRef.current?.querySelector(`[data-message-id="${messageId}"]`)
+      if (element) {
+        element.scrollIntoView({ block: 'center' })
+        element.classList.add('search-hit')
+        setTimeout(() => element.classList.remove('search-hit'), 2000)
+      }
+      closeSearch()
+    }
+
+    // Keep an open thread current as replies, edits and deletions arrive
+    useEffect(() => {
+      if (!backendAdapter || !threadMessageId) {
+        setThread(null)
+        return
+      }
+      
+      let cancelled = false
+      backendAdapter.getThread(threadMessageId)
+        .then(result => {
+          if (!cancelled) setThread(result)
+        })
+        .catch(error => {
+          console.error('[ChatInterface] Failed to load thread:', error)
+          if (!cancelled) setThreadMessageId(null)
+        })
+      
+      return () => {
+        cancelled = true
+      }
+    }, [threadMessageId, messages, backendAdapter])
+
+    const startReply = (message: Message) => {
+      setReplyingTo(message)
+      setEditingMessageId(null)
+    }
+
+    const truncate = (text: string, length: number = 60) =>
+      text.length > length ? `${text.slice(0, length)}…` : text
+
     const formatTime = (ms: number) => {
       const date = new Date(Date.now() - 1000000 + ms) // Fake timestamp for display
       return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
@@ -264,115 +561,291 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
               <span className="status-indicator messages">
                 {messages.length} messages
               </span>
+              {peers.map(peer => (
+                <span
+                  key={peer.deviceId}
+                  className={`status-indicator peer ${peer.online ? 'online' : 'offline'}`}
+                  title={`Last seen ${new Date(peer.lastSeen).toLocaleString()}`}
+                >
+                  {peer.online
+                    ? `● ${peer.deviceId}`
+                    : `○ ${peer.deviceId} · seen ${new Date(peer.lastSeen).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                </span>
+              ))}
             </div>
           </div>
+          {backendAdapter && (
+            <button
+              className="search-toggle-button"
+              onClick={() => (showSearch ? closeSearch() : setShowSearch(true))}
+              title="Search messages"
+              aria-label="Search messages"
+            >
+              🔍
+            </button>
+          )}
         </div>
         
-        <div className="chat-messages" ref={messagesContainerRef}>
-          {messages.length === 0 ? (
-            <div className="no-messages">
-              <p>No messages yet</p>
-              <small>Messages will appear here as they are generated or sent</small>
-            </div>
-          ) : (
-            messages.map((message) => (
-              <div 
-                key={message.id} 
-                className={`message ${message.isOwn ? 'sent' : 'received'}`}
-              >
-                {!message.isOwn && message.author && (
-                  <div className="message-author">{message.author}</div>
+        {showSearch && (
+          <div className="chat-search" data-testid={`search-${deviceId}`}>
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && closeSearch()}
+              placeholder='Search: words, "exact phrase", prefix*'
+              className="search-input"
+              autoFocus
+            />
+            {searchResults && (
+              <div className="search-results">
+                {searchResults.length === 0 ? (
+                  <div className="search-empty">No matches</div>
+                ) : (
+                  searchResults.map(result => (
+                    <button
+                      key={result.id}
+                      className="search-result"
+                      onClick={() => handleSearchResultClick(result.id)}
+                    >
+                      <span className="search-result-author">{result.author}</span>
+                      <span className="search-result-snippet">{renderSnippet(result)}</span>
+                    </button>
+                  ))
                 )}
-                <div className="message-bubble">
-                  {message.content && (
-                    <div className="message-content">{message.content}</div>
+              </div>
+            )}
+          </div>
+        )}
+        
+        {thread && (
+          <div className="thread-panel" data-testid={`thread-${deviceId}`}>
+            <div className="thread-header">
+              <span>Thread · {thread.messages.length} messages</span>
+              <button className="thread-close" onClick={() => setThreadMessageId(null)} aria-label="Close thread">
+                ×
+              </button>
+            </div>
+            {thread.missingParentId && (
+              <div className="thread-missing-parent">Earlier messages in this thread haven't synced yet</div>
+            )}
+            <div className="thread-messages">
+              {thread.messages.map(threadMessage => (
+                <div
+                  key={threadMessage.id}
+                  className={`thread-message ${threadMessage.id === thread.rootId ? 'root' : ''}`}
+                >
+                  <span className="thread-message-author">{threadMessage.author}</span>
+                  <span className="thread-message-time">{formatTime(threadMessage.timestamp)}</span>
+                  <div className="thread-message-content">{threadMessage.content}</div>
+                  <button className="thread-reply-button" onClick={() => startReply(threadMessage)}>
+                    Reply
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        
+        <div className="chat-body">
+          {backendAdapter && (
+            <ChannelSidebar
+              deviceId={deviceId}
+              channels={channels}
+              activeChannelId={activeChannelId}
+              onSelect={handleSelectChannel}
+              onCreate={handleCreateChannel}
+              onUpdate={handleUpdateChannel}
+              onSetMembership={handleSetMembership}
+            />
+          )}
+          <div className="chat-messages" ref={messagesContainerRef} onScroll={handleMessagesScroll}>
+            {loadingOlder && (
+              <div className="loading-older" data-testid="loading-older">Loading older messages...</div>
+            )}
+            {messages.length === 0 ? (
+              <div className="no-messages">
+                <p>No messages yet</p>
+                <small>Messages will appear here as they are generated or sent</small>
+              </div>
+            ) : (
+              messages.map((message) => (
+                <div 
+                  key={message.id} 
+                  data-message-id={message.id}
+                  className={`message ${message.isOwn ? 'sent' : 'received'}`}
+                >
+                  {!message.isOwn && message.author && (
+                    <div className="message-author">{message.author}</div>
                   )}
-                  {message.attachments && message.attachments.length > 0 && (
-                    <div className="message-attachments">
-                      {message.attachments.map((attachment) => (
-                        <div key={attachment.id} className="attachment">
-                          {attachment.type === 'image' && attachment.loadingState === 'loaded' && (
-                            <div className="image-attachment">
-                              <img 
-                                src={attachment.url} 
-                                alt={attachment.name}
-                                className="attachment-image"
-                                onError={(e) => {
-                                  e.currentTarget.style.display = 'none'
-                                  const nextEl = e.currentTarget.nextElementSibling as HTMLElement
-                                  if (nextEl) nextEl.style.display = 'block'
-                                }}
-                              />
-                              <div className="image-error" style={{display: 'none'}}>
-                                <span>📷 {attachment.name}</span>
-                                <small>{Math.round(attachment.size / 1024)}KB</small>
-                              </div>
-                            </div>
+                  <div className="message-bubble">
+                    {message.replyTo && (() => {
+                      const parent = messages.find(msg => msg.id === message.replyTo)
+                      return (
+                        <button
+                          className="quoted-parent"
+                          onClick={() => setThreadMessageId(message.id)}
+                          title="View thread"
+                        >
+                          {parent ? (
+                            <>
+                              <span className="quoted-parent-author">{parent.author}</span>
+                              <span className="quoted-parent-content">{truncate(parent.content)}</span>
+                            </>
+                          ) : (
+                            <span className="quoted-parent-content">Replying to an earlier message</span>
                           )}
-                          {attachment.type === 'image' && attachment.loadingState === 'loading' && (
-                            <div className="image-loading">
-                              <div className="loading-spinner"></div>
-                              <span>Loading {attachment.name}...</span>
-                              {attachment.loadingProgress && (
-                                <div className="progress-bar">
-                                  <div 
-                                    className="progress-fill" 
-                                    style={{width: `${attachment.loadingProgress}%`}}
-                                  ></div>
+                        </button>
+                      )
+                    })()}
+                    {editingMessageId === message.id ? (
+                      <div className="message-edit">
+                        <input
+                          type="text"
+                          value={editValue}
+                          onChange={(e) => setEditValue(e.target.value)}
+                          onKeyDown={handleEditKeyDown}
+                          className="message-edit-input"
+                          autoFocus
+                        />
+                        <div className="message-edit-actions">
+                          <button onClick={handleSaveEdit}>Save</button>
+                          <button onClick={cancelEditing}>Cancel</button>
+                        </div>
+                      </div>
+                    ) : message.content && (
+                      <div className="message-content">{message.content}</div>
+                    )}
+                    {message.attachments && message.attachments.length > 0 && (
+                      <div className="message-attachments">
+                        {message.attachments.map((attachment) => (
+                          <div key={attachment.id} className="attachment">
+                            {attachment.type === 'image' && attachment.loadingState === 'loaded' && (
+                              <div className="image-attachment">
+                                <img 
+                                  src={attachment.url} 
+                                  alt={attachment.name}
+                                  className="attachment-image"
+                                  onError={(e) => {
+                                    e.currentTarget.style.display = 'none'
+                                    const nextEl = e.currentTarget.nextElementSibling as HTMLElement
+                                    if (nextEl) nextEl.style.display = 'block'
+                                  }}
+                                />
+                                <div className="image-error" style={{display: 'none'}}>
+                                  <span>📷 {attachment.name}</span>
+                                  <small>{Math.round(attachment.size / 1024)}KB</small>
                                 </div>
-                              )}
-                            </div>
-                          )}
-                          {attachment.type !== 'image' && (
-                            <div className="file-attachment">
-                              <span className="file-icon">📄</span>
-                              <div className="file-info">
-                                <span className="file-name">{attachment.name}</span>
-                                <small className="file-size">{Math.round(attachment.size / 1024)}KB</small>
                               </div>
-                            </div>
-                          )}
-                        </div>
-                      ))}
+                            )}
+                            {attachment.type === 'image' && attachment.loadingState === 'loading' && (
+                              <div className="image-loading">
+                                <div className="loading-spinner"></div>
+                                <span>Loading {attachment.name}...</span>
+                                {attachment.loadingProgress && (
+                                  <div className="progress-bar">
+                                    <div 
+                                      className="progress-fill" 
+                                      style={{width: `${attachment.loadingProgress}%`}}
+                                    ></div>
+                                  </div>
+                                )}
+                              </div>
+                            )}
+                            {attachment.type !== 'image' && (
+                              <div className="file-attachment">
+                                <span className="file-icon">📄</span>
+                                <div className="file-info">
+                                  <span className="file-name">{attachment.name}</span>
+                                  <small className="file-size">{Math.round(attachment.size / 1024)}KB</small>
+                                </div>
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {!!message.replyCount && (
+                      <button className="thread-link" onClick={() => setThreadMessageId(message.id)}>
+                        {message.replyCount} {message.replyCount === 1 ? 'reply' : 'replies'}
+                      </button>
+                    )}
+                    <div className="message-time">
+                      {formatTime(message.timestamp)}
+                      {message.editedAt && (
+                        <span
+                          className="message-edited"
+                          title={(message.editHistory || [])
+                            .map(version => `${formatTime(version.timestamp)}: ${version.content}`)
+                            .join('\n')}
+                        >
+                          {' '}· edited
+                        </span>
+                      )}
+                      {message.isOwn && backendAdapter && renderReceiptTicks(message)}
                     </div>
-                  )}
-                  <div className="message-time">
-                    {formatTime(message.timestamp)}
+                    {(message.reactions && message.reactions.length > 0) && (
+                      <div className="message-reactions">
+                        {Object.entries(
+                          message.reactions.reduce((acc, reaction) => {
+                            if (!acc[reaction.emoji]) acc[reaction.emoji] = []
+                            acc[reaction.emoji].push(reaction.author)
+                            return acc
+                          }, {} as Record<string, string[]>)
+                        ).map(([emoji, authors]) => {
+                          const hasReacted = authors.includes(deviceId)
+                          return (
+                            <button
+                              key={emoji}
+                              className={`reaction-badge ${hasReacted ? 'own' : ''}`}
+                              onClick={() => handleReactionClick(message.id, emoji, hasReacted)}
+                            >
+                              <span>{emoji}</span>
+                              <span className="reaction-count">{authors.length}</span>
+                            </button>
+                          )
+                        })}
+                      </div>
+                    )}
                   </div>
-                  {(message.reactions && message.reactions.length > 0) && (
-                    <div className="message-reactions">
-                      {Object.entries(
-                        message.reactions.reduce((acc, reaction) => {
-                          if (!acc[reaction.emoji]) acc[reaction.emoji] = []
-                          acc[reaction.emoji].push(reaction.author)
-                          return acc
-                        }, {} as Record<string, string[]>)
-                      ).map(([emoji, authors]) => {
-                        const hasReacted = authors.includes(deviceId)
-                        return (
-                          <button
-                            key={emoji}
-                            className={`reaction-badge ${hasReacted ? 'own' : ''}`}
-                            onClick={() => handleReactionClick(message.id, emoji, hasReacted)}
-                          >
-                            <span>{emoji}</span>
-                            <span className="reaction-count">{authors.length}</span>
-                          </button>
-                        )
-                      })}
-                    </div>
+                  <button
+                    className="add-reaction-button"
+                    onClick={(e) => handleAddReaction(message.id, e)}
+                    title="Add reaction"
+                  >
+                    😊
+                  </button>
+                  {backendAdapter && !message.id.startsWith('temp-') && (
+                    <button
+                      className="reply-message-button"
+                      onClick={() => startReply(message)}
+                      title="Reply"
+                    >
+                      ↩️
+                    </button>
+                  )}
+                  {message.isOwn && backendAdapter && !message.id.startsWith('temp-') && editingMessageId !== message.id && (
+                    <button
+                      className="edit-message-button"
+                      onClick={() => startEditing(message)}
+                      title="Edit message"
+                    >
+                      ✏️
+                    </button>
+                  )}
+                  {message.isOwn && backendAdapter && !message.id.startsWith('temp-') && editingMessageId !== message.id && (
+                    <button
+                      className="delete-message-button"
+                      onClick={() => handleDeleteMessage(message.id)}
+                      title="Delete message"
+                    >
+                      🗑️
+                    </button>
                   )}
                 </div>
-                <button
-                  className="add-reaction-button"
-                  onClick={(e) => handleAddReaction(message.id, e)}
-                  title="Add reaction"
-                >
-                  😊
-                </button>
-              </div>
-            ))
-          )}
+              ))
+            )}
+          </div>
         </div>
         
         {selectedFiles.length > 0 && (
@@ -424,6 +897,22 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
           </div>
         )}
         
+        {typingPeers.length > 0 && (
+          <div className="typing-indicator" data-testid={`typing-${deviceId}`}>
+            {typingPeers.join(', ')} {typingPeers.length === 1 ? 'is' : 'are'} typing…
+          </div>
+        )}
+        
+        {replyingTo && (
+          <div className="reply-preview">
+            <span className="reply-preview-label">Replying to {replyingTo.author}:</span>
+            <span className="reply-preview-content">{truncate(replyingTo.content)}</span>
+            <button className="reply-preview-cancel" onClick={() => setReplyingTo(null)} aria-label="Cancel reply">
+              ×
+            </button>
+          </div>
+        )}
+        
         <div className="chat-input">
           <input
             type="file"
@@ -437,9 +926,10 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
             <input
               type="text"
               value={inputValue}
-              onChange={(e) => setInputValue(e.target.value)}
+              onChange={(e) => handleInputChange(e.target.value)}
               onKeyPress={handleKeyPress}
-              placeholder={`Type a message as ${deviceId}...`}
+              placeholder={activeChannel?.archived ? `#${activeChannel.name} is archived` : `Type a message as ${deviceId}...`}
+              disabled={activeChannel?.archived}
               className="message-input"
             />
             <button
@@ -453,7 +943,7 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
           </div>
           <button
             onClick={handleSendMessage}
-            disabled={!inputValue.trim() && selectedFiles.length === 0}
+            disabled={activeChannel?.archived || (!inputValue.trim() && selectedFiles.length === 0)}
             className="send-button"
             aria-label="Send message"
           >
@@ -475,6 +965,30 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
                 <span className="db-label">Sync:</span>
                 <span className="db-value">{databaseStats.syncPercentage}%</span>
               </div>
+              {databaseStats.peers.map(peer => (
+                <div
+                  key={peer.peerId}
+                  className="db-stat db-peer-sync"
+                  title={`${peer.sharedEvents} of ${peer.localEvents} events shared, ${peer.peerId} has ${peer.peerEvents}, ${peer.pendingEvents} in flight`}
+                >
+                  <span className="db-label">{peer.peerId}:</span>
+                  <span className="db-value">{peer.syncPercentage}%</span>
+                </div>
+              ))}
+              {databaseStats.links.map(link => (
+                <div
+                  key={link.deviceId}
+                  className={`db-stat db-peer-link ${link.state}`}
+                  title={`${link.deviceId} is ${link.state} on wire v${link.wireVersion}`}
+                >
+                  <span className="db-icon">📶</span>
+                  <span className="db-label">{link.deviceId}:</span>
+                  <span className="db-value">
+                    {link.rtt === null ? link.state : `${Math.round(link.rtt)}ms`}
+                    {link.loss !== null && link.loss > 0 && `, ${Math.round(link.loss * 100)}% loss`}
+                  </span>
+                </div>
+              ))}
             </div>
             {onToggleOnline && (
               <div className="online-toggle">
@@ -8,6 +8,23 @@ export interface MessageReaction {
   timestamp: number
 }
 
+/**
+ * One device's acknowledgement of a message; readAt implies delivery
+ */
+export interface MessageReceipt {
+  device: string
+  deliveredAt: number
+  readAt?: number
+}
+
+/**
+ * One version of an edited message's content
+ */
+export interface MessageVersion {
+  content: string
+  timestamp: number
+}
+
 export interface FileAttachment {
   id: string
   type: 'image' | 'document' | 'video' | 'audio'
@@ -34,6 +51,12 @@ export interface Message {
   isOwn?: boolean // True if message was sent by current device
   attachments?: FileAttachment[]
   reactions?: MessageReaction[]
+  editedAt?: number // Timestamp of the latest edit, if any
+  editHistory?: MessageVersion[] // Every version, original first
+  replyTo?: string // ID of the parent message when this is a reply
+  replyCount?: number // Number of direct replies
+  channelId?: string // Channel the message was posted in
+  receipts?: MessageReceipt[] // Acknowledgements from other devices
   fromSimulation?: boolean // Legacy field for simulation mode
 }
 
@@ -47,4 +70,81 @@ export interface BackendMessage {
   timestamp: number
   attachments: any[] // Backend uses generic array
   reactions?: MessageReaction[]
-}
\ No newline at end of file
+  editedAt?: number
+  editHistory?: MessageVersion[]
+  replyTo?: string
+  replyCount?: number
+  channelId?: string
+  receipts?: MessageReceipt[]
+  cursor?: string // Opaque pagination cursor for this message
+}
+
+/**
+ * Cursor-paginated response from GET /api/messages
+ */
+export interface MessagePage {
+  messages: BackendMessage[]
+  nextCursor: string | null
+  hasMore: boolean
+  revision: number // Pass back as changedSince to fetch only what changed
+  deleted?: string[] // IDs deleted since changedSince, only set on changedSince queries
+}
+
+/**
+ * Channel from GET /api/channels
+ * id is the event ID of the channel's create event, or 'general' for the default channel
+ */
+export interface Channel {
+  id: string
+  name: string
+  createdBy: string | null // null for the default channel
+  createdAt: number
+  archived: boolean
+  members: string[]
+}
+
+/**
+ * Response from GET /api/messages/:id/thread
+ * messages are in causal order: root first, every reply after its parent
+ */
+export interface MessageThread<T = BackendMessage> {
+  rootId: string
+  missingParentId: string | null // Root's own parent, if it hasn't synced yet
+  messages: T[]
+}
+
+/**
+ * Query options for GET /api/messages
+ * Use either before (older history) or after (newer messages), not both.
+ * changedSince returns every message new or modified since that revision.
+ */
+export interface MessageQuery {
+  since?: number
+  before?: string
+  after?: string
+  limit?: number
+  changedSince?: number
+  channelId?: string // Only messages in this channel
+}
+
+/**
+ * Search hit from GET /api/messages/search
+ * highlights are [start, end) offsets into snippet
+ */
+export interface MessageSearchResult {
+  id: string
+  author: string
+  content: string
+  timestamp: number
+  channelId: string
+  snippet: string
+  highlights: Array<[number, number]>
+}
+
+export interface MessageSearchOptions {
+  author?: string
+  channelId?: string
+  since?: number
+  until?: number
+  limit?: number
+}
@@ -0,0 +1,9 @@
+/**
+ * Presence of a peer device, as pushed by GET /api/presence/stream
+ */
+export interface PeerPresence {
+  deviceId: string
+  online: boolean
+  lastSeen: number // Timestamp of the peer's latest typing or presence signal
+  typingIn: string | null // Channel the peer is typing in, if any
+}
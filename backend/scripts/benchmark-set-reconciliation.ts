@@ -0,0 +1,106 @@
+#!/usr/bin/env npx tsx
+/**
+ * Benchmark: IBLT and range-based set reconciliation vs the cumulative
+ * Bloom filter
+ *
+ * For each set size and difference, the receiver lacks `missing` of the
+ * sender's events. Bloom: one filter from the receiver, and how many of the
+ * missing events the sender can spot in it. IBLT: sketches starting at the
+ * sync manager's default size, growing 4x until the difference decodes.
+ * Range: a whole session of range messages, until neither side has more.
+ *
+ * Usage: npm run bench:reconcile
+ */
+import { randomBytes } from 'crypto'
+import { performance } from 'perf_hooks'
+import { CumulativeBloomFilter } from '../src/sync/BloomFilter'
+import { IBLT } from '../src/sync/IBLT'
+import { RangeReconciler } from '../src/sync/RangeReconciler'
+import type { RangeItem } from '../src/sync/RangeReconciler'
+
+const SET_SIZES = [10000, 50000, 100000]
+const DIFFERENCES = [10, 100, 1000]
+const IBLT_START_CELLS = 63
+const IBLT_MAX_CELLS = 2046
+
+const randomIds = (count: number) => Array.from({ length: count }, () => randomBytes(8).toString('hex'))
+
+function benchBloom(receiverIds: string[], missingIds: string[]) {
+  const start = performance.now()
+  const filter = new CumulativeBloomFilter()
+  receiverIds.forEach(id => filter.add(id))
+  const transmitted = filter.getFilterForTransmission()
+  const bytes = transmitted.serialize().length
+  const found = missingIds.filter(id => !filter.test(id)).length
+  return { bytes, found, fpr: transmitted.estimateFalsePositiveRate(), ms: performance.now() - start }
+}
+
+function benchIBLT(senderIds: string[], receiverIds: string[]) {
+  const start = performance.now()
+  let cells = IBLT_START_CELLS
+  let bytes = 0
+  let roundTrips = 0
+  for (;;) {
+    roundTrips++
+    const sketch = IBLT.fromEventIds(senderIds, cells).serialize()
+    bytes += sketch.length
+    const received = IBLT.deserialize(sketch)
+    const difference = IBLT.fromEventIds(receiverIds, received.cellCount).subtract(received).decode()
+    if (difference.complete || cells >= IBLT_MAX_CELLS) {
+      return { bytes, found: difference.theirs.length, exact: difference.complete, roundTrips, ms: performance.now() - start }
+    }
+    cells = Math.min(cells * 4, IBLT_MAX_CELLS)
+  }
+}
+
+function benchRange(senderItems: RangeItem[], receiverItems: RangeItem[]) {
+  const start = performance.now()
+  const sides = [new RangeReconciler(senderItems), new RangeReconciler(receiverItems)]
+  const found = new Set<string>()
+  let bytes = 0
+  let messages = 0
+  let message = sides[0].initiate()
+  for (let turn = 1; message.length > 0; turn = 1 - turn) {
+    bytes += JSON.stringify(message).length
+    messages++
+    const step = sides[turn].reconcile(message)
+    const missing = turn === 0 ? step.have : step.need
+    missing.forEach(id => found.add(id))
+    message = step.ranges
+  }
+  return { bytes, found: found.size, messages, ms: performance.now() - start }
+}
+
+const rows: Record<string, string | number>[] = []
+for (const size of SET_SIZES) {
+  const senderIds = randomIds(size)
+  for (const missing of DIFFERENCES) {
+    const receiverIds = senderIds.slice(missing)
+    const missingIds = senderIds.slice(0, missing)
+
+    const bloom = benchBloom(receiverIds, missingIds)
+    const iblt = benchIBLT(senderIds, receiverIds)
+    // A timestamp per second, the missing events being the oldest
+    const senderItems = senderIds.map((eventId, i) => ({ createdAt: 1000 + i, eventId }))
+    const range = benchRange(senderItems, senderItems.slice(missing))
+    rows.push({
+      events: size,
+      missing,
+      'bloom bytes': bloom.bytes,
+      'bloom found': `${(bloom.found / missing * 100).toFixed(1)}%`,
+      'bloom fpr': `${(bloom.fpr * 100).toFixed(1)}%`,
+      'bloom ms': bloom.ms.toFixed(0),
+      'iblt bytes': iblt.bytes,
+      'iblt found': `${(iblt.found / missing * 100).toFixed(1)}%${iblt.exact ? '' : ' (partial)'}`,
+      'iblt sketches': iblt.roundTrips,
+      'iblt ms': iblt.ms.toFixed(0),
+      'range bytes': range.bytes,
+      'range found': `${(range.found / missing * 100).toFixed(1)}%`,
+      'range messages': range.messages,
+      'range ms': range.ms.toFixed(0)
+    })
+    console.log(`[Benchmark] ${size} events, ${missing} missing done`)
+  }
+}
+
+console.table(rows)
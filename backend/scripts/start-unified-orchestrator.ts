@@ -6,6 +6,10 @@ import { UnifiedOrchestrator } from '../src/orchestrator/UnifiedOrchestrator'
 async function main() {
   const mode = process.env.MODE || 'direct-udp'
   const devices = process.env.DEVICES ? process.env.DEVICES.split(',') : ['alice', 'bob']
+  // SYNC_STRATEGIES=alice:range,bob:bloom mixes strategies; backends default to SYNC_STRATEGY
+  const syncStrategy = process.env.SYNC_STRATEGIES
+    ? Object.fromEntries(process.env.SYNC_STRATEGIES.split(',').map(entry => entry.split(':')))
+    : undefined
   
   console.log(`Starting UnifiedOrchestrator in ${mode} mode with devices: ${devices.join(', ')}`)
   
@@ -14,6 +18,7 @@ async function main() {
     mode: mode as any,
     setupTrust: true,
     syncInterval: 1000,
+    syncStrategy,
     basePort: 7000
   })
   
@@ -1,6 +1,7 @@
-import { createHash } from 'crypto'
+import { createHash, hkdfSync } from 'crypto'
 import { EventCrypto, EncryptedEvent } from './EventCrypto'
 import { KeyManager } from './KeyManager'
+import { attachmentError } from '../files/FileTransfer'
 
 export interface MessageEvent {
   type: 'message'
@@ -8,6 +9,8 @@ export interface MessageEvent {
   timestamp: number
   author: string
   attachments?: any[]
+  replyTo?: string  // event_id of the parent message in a thread
+  channelId?: string  // Omitted for the default channel
 }
 
 export interface ReactionEvent {
@@ -17,9 +20,95 @@ export interface ReactionEvent {
   author: string
   timestamp: number
   remove: boolean
+  channelId?: string
 }
 
-export type EventPayload = MessageEvent | ReactionEvent
+export interface EditEvent {
+  type: 'edit'
+  messageId: string  // event_id of the original message
+  content: string
+  author: string
+  timestamp: number
+}
+
+export interface DeleteEvent {
+  type: 'delete'
+  messageId: string  // event_id of the message being retracted
+  author: string
+  timestamp: number
+}
+
+export interface ChannelEvent {
+  type: 'channel'
+  action: 'create' | 'rename' | 'archive' | 'unarchive'
+  channelId?: string  // Omitted on create; the create event's event_id becomes the channel ID
+  name?: string  // Set on create and rename
+  author: string
+  timestamp: number
+}
+
+export interface ChannelMembershipEvent {
+  type: 'channel_membership'
+  channelId: string
+  joined: boolean
+  author: string  // The member joining or leaving
+  timestamp: number
+}
+
+export interface ReceiptEvent {
+  type: 'receipt'
+  kind: 'delivered' | 'read'
+  messageIds: string[]  // One receipt acknowledges a whole batch of messages
+  author: string  // The device acknowledging them
+  timestamp: number
+}
+
+/**
+ * Ephemeral signals travel signed and PSK-encrypted like events, but are
+ * never stored or advertised in Bloom filters
+ */
+export interface TypingSignal {
+  type: 'typing'
+  channelId: string
+  typing: boolean
+  author: string
+  timestamp: number
+}
+
+export interface PresenceSignal {
+  type: 'presence'
+  status: 'online' | 'offline'
+  author: string
+  timestamp: number
+}
+
+export type EphemeralPayload = TypingSignal | PresenceSignal
+
+/**
+ * A Bloom filter broadcast, sealed once per version and re-sent as-is
+ */
+export interface BloomFilterPayload {
+  type: 'bloom_filter'
+  version: number  // Increases with every rebuild; peers skip versions they've seen
+  filter: string  // Base64 of BloomFilter.serialize()
+  eventCount: number  // Event IDs the filter covers, purged included
+  author: string
+  timestamp: number
+}
+
+export interface MessageOptions {
+  replyTo?: string
+  channelId?: string
+}
+
+export type EventPayload =
+  | MessageEvent
+  | ReactionEvent
+  | EditEvent
+  | DeleteEvent
+  | ChannelEvent
+  | ChannelMembershipEvent
+  | ReceiptEvent
 
 export class MessageGenerator {
   private eventCrypto: EventCrypto | null = null
@@ -47,10 +136,25 @@ export class MessageGenerator {
     )
   }
 
+  /**
+   * This device's keys and known peers, e.g. for signing packets
+   */
+  getKeyManager(): KeyManager {
+    return this.keyManager
+  }
+
+  /**
+   * A key for one purpose that only community members can derive, e.g. to
+   * tag LAN announcements; never the PSK itself
+   */
+  deriveCommunityKey(purpose: string): Buffer {
+    return Buffer.from(hkdfSync('sha256', this.communityPSK, Buffer.alloc(0), `community:${purpose}`, 32))
+  }
+
   /**
    * Create a signed and encrypted message event
    */
-  async createMessage(content: string, timestamp: number, attachments?: any[]): Promise<{
+  async createMessage(content: string, timestamp: number, attachments?: any[], options: MessageOptions = {}): Promise<{
     device_id: string
     created_at: number
     received_at: number
@@ -59,6 +163,12 @@ export class MessageGenerator {
     if (!this.eventCrypto) {
       throw new Error('MessageGenerator not initialized')
     }
+    for (const attachment of attachments || []) {
+      const error = attachmentError(attachment)
+      if (error) {
+        throw new Error(`Invalid attachment: ${error}`)
+      }
+    }
     
     // Create the message payload
     const payload: MessageEvent = {
@@ -66,7 +176,9 @@ export class MessageGenerator {
       content,
       timestamp,
       author: this.deviceId,
-      attachments: attachments || []
+      attachments: attachments || [],
+      ...(options.replyTo ? { replyTo: options.replyTo } : {}),
+      ...(options.channelId ? { channelId: options.channelId } : {})
     }
 
     // Sign and encrypt the event
@@ -82,22 +194,11 @@ export class MessageGenerator {
   }
 
   /**
-   * Decrypt and verify a message event
+   * Decrypt and verify a message event, with the same author check as
+   * decryptEvent
    */
   async decryptMessage(event: { encrypted: Buffer }): Promise<MessageEvent | null> {
-    if (!this.eventCrypto) {
-      throw new Error('MessageGenerator not initialized')
-    }
-    
-    const encrypted = EventCrypto.bufferToEncryptedEvent(event.encrypted)
-    const signedEvent = await this.eventCrypto.decryptAndVerifyEvent(encrypted)
-    
-    if (!signedEvent) {
-      return null
-    }
-    
-    // Return the payload which should be a MessageEvent
-    return signedEvent.payload as MessageEvent
+    return await this.decryptEvent(event) as MessageEvent | null
   }
 
   /**
@@ -140,8 +241,63 @@ export class MessageGenerator {
       return null
     }
     
+    // The payload author must be the verified signer, so author checks
+    // (e.g. who may edit a message) can rely on payload.author
+    const payload = signedEvent.payload as EventPayload
+    if (payload.author !== signedEvent.author) {
+      console.warn(`[MessageGenerator] Payload author ${payload.author} does not match signer ${signedEvent.author}`)
+      return null
+    }
+    
     // Return the payload which could be any event type
-    return signedEvent.payload as EventPayload
+    return payload
+  }
+
+  /**
+   * Sign and encrypt an ephemeral signal for a single broadcast
+   */
+  async createEphemeral(payload: EphemeralPayload): Promise<Buffer> {
+    if (!this.eventCrypto) {
+      throw new Error('MessageGenerator not initialized')
+    }
+
+    const encrypted = await this.eventCrypto.signAndEncryptEvent(payload)
+    return EventCrypto.encryptedEventToBuffer(encrypted)
+  }
+
+  /**
+   * Decrypt and verify an ephemeral signal; stored event types are rejected
+   */
+  async decryptEphemeral(encrypted: Buffer): Promise<EphemeralPayload | null> {
+    const payload = await this.decryptEvent({ encrypted }) as unknown as EphemeralPayload | null
+    if (!payload || (payload.type !== 'typing' && payload.type !== 'presence')) {
+      return null
+    }
+    return payload
+  }
+
+  /**
+   * Sign and encrypt a Bloom filter broadcast
+   */
+  async sealBloomFilter(payload: BloomFilterPayload): Promise<Buffer> {
+    if (!this.eventCrypto) {
+      throw new Error('MessageGenerator not initialized')
+    }
+
+    const encrypted = await this.eventCrypto.signAndEncryptEvent(payload)
+    return EventCrypto.encryptedEventToBuffer(encrypted)
+  }
+
+  /**
+   * Decrypt and verify a Bloom filter broadcast; null if it is from another
+   * community, badly signed, or not a filter
+   */
+  async openBloomFilter(sealed: Buffer): Promise<BloomFilterPayload | null> {
+    const payload = await this.decryptEvent({ encrypted: sealed }) as unknown as BloomFilterPayload | null
+    if (!payload || payload.type !== 'bloom_filter') {
+      return null
+    }
+    return payload
   }
 
   /**
@@ -0,0 +1,135 @@
+import * as ed from '@noble/ed25519'
+import { randomBytes } from 'crypto'
+import { KeyManager } from './KeyManager'
+
+export interface PacketSignerConfig {
+  maxClockSkew: number     // Max allowed time difference in ms (default: 60000)
+  replayWindow: number     // How long to remember seen packets in ms (default: 300000)
+}
+
+export type PacketVerdict = 'valid' | 'unsigned' | 'unknown_sender' | 'stale' | 'replayed' | 'forged'
+
+export interface OpenedPacket {
+  verdict: PacketVerdict
+  deviceId?: string
+  frame?: Buffer // The wire frame inside, only when valid
+}
+
+// Distinct from both wire formats, so a signed datagram is never mistaken for one
+const SIGNED_MAGIC = [0xb5, 0x5e]
+const SIGNATURE_BYTES = 64
+
+/**
+ * Signs and verifies whole UDP datagrams with the device's Ed25519 key
+ *
+ * Envelope: magic (2) | device ID length (1) | device ID | timestamp (8) |
+ * nonce (4) | signature (64) | wire frame. The signature covers everything
+ * before it plus the frame. A packet is accepted once: its timestamp must
+ * be within maxClockSkew, and its signature is remembered for replayWindow,
+ * which outlasts the skew so a replay is always either seen or stale.
+ */
+export class PacketSigner {
+  private seenPackets: Map<string, number> = new Map() // signature hex -> when seen
+  private config: PacketSignerConfig
+  private lastCleanup = 0
+
+  constructor(
+    private keyManager: KeyManager,
+    config?: Partial<PacketSignerConfig>
+  ) {
+    this.config = {
+      maxClockSkew: config?.maxClockSkew ?? 60000,    // 1 minute
+      replayWindow: config?.replayWindow ?? 300000     // 5 minutes
+    }
+  }
+
+  static isSigned(data: Buffer): boolean {
+    return data.length > 2 && data[0] === SIGNED_MAGIC[0] && data[1] === SIGNED_MAGIC[1]
+  }
+
+  /**
+   * Wrap a wire frame in a signed envelope from this device
+   */
+  sign(frame: Buffer, now: number = Date.now()): Buffer {
+    const { deviceId, privateKey } = this.keyManager.getKeyPair()
+    const deviceIdBytes = Buffer.from(deviceId)
+    if (deviceIdBytes.length > 255) {
+      throw new Error(`Device ID too long to sign: ${deviceId}`)
+    }
+
+    const timestamp = Buffer.alloc(8)
+    timestamp.writeBigUInt64BE(BigInt(now))
+    const header = Buffer.concat([Buffer.from(SIGNED_MAGIC), Buffer.from([deviceIdBytes.length]), deviceIdBytes, timestamp, randomBytes(4)])
+    const signature = ed.sign(Buffer.concat([header, frame]), privateKey)
+    return Buffer.concat([header, signature, frame])
+  }
+
+  /**
+   * Check a received envelope. Only a valid one yields its frame.
+   */
+  verify(data: Buffer, now: number = Date.now()): OpenedPacket {
+    if (!PacketSigner.isSigned(data)) {
+      return { verdict: 'unsigned' }
+    }
+
+    const idLength = data[2]
+    const headerLength = 3 + idLength + 8 + 4
+    if (data.length < headerLength + SIGNATURE_BYTES) {
+      return { verdict: 'forged' }
+    }
+    const deviceId = data.subarray(3, 3 + idLength).toString()
+    const timestamp = Number(data.readBigUInt64BE(3 + idLength))
+    const header = data.subarray(0, headerLength)
+    const signature = data.subarray(headerLength, headerLength + SIGNATURE_BYTES)
+    const frame = data.subarray(headerLength + SIGNATURE_BYTES)
+
+    // Check if sender is known
+    const senderPublicKey = this.keyManager.getKnownPeers().get(deviceId)
+    if (!senderPublicKey) {
+      return { verdict: 'unknown_sender', deviceId }
+    }
+
+    // Check timestamp (prevent replay attacks)
+    if (Math.abs(now - timestamp) > this.config.maxClockSkew) {
+      return { verdict: 'stale', deviceId }
+    }
+
+    // Check for replay
+    this.cleanupSeenPackets(now)
+    const packetKey = signature.toString('hex')
+    if (this.seenPackets.has(packetKey)) {
+      return { verdict: 'replayed', deviceId }
+    }
+
+    let isValid = false
+    try {
+      isValid = ed.verify(signature, Buffer.concat([header, frame]), senderPublicKey)
+    } catch {
+      isValid = false
+    }
+    if (!isValid) {
+      return { verdict: 'forged', deviceId }
+    }
+
+    // Remember this packet to prevent replay
+    this.seenPackets.set(packetKey, now)
+    return { verdict: 'valid', deviceId, frame }
+  }
+
+  /**
+   * Forget packets older than the replay window, at most once a minute
+   */
+  private cleanupSeenPackets(now: number): void {
+    if (now - this.lastCleanup < 60000) {
+      return
+    }
+    this.lastCleanup = now
+
+    const cutoff = now - this.config.replayWindow
+    for (const [key, seenAt] of this.seenPackets) {
+      if (seenAt < cutoff) {
+        this.seenPackets.delete(key)
+      }
+    }
+  }
+}
@@ -0,0 +1,217 @@
+import * as crypto from 'crypto'
+import { sha512 } from '@noble/hashes/sha512'
+
+/**
+ * Per-link session keys, agreed with a Noise KK-style handshake
+ *
+ * Both sides already know each other's static Ed25519 identity, so the
+ * pattern is KK: the initiator sends an ephemeral key mixed with es and ss,
+ * the responder answers with its own ephemeral mixed with ee and se. The
+ * transport keys then depend on fresh ephemeral secrets: a leaked community
+ * PSK, or a static key leaked later, doesn't decrypt recorded traffic.
+ *
+ * Not wire-compatible with the Noise spec; it borrows its structure
+ * (chaining key, transcript hash, split) with Node's X25519, HKDF-SHA256
+ * and ChaCha20-Poly1305.
+ */
+
+const PROTOCOL_NAME = 'sync-experiments KK X25519 ChaChaPoly SHA256 v1'
+const TAG_BYTES = 16
+const P = (1n << 255n) - 19n
+
+// DER wrappers that let Node's KeyObject take raw 32-byte X25519 keys
+const X25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex')
+const X25519_SPKI_PREFIX = Buffer.from('302a300506032b656e032100', 'hex')
+
+export interface X25519KeyPair {
+  publicKey: Buffer
+  privateKey: Buffer
+}
+
+export interface SessionKeys {
+  sendKey: Buffer
+  receiveKey: Buffer
+}
+
+/**
+ * The X25519 secret behind an Ed25519 seed: the clamped half of its SHA-512
+ */
+export function edToX25519Private(seed: Uint8Array): Buffer {
+  return Buffer.from(sha512(seed).slice(0, 32))
+}
+
+/**
+ * The Montgomery u-coordinate of an Ed25519 public key: u = (1 + y) / (1 - y)
+ */
+export function edToX25519Public(publicKey: Uint8Array): Buffer {
+  const bytes = Buffer.from(publicKey)
+  bytes[31] &= 0x7f // Drop the sign of x
+  const y = BigInt('0x' + Buffer.from(bytes).reverse().toString('hex'))
+  const u = mod((1n + y) * modPow(mod(1n - y), P - 2n))
+  return Buffer.from(u.toString(16).padStart(64, '0'), 'hex').reverse()
+}
+
+export function generateX25519(): X25519KeyPair {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('x25519')
+  return {
+    publicKey: publicKey.export({ format: 'der', type: 'spki' }).subarray(X25519_SPKI_PREFIX.length),
+    privateKey: privateKey.export({ format: 'der', type: 'pkcs8' }).subarray(X25519_PKCS8_PREFIX.length)
+  }
+}
+
+export function x25519PublicFromPrivate(privateKey: Buffer): Buffer {
+  const key = crypto.createPublicKey(crypto.createPrivateKey({ key: Buffer.concat([X25519_PKCS8_PREFIX, privateKey]), format: 'der', type: 'pkcs8' }))
+  return key.export({ format: 'der', type: 'spki' }).subarray(X25519_SPKI_PREFIX.length)
+}
+
+function dh(privateKey: Buffer, publicKey: Buffer): Buffer {
+  return crypto.diffieHellman({
+    privateKey: crypto.createPrivateKey({ key: Buffer.concat([X25519_PKCS8_PREFIX, privateKey]), format: 'der', type: 'pkcs8' }),
+    publicKey: crypto.createPublicKey({ key: Buffer.concat([X25519_SPKI_PREFIX, publicKey]), format: 'der', type: 'spki' })
+  })
+}
+
+export function seal(key: Buffer, nonce: Buffer, plaintext: Buffer, ad: Buffer): Buffer {
+  const cipher = crypto.createCipheriv('chacha20-poly1305', key, nonce, { authTagLength: TAG_BYTES })
+  cipher.setAAD(ad, { plaintextLength: plaintext.length })
+  return Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()])
+}
+
+/**
+ * Decrypt, or null if the tag doesn't match
+ */
+export function open(key: Buffer, nonce: Buffer, ciphertext: Buffer, ad: Buffer): Buffer | null {
+  if (ciphertext.length < TAG_BYTES) {
+    return null
+  }
+  try {
+    const body = ciphertext.subarray(0, ciphertext.length - TAG_BYTES)
+    const decipher = crypto.createDecipheriv('chacha20-poly1305', key, nonce, { authTagLength: TAG_BYTES })
+    decipher.setAAD(ad, { plaintextLength: body.length })
+    decipher.setAuthTag(ciphertext.subarray(ciphertext.length - TAG_BYTES))
+    return Buffer.concat([decipher.update(body), decipher.final()])
+  } catch {
+    return null
+  }
+}
+
+/**
+ * One side of a KK handshake. The initiator calls writeInit and readResponse;
+ * the responder readInit and writeResponse. Each side then has split().
+ */
+export class HandshakeState {
+  private h: Buffer
+  private ck: Buffer
+  private k: Buffer | null = null
+  private ephemeral: X25519KeyPair | null = null
+  private remoteEphemeral: Buffer | null = null
+
+  /**
+   * @param localStatic our X25519 static secret (edToX25519Private)
+   * @param remoteStatic their X25519 static key (edToX25519Public)
+   * @param initiatorId and responderId bind the session to the two devices
+   */
+  constructor(
+    readonly initiator: boolean,
+    private localStatic: Buffer,
+    private remoteStatic: Buffer,
+    initiatorId: string,
+    responderId: string
+  ) {
+    this.h = sha256(Buffer.from(PROTOCOL_NAME))
+    this.ck = this.h
+    this.mixHash(Buffer.from(`${initiatorId}\n${responderId}`))
+  }
+
+  /**
+   * → e, es, ss. The payload is encrypted, e.g. a timestamp.
+   */
+  writeInit(payload: Buffer): { e: Buffer; data: Buffer } {
+    this.ephemeral = generateX25519()
+    this.mixHash(this.ephemeral.publicKey)
+    this.mixKey(dh(this.ephemeral.privateKey, this.remoteStatic))
+    this.mixKey(dh(this.localStatic, this.remoteStatic))
+    return { e: this.ephemeral.publicKey, data: this.encryptAndHash(payload) }
+  }
+
+  readInit(e: Buffer, data: Buffer): Buffer | null {
+    this.remoteEphemeral = e
+    this.mixHash(e)
+    this.mixKey(dh(this.localStatic, e))
+    this.mixKey(dh(this.localStatic, this.remoteStatic))
+    return this.decryptAndHash(data)
+  }
+
+  /**
+   * ← e, ee, se
+   */
+  writeResponse(payload: Buffer): { e: Buffer; data: Buffer } {
+    this.ephemeral = generateX25519()
+    this.mixHash(this.ephemeral.publicKey)
+    this.mixKey(dh(this.ephemeral.privateKey, this.remoteEphemeral!))
+    this.mixKey(dh(this.ephemeral.privateKey, this.remoteStatic))
+    return { e: this.ephemeral.publicKey, data: this.encryptAndHash(payload) }
+  }
+
+  readResponse(e: Buffer, data: Buffer): Buffer | null {
+    this.mixHash(e)
+    this.mixKey(dh(this.ephemeral!.privateKey, e))
+    this.mixKey(dh(this.localStatic, e))
+    return this.decryptAndHash(data)
+  }
+
+  /**
+   * Transport keys, one per direction
+   */
+  split(): SessionKeys {
+    const keys = Buffer.from(crypto.hkdfSync('sha256', Buffer.alloc(0), this.ck, 'split', 64))
+    const [initiatorToResponder, responderToInitiator] = [keys.subarray(0, 32), keys.subarray(32)]
+    return this.initiator
+      ? { sendKey: initiatorToResponder, receiveKey: responderToInitiator }
+      : { sendKey: responderToInitiator, receiveKey: initiatorToResponder }
+  }
+
+  private mixHash(data: Buffer) {
+    this.h = sha256(Buffer.concat([this.h, data]))
+  }
+
+  private mixKey(input: Buffer) {
+    const output = Buffer.from(crypto.hkdfSync('sha256', input, this.ck, 'mix', 64))
+    this.ck = output.subarray(0, 32)
+    this.k = output.subarray(32)
+  }
+
+  private encryptAndHash(plaintext: Buffer): Buffer {
+    const ciphertext = seal(this.k!, Buffer.alloc(12), plaintext, this.h)
+    this.mixHash(ciphertext)
+    return ciphertext
+  }
+
+  private decryptAndHash(ciphertext: Buffer): Buffer | null {
+    const plaintext = open(this.k!, Buffer.alloc(12), ciphertext, this.h)
+    if (plaintext) {
+      this.mixHash(ciphertext)
+    }
+    return plaintext
+  }
+}
+
+function sha256(data: Buffer): Buffer {
+  return crypto.createHash('sha256').update(data).digest()
+}
+
+function mod(value: bigint): bigint {
+  const result = value % P
+  return result >= 0n ? result : result + P
+}
+
+function modPow(base: bigint, exponent: bigint): bigint {
+  let result = 1n
+  base = mod(base)
+  while (exponent > 0n) {
+    if (exponent & 1n) result = mod(result * base)
+    base = mod(base * base)
+    exponent >>= 1n
+  }
+  return result
+}
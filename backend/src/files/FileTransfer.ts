@@ -0,0 +1,318 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import type { NetworkEvent } from '../network/NetworkSimulator'
+import type { ReliableChannel } from '../network/ReliableChannel'
+
+export interface FileTransferConfig {
+  chunkSize: number // Plaintext bytes per chunk; each chunk is one reliable message
+  window: number // Chunks sent to a peer before waiting for their acks
+  maxFileSize: number
+  maxStoredBytes: number // Ciphertext kept for serving peers; oldest files go first
+  fetchTimeout: number // A peer that sends nothing for this long is given up on
+}
+
+export const DEFAULT_FILE_TRANSFER_CONFIG: FileTransferConfig = {
+  chunkSize: 16384,
+  window: 8,
+  maxFileSize: 10 * 1024 * 1024,
+  maxStoredBytes: 100 * 1024 * 1024,
+  fetchTimeout: 30000
+}
+
+/**
+ * What a message carries to let peers fetch and read a file. The key only
+ * ever travels inside encrypted message events.
+ */
+export interface FileAttachment {
+  fileId: string // Hash of the encrypted chunks
+  fileKey: string // base64
+  mimeType: string
+  fileName?: string
+  size: number
+  chunkCount: number
+}
+
+// Both travel over the ReliableChannel only; neither has a wire code of its own
+export interface FileRequest {
+  fileId: string
+}
+
+export type FileChunk =
+  | { fileId: string; index: number; count: number; data: string } // Ciphertext, base64
+  | { fileId: string; missing: true }
+
+interface Fetch {
+  peerId: string
+  chunks: Array<Buffer | undefined>
+  received: number
+  timer?: NodeJS.Timeout
+  resolve: (chunks: Buffer[]) => void
+  reject: (err: Error) => void
+}
+
+const TAG_BYTES = 16
+
+/**
+ * Why an attachment that names a file can't be fetched, or null if it can.
+ * The sizes come from any peer's message and size the chunk buffer, so they
+ * are bounded like EventPacker's fragment counts. Attachments without a
+ * `fileId` are plain metadata and pass.
+ */
+export function attachmentError(
+  attachment: any,
+  config: Pick<FileTransferConfig, 'chunkSize' | 'maxFileSize'> = DEFAULT_FILE_TRANSFER_CONFIG
+): string | null {
+  if (typeof attachment !== 'object' || attachment === null) {
+    return 'attachment must be an object'
+  }
+  if (attachment.fileId === undefined) {
+    return null
+  }
+  const maxChunks = Math.ceil(config.maxFileSize / config.chunkSize)
+  if (typeof attachment.fileId !== 'string' || !/^[0-9a-f]{32}$/.test(attachment.fileId)) {
+    return 'fileId must be 32 hex characters'
+  }
+  if (typeof attachment.fileKey !== 'string' || Buffer.from(attachment.fileKey, 'base64').length !== 32) {
+    return 'fileKey must be a base64 32-byte key'
+  }
+  if (typeof attachment.mimeType !== 'string') {
+    return 'mimeType must be a string'
+  }
+  if (attachment.fileName !== undefined && typeof attachment.fileName !== 'string') {
+    return 'fileName must be a string'
+  }
+  if (!Number.isInteger(attachment.size) || attachment.size < 0 || attachment.size > config.maxFileSize) {
+    return `size must be an integer of at most ${config.maxFileSize}`
+  }
+  if (!Number.isInteger(attachment.chunkCount) || attachment.chunkCount < 1 || attachment.chunkCount > maxChunks) {
+    return `chunkCount must be an integer from 1 to ${maxChunks}`
+  }
+  return null
+}
+
+/**
+ * FileTransfer - file attachments, fetched from peers on demand
+ *
+ * An uploaded file is split into chunks, each encrypted under a fresh file
+ * key with AES-256-GCM. Nobody receives a file until they ask: a peer
+ * opening an attachment sends a `file_request` to a holder, which answers
+ * with `file_chunk` messages a window at a time, all over the reliable
+ * channel. The requester checks the chunks hash to the file ID, then keeps
+ * them to serve others.
+ */
+export class FileTransfer {
+  private files: Map<string, Buffer[]> = new Map()
+  private storedBytes = 0
+  private fetches: Map<string, Fetch> = new Map()
+  private downloads: Map<string, Promise<Buffer[]>> = new Map()
+  private config: FileTransferConfig
+  private unsubscribe: () => void
+
+  constructor(
+    private deviceId: string,
+    private reliable: ReliableChannel,
+    config: Partial<FileTransferConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_FILE_TRANSFER_CONFIG, ...config }
+    this.unsubscribe = reliable.onMessage(event => this.handleMessage(event))
+  }
+
+  stop() {
+    this.unsubscribe()
+    for (const fetch of this.fetches.values()) {
+      clearTimeout(fetch.timer)
+      fetch.reject(new Error('File transfer stopped'))
+    }
+    this.fetches.clear()
+  }
+
+  /**
+   * Encrypt and keep a file, returning the attachment to send with a message
+   */
+  upload(data: Buffer, mimeType: string, fileName?: string): FileAttachment {
+    if (data.length > this.config.maxFileSize) {
+      throw new Error(`File is larger than ${this.config.maxFileSize} bytes`)
+    }
+    const key = randomBytes(32)
+    const count = Math.max(1, Math.ceil(data.length / this.config.chunkSize))
+    const chunks = Array.from({ length: count }, (_, index) =>
+      encryptChunk(key, index, data.subarray(index * this.config.chunkSize, (index + 1) * this.config.chunkSize)))
+    const fileId = hashChunks(chunks)
+    this.keep(fileId, chunks)
+    console.log(`[FileTransfer] ${this.deviceId} stored file ${fileId} (${data.length} bytes, ${count} chunks)`)
+    return { fileId, fileKey: key.toString('base64'), mimeType, ...(fileName ? { fileName } : {}), size: data.length, chunkCount: count }
+  }
+
+  hasFile(fileId: string): boolean {
+    return this.files.has(fileId)
+  }
+
+  /**
+   * The file's contents, from our copy or else from the first of `holders`
+   * that can send it
+   */
+  async download(attachment: FileAttachment, holders: string[]): Promise<Buffer> {
+    const error = attachmentError(attachment, this.config)
+    if (error) {
+      throw new Error(`Invalid attachment: ${error}`)
+    }
+    const chunks = this.files.get(attachment.fileId) ?? await this.fetchOnce(attachment, holders)
+    const key = Buffer.from(attachment.fileKey, 'base64')
+    return Buffer.concat(chunks.map((chunk, index) => decryptChunk(key, index, chunk)))
+  }
+
+  getStats() {
+    return { files: this.files.size, storedBytes: this.storedBytes, fetching: this.fetches.size }
+  }
+
+  // Concurrent requests for one file share a transfer
+  private fetchOnce(attachment: FileAttachment, holders: string[]): Promise<Buffer[]> {
+    let download = this.downloads.get(attachment.fileId)
+    if (!download) {
+      download = this.fetchFromAny(attachment, holders).finally(() => this.downloads.delete(attachment.fileId))
+      this.downloads.set(attachment.fileId, download)
+    }
+    return download
+  }
+
+  private async fetchFromAny(attachment: FileAttachment, holders: string[]): Promise<Buffer[]> {
+    for (const peerId of holders.filter(peer => peer !== this.deviceId && this.reliable.canSend(peer))) {
+      try {
+        const chunks = await this.fetch(peerId, attachment)
+        if (hashChunks(chunks) !== attachment.fileId) {
+          throw new Error('chunks do not match the file ID')
+        }
+        this.keep(attachment.fileId, chunks)
+        console.log(`[FileTransfer] ${this.deviceId} fetched file ${attachment.fileId} from ${peerId}`)
+        return chunks
+      } catch (error) {
+        console.warn(`[FileTransfer] ${this.deviceId} could not fetch ${attachment.fileId} from ${peerId}:`, (error as Error).message)
+      }
+    }
+    throw new Error(`No peer could send file ${attachment.fileId}`)
+  }
+
+  private fetch(peerId: string, attachment: FileAttachment): Promise<Buffer[]> {
+    const key = `${peerId}|${attachment.fileId}`
+    return new Promise<Buffer[]>((resolve, reject) => {
+      const fetch: Fetch = {
+        peerId,
+        chunks: new Array(attachment.chunkCount).fill(undefined),
+        received: 0,
+        resolve,
+        reject
+      }
+      this.fetches.set(key, fetch)
+      this.touch(fetch)
+      const request: FileRequest = { fileId: attachment.fileId }
+      this.reliable.send(peerId, 'file_request', request).catch(reject)
+    }).finally(() => {
+      clearTimeout(this.fetches.get(key)?.timer)
+      this.fetches.delete(key)
+    })
+  }
+
+  // Restart a fetch's idle timeout
+  private touch(fetch: Fetch) {
+    clearTimeout(fetch.timer)
+    fetch.timer = setTimeout(() => fetch.reject(new Error(`${fetch.peerId} went quiet`)), this.config.fetchTimeout)
+  }
+
+  private handleMessage(event: NetworkEvent) {
+    if (typeof event.payload?.fileId !== 'string') {
+      return
+    }
+    if (event.type === 'file_request') {
+      void this.serve(event.sourceDevice, event.payload.fileId)
+    } else if (event.type === 'file_chunk') {
+      this.receiveChunk(event.sourceDevice, event.payload)
+    }
+  }
+
+  private async serve(peerId: string, fileId: string) {
+    const chunks = this.files.get(fileId)
+    try {
+      if (!chunks) {
+        const missing: FileChunk = { fileId, missing: true }
+        await this.reliable.send(peerId, 'file_chunk', missing)
+        return
+      }
+      console.log(`[FileTransfer] ${this.deviceId} sending file ${fileId} to ${peerId}`)
+      for (let start = 0; start < chunks.length; start += this.config.window) {
+        await Promise.all(chunks.slice(start, start + this.config.window).map((chunk, i) => {
+          const packet: FileChunk = { fileId, index: start + i, count: chunks.length, data: chunk.toString('base64') }
+          return this.reliable.send(peerId, 'file_chunk', packet)
+        }))
+      }
+    } catch (error) {
+      console.warn(`[FileTransfer] ${this.deviceId} stopped sending ${fileId} to ${peerId}:`, (error as Error).message)
+    }
+  }
+
+  private receiveChunk(peerId: string, packet: any) {
+    const key = `${peerId}|${packet.fileId}`
+    const fetch = this.fetches.get(key)
+    if (!fetch) {
+      return
+    }
+    if (packet.missing === true) {
+      fetch.reject(new Error(`${peerId} does not have it`))
+      return
+    }
+    const { index, count, data } = packet
+    if (count !== fetch.chunks.length || !Number.isInteger(index) || index < 0 || index >= count || typeof data !== 'string') {
+      fetch.reject(new Error(`${peerId} sent a malformed chunk`))
+      return
+    }
+    if (fetch.chunks[index]) {
+      return
+    }
+    fetch.chunks[index] = Buffer.from(data, 'base64')
+    fetch.received++
+    this.touch(fetch)
+    if (fetch.received === count) {
+      fetch.resolve(fetch.chunks as Buffer[])
+    }
+  }
+
+  private keep(fileId: string, chunks: Buffer[]) {
+    if (this.files.has(fileId)) {
+      return
+    }
+    this.files.set(fileId, chunks)
+    this.storedBytes += chunks.reduce((sum, chunk) => sum + chunk.length, 0)
+    while (this.storedBytes > this.config.maxStoredBytes && this.files.size > 1) {
+      const [oldest, dropped] = this.files.entries().next().value!
+      this.files.delete(oldest)
+      this.storedBytes -= dropped.reduce((sum, chunk) => sum + chunk.length, 0)
+    }
+  }
+}
+
+// The chunk index is the nonce: unique per chunk, and each file has its own key
+function chunkNonce(index: number): Buffer {
+  const nonce = Buffer.alloc(12)
+  nonce.writeUInt32BE(index, 8)
+  return nonce
+}
+
+function encryptChunk(key: Buffer, index: number, plaintext: Buffer): Buffer {
+  const cipher = createCipheriv('aes-256-gcm', key, chunkNonce(index))
+  return Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()])
+}
+
+function decryptChunk(key: Buffer, index: number, chunk: Buffer): Buffer {
+  const decipher = createDecipheriv('aes-256-gcm', key, chunkNonce(index))
+  decipher.setAuthTag(chunk.subarray(chunk.length - TAG_BYTES))
+  return Buffer.concat([decipher.update(chunk.subarray(0, chunk.length - TAG_BYTES)), decipher.final()])
+}
+
+// Length-prefixed, so the same bytes split differently hash differently
+function hashChunks(chunks: Buffer[]): string {
+  const hash = createHash('sha256')
+  for (const chunk of chunks) {
+    const length = Buffer.alloc(4)
+    length.writeUInt32BE(chunk.length)
+    hash.update(length).update(chunk)
+  }
+  return hash.digest('hex').slice(0, 32)
+}
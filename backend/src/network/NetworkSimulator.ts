@@ -1,13 +1,17 @@
+import { encodePacket } from './WireFormat'
+import type { WirePacket } from './WireFormat'
+
 export interface NetworkEvent {
   id: string
   timestamp: number
   sourceDevice: string
   targetDevice: string
-  type: 'message' | 'bloom_filter' | 'file_chunk'
+  type: 'message' | 'bloom_filter' | 'file_chunk' | 'file_request' | 'ephemeral' | 'reconcile' | 'event_request' | 'event_response' | 'event_batch' | 'event_fragment' | 'reliable_data' | 'reliable_ack'
   payload: any
   status: 'sent' | 'delivered' | 'dropped'
   latency?: number
   verified?: boolean // True if cryptographically verified
+  bytes?: number // Size on the wire, where the transport knows it
 }
 
 export interface NetworkConfig {
@@ -82,7 +86,8 @@ export class NetworkSimulator {
       targetDevice,
       type,
       payload,
-      status: 'sent'
+      status: 'sent',
+      bytes: frameBytes({ source: sourceDevice, target: targetDevice, type, payload })
     }
 
     this.networkEvents.push(networkEvent)
@@ -282,8 +287,14 @@ export class NetworkSimulator {
     }
   }
 
-  onNetworkEvent(callback: (event: NetworkEvent) => void) {
+  /**
+   * Returns a function that removes the callback again
+   */
+  onNetworkEvent(callback: (event: NetworkEvent) => void): () => void {
     this.eventCallbacks.push(callback)
+    return () => {
+      this.eventCallbacks = this.eventCallbacks.filter(c => c !== callback)
+    }
   }
 
   private notifyEventCallbacks(event: NetworkEvent) {
@@ -297,4 +308,23 @@ export class NetworkSimulator {
     this.nextEventId = 1
     this.currentTime = 0
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Bytes a send put on the wire, as the transport reported them (summed over
+ * a broadcast's recipients). A transport that doesn't say is charged the
+ * frame it would have encoded.
+ */
+export function wireBytes(sent: unknown, packet: WirePacket): number {
+  const events = Array.isArray(sent) ? sent : [sent]
+  return events.reduce((total: number, event: any) => total + (Number.isInteger(event?.bytes) ? event.bytes : frameBytes(packet) ?? 0), 0)
+}
+
+// The simulator has no wire of its own; charge what a real transport would send
+function frameBytes(packet: WirePacket): number | undefined {
+  try {
+    return encodePacket(packet).length
+  } catch {
+    return undefined // A type with no wire code
+  }
+}
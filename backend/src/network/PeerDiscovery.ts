@@ -0,0 +1,217 @@
+import dgram from 'dgram'
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { PacketSigner } from '../crypto/PacketSigner'
+import { decodePacket, encodePacket } from './WireFormat'
+
+export interface DiscoveryConfig {
+  address: string // Multicast group, or a broadcast address such as 255.255.255.255
+  port: number
+  announceInterval: number
+  peerTimeout: number // A discovered peer silent this long is lost
+}
+
+export const DEFAULT_DISCOVERY_CONFIG: DiscoveryConfig = {
+  address: '239.255.42.99',
+  port: 8600,
+  announceInterval: 5000,
+  peerTimeout: 20000
+}
+
+export interface DiscoveredPeer {
+  deviceId: string
+  host: string
+  port: number // The peer's P2P port, not the discovery port
+  lastSeen: number
+}
+
+/**
+ * PeerDiscovery - finds community members on the LAN
+ *
+ * Every announceInterval each backend sends an `announce` packet, signed
+ * like any other datagram, to a multicast group (or broadcast address)
+ * that every backend on the machine or LAN joins. The payload carries the
+ * sender's P2P port and a community tag: an HMAC, under a key derived from
+ * the community PSK, over the sender, port and a fresh nonce. Only members
+ * can make one, and no two announcements carry the same tag, so a listener
+ * can't link them across time. Announcements from unknown keys, other
+ * communities or replays are counted and dropped.
+ *
+ * Found peers are reported once, and again if their address changes; peers
+ * silent for peerTimeout, and all of them on stop, are reported lost.
+ */
+export class PeerDiscovery {
+  private socket: dgram.Socket | null = null
+  private timer: NodeJS.Timeout | null = null
+  private peers: Map<string, DiscoveredPeer> = new Map()
+  private config: DiscoveryConfig
+  private foundHandlers: Array<(peer: DiscoveredPeer) => void> = []
+  private lostHandlers: Array<(deviceId: string) => void> = []
+  private stats = {
+    announcementsSent: 0,
+    announcementsReceived: 0,
+    announcementsRejected: 0 // Unknown or wrong signer, other community, stale or replayed
+  }
+
+  constructor(
+    private deviceId: string,
+    private udpPort: number,
+    private signer: PacketSigner,
+    private communityKey: Buffer,
+    config: Partial<DiscoveryConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_DISCOVERY_CONFIG, ...config }
+  }
+
+  onPeerFound(handler: (peer: DiscoveredPeer) => void): void {
+    this.foundHandlers.push(handler)
+  }
+
+  onPeerLost(handler: (deviceId: string) => void): void {
+    this.lostHandlers.push(handler)
+  }
+
+  isRunning(): boolean {
+    return this.socket !== null
+  }
+
+  async start(): Promise<void> {
+    if (this.socket) {
+      return
+    }
+
+    const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true })
+    socket.on('message', (msg, rinfo) => this.handleAnnouncement(msg, rinfo.address))
+    socket.on('error', (err) => {
+      console.error(`[Discovery] Socket error:`, err)
+    })
+    this.socket = socket
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        socket.once('error', reject)
+        socket.bind(this.config.port, () => {
+          socket.off('error', reject)
+          resolve()
+        })
+      })
+      if (isMulticast(this.config.address)) {
+        socket.addMembership(this.config.address)
+        socket.setMulticastLoopback(true) // Other backends on this machine
+      } else {
+        socket.setBroadcast(true)
+      }
+    } catch (err) {
+      this.socket = null
+      socket.close()
+      throw err
+    }
+    console.log(`[Discovery] ${this.deviceId} announcing on ${this.config.address}:${this.config.port}`)
+
+    this.announce()
+    this.timer = setInterval(() => {
+      this.announce()
+      this.expire(Date.now())
+    }, this.config.announceInterval)
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    const socket = this.socket
+    this.socket = null
+    if (socket) {
+      await new Promise<void>(resolve => socket.close(() => resolve()))
+    }
+
+    const lost = Array.from(this.peers.keys())
+    this.peers.clear()
+    lost.forEach(deviceId => this.lostHandlers.forEach(handler => handler(deviceId)))
+    console.log(`[Discovery] ${this.deviceId} stopped`)
+  }
+
+  getPeers(): DiscoveredPeer[] {
+    return Array.from(this.peers.values())
+  }
+
+  getStats() {
+    return { ...this.stats }
+  }
+
+  private announce() {
+    if (!this.socket) {
+      return
+    }
+    const nonce = randomBytes(16).toString('hex')
+    const payload = { port: this.udpPort, nonce, tag: this.tag(this.deviceId, this.udpPort, nonce) }
+    const frame = encodePacket({ source: this.deviceId, target: '*', type: 'announce', payload })
+    this.socket.send(this.signer.sign(frame), this.config.port, this.config.address, (err) => {
+      if (err) {
+        console.error(`[Discovery] Error announcing:`, err)
+      } else {
+        this.stats.announcementsSent++
+      }
+    })
+  }
+
+  private handleAnnouncement(msg: Buffer, host: string) {
+    const { verdict, deviceId, frame } = this.signer.verify(msg)
+    if (deviceId === this.deviceId) {
+      return // Our own, looped back
+    }
+    this.stats.announcementsReceived++
+
+    const packet = verdict === 'valid' && frame ? this.decode(frame) : null
+    const payload = packet?.payload
+    if (
+      !packet || packet.type !== 'announce' || packet.source !== deviceId ||
+      !Number.isInteger(payload?.port) || typeof payload?.nonce !== 'string' || typeof payload?.tag !== 'string' ||
+      !this.isMember(packet.source, payload.port, payload.nonce, payload.tag)
+    ) {
+      this.stats.announcementsRejected++
+      return
+    }
+
+    const known = this.peers.get(packet.source)
+    const peer: DiscoveredPeer = { deviceId: packet.source, host, port: payload.port, lastSeen: Date.now() }
+    this.peers.set(peer.deviceId, peer)
+    if (!known || known.host !== host || known.port !== peer.port) {
+      console.log(`[Discovery] ${this.deviceId} found ${peer.deviceId} at ${host}:${peer.port}`)
+      this.foundHandlers.forEach(handler => handler(peer))
+    }
+  }
+
+  private expire(now: number) {
+    for (const [deviceId, peer] of this.peers) {
+      if (now - peer.lastSeen > this.config.peerTimeout) {
+        this.peers.delete(deviceId)
+        console.log(`[Discovery] ${this.deviceId} lost ${deviceId}`)
+        this.lostHandlers.forEach(handler => handler(deviceId))
+      }
+    }
+  }
+
+  private decode(frame: Buffer) {
+    try {
+      return decodePacket(frame).packet
+    } catch {
+      return null
+    }
+  }
+
+  private tag(deviceId: string, port: number, nonce: string): string {
+    return createHmac('sha256', this.communityKey).update(`${deviceId}:${port}:${nonce}`).digest('hex').slice(0, 32)
+  }
+
+  private isMember(deviceId: string, port: number, nonce: string, tag: string): boolean {
+    const expected = Buffer.from(this.tag(deviceId, port, nonce))
+    const actual = Buffer.from(tag)
+    return actual.length === expected.length && timingSafeEqual(actual, expected)
+  }
+}
+
+function isMulticast(address: string): boolean {
+  const first = parseInt(address.split('.')[0], 10)
+  return first >= 224 && first <= 239
+}
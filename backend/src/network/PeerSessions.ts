@@ -0,0 +1,282 @@
+import { randomBytes } from 'crypto'
+import type { KeyManager } from '../crypto/KeyManager'
+import { HandshakeState, edToX25519Private, edToX25519Public, open, seal } from '../crypto/SessionHandshake'
+import type { SessionKeys } from '../crypto/SessionHandshake'
+
+export interface SessionConfig {
+  handshakeTimeout: number // Resend a handshake that got no answer after this long
+  maxHandshakeAttempts: number // Then give up and drop what was queued for the peer
+  rekeyAfter: number // Start a new handshake once a session is this old...
+  rekeyAfterMessages: number // ...or has sent this many frames
+  sessionLifetime: number // A session stops sending and decrypting at this age
+  maxQueued: number // Frames held per peer while a handshake is in flight
+}
+
+export const DEFAULT_SESSION_CONFIG: SessionConfig = {
+  handshakeTimeout: 5000,
+  maxHandshakeAttempts: 3,
+  rekeyAfter: 10 * 60 * 1000,
+  rekeyAfterMessages: 100000,
+  sessionLifetime: 30 * 60 * 1000,
+  maxQueued: 64
+}
+
+// Counters this far behind the highest seen are refused outright
+const REPLAY_WINDOW = 1024
+
+// Handshakes carry their send time; older ones are refused
+const MAX_HANDSHAKE_AGE = 60000
+
+export interface SealedFrame {
+  session: string
+  counter: number
+  data: string // base64
+}
+
+export type SessionPacketType = 'handshake' | 'sealed'
+
+interface Session {
+  id: string
+  keys: SessionKeys
+  establishedAt: number
+  sent: number
+  highestReceived: number
+  received: Set<number>
+}
+
+interface PendingHandshake {
+  id: string
+  state: HandshakeState
+  startedAt: number
+  attempts: number
+}
+
+interface PeerState {
+  sessions: Session[] // Oldest first; we send on the last
+  pending: PendingHandshake | null
+  queue: Buffer[]
+}
+
+/**
+ * PeerSessions - encrypted sessions between this device and each peer
+ *
+ * Wire frames to a peer are sealed with the newest session's key, so the
+ * community PSK alone reads nothing live and the same Bloom filter looks
+ * different in every packet. The first frame to a peer starts a handshake
+ * and waits in a short queue until it completes. A session past rekeyAfter
+ * (or rekeyAfterMessages) starts a fresh handshake but keeps sending until
+ * the new one is up; at sessionLifetime it is dropped, so late packets
+ * still decrypt meanwhile. There are no timers: all of this happens as
+ * frames are sealed and opened.
+ */
+export class PeerSessions {
+  private peers: Map<string, PeerState> = new Map()
+  private config: SessionConfig
+  private sendHandlers: Array<(peerId: string, type: SessionPacketType, payload: any) => void> = []
+
+  constructor(private deviceId: string, private keyManager: KeyManager, config: Partial<SessionConfig> = {}) {
+    this.config = { ...DEFAULT_SESSION_CONFIG, ...config }
+  }
+
+  /**
+   * Where handshake and sealed packets go; the transport signs and sends them
+   */
+  onSend(handler: (peerId: string, type: SessionPacketType, payload: any) => void): void {
+    this.sendHandlers.push(handler)
+  }
+
+  /**
+   * Seal a frame for a peer, or queue it behind a handshake (returns null)
+   */
+  seal(peerId: string, frame: Buffer, now: number = Date.now()): SealedFrame | null {
+    const peer = this.getPeer(peerId)
+    this.expire(peer, now)
+
+    const current = peer.sessions[peer.sessions.length - 1]
+    if (current && (now - current.establishedAt >= this.config.rekeyAfter || current.sent >= this.config.rekeyAfterMessages)) {
+      this.startHandshake(peerId, peer, now)
+    }
+    // Send on the newest, which an already answered handshake may have replaced
+    const session = peer.sessions[peer.sessions.length - 1]
+    if (!session) {
+      if (peer.queue.length < this.config.maxQueued) {
+        peer.queue.push(frame)
+      }
+      this.startHandshake(peerId, peer, now)
+      return null
+    }
+    return this.sealWith(session, frame)
+  }
+
+  /**
+   * The frame inside a sealed packet, or null if no live session opens it
+   */
+  open(peerId: string, sealed: any, now: number = Date.now()): Buffer | null {
+    const peer = this.peers.get(peerId)
+    if (!peer || typeof sealed?.session !== 'string' || !Number.isSafeInteger(sealed?.counter) || typeof sealed?.data !== 'string') {
+      return null
+    }
+    this.expire(peer, now)
+
+    const session = peer.sessions.find(s => s.id === sealed.session)
+    const counter: number = sealed.counter
+    if (!session || counter <= session.highestReceived - REPLAY_WINDOW || session.received.has(counter)) {
+      return null
+    }
+
+    const frame = open(session.keys.receiveKey, nonce(counter), Buffer.from(sealed.data, 'base64'), Buffer.from(session.id))
+    if (!frame) {
+      return null
+    }
+    session.received.add(counter)
+    session.highestReceived = Math.max(session.highestReceived, counter)
+    if (session.received.size > REPLAY_WINDOW * 2) {
+      session.received.forEach(seen => {
+        if (seen <= session.highestReceived - REPLAY_WINDOW) session.received.delete(seen)
+      })
+    }
+    return frame
+  }
+
+  handleHandshake(peerId: string, packet: any, now: number = Date.now()): void {
+    if (typeof packet?.session !== 'string' || typeof packet?.e !== 'string' || typeof packet?.data !== 'string') {
+      return
+    }
+    const e = Buffer.from(packet.e, 'base64')
+    const data = Buffer.from(packet.data, 'base64')
+    if (e.length !== 32) {
+      return
+    }
+
+    const peer = this.getPeer(peerId)
+    if (packet.kind === 'init') {
+      this.respond(peerId, peer, packet.session, e, data, now)
+    } else if (packet.kind === 'response' && peer.pending && peer.pending.id === packet.session) {
+      const pending = peer.pending
+      if (!pending.state.readResponse(e, data)) {
+        console.warn(`[PeerSessions] ${this.deviceId} rejected handshake response from ${peerId}`)
+        return
+      }
+      peer.pending = null
+      this.establish(peerId, peer, pending.id, pending.state.split(), now)
+    }
+  }
+
+  /**
+   * Drop everything held for a peer, e.g. when it has restarted and lost its
+   * side of our sessions
+   */
+  forget(peerId: string): void {
+    this.peers.delete(peerId)
+  }
+
+  /**
+   * Live sessions per peer, newest last
+   */
+  getStatus(now: number = Date.now()): Array<{ peerId: string; sessions: Array<{ id: string; age: number; sent: number }>; handshaking: boolean }> {
+    return Array.from(this.peers.entries()).map(([peerId, peer]) => ({
+      peerId,
+      sessions: peer.sessions.map(s => ({ id: s.id, age: now - s.establishedAt, sent: s.sent })),
+      handshaking: peer.pending !== null
+    }))
+  }
+
+  private respond(peerId: string, peer: PeerState, sessionId: string, e: Buffer, data: Buffer, now: number) {
+    const state = this.createHandshake(peerId, false)
+    const payload = state?.readInit(e, data)
+    if (!state || !payload || payload.length !== 8) {
+      console.warn(`[PeerSessions] ${this.deviceId} rejected handshake from ${peerId}`)
+      return
+    }
+    if (Math.abs(now - Number(payload.readBigUInt64BE(0))) > MAX_HANDSHAKE_AGE) {
+      console.warn(`[PeerSessions] ${this.deviceId} rejected stale handshake from ${peerId}`)
+      return
+    }
+    if (peer.sessions.some(s => s.id === sessionId)) {
+      return
+    }
+
+    const response = state.writeResponse(Buffer.alloc(0))
+    this.emit(peerId, 'handshake', { kind: 'response', session: sessionId, e: response.e.toString('base64'), data: response.data.toString('base64') })
+    this.establish(peerId, peer, sessionId, state.split(), now)
+  }
+
+  private startHandshake(peerId: string, peer: PeerState, now: number) {
+    const pending = peer.pending
+    if (pending && now - pending.startedAt < this.config.handshakeTimeout) {
+      return
+    }
+    const attempts = (pending?.attempts ?? 0) + 1
+    if (attempts > this.config.maxHandshakeAttempts) {
+      console.log(`[PeerSessions] ${this.deviceId} giving up on a session with ${peerId}`)
+      peer.pending = null
+      peer.queue = []
+      return
+    }
+
+    const state = this.createHandshake(peerId, true)
+    if (!state) {
+      console.warn(`[PeerSessions] ${this.deviceId} has no key for ${peerId}`)
+      peer.queue = []
+      return
+    }
+    const timestamp = Buffer.alloc(8)
+    timestamp.writeBigUInt64BE(BigInt(now))
+    const init = state.writeInit(timestamp)
+    peer.pending = { id: randomBytes(8).toString('hex'), state, startedAt: now, attempts }
+    this.emit(peerId, 'handshake', { kind: 'init', session: peer.pending.id, e: init.e.toString('base64'), data: init.data.toString('base64') })
+  }
+
+  private establish(peerId: string, peer: PeerState, id: string, keys: SessionKeys, now: number) {
+    peer.sessions.push({ id, keys, establishedAt: now, sent: 0, highestReceived: -1, received: new Set() })
+    console.log(`[PeerSessions] ${this.deviceId} has a new session with ${peerId}`)
+
+    const session = peer.sessions[peer.sessions.length - 1]
+    const queued = peer.queue
+    peer.queue = []
+    queued.forEach(frame => this.emit(peerId, 'sealed', this.sealWith(session, frame)))
+  }
+
+  private createHandshake(peerId: string, initiator: boolean): HandshakeState | null {
+    const remote = this.keyManager.getKnownPeers().get(peerId)
+    if (!remote) {
+      return null
+    }
+    const local = edToX25519Private(this.keyManager.getKeyPair().privateKey)
+    return initiator
+      ? new HandshakeState(true, local, edToX25519Public(remote), this.deviceId, peerId)
+      : new HandshakeState(false, local, edToX25519Public(remote), peerId, this.deviceId)
+  }
+
+  private sealWith(session: Session, frame: Buffer): SealedFrame {
+    const counter = session.sent++
+    return {
+      session: session.id,
+      counter,
+      data: seal(session.keys.sendKey, nonce(counter), frame, Buffer.from(session.id)).toString('base64')
+    }
+  }
+
+  private expire(peer: PeerState, now: number) {
+    peer.sessions = peer.sessions.filter(s => now - s.establishedAt < this.config.sessionLifetime)
+  }
+
+  private getPeer(peerId: string): PeerState {
+    let peer = this.peers.get(peerId)
+    if (!peer) {
+      peer = { sessions: [], pending: null, queue: [] }
+      this.peers.set(peerId, peer)
+    }
+    return peer
+  }
+
+  private emit(peerId: string, type: SessionPacketType, payload: any) {
+    this.sendHandlers.forEach(handler => handler(peerId, type, payload))
+  }
+}
+
+function nonce(counter: number): Buffer {
+  const bytes = Buffer.alloc(12)
+  bytes.writeBigUInt64BE(BigInt(counter), 4)
+  return bytes
+}
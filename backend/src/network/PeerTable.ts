@@ -0,0 +1,195 @@
+import { randomBytes } from 'crypto'
+
+export type PeerState = 'unknown' | 'alive' | 'suspect' | 'dead'
+
+export interface PeerTableConfig {
+  pingInterval: number // Between pings to a live peer
+  pingTimeout: number // An unanswered ping counts as lost after this long
+  suspectAfter: number // Consecutive lost pings before a peer is suspect...
+  deadAfter: number // ...and dead
+  maxBackoff: number // Dead peers are pinged ever less often, down to this
+  silenceTimeout: number // A peer we can't ping is suspect after this long unheard
+}
+
+export const DEFAULT_PEER_TABLE_CONFIG: PeerTableConfig = {
+  pingInterval: 2000,
+  pingTimeout: 3000,
+  suspectAfter: 2,
+  deadAfter: 5,
+  maxBackoff: 60000,
+  silenceTimeout: 15000
+}
+
+// Weight of each new ping in the loss average
+const LOSS_ALPHA = 0.1
+
+export interface PeerLink {
+  deviceId: string
+  state: PeerState
+  rtt: number | null // Smoothed round trip, in ms
+  rttVariance: number | null
+  loss: number | null // Share of recent pings lost, 0..1; null until pinged
+  lastSeen: number | null // Any authentic packet counts
+  missedPings: number // In a row
+  pingsSent: number
+  pongsReceived: number
+}
+
+interface PeerEntry extends PeerLink {
+  outstanding: Map<string, number> // ping nonce -> when sent
+  nextPingAt: number
+  pingDelay: number
+}
+
+/**
+ * PeerTable - how reachable each peer is
+ *
+ * Peers that answer pings get one every pingInterval. Pongs give a smoothed
+ * RTT and variance (as TCP does, RFC 6298) and an average loss. Lost pings
+ * in a row make a peer suspect, then dead; dead peers are pinged with
+ * exponential backoff up to maxBackoff. Any authentic packet from a peer
+ * brings it back to alive at once.
+ *
+ * Peers on older backends don't answer pings, so they are judged only by
+ * what we hear: alive while they talk, suspect after silenceTimeout, never
+ * dead, since silence alone doesn't prove it.
+ *
+ * It only decides who to ping and when; sending is the caller's.
+ */
+export class PeerTable {
+  private peers: Map<string, PeerEntry> = new Map()
+  private config: PeerTableConfig
+
+  constructor(config: Partial<PeerTableConfig> = {}) {
+    this.config = { ...DEFAULT_PEER_TABLE_CONFIG, ...config }
+  }
+
+  add(peerId: string, now: number = Date.now()): void {
+    if (this.peers.has(peerId)) {
+      return
+    }
+    this.peers.set(peerId, {
+      deviceId: peerId,
+      state: 'unknown',
+      rtt: null,
+      rttVariance: null,
+      loss: null,
+      lastSeen: null,
+      missedPings: 0,
+      pingsSent: 0,
+      pongsReceived: 0,
+      outstanding: new Map(),
+      nextPingAt: now,
+      pingDelay: this.config.pingInterval
+    })
+  }
+
+  remove(peerId: string): void {
+    this.peers.delete(peerId)
+  }
+
+  /**
+   * An authentic packet arrived from the peer
+   */
+  heard(peerId: string, now: number = Date.now()): void {
+    const peer = this.peers.get(peerId)
+    if (!peer) {
+      return
+    }
+    if (peer.state === 'dead') {
+      peer.nextPingAt = now // Back to the normal cadence
+    }
+    peer.lastSeen = now
+    peer.missedPings = 0
+    this.setState(peer, 'alive')
+  }
+
+  /**
+   * Pings to send now, each already recorded as outstanding. Peers that
+   * `canPing` rejects are judged by silence instead.
+   */
+  due(now: number = Date.now(), canPing: (peerId: string) => boolean = () => true): Array<{ peerId: string; nonce: string }> {
+    const pings: Array<{ peerId: string; nonce: string }> = []
+    for (const peer of this.peers.values()) {
+      if (!canPing(peer.deviceId)) {
+        if (peer.lastSeen !== null && now - peer.lastSeen > this.config.silenceTimeout) {
+          this.setState(peer, 'suspect')
+        }
+        continue
+      }
+
+      for (const [nonce, sentAt] of peer.outstanding) {
+        if (now - sentAt > this.config.pingTimeout) {
+          peer.outstanding.delete(nonce)
+          this.lost(peer)
+        }
+      }
+
+      if (now >= peer.nextPingAt) {
+        const nonce = randomBytes(8).toString('hex')
+        peer.outstanding.set(nonce, now)
+        peer.pingsSent++
+        // Normal cadence, doubling with each ping once dead
+        peer.pingDelay = peer.state === 'dead' ? Math.min(peer.pingDelay * 2, this.config.maxBackoff) : this.config.pingInterval
+        peer.nextPingAt = now + peer.pingDelay
+        pings.push({ peerId: peer.deviceId, nonce })
+      }
+    }
+    return pings
+  }
+
+  handlePong(peerId: string, nonce: unknown, now: number = Date.now()): void {
+    const peer = this.peers.get(peerId)
+    const sentAt = typeof nonce === 'string' ? peer?.outstanding.get(nonce) : undefined
+    if (!peer || sentAt === undefined) {
+      return
+    }
+    peer.outstanding.delete(nonce as string)
+    peer.pongsReceived++
+
+    const sample = now - sentAt
+    if (peer.rtt === null || peer.rttVariance === null) {
+      peer.rtt = sample
+      peer.rttVariance = sample / 2
+    } else {
+      peer.rttVariance = 0.75 * peer.rttVariance + 0.25 * Math.abs(peer.rtt - sample)
+      peer.rtt = 0.875 * peer.rtt + 0.125 * sample
+    }
+    peer.loss = (peer.loss ?? 0) * (1 - LOSS_ALPHA)
+    this.heard(peerId, now)
+  }
+
+  /**
+   * Worth sending to: anything but dead
+   */
+  isReachable(peerId: string): boolean {
+    return this.peers.get(peerId)?.state !== 'dead'
+  }
+
+  get(peerId: string): PeerLink | undefined {
+    const peer = this.peers.get(peerId)
+    return peer ? toLink(peer) : undefined
+  }
+
+  private lost(peer: PeerEntry) {
+    peer.missedPings++
+    peer.loss = (peer.loss ?? 0) * (1 - LOSS_ALPHA) + LOSS_ALPHA
+    if (peer.missedPings >= this.config.deadAfter) {
+      this.setState(peer, 'dead')
+    } else if (peer.missedPings >= this.config.suspectAfter) {
+      this.setState(peer, 'suspect')
+    }
+  }
+
+  private setState(peer: PeerEntry, state: PeerState) {
+    if (peer.state !== state) {
+      console.log(`[PeerTable] ${peer.deviceId} is now ${state}`)
+      peer.state = state
+    }
+  }
+}
+
+function toLink(peer: PeerEntry): PeerLink {
+  const { outstanding, nextPingAt, pingDelay, ...link } = peer
+  return link
+}
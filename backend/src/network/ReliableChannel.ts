@@ -0,0 +1,439 @@
+import { randomBytes } from 'crypto'
+import { wireBytes } from './NetworkSimulator'
+import type { NetworkSimulator, NetworkEvent } from './NetworkSimulator'
+
+export interface ReliableConfig {
+  segmentSize: number // Message bytes per data packet
+  initialWindow: number // Segments in flight before the first ack
+  maxWindow: number
+  initialRto: number // Retransmit timeout before any RTT is measured
+  minRto: number
+  maxRto: number
+  maxRetransmits: number // Per segment; then everything queued for the peer fails
+  maxQueued: number // Segments waiting per peer; sends beyond it fail at once
+  maxMessageBytes: number // A peer's stream is dropped when one message grows past this
+  tickInterval: number
+}
+
+// All the channel needs from a transport, simulated or real. One that knows
+// which peers predate the channel says so, and sends to them fail at once.
+export type ReliableTransport = Pick<NetworkSimulator, 'onNetworkEvent'> & {
+  sendEvent(sourceDevice: string, targetDevice: string, type: NetworkEvent['type'], payload: any): unknown
+  supportsReliable?(peerId: string): boolean
+}
+
+export const DEFAULT_RELIABLE_CONFIG: ReliableConfig = {
+  segmentSize: 1000,
+  initialWindow: 4,
+  maxWindow: 256,
+  initialRto: 1000,
+  minRto: 200,
+  maxRto: 30000,
+  maxRetransmits: 8,
+  maxQueued: 20000,
+  maxMessageBytes: 1024 * 1024,
+  tickInterval: 100
+}
+
+// Later segments acked before one counts as lost, as in TCP fast retransmit
+const DUPLICATE_THRESHOLD = 3
+
+// Ranges above the cumulative ack listed in each ack
+const MAX_SACK_RANGES = 16
+
+interface OutboundMessage {
+  lastSeq: number
+  bytes: number // Its segments on the wire so far, retransmissions included
+  resolve: (bytes: number) => void
+  reject: (err: Error) => void
+}
+
+interface Segment {
+  seq: number
+  data: string // base64
+  end: boolean // Last segment of its message
+  sentAt: number
+  transmissions: number
+  message: OutboundMessage
+}
+
+interface SendState {
+  stream: string // New per sender state, so the receiver knows to start over
+  nextSeq: number
+  queue: Segment[] // Never sent
+  retransmit: Segment[] // Lost, to be sent again before anything new
+  inflight: Map<number, Segment>
+  cwnd: number
+  ssthresh: number
+  srtt: number | null
+  rttvar: number
+  rto: number
+  recoverUntil: number // No further window cut for losses below this seq
+  messages: OutboundMessage[]
+}
+
+interface ReceiveState {
+  stream: string
+  expected: number // Everything below has arrived
+  buffered: Map<number, { data: Buffer; end: boolean }>
+  parts: Buffer[] // Of the message being reassembled
+  partBytes: number
+  refused: boolean // Dropped for an oversized message; ignored until a new stream
+}
+
+/**
+ * ReliableChannel - ordered, acknowledged delivery on top of any transport
+ *
+ * Gossip is best-effort by design: a lost Bloom filter or event is made up
+ * in a later round. Bulk transfers, such as catching a new peer up on the
+ * whole history, would rather not wait rounds for every loss. Messages
+ * sent here are split into numbered `reliable_data` segments; the receiver
+ * answers each with a `reliable_ack` holding the next sequence number it
+ * expects plus ranges received beyond it (selective acks). The sender
+ * retransmits a segment when three later ones are acked, or when its
+ * timeout (RFC 6298, from measured RTT) runs out, and paces itself with a
+ * congestion window: slow start, then additive increase, halved on loss
+ * and reset to one segment on timeout.
+ *
+ * Delivered messages reach onMessage handlers in order, as network events
+ * of their original type, so receivers handle them like any other packet.
+ */
+export class ReliableChannel {
+  private sending: Map<string, SendState> = new Map()
+  private receiving: Map<string, ReceiveState> = new Map()
+  private messageHandlers: Array<(event: NetworkEvent) => void> = []
+  private config: ReliableConfig
+  private timer: NodeJS.Timeout | null = null
+  private stats = {
+    messagesSent: 0,
+    messagesDelivered: 0,
+    messagesFailed: 0,
+    segmentsSent: 0,
+    bytesSent: 0, // Data segments, retransmissions included
+    retransmissions: 0
+  }
+
+  constructor(
+    private deviceId: string,
+    private network: ReliableTransport,
+    config: Partial<ReliableConfig> = {},
+    private clock: () => number = Date.now
+  ) {
+    this.config = { ...DEFAULT_RELIABLE_CONFIG, ...config }
+    this.network.onNetworkEvent(event => this.handleNetworkEvent(event))
+  }
+
+  start(): void {
+    this.timer ??= setInterval(() => this.tick(), this.config.tickInterval)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Messages as they complete, in order per peer; returns an unsubscribe
+   */
+  onMessage(handler: (event: NetworkEvent) => void): () => void {
+    this.messageHandlers.push(handler)
+    return () => {
+      this.messageHandlers = this.messageHandlers.filter(h => h !== handler)
+    }
+  }
+
+  /**
+   * False for a peer the transport says can't take the channel (yet)
+   */
+  canSend(peerId: string): boolean {
+    return this.network.supportsReliable?.(peerId) !== false
+  }
+
+  /**
+   * Resolves once the peer has acknowledged the whole message, with the
+   * bytes its segments took on the wire; rejects if the peer stops answering
+   */
+  send(peerId: string, type: NetworkEvent['type'], payload: any): Promise<number> {
+    if (!this.canSend(peerId)) {
+      this.stats.messagesFailed++
+      return Promise.reject(new Error(`${peerId} does not take reliable packets`))
+    }
+    const state = this.getSendState(peerId)
+    const bytes = Buffer.from(JSON.stringify({ type, payload }))
+    const count = Math.max(1, Math.ceil(bytes.length / this.config.segmentSize))
+    if (state.queue.length + count > this.config.maxQueued) {
+      this.stats.messagesFailed++
+      return Promise.reject(new Error(`Reliable queue to ${peerId} is full`))
+    }
+
+    let message!: OutboundMessage
+    const sent = new Promise<number>((resolve, reject) => {
+      message = { lastSeq: state.nextSeq + count - 1, bytes: 0, resolve, reject }
+    })
+    state.messages.push(message)
+    for (let i = 0; i < count; i++) {
+      const chunk = bytes.subarray(i * this.config.segmentSize, (i + 1) * this.config.segmentSize)
+      state.queue.push({ seq: state.nextSeq++, data: chunk.toString('base64'), end: i === count - 1, sentAt: 0, transmissions: 0, message })
+    }
+    this.stats.messagesSent++
+    this.pump(peerId, state)
+    return sent
+  }
+
+  /**
+   * Retransmit whatever has timed out; called every tickInterval once started
+   */
+  tick(): void {
+    const now = this.clock()
+    for (const [peerId, state] of this.sending) {
+      const expired = Array.from(state.inflight.values()).filter(segment => now - segment.sentAt >= state.rto)
+      if (expired.length === 0) {
+        continue
+      }
+      if (expired.some(segment => segment.transmissions > this.config.maxRetransmits)) {
+        this.fail(peerId, state)
+        continue
+      }
+
+      // A timeout means the path is worse than the window assumed
+      state.ssthresh = Math.max(Math.floor(state.inflight.size / 2), 2)
+      state.cwnd = 1
+      state.rto = Math.min(state.rto * 2, this.config.maxRto)
+      state.recoverUntil = state.nextSeq
+      this.markLost(state, expired)
+      this.pump(peerId, state)
+    }
+  }
+
+  getStats() {
+    return {
+      ...this.stats,
+      peers: Array.from(this.sending.entries()).map(([peerId, state]) => ({
+        peerId,
+        window: Math.floor(state.cwnd),
+        rto: Math.round(state.rto),
+        inflight: state.inflight.size,
+        queued: state.queue.length + state.retransmit.length
+      }))
+    }
+  }
+
+  private handleNetworkEvent(event: NetworkEvent) {
+    if (event.status !== 'delivered' || event.targetDevice !== this.deviceId) {
+      return
+    }
+    if (event.type === 'reliable_data') {
+      this.handleData(event.sourceDevice, event.payload)
+    } else if (event.type === 'reliable_ack') {
+      this.handleAck(event.sourceDevice, event.payload)
+    }
+  }
+
+  private handleData(peerId: string, packet: any) {
+    if (typeof packet?.stream !== 'string' || !Number.isInteger(packet?.seq) || typeof packet?.data !== 'string') {
+      return
+    }
+    let state = this.receiving.get(peerId)
+    if (!state || state.stream !== packet.stream) {
+      state = { stream: packet.stream, expected: 0, buffered: new Map(), parts: [], partBytes: 0, refused: false }
+      this.receiving.set(peerId, state)
+    }
+    if (state.refused) {
+      return
+    }
+
+    // Far beyond any window the sender may have open; don't hold it
+    if (packet.seq >= state.expected + this.config.maxWindow * 2) {
+      return
+    }
+    if (packet.seq >= state.expected) {
+      state.buffered.set(packet.seq, { data: Buffer.from(packet.data, 'base64'), end: packet.end === true })
+    }
+
+    let next = state.buffered.get(state.expected)
+    while (next) {
+      state.buffered.delete(state.expected)
+      state.expected++
+      state.parts.push(next.data)
+      state.partBytes += next.data.length
+      if (state.partBytes > this.config.maxMessageBytes) {
+        // Unacked, the sender gives up on this stream and starts a new one
+        console.warn(`[ReliableChannel] ${this.deviceId} dropped the stream from ${peerId}: message over ${this.config.maxMessageBytes} bytes`)
+        state.buffered.clear()
+        state.parts = []
+        state.partBytes = 0
+        state.refused = true
+        return
+      }
+      if (next.end) {
+        this.deliver(peerId, Buffer.concat(state.parts))
+        state.parts = []
+        state.partBytes = 0
+      }
+      next = state.buffered.get(state.expected)
+    }
+
+    this.network.sendEvent(this.deviceId, peerId, 'reliable_ack', {
+      stream: state.stream,
+      ack: state.expected,
+      sack: toRanges(Array.from(state.buffered.keys()))
+    })
+  }
+
+  private handleAck(peerId: string, packet: any) {
+    const state = this.sending.get(peerId)
+    if (!state || packet?.stream !== state.stream || !Number.isInteger(packet?.ack)) {
+      return
+    }
+    const now = this.clock()
+    const ranges: Array<[number, number]> = Array.isArray(packet.sack) ? packet.sack.filter(isRange) : []
+    const isAcked = (seq: number) => seq < packet.ack || ranges.some(([from, to]) => seq >= from && seq <= to)
+
+    for (const segment of state.inflight.values()) {
+      if (!isAcked(segment.seq)) {
+        continue
+      }
+      state.inflight.delete(segment.seq)
+      // Karn: a retransmitted segment's ack can't say which copy it answers
+      if (segment.transmissions === 1) {
+        this.sampleRtt(state, now - segment.sentAt)
+      }
+      state.cwnd = Math.min(state.cwnd < state.ssthresh ? state.cwnd + 1 : state.cwnd + 1 / state.cwnd, this.config.maxWindow)
+    }
+    state.retransmit = state.retransmit.filter(segment => !isAcked(segment.seq))
+
+    // Only first transmissions: a resent segment is judged by its timeout
+    const lost = Array.from(state.inflight.values()).filter(segment => segment.transmissions === 1 &&
+      ranges.reduce((count, [from, to]) => count + Math.max(0, to - Math.max(from, segment.seq + 1) + 1), 0) >= DUPLICATE_THRESHOLD
+    )
+    if (lost.length > 0) {
+      if (lost[0].seq >= state.recoverUntil) {
+        state.ssthresh = Math.max(Math.floor(state.cwnd / 2), 2)
+        state.cwnd = state.ssthresh
+        state.recoverUntil = state.nextSeq
+      }
+      this.markLost(state, lost)
+    }
+
+    const lowestOutstanding = Math.min(
+      ...state.inflight.keys(),
+      ...state.retransmit.map(segment => segment.seq),
+      state.queue[0]?.seq ?? state.nextSeq,
+      state.nextSeq
+    )
+    while (state.messages.length > 0 && state.messages[0].lastSeq < lowestOutstanding) {
+      const message = state.messages.shift()!
+      message.resolve(message.bytes)
+    }
+    this.pump(peerId, state)
+  }
+
+  // Send lost segments first, then new ones, as far as the window allows
+  private pump(peerId: string, state: SendState) {
+    while (state.inflight.size < Math.floor(state.cwnd)) {
+      const segment = state.retransmit.shift() ?? state.queue.shift()
+      if (!segment) {
+        return
+      }
+      if (segment.transmissions > 0) {
+        this.stats.retransmissions++
+      }
+      segment.sentAt = this.clock()
+      segment.transmissions++
+      state.inflight.set(segment.seq, segment)
+      this.stats.segmentsSent++
+      const payload = { stream: state.stream, seq: segment.seq, data: segment.data, end: segment.end }
+      const sent = this.network.sendEvent(this.deviceId, peerId, 'reliable_data', payload)
+      const bytes = wireBytes(sent, { source: this.deviceId, target: peerId, type: 'reliable_data', payload })
+      segment.message.bytes += bytes
+      this.stats.bytesSent += bytes
+    }
+  }
+
+  private markLost(state: SendState, segments: Segment[]) {
+    segments.forEach(segment => state.inflight.delete(segment.seq))
+    state.retransmit = [...state.retransmit, ...segments].sort((a, b) => a.seq - b.seq)
+  }
+
+  private sampleRtt(state: SendState, rtt: number) {
+    if (state.srtt === null) {
+      state.srtt = rtt
+      state.rttvar = rtt / 2
+    } else {
+      state.rttvar = 0.75 * state.rttvar + 0.25 * Math.abs(state.srtt - rtt)
+      state.srtt = 0.875 * state.srtt + 0.125 * rtt
+    }
+    state.rto = Math.min(Math.max(state.srtt + 4 * state.rttvar, this.config.minRto), this.config.maxRto)
+  }
+
+  // The peer stopped answering: drop the stream; the next send starts a new one
+  private fail(peerId: string, state: SendState) {
+    console.warn(`[ReliableChannel] ${this.deviceId} gave up on ${peerId} with ${state.messages.length} messages unacknowledged`)
+    this.sending.delete(peerId)
+    this.stats.messagesFailed += state.messages.length
+    state.messages.forEach(message => message.reject(new Error(`${peerId} stopped acknowledging`)))
+  }
+
+  private deliver(peerId: string, bytes: Buffer) {
+    let message: { type: NetworkEvent['type']; payload: any }
+    try {
+      message = JSON.parse(bytes.toString())
+    } catch {
+      console.warn(`[ReliableChannel] ${this.deviceId} dropped a malformed message from ${peerId}`)
+      return
+    }
+    this.stats.messagesDelivered++
+    const event: NetworkEvent = {
+      id: `reliable-${Date.now()}-${Math.random()}`,
+      sourceDevice: peerId,
+      targetDevice: this.deviceId,
+      type: message.type,
+      payload: message.payload,
+      timestamp: this.clock(),
+      status: 'delivered'
+    }
+    this.messageHandlers.forEach(handler => handler(event))
+  }
+
+  private getSendState(peerId: string): SendState {
+    let state = this.sending.get(peerId)
+    if (!state) {
+      state = {
+        stream: randomBytes(8).toString('hex'),
+        nextSeq: 0,
+        queue: [],
+        retransmit: [],
+        inflight: new Map(),
+        cwnd: this.config.initialWindow,
+        ssthresh: this.config.maxWindow,
+        srtt: null,
+        rttvar: 0,
+        rto: this.config.initialRto,
+        recoverUntil: 0,
+        messages: []
+      }
+      this.sending.set(peerId, state)
+    }
+    return state
+  }
+}
+
+function isRange(range: unknown): range is [number, number] {
+  return Array.isArray(range) && range.length === 2 && Number.isInteger(range[0]) && Number.isInteger(range[1]) && range[0] <= range[1]
+}
+
+// Sorted sequence numbers as inclusive [from, to] runs, lowest first
+function toRanges(seqs: number[]): Array<[number, number]> {
+  const ranges: Array<[number, number]> = []
+  for (const seq of seqs.sort((a, b) => a - b)) {
+    const last = ranges[ranges.length - 1]
+    if (last && seq === last[1] + 1) {
+      last[1] = seq
+    } else {
+      ranges.push([seq, seq])
+    }
+  }
+  return ranges.slice(0, MAX_SACK_RANGES)
+}
@@ -150,8 +150,11 @@ export class RemoteNetworkSimulator extends EventEmitter {
     this.setDeviceOnline(this.deviceId, online)
   }
   
-  onNetworkEvent(callback: (event: NetworkEvent) => void) {
+  onNetworkEvent(callback: (event: NetworkEvent) => void): () => void {
     this.eventCallbacks.push(callback)
+    return () => {
+      this.eventCallbacks = this.eventCallbacks.filter(c => c !== callback)
+    }
   }
   
   // These methods are stubs for compatibility
@@ -24,6 +24,7 @@ interface OrchestratorConfig {
   imageAttachmentPercentage?: number
   mode?: 'simulation' | 'direct-udp'  // Default is 'simulation'
   setupTrust?: boolean  // Auto-setup trust between devices
+  syncStrategy?: string | Record<string, string>  // One for all, or per device for mixed runs
 }
 
 /**
@@ -163,6 +164,42 @@ export class UnifiedOrchestrator extends EventEmitter {
     this.timeController.setSpeed(multiplier)
   }
 
+  /**
+   * Switch one device's sync strategy while the simulation runs
+   */
+  async setDeviceStrategy(deviceId: string, strategy: string): Promise<void> {
+    const device = this.devices.get(deviceId)
+    if (!device) {
+      throw new Error(`Unknown device: ${deviceId}`)
+    }
+
+    const response = await fetch(`http://localhost:${device.port}/api/sync/strategy`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ strategy })
+    })
+    if (!response.ok) {
+      const body: any = await response.json()
+      throw new Error(`${deviceId} rejected sync strategy ${strategy}: ${body.error}`)
+    }
+  }
+
+  /**
+   * Each device's sync stats, to compare strategies within one run
+   */
+  async getSyncStats(): Promise<Record<string, any>> {
+    const stats: Record<string, any> = {}
+    for (const [deviceId, config] of this.devices) {
+      try {
+        const response = await fetch(`http://localhost:${config.port}/api/sync/stats`)
+        stats[deviceId] = await response.json()
+      } catch (error) {
+        stats[deviceId] = { error: 'unreachable' }
+      }
+    }
+    return stats
+  }
+
   /**
    * Get current status
    */
@@ -323,6 +360,13 @@ export class UnifiedOrchestrator extends EventEmitter {
         SYNC_INTERVAL: (this.config.syncInterval || 1000).toString()
       }
       
+      const strategy = typeof this.config.syncStrategy === 'string'
+        ? this.config.syncStrategy
+        : this.config.syncStrategy?.[deviceId]
+      if (strategy) {
+        env.SYNC_STRATEGY = strategy
+      }
+      
       if (this.config.mode === 'direct-udp') {
         // Direct UDP mode - backends communicate directly
         env.UDP_PORT = this.ports.udpPorts[deviceId].toString()
@@ -538,6 +582,20 @@ export class UnifiedOrchestrator extends EventEmitter {
       res.json(this.eventTimeline)
     })
     
+    // Sync strategies, for mixed-strategy experiments
+    this.app.post('/api/devices/:deviceId/strategy', async (req, res) => {
+      try {
+        await this.setDeviceStrategy(req.params.deviceId, req.body.strategy)
+        res.json({ success: true, deviceId: req.params.deviceId, strategy: req.body.strategy })
+      } catch (error: any) {
+        res.status(400).json({ error: error.message })
+      }
+    })
+    
+    this.app.get('/api/sync/stats', async (req, res) => {
+      res.json(await this.getSyncStats())
+    })
+    
     // Device URLs
     this.app.get('/api/devices', (req, res) => {
       const devices: any = {}
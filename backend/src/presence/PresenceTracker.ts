@@ -0,0 +1,179 @@
+import type { MessageGenerator, EphemeralPayload } from '../crypto/MessageGenerator'
+import type { NetworkEvent } from '../network/NetworkSimulator'
+
+/**
+ * The slice of a network PresenceTracker needs; satisfied by both
+ * NetworkSimulator and the UDP DirectP2PNetwork
+ */
+export interface EphemeralTransport {
+  broadcastEvent(sourceDevice: string, type: 'ephemeral', payload: any): unknown
+  onNetworkEvent(handler: (event: NetworkEvent) => void): void
+}
+
+export interface PresenceOptions {
+  heartbeatInterval?: number // How often we announce we're online
+  offlineAfter?: number // Silence after which a peer counts as offline
+  typingTimeout?: number // How long "typing" lasts without a refresh
+  maxSignalAge?: number // Older signals are dropped as stale or replayed
+}
+
+export interface PeerPresence {
+  deviceId: string
+  online: boolean
+  lastSeen: number
+  typingIn: string | null // Channel the peer is typing in, if any
+}
+
+interface PeerState {
+  lastSeen: number
+  offline: boolean // Said goodbye explicitly
+  typingIn: string | null
+  typingUntil: number
+}
+
+/**
+ * PresenceTracker - typing indicators and online presence
+ *
+ * Signals are signed and PSK-encrypted like events but sent as `ephemeral`
+ * packets: they are never stored, never added to the Bloom filter, and a
+ * lost one is simply superseded by the next heartbeat.
+ */
+export class PresenceTracker {
+  private peers: Map<string, PeerState> = new Map()
+  private handlers: Array<(peers: PeerPresence[]) => void> = []
+  private heartbeatTimer?: NodeJS.Timeout
+  private sweepTimer?: NodeJS.Timeout
+  private lastSnapshot = ''
+  private options: Required<PresenceOptions>
+
+  constructor(
+    private deviceId: string,
+    private network: EphemeralTransport,
+    private messageGenerator: MessageGenerator,
+    options: PresenceOptions = {}
+  ) {
+    this.options = {
+      heartbeatInterval: 5000,
+      offlineAfter: 15000,
+      typingTimeout: 5000,
+      maxSignalAge: 30000,
+      ...options
+    }
+    this.network.onNetworkEvent(event => {
+      if (event.type === 'ephemeral' && event.status === 'delivered') {
+        this.handleSignal(event.payload, event.sourceDevice).catch(error => {
+          console.error(`[Presence] ${this.deviceId} error handling signal:`, error)
+        })
+      }
+    })
+  }
+
+  start(): void {
+    this.stop()
+    void this.broadcast({ type: 'presence', status: 'online', author: this.deviceId, timestamp: Date.now() })
+    this.heartbeatTimer = setInterval(() => {
+      void this.broadcast({ type: 'presence', status: 'online', author: this.deviceId, timestamp: Date.now() })
+    }, this.options.heartbeatInterval)
+    // Typing and online state expire on their own, so re-check once a second
+    this.sweepTimer = setInterval(() => this.emitIfChanged(), 1000)
+  }
+
+  stop(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer)
+      this.heartbeatTimer = undefined
+    }
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer)
+      this.sweepTimer = undefined
+    }
+  }
+
+  /**
+   * Tell peers we're going away, so they don't wait for the heartbeat to lapse
+   */
+  async announceOffline(): Promise<void> {
+    await this.broadcast({ type: 'presence', status: 'offline', author: this.deviceId, timestamp: Date.now() })
+  }
+
+  async setTyping(channelId: string, typing: boolean): Promise<void> {
+    await this.broadcast({ type: 'typing', channelId, typing, author: this.deviceId, timestamp: Date.now() })
+  }
+
+  /**
+   * Every peer we've heard from, most recently seen first
+   */
+  getPeers(now: number = Date.now()): PeerPresence[] {
+    return Array.from(this.peers.entries())
+      .map(([deviceId, state]) => ({
+        deviceId,
+        online: !state.offline && now - state.lastSeen < this.options.offlineAfter,
+        lastSeen: state.lastSeen,
+        typingIn: state.typingIn && now < state.typingUntil ? state.typingIn : null
+      }))
+      .sort((a, b) => b.lastSeen - a.lastSeen || a.deviceId.localeCompare(b.deviceId))
+  }
+
+  /**
+   * Subscribe to presence changes; returns an unsubscribe function
+   */
+  onUpdate(handler: (peers: PeerPresence[]) => void): () => void {
+    this.handlers.push(handler)
+    return () => {
+      this.handlers = this.handlers.filter(h => h !== handler)
+    }
+  }
+
+  private async broadcast(signal: EphemeralPayload): Promise<void> {
+    const sealed = await this.messageGenerator.createEphemeral(signal)
+    this.network.broadcastEvent(this.deviceId, 'ephemeral', { sealed: sealed.toString('base64') })
+  }
+
+  private async handleSignal(payload: any, sourceDevice: string): Promise<void> {
+    if (typeof payload?.sealed !== 'string') {
+      return
+    }
+    const signal = await this.messageGenerator.decryptEphemeral(Buffer.from(payload.sealed, 'base64'))
+    if (!signal || signal.author !== sourceDevice || signal.author === this.deviceId) {
+      return
+    }
+
+    const now = Date.now()
+    if (Math.abs(now - signal.timestamp) > this.options.maxSignalAge) {
+      console.log(`[Presence] ${this.deviceId} dropping stale ${signal.type} signal from ${signal.author}`)
+      return
+    }
+
+    const state = this.peers.get(signal.author) || { lastSeen: 0, offline: false, typingIn: null, typingUntil: 0 }
+    if (signal.timestamp < state.lastSeen) {
+      // Reordered behind a newer signal
+      return
+    }
+    state.lastSeen = signal.timestamp
+
+    if (signal.type === 'presence') {
+      state.offline = signal.status === 'offline'
+      if (state.offline) {
+        state.typingIn = null
+      }
+    } else {
+      state.offline = false
+      state.typingIn = signal.typing ? signal.channelId : null
+      state.typingUntil = signal.typing ? now + this.options.typingTimeout : 0
+    }
+
+    this.peers.set(signal.author, state)
+    this.emitIfChanged()
+  }
+
+  // Only push when what a client would render actually changed
+  private emitIfChanged(): void {
+    const peers = this.getPeers()
+    const snapshot = JSON.stringify(peers.map(({ deviceId, online, typingIn }) => [deviceId, online, typingIn]))
+    if (snapshot === this.lastSnapshot) {
+      return
+    }
+    this.lastSnapshot = snapshot
+    this.handlers.forEach(handler => handler(peers))
+  }
+}
@@ -0,0 +1,122 @@
+import { Router } from 'express'
+import type { Request, Response } from 'express'
+import { MessageGenerator } from '../crypto/MessageGenerator'
+import type { ChannelEvent, ChannelMembershipEvent } from '../crypto/MessageGenerator'
+import type { MessageProjection } from '../storage/MessageProjection'
+import { DEFAULT_CHANNEL_ID } from '../storage/ChannelDirectory'
+import { listMessages } from './messageListing'
+
+export function createChannelRoutes(store: MessageProjection, messageGenerator: MessageGenerator) {
+  const router = Router()
+
+  // Sign, store and broadcast a channel event like any other event
+  const publish = async (req: Request, payload: ChannelEvent | ChannelMembershipEvent) => {
+    const event = await messageGenerator.createEvent(payload, payload.timestamp)
+    const eventId = messageGenerator.computeEventId(event.encrypted)
+
+    await store.storeEvent(event, eventId)
+
+    const syncManager = (req as any).syncManager
+    if (syncManager) {
+      await syncManager.broadcastNewMessage(event, eventId)
+      console.log(`[Channels] Broadcasting ${payload.type} event ${eventId} through sync`)
+    }
+
+    return eventId
+  }
+
+  // List channels, including archived ones
+  router.get('/', async (req, res) => {
+    res.json({ channels: await store.getChannels() })
+  })
+
+  // Create a channel; its ID is the create event's ID
+  router.post('/', async (req, res) => {
+    const deviceId = (req as any).deviceId
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : ''
+
+    if (!name) {
+      return res.status(400).json({ error: 'Name is required' })
+    }
+
+    const channelId = await publish(req, {
+      type: 'channel',
+      action: 'create',
+      name,
+      author: deviceId,
+      timestamp: Date.now()
+    })
+
+    res.json(await store.getChannel(channelId))
+  })
+
+  // Rename and/or archive a channel; only its creator may
+  router.patch('/:id', async (req, res) => {
+    const deviceId = (req as any).deviceId
+    const { id: channelId } = req.params
+    const { name, archived } = req.body
+
+    const channel = await store.getChannel(channelId)
+    if (!channel) {
+      return res.status(404).json({ error: 'Channel not found' })
+    }
+    if (channelId === DEFAULT_CHANNEL_ID) {
+      return res.status(400).json({ error: 'The default channel cannot be changed' })
+    }
+    if (channel.createdBy !== deviceId) {
+      return res.status(403).json({ error: 'Only the creator can change a channel' })
+    }
+    if (name === undefined && archived === undefined) {
+      return res.status(400).json({ error: 'Nothing to change' })
+    }
+
+    // Never earlier than the creation, so a skewed clock can't lose the update
+    const timestamp = Math.max(Date.now(), channel.createdAt + 1)
+    if (typeof name === 'string' && name.trim() && name.trim() !== channel.name) {
+      await publish(req, { type: 'channel', action: 'rename', channelId, name: name.trim(), author: deviceId, timestamp })
+    }
+    if (typeof archived === 'boolean' && archived !== channel.archived) {
+      await publish(req, { type: 'channel', action: archived ? 'archive' : 'unarchive', channelId, author: deviceId, timestamp })
+    }
+
+    res.json(await store.getChannel(channelId))
+  })
+
+  // Join or leave a channel
+  const setMembership = async (req: Request, res: Response, joined: boolean) => {
+    const deviceId = (req as any).deviceId
+    const { id: channelId } = req.params
+
+    if (!(await store.getChannel(channelId))) {
+      return res.status(404).json({ error: 'Channel not found' })
+    }
+
+    await publish(req, {
+      type: 'channel_membership',
+      channelId,
+      joined,
+      author: deviceId,
+      timestamp: Date.now()
+    })
+
+    res.json(await store.getChannel(channelId))
+  }
+
+  router.post('/:id/join', async (req, res) => {
+    await setMembership(req, res, true)
+  })
+
+  router.post('/:id/leave', async (req, res) => {
+    await setMembership(req, res, false)
+  })
+
+  // Messages in one channel; same pagination and polling parameters as GET /api/messages
+  router.get('/:id/messages', async (req, res) => {
+    if (!(await store.getChannel(req.params.id))) {
+      return res.status(404).json({ error: 'Channel not found' })
+    }
+    await listMessages(store, req, res, req.params.id)
+  })
+
+  return router
+}
@@ -0,0 +1,36 @@
+import { Router } from 'express'
+import { PeerDiscovery } from '../network/PeerDiscovery'
+
+export function createDiscoveryRoutes(discovery: PeerDiscovery) {
+  const router = Router()
+
+  router.get('/', (req, res) => {
+    res.json({
+      enabled: discovery.isRunning(),
+      peers: discovery.getPeers(),
+      stats: discovery.getStats()
+    })
+  })
+
+  // Turn LAN discovery on or off; turning it off drops the peers it found
+  router.post('/', async (req, res) => {
+    const { enabled } = req.body ?? {}
+    if (typeof enabled !== 'boolean') {
+      return res.status(400).json({ error: 'enabled must be a boolean' })
+    }
+
+    try {
+      if (enabled) {
+        await discovery.start()
+      } else {
+        await discovery.stop()
+      }
+    } catch (err) {
+      console.error('[Discovery] Failed to start:', err)
+      return res.status(500).json({ error: 'Failed to start discovery' })
+    }
+    res.json({ success: true, enabled: discovery.isRunning() })
+  })
+
+  return router
+}
@@ -0,0 +1,53 @@
+import express, { Router } from 'express'
+import type { FileAttachment, FileTransfer } from '../files/FileTransfer'
+import type { MessageProjection, ProjectedMessage } from '../storage/MessageProjection'
+
+export function createFileRoutes(files: FileTransfer, store: MessageProjection, listPeers: () => string[]) {
+  const router = Router()
+
+  // Upload raw bytes of any type; send the returned attachment in a message's
+  // `attachments`. Mount before any JSON parser, which would take the body
+  router.post('/', express.raw({ type: () => true, limit: '10mb' }), (req, res) => {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: 'File body is required' })
+    }
+
+    const mimeType = req.get('Content-Type') || 'application/octet-stream'
+    const fileName = typeof req.query.name === 'string' ? req.query.name : undefined
+    try {
+      res.json(files.upload(req.body, mimeType, fileName))
+    } catch (error) {
+      res.status(413).json({ error: (error as Error).message })
+    }
+  })
+
+  // A file attached to a message we can see, fetched from peers if we lack it
+  router.get('/:id', async (req, res) => {
+    let message: ProjectedMessage | undefined
+    try {
+      message = (await store.getMessages()).find(m => m.attachments.some(a => a?.fileId === req.params.id))
+    } catch (error) {
+      return res.status(500).json({ error: 'Failed to read messages' })
+    }
+    if (!message) {
+      return res.status(404).json({ error: 'File not found' })
+    }
+    const attachment: FileAttachment = message.attachments.find(a => a?.fileId === req.params.id)
+
+    // The author is the likeliest holder; anyone who opened it may be another
+    const author = message.author
+    const holders = [author, ...listPeers().filter(peer => peer !== author)]
+    try {
+      const data = await files.download(attachment, holders)
+      res.set('Content-Type', attachment.mimeType)
+      if (attachment.fileName) {
+        res.attachment(attachment.fileName)
+      }
+      res.send(data)
+    } catch (error) {
+      res.status(502).json({ error: (error as Error).message })
+    }
+  })
+
+  return router
+}
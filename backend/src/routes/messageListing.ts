@@ -0,0 +1,63 @@
+import type { Request, Response } from 'express'
+import type { MessageProjection, ProjectedMessage } from '../storage/MessageProjection'
+import { encodeCursor, paginate, parsePageQuery } from './pagination'
+
+/**
+ * A projected message as returned by the API, with its reactions, receipts and cursor
+ */
+export function toMessageResponse(store: MessageProjection, message: ProjectedMessage) {
+  return {
+    ...message,
+    reactions: store.getReactions(message.id),
+    replyCount: store.getReplyCount(message.id),
+    receipts: store.getReceipts(message.id),
+    cursor: encodeCursor(message)
+  }
+}
+
+/**
+ * Shared by GET /api/messages and GET /api/channels/:id/messages
+ * Supports since, before/after cursors with limit, or changedSince for polling.
+ */
+export async function listMessages(store: MessageProjection, req: Request, res: Response, channelId?: string) {
+  const since = req.query.since ? parseInt(req.query.since as string) : 0
+  const inChannel = (message: ProjectedMessage) => !channelId || message.channelId === channelId
+
+  // Everything new, modified (edits, reactions) or deleted since a revision the client saw
+  if (req.query.changedSince !== undefined) {
+    const changedSince = parseInt(req.query.changedSince as string)
+    if (isNaN(changedSince) || changedSince < 0) {
+      return res.status(400).json({ error: 'changedSince must be a non-negative revision' })
+    }
+
+    // Read the revision first so changes made during the query are picked up next time
+    await store.initialize()
+    const revision = store.getRevision()
+    const changed = await store.getMessagesChangedSince(changedSince)
+    return res.json({
+      messages: changed.filter(inChannel).map(message => toMessageResponse(store, message)),
+      deleted: store.getDeletedSince(changedSince),
+      nextCursor: null,
+      hasMore: false,
+      revision
+    })
+  }
+
+  const pageOptions = parsePageQuery(req.query)
+  if ('error' in pageOptions) {
+    return res.status(400).json({ error: pageOptions.error })
+  }
+
+  await store.initialize()
+  const revision = store.getRevision()
+  const messages = await store.getMessages()
+  const visible = messages.filter(m => inChannel(m) && (since <= 0 || m.timestamp > since))
+  const page = paginate(visible, pageOptions)
+
+  res.json({
+    messages: page.items.map(message => toMessageResponse(store, message)),
+    nextCursor: page.nextCursor,
+    hasMore: page.hasMore,
+    revision
+  })
+}
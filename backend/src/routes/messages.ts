@@ -1,22 +1,56 @@
 import { Router } from 'express'
 import { MessageGenerator } from '../crypto/MessageGenerator'
-import { InMemoryStore } from '../storage/InMemoryStore'
+import type { DeleteEvent, EditEvent, ReactionEvent, ReceiptEvent } from '../crypto/MessageGenerator'
+import type { MessageProjection } from '../storage/MessageProjection'
+import { DEFAULT_CHANNEL_ID } from '../storage/ChannelDirectory'
+import { SearchIndex } from '../search/SearchIndex'
+import { attachmentError } from '../files/FileTransfer'
+import { listMessages, toMessageResponse } from './messageListing'
 
-export function createMessageRoutes(store: InMemoryStore, messageGenerator: MessageGenerator) {
+export function createMessageRoutes(store: MessageProjection, messageGenerator: MessageGenerator) {
   const router = Router()
+  const searchIndex = new SearchIndex(store)
 
   // Send a message
   router.post('/', async (req, res) => {
     const deviceId = (req as any).deviceId
-    const { content, attachments, noBroadcast } = req.body
+    const { content, attachments, noBroadcast, replyTo } = req.body
 
     if (!content) {
       return res.status(400).json({ error: 'Content is required' })
     }
+    if (attachments !== undefined && !Array.isArray(attachments)) {
+      return res.status(400).json({ error: 'Attachments must be an array' })
+    }
+    const attachmentInvalid = (attachments || []).map((attachment: any) => attachmentError(attachment)).find(Boolean)
+    if (attachmentInvalid) {
+      return res.status(400).json({ error: `Invalid attachment: ${attachmentInvalid}` })
+    }
+
+    // Replies stay in their parent's channel
+    const parent = replyTo ? await store.getMessage(replyTo) : null
+    if (replyTo && !parent) {
+      return res.status(404).json({ error: 'Parent message not found' })
+    }
+    const channelId: string = req.body.channelId || parent?.channelId || DEFAULT_CHANNEL_ID
+    if (parent && parent.channelId !== channelId) {
+      return res.status(400).json({ error: 'Replies must be in the same channel as their parent' })
+    }
+
+    const channel = await store.getChannel(channelId)
+    if (!channel) {
+      return res.status(404).json({ error: 'Channel not found' })
+    }
+    if (channel.archived) {
+      return res.status(409).json({ error: 'Channel is archived' })
+    }
 
     // Create encrypted message event
     const timestamp = Date.now()
-    const event = await messageGenerator.createMessage(content, timestamp, attachments)
+    const event = await messageGenerator.createMessage(content, timestamp, attachments, {
+      replyTo,
+      channelId: channelId === DEFAULT_CHANNEL_ID ? undefined : channelId
+    })
     const eventId = messageGenerator.computeEventId(event.encrypted)
 
     // Store the event
@@ -34,76 +68,85 @@ export function createMessageRoutes(store: InMemoryStore, messageGenerator: Mess
     }
 
     // Return the created message
-    const decrypted = await messageGenerator.decryptMessage(event)
-    if (!decrypted) {
+    const message = await store.getMessage(eventId)
+    if (!message) {
       return res.status(500).json({ error: 'Failed to decrypt message' })
     }
     
-    res.json({
-      id: eventId,
-      author: decrypted.author,
-      content: decrypted.content,
-      timestamp: decrypted.timestamp,
-      attachments: decrypted.attachments || []
-    })
+    res.json(message)
   })
 
-  // Get messages
-  router.get('/', async (req, res) => {
+  // Mark messages as read; the client batches IDs so one receipt covers many messages
+  router.post('/read', async (req, res) => {
     const deviceId = (req as any).deviceId
-    const since = req.query.since ? parseInt(req.query.since as string) : 0
+    const { messageIds } = req.body
 
-    // Get all events since timestamp (messages and reactions)
-    const events = await store.getAllEventsSince(since)
+    if (!Array.isArray(messageIds) || messageIds.some(id => typeof id !== 'string')) {
+      return res.status(400).json({ error: 'messageIds must be an array of message IDs' })
+    }
 
-    // First pass: decrypt messages
-    const messages = new Map<string, any>()
-    const reactions = new Map<string, any[]>()
-    
-    for (const event of events) {
-      const decrypted = await messageGenerator.decryptEvent(event)
-      if (decrypted) {
-        if (decrypted.type === 'message') {
-          messages.set(event.event_id, {
-            id: event.event_id,
-            author: decrypted.author,
-            content: decrypted.content,
-            timestamp: decrypted.timestamp,
-            attachments: decrypted.attachments || [],
-            reactions: []
-          })
-        } else if (decrypted.type === 'reaction') {
-          const messageReactions = reactions.get(decrypted.messageId) || []
-          if (decrypted.remove) {
-            // Remove reaction
-            const idx = messageReactions.findIndex(
-              r => r.emoji === decrypted.emoji && r.author === decrypted.author
-            )
-            if (idx >= 0) {
-              messageReactions.splice(idx, 1)
-            }
-          } else {
-            // Add reaction
-            messageReactions.push({
-              emoji: decrypted.emoji,
-              author: decrypted.author,
-              timestamp: decrypted.timestamp
-            })
-          }
-          reactions.set(decrypted.messageId, messageReactions)
-        }
+    // Skip our own messages and ones we've already acknowledged
+    const unread: string[] = []
+    for (const messageId of new Set<string>(messageIds)) {
+      const message = await store.getMessage(messageId)
+      if (message && message.author !== deviceId && !store.hasRead(messageId, deviceId)) {
+        unread.push(messageId)
       }
     }
-    
-    // Second pass: attach reactions to messages
-    for (const [messageId, messageReactions] of reactions) {
-      const message = messages.get(messageId)
-      if (message) {
-        message.reactions = messageReactions
-      }
+    if (unread.length === 0) {
+      return res.json({ messageIds: [] })
+    }
+
+    const timestamp = Date.now()
+    const receiptPayload: ReceiptEvent = {
+      type: 'receipt',
+      kind: 'read',
+      messageIds: unread,
+      author: deviceId,
+      timestamp
     }
 
-    res.json({ messages: Array.from(messages.values()) })
+    const event = await messageGenerator.createEvent(receiptPayload, timestamp)
+    const eventId = messageGenerator.computeEventId(event.encrypted)
+    await store.storeEvent(event, eventId)
+
+    const syncManager = (req as any).syncManager
+    if (syncManager) {
+      await syncManager.broadcastNewMessage(event, eventId)
+      console.log(`[Messages] Broadcasting read receipt ${eventId} for ${unread.length} messages`)
+    }
+
+    res.json({ receiptId: eventId, messageIds: unread })
+  })
+
+  // Get messages, optionally paginated with before/after cursors and limit, or filtered to one channel
+  router.get('/', async (req, res) => {
+    await listMessages(store, req, res, req.query.channelId as string | undefined)
+  })
+
+  // Search message content: "exact phrase", prefix*, plus author/channel/since/until filters
+  router.get('/search', async (req, res) => {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : ''
+    if (!q) {
+      return res.status(400).json({ error: 'Query parameter q is required' })
+    }
+
+    const since = req.query.since ? parseInt(req.query.since as string) : undefined
+    const until = req.query.until ? parseInt(req.query.until as string) : undefined
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 20
+    if ([since, until, limit].some(value => value !== undefined && isNaN(value))) {
+      return res.status(400).json({ error: 'since, until and limit must be numbers' })
+    }
+
+    const results = await searchIndex.search(q, {
+      author: req.query.author as string | undefined,
+      channelId: req.query.channelId as string | undefined,
+      since,
+      until,
+      limit: Math.min(Math.max(limit, 1), 100)
+    })
+
+    res.json({ query: q, results })
   })
 
   // Get a specific message
@@ -111,25 +154,73 @@ export function createMessageRoutes(store: InMemoryStore, messageGenerator: Mess
     const deviceId = (req as any).deviceId
     const { id } = req.params
 
-    const event = await store.getEvent(id)
-    if (!event) {
+    const message = await store.getMessage(id)
+    if (!message) {
       return res.status(404).json({ error: 'Message not found' })
     }
+    
+    res.json(message)
+  })
 
-    const decrypted = await messageGenerator.decryptMessage(event)
-    if (!decrypted) {
-      return res.status(500).json({ error: 'Failed to decrypt message' })
+  // Get the thread a message belongs to, root first and replies in causal order
+  router.get('/:id/thread', async (req, res) => {
+    const thread = await store.getThread(req.params.id)
+    if (!thread) {
+      return res.status(404).json({ error: 'Message not found' })
     }
-    
+
     res.json({
-      id: event.event_id,
-      author: decrypted.author,
-      content: decrypted.content,
-      timestamp: decrypted.timestamp,
-      attachments: decrypted.attachments || []
+      rootId: thread.root.id,
+      // Set when the root is itself a reply whose parent hasn't synced (or was deleted)
+      missingParentId: thread.root.replyTo || null,
+      messages: thread.messages.map(message => toMessageResponse(store, message))
     })
   })
 
+  // Edit a message; only its author may, and peers enforce the same via signatures
+  router.put('/:id', async (req, res) => {
+    const deviceId = (req as any).deviceId
+    const { id: messageId } = req.params
+    const { content } = req.body
+
+    if (!content) {
+      return res.status(400).json({ error: 'Content is required' })
+    }
+
+    const message = await store.getMessage(messageId)
+    if (!message) {
+      return res.status(404).json({ error: 'Message not found' })
+    }
+    if (message.author !== deviceId) {
+      return res.status(403).json({ error: 'Only the author can edit a message' })
+    }
+
+    // Never earlier than the version it replaces, even with clock skew
+    const timestamp = Math.max(Date.now(), (message.editedAt || message.timestamp) + 1)
+    const editPayload: EditEvent = {
+      type: 'edit',
+      messageId,
+      content,
+      author: deviceId,
+      timestamp
+    }
+
+    const event = await messageGenerator.createEvent(editPayload, timestamp)
+    const eventId = messageGenerator.computeEventId(event.encrypted)
+
+    // Store the event
+    await store.storeEvent(event, eventId)
+
+    // Broadcast through sync manager if available
+    const syncManager = (req as any).syncManager
+    if (syncManager) {
+      await syncManager.broadcastNewMessage(event, eventId)
+      console.log(`[Messages] Broadcasting edit ${eventId} through sync`)
+    }
+
+    res.json(await store.getMessage(messageId))
+  })
+
   // Add reaction to a message
   router.post('/:id/reactions', async (req, res) => {
     const deviceId = (req as any).deviceId
@@ -148,13 +239,14 @@ export function createMessageRoutes(store: InMemoryStore, messageGenerator: Mess
     
     // Create reaction event
     const timestamp = Date.now()
-    const reactionPayload = {
+    const reactionPayload: ReactionEvent = {
       type: 'reaction',
       messageId,
       emoji,
       author: deviceId,
       timestamp,
-      remove: false
+      remove: false,
+      channelId: (await store.getMessage(messageId))?.channelId
     }
     
     const event = await messageGenerator.createEvent(reactionPayload, timestamp)
@@ -186,13 +278,14 @@ export function createMessageRoutes(store: InMemoryStore, messageGenerator: Mess
     
     // Create reaction removal event
     const timestamp = Date.now()
-    const reactionPayload = {
+    const reactionPayload: ReactionEvent = {
       type: 'reaction',
       messageId,
       emoji,
       author: deviceId,
       timestamp,
-      remove: true
+      remove: true,
+      channelId: (await store.getMessage(messageId))?.channelId
     }
     
     const event = await messageGenerator.createEvent(reactionPayload, timestamp)
@@ -222,6 +315,43 @@ export function createMessageRoutes(store: InMemoryStore, messageGenerator: Mess
     
     res.json({ success: true, message: `Cleared all messages for ${deviceId}` })
   })
+
+  // Delete a message with a tombstone; defined after /clear so it doesn't shadow it
+  router.delete('/:id', async (req, res) => {
+    const deviceId = (req as any).deviceId
+    const { id: messageId } = req.params
+
+    const message = await store.getMessage(messageId)
+    if (!message) {
+      return res.status(404).json({ error: 'Message not found' })
+    }
+    if (message.author !== deviceId) {
+      return res.status(403).json({ error: 'Only the author can delete a message' })
+    }
+
+    const timestamp = Date.now()
+    const deletePayload: DeleteEvent = {
+      type: 'delete',
+      messageId,
+      author: deviceId,
+      timestamp
+    }
+
+    const event = await messageGenerator.createEvent(deletePayload, timestamp)
+    const eventId = messageGenerator.computeEventId(event.encrypted)
+
+    // Storing the tombstone hides the message and purges its ciphertext
+    await store.storeEvent(event, eventId)
+
+    // Broadcast through sync manager if available
+    const syncManager = (req as any).syncManager
+    if (syncManager) {
+      await syncManager.broadcastNewMessage(event, eventId)
+      console.log(`[Messages] Broadcasting delete ${eventId} through sync`)
+    }
+
+    res.json({ success: true, eventId })
+  })
   
   return router
 }
\ No newline at end of file
@@ -0,0 +1,121 @@
+/**
+ * Cursor pagination helpers for timestamp-ordered API listings
+ *
+ * Items are ordered by (timestamp, id) so events created in the same
+ * millisecond still have a stable position. Cursors are opaque to clients.
+ */
+
+export interface PageCursor {
+  timestamp: number
+  id: string
+}
+
+export interface PageOptions {
+  before?: PageCursor
+  after?: PageCursor
+  limit?: number
+}
+
+export interface Page<T> {
+  items: T[]
+  nextCursor: string | null
+  hasMore: boolean
+}
+
+export const DEFAULT_PAGE_LIMIT = 50
+export const MAX_PAGE_LIMIT = 500
+
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(`${cursor.timestamp}:${cursor.id}`).toString('base64url')
+}
+
+export function decodeCursor(value: string): PageCursor | null {
+  const decoded = Buffer.from(value, 'base64url').toString()
+  const separator = decoded.indexOf(':')
+  if (separator <= 0) {
+    return null
+  }
+
+  const timestamp = Number(decoded.slice(0, separator))
+  const id = decoded.slice(separator + 1)
+  if (!Number.isFinite(timestamp) || !id) {
+    return null
+  }
+
+  return { timestamp, id }
+}
+
+export function compareCursors(a: PageCursor, b: PageCursor): number {
+  if (a.timestamp !== b.timestamp) {
+    return a.timestamp - b.timestamp
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+}
+
+/**
+ * Parse `before`, `after` and `limit` query parameters
+ * Returns an error string for malformed input
+ */
+export function parsePageQuery(query: Record<string, unknown>): PageOptions | { error: string } {
+  const options: PageOptions = {}
+
+  if (query.before !== undefined && query.after !== undefined) {
+    return { error: 'Use either before or after, not both' }
+  }
+
+  for (const key of ['before', 'after'] as const) {
+    if (query[key] !== undefined) {
+      const cursor = typeof query[key] === 'string' ? decodeCursor(query[key] as string) : null
+      if (!cursor) {
+        return { error: `Invalid ${key} cursor` }
+      }
+      options[key] = cursor
+    }
+  }
+
+  if (query.limit !== undefined) {
+    const limit = parseInt(query.limit as string)
+    if (!Number.isInteger(limit) || limit <= 0) {
+      return { error: 'limit must be a positive integer' }
+    }
+    options.limit = Math.min(limit, MAX_PAGE_LIMIT)
+  } else if (options.before || options.after) {
+    options.limit = DEFAULT_PAGE_LIMIT
+  }
+
+  return options
+}
+
+/**
+ * Slice a page out of items sorted ascending by (timestamp, id)
+ *
+ * - after: the oldest `limit` items newer than the cursor; nextCursor moves forward
+ * - before (or no cursor): the newest `limit` items older than the cursor;
+ *   nextCursor moves backward
+ * - no limit and no cursor: everything, for legacy callers
+ */
+export function paginate<T extends PageCursor>(sorted: T[], options: PageOptions): Page<T> {
+  const { before, after, limit } = options
+
+  if (after) {
+    const newer = sorted.filter(item => compareCursors(item, after) > 0)
+    const items = limit ? newer.slice(0, limit) : newer
+    const last = items[items.length - 1]
+    return {
+      items,
+      nextCursor: last ? encodeCursor(last) : encodeCursor(after),
+      hasMore: newer.length > items.length
+    }
+  }
+
+  const older = before
+    ? sorted.filter(item => compareCursors(item, before) < 0)
+    : sorted
+  const items = limit ? older.slice(Math.max(0, older.length - limit)) : older
+  const hasMore = older.length > items.length
+  return {
+    items,
+    nextCursor: hasMore && items.length > 0 ? encodeCursor(items[0]) : null,
+    hasMore
+  }
+}
@@ -0,0 +1,45 @@
+import { Router } from 'express'
+import type { PeerPresence, PresenceTracker } from '../presence/PresenceTracker'
+
+export function createPresenceRoutes(presence: PresenceTracker) {
+  const router = Router()
+
+  // Start or stop the typing indicator peers show for this device
+  router.post('/typing', async (req, res) => {
+    const { channelId, typing } = req.body
+
+    if (typeof channelId !== 'string' || !channelId) {
+      return res.status(400).json({ error: 'channelId is required' })
+    }
+    if (typeof typing !== 'boolean') {
+      return res.status(400).json({ error: 'typing must be a boolean' })
+    }
+
+    await presence.setTyping(channelId, typing)
+    res.json({ success: true })
+  })
+
+  // Current presence of every peer we've heard from
+  router.get('/presence', (req, res) => {
+    res.json({ peers: presence.getPeers() })
+  })
+
+  // Server-sent events: the full peer list whenever presence or typing changes
+  router.get('/presence/stream', (req, res) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    })
+
+    const send = (peers: PeerPresence[]) => {
+      res.write(`data: ${JSON.stringify({ peers })}\n\n`)
+    }
+    send(presence.getPeers())
+    const unsubscribe = presence.onUpdate(send)
+
+    req.on('close', unsubscribe)
+  })
+
+  return router
+}
@@ -0,0 +1,43 @@
+import { Router } from 'express'
+import { SyncController } from '../sync/SyncController'
+
+export function createSyncRoutes(syncController: SyncController) {
+  const router = Router()
+
+  // Sync with each peer: exact where reconciled, else from its last Bloom filter
+  router.get('/peers', async (req, res) => {
+    res.json({ peers: await syncController.getStrategy().getPeerSyncStatus() })
+  })
+
+  router.get('/strategy', (req, res) => {
+    res.json({
+      strategy: syncController.getCurrentStrategyName(),
+      available: SyncController.getStrategyInfo()
+    })
+  })
+
+  // Switch strategy at runtime; events synced so far are kept
+  router.post('/strategy', async (req, res) => {
+    const { strategy } = req.body ?? {}
+    if (typeof strategy !== 'string' || !SyncController.getAvailableStrategies().includes(strategy)) {
+      return res.status(400).json({
+        error: 'Unknown sync strategy',
+        available: SyncController.getAvailableStrategies()
+      })
+    }
+
+    try {
+      await syncController.switchStrategy(strategy)
+      res.json({ success: true, strategy })
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message })
+    }
+  })
+
+  // Packets, bytes and events per strategy, for comparing them
+  router.get('/stats', (req, res) => {
+    res.json(syncController.getStats())
+  })
+
+  return router
+}
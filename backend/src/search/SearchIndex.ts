@@ -0,0 +1,283 @@
+import type { MessageProjection, ProjectedMessage, ProjectionChange } from '../storage/MessageProjection'
+
+interface Token {
+  term: string
+  start: number
+  end: number
+}
+
+interface IndexedMessage {
+  message: ProjectedMessage
+  tokens: Token[]
+}
+
+type QueryClause =
+  | { kind: 'term', term: string }
+  | { kind: 'prefix', prefix: string }
+  | { kind: 'phrase', terms: string[] }
+
+export interface SearchOptions {
+  author?: string
+  channelId?: string
+  since?: number
+  until?: number
+  limit?: number
+}
+
+export interface SearchResult {
+  id: string
+  author: string
+  channelId: string
+  content: string
+  timestamp: number
+  snippet: string
+  highlights: Array<[number, number]> // [start, end) offsets into snippet
+}
+
+const SNIPPET_CONTEXT = 40
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+function intersect(a: Set<string>, b: Set<string>): Set<string> {
+  return new Set(Array.from(a).filter(id => b.has(id)))
+}
+
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(WORD_PATTERN), match => ({
+    term: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length
+  }))
+}
+
+/**
+ * Parse a query into clauses that must all match:
+ * - "exact phrase" matches consecutive words
+ * - word* matches any word starting with the prefix
+ * - word matches the whole word, case-insensitively
+ */
+export function parseQuery(query: string): QueryClause[] {
+  const clauses: QueryClause[] = []
+
+  for (const match of query.matchAll(/"([^"]*)"|(\S+)/g)) {
+    if (match[1] !== undefined) {
+      const terms = tokenize(match[1]).map(t => t.term)
+      if (terms.length === 1) {
+        clauses.push({ kind: 'term', term: terms[0] })
+      } else if (terms.length > 1) {
+        clauses.push({ kind: 'phrase', terms })
+      }
+      continue
+    }
+
+    const word = match[2]
+    const terms = tokenize(word).map(t => t.term)
+    if (terms.length === 0) continue
+
+    if (word.endsWith('*') && terms.length === 1) {
+      clauses.push({ kind: 'prefix', prefix: terms[0] })
+    } else if (terms.length === 1) {
+      clauses.push({ kind: 'term', term: terms[0] })
+    } else {
+      // Punctuated words like "e-mail" behave as a phrase
+      clauses.push({ kind: 'phrase', terms })
+    }
+  }
+
+  return clauses
+}
+
+/**
+ * SearchIndex - in-memory inverted index over decrypted message content
+ *
+ * Fed by MessageProjection change notifications and never persisted,
+ * so plaintext stays in backend memory only.
+ */
+export class SearchIndex {
+  private documents: Map<string, IndexedMessage> = new Map()
+  private postings: Map<string, Set<string>> = new Map()
+  private loading: Promise<void> | null = null
+
+  constructor(private projection: MessageProjection) {
+    this.projection.onChange(change => this.handleChange(change))
+  }
+
+  /**
+   * Index messages already in the projection; later ones arrive via onChange
+   */
+  initialize(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.projection.getMessages().then(messages => {
+        messages.forEach(message => this.add(message))
+      })
+    }
+    return this.loading
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    await this.initialize()
+
+    const clauses = parseQuery(query)
+    if (clauses.length === 0) {
+      return []
+    }
+
+    let candidates: Set<string> | null = null
+    for (const clause of clauses) {
+      const ids = this.candidatesFor(clause)
+      candidates = candidates ? intersect(candidates, ids) : ids
+      if (candidates.size === 0) {
+        return []
+      }
+    }
+
+    const results: SearchResult[] = []
+    for (const id of candidates!) {
+      const doc = this.documents.get(id)!
+      const { message } = doc
+      if (options.author && message.author !== options.author) continue
+      if (options.channelId && message.channelId !== options.channelId) continue
+      if (options.since !== undefined && message.timestamp < options.since) continue
+      if (options.until !== undefined && message.timestamp > options.until) continue
+
+      const ranges = this.matchRanges(doc, clauses)
+      if (ranges === null) continue
+
+      results.push({
+        id: message.id,
+        author: message.author,
+        channelId: message.channelId,
+        content: message.content,
+        timestamp: message.timestamp,
+        ...this.buildSnippet(message.content, ranges)
+      })
+    }
+
+    // Newest first, like chat search everywhere else
+    results.sort((a, b) => b.timestamp - a.timestamp || (a.id < b.id ? 1 : -1))
+    return options.limit ? results.slice(0, options.limit) : results
+  }
+
+  private handleChange(change: ProjectionChange): void {
+    if (change.type === 'clear') {
+      this.documents.clear()
+      this.postings.clear()
+    } else if (change.type === 'upsert') {
+      this.add(change.message)
+    } else if (change.type === 'delete') {
+      this.remove(change.id)
+    }
+  }
+
+  private add(message: ProjectedMessage): void {
+    this.remove(message.id)
+
+    const tokens = tokenize(message.content || '')
+    this.documents.set(message.id, { message, tokens })
+    for (const { term } of tokens) {
+      const ids = this.postings.get(term) || new Set<string>()
+      ids.add(message.id)
+      this.postings.set(term, ids)
+    }
+  }
+
+  private remove(id: string): void {
+    const doc = this.documents.get(id)
+    if (!doc) return
+
+    for (const { term } of doc.tokens) {
+      const ids = this.postings.get(term)
+      ids?.delete(id)
+      if (ids && ids.size === 0) {
+        this.postings.delete(term)
+      }
+    }
+    this.documents.delete(id)
+  }
+
+  private candidatesFor(clause: QueryClause): Set<string> {
+    switch (clause.kind) {
+      case 'term':
+        return new Set(this.postings.get(clause.term) || [])
+
+      case 'prefix': {
+        const ids = new Set<string>()
+        for (const [term, termIds] of this.postings) {
+          if (term.startsWith(clause.prefix)) {
+            termIds.forEach(id => ids.add(id))
+          }
+        }
+        return ids
+      }
+
+      case 'phrase': {
+        // Positions are checked later in matchRanges
+        return clause.terms
+          .map(term => this.postings.get(term) || new Set<string>())
+          .reduce((ids, termIds) => intersect(ids, termIds))
+      }
+    }
+  }
+
+  /**
+   * Character ranges in the content matched by each clause,
+   * or null if a phrase clause has no consecutive occurrence
+   */
+  private matchRanges(doc: IndexedMessage, clauses: QueryClause[]): Array<[number, number]> | null {
+    const ranges: Array<[number, number]> = []
+    const { tokens } = doc
+
+    for (const clause of clauses) {
+      let found = false
+
+      if (clause.kind === 'phrase') {
+        for (let i = 0; i + clause.terms.length <= tokens.length; i++) {
+          if (clause.terms.every((term, offset) => tokens[i + offset].term === term)) {
+            ranges.push([tokens[i].start, tokens[i + clause.terms.length - 1].end])
+            found = true
+          }
+        }
+      } else {
+        for (const token of tokens) {
+          const matches = clause.kind === 'term'
+            ? token.term === clause.term
+            : token.term.startsWith(clause.prefix)
+          if (matches) {
+            ranges.push([token.start, token.end])
+            found = true
+          }
+        }
+      }
+
+      if (!found) {
+        return null
+      }
+    }
+
+    return ranges.sort((a, b) => a[0] - b[0])
+  }
+
+  private buildSnippet(content: string, ranges: Array<[number, number]>): Pick<SearchResult, 'snippet' | 'highlights'> {
+    const first = ranges[0]
+    const start = Math.max(0, first[0] - SNIPPET_CONTEXT)
+    const end = Math.min(content.length, first[1] + SNIPPET_CONTEXT * 2)
+    const prefix = start > 0 ? '…' : ''
+    const suffix = end < content.length ? '…' : ''
+    const offset = prefix.length - start
+
+    const highlights: Array<[number, number]> = []
+    for (const [rangeStart, rangeEnd] of ranges) {
+      if (rangeStart < start || rangeEnd > end) continue
+      const last = highlights[highlights.length - 1]
+      if (last && rangeStart + offset <= last[1]) {
+        last[1] = Math.max(last[1], rangeEnd + offset)
+      } else {
+        highlights.push([rangeStart + offset, rangeEnd + offset])
+      }
+    }
+
+    return {
+      snippet: prefix + content.slice(start, end) + suffix,
+      highlights
+    }
+  }
+}
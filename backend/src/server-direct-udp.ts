@@ -4,6 +4,7 @@ import dgram from 'dgram'
 import { createMessageRoutes } from './routes/messages'
 import { SyncManager } from './sync/SyncManager'
 import { InMemoryStore } from './storage/InMemoryStore'
+import { MessageProjection } from './storage/MessageProjection'
 import { MessageGenerator } from './crypto/MessageGenerator'
 import type { NetworkSimulator, NetworkEvent } from './network/NetworkSimulator'
 
@@ -150,8 +151,11 @@ class DirectUDPNetwork implements NetworkSimulator {
     return `broadcast-${Date.now()}`
   }
 
-  onNetworkEvent(handler: (event: NetworkEvent) => void): void {
+  onNetworkEvent(handler: (event: NetworkEvent) => void): () => void {
     this.eventHandlers.push(handler)
+    return () => {
+      this.eventHandlers = this.eventHandlers.filter(h => h !== handler)
+    }
   }
 
   getDevices(): string[] {
@@ -231,13 +235,15 @@ if (process.env.PEER_ENDPOINTS) {
 // Initialize components
 let syncManager: SyncManager | null = null
 let messageGenerator: MessageGenerator | null = null
-let store: InMemoryStore | null = null
+let store: MessageProjection | null = null
 
 async function initializeSync() {
   // Create store and generator
-  store = new InMemoryStore(deviceId)
   messageGenerator = new MessageGenerator(deviceId)
   await messageGenerator.initialize()
+  // Routes and sync share one projection so synced events show up in reads
+  store = new MessageProjection(new InMemoryStore(deviceId), messageGenerator)
+  await store.initialize()
   
   // Create message routes
   const routes = createMessageRoutes(store, messageGenerator)
@@ -315,7 +321,7 @@ app.get('/api/stats', async (req, res) => {
   
   const events = await store.getAllEvents()
   const messages = events.filter(e => e.type === 'message')
-  const syncPercentage = syncManager ? syncManager.getSyncPercentage() : 0
+  const syncPercentage = syncManager ? await syncManager.getSyncPercentage() : 0
   
   res.json({
     deviceId,
@@ -5,6 +5,7 @@ import { RemoteNetworkSimulator } from './network/RemoteNetworkSimulator'
 import { UDPNetworkClient } from './network/UDPNetworkClient'
 import { SyncManager } from './sync/SyncManager'
 import { InMemoryStore } from './storage/InMemoryStore'
+import { MessageProjection } from './storage/MessageProjection'
 import { MessageGenerator } from './crypto/MessageGenerator'
 import type { NetworkSimulator } from './network/NetworkSimulator'
 
@@ -33,14 +34,16 @@ if (networkMode === 'udp') {
 // Initialize store and message generator
 let syncManager: SyncManager | null = null
 let messageGenerator: MessageGenerator | null = null
-let store: InMemoryStore | null = null
+let store: MessageProjection | null = null
 
 // Initialize sync after server starts
 async function initializeSync() {
   // Create store and generator
-  store = new InMemoryStore(deviceId)
   messageGenerator = new MessageGenerator(deviceId)
   await messageGenerator.initialize()
+  // Routes and sync share one projection so synced events show up in reads
+  store = new MessageProjection(new InMemoryStore(deviceId), messageGenerator)
+  await store.initialize()
   
   // Create message routes with initialized store and generator
   const routes = createMessageRoutes(store, messageGenerator)
@@ -133,7 +136,7 @@ app.get('/api/stats', async (req, res) => {
   
   const events = await store.getAllEvents()
   const messages = events.filter(e => e.type === 'message')
-  const syncPercentage = syncManager ? syncManager.getSyncPercentage() : 0
+  const syncPercentage = syncManager ? await syncManager.getSyncPercentage() : 0
   
   res.json({
     deviceId,
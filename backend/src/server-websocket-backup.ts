@@ -4,6 +4,7 @@ import dgram from 'dgram'
 import { createMessageRoutes } from './routes/messages'
 import { SyncManager } from './sync/SyncManager'
 import { InMemoryStore } from './storage/InMemoryStore'
+import { MessageProjection } from './storage/MessageProjection'
 import { MessageGenerator } from './crypto/MessageGenerator'
 import type { NetworkSimulator, NetworkEvent } from './network/NetworkSimulator'
 
@@ -139,8 +140,11 @@ class DirectP2PNetwork implements NetworkSimulator {
     return `broadcast-${Date.now()}`
   }
 
-  onNetworkEvent(handler: (event: NetworkEvent) => void): void {
+  onNetworkEvent(handler: (event: NetworkEvent) => void): () => void {
     this.eventHandlers.push(handler)
+    return () => {
+      this.eventHandlers = this.eventHandlers.filter(h => h !== handler)
+    }
   }
 
   getDevices(): string[] {
@@ -223,14 +227,16 @@ if (process.env.PEER_ENDPOINTS) {
 // Initialize store and message generator
 let syncManager: SyncManager | null = null
 let messageGenerator: MessageGenerator | null = null
-let store: InMemoryStore | null = null
+let store: MessageProjection | null = null
 
 // Initialize sync after server starts
 async function initializeSync() {
   // Create store and generator
-  store = new InMemoryStore(deviceId)
   messageGenerator = new MessageGenerator(deviceId)
   await messageGenerator.initialize()
+  // Routes and sync share one projection so synced events show up in reads
+  store = new MessageProjection(new InMemoryStore(deviceId), messageGenerator)
+  await store.initialize()
   
   // Create message routes with initialized store and generator
   const routes = createMessageRoutes(store, messageGenerator)
@@ -307,7 +313,7 @@ app.get('/api/stats', async (req, res) => {
   
   const events = await store.getAllEvents()
   const messages = events.filter(e => e.type === 'message')
-  const syncPercentage = syncManager ? syncManager.getSyncPercentage() : 0
+  const syncPercentage = syncManager ? await syncManager.getSyncPercentage() : 0
   
   res.json({
     deviceId,
@@ -1,26 +1,63 @@
 import express from 'express'
+import type { Router } from 'express'
 import cors from 'cors'
 import dgram from 'dgram'
 import { createMessageRoutes } from './routes/messages'
-import { SyncManager } from './sync/SyncManager'
-import { InMemoryStore } from './storage/InMemoryStore'
+import { createChannelRoutes } from './routes/channels'
+import { createPresenceRoutes } from './routes/presence'
+import { createSyncRoutes } from './routes/sync'
+import { createDiscoveryRoutes } from './routes/discovery'
+import { createFileRoutes } from './routes/files'
+import { SyncController, DEFAULT_SYNC_STRATEGY } from './sync/SyncController'
+import { createEventStore } from './storage/createEventStore'
+import { MessageProjection } from './storage/MessageProjection'
 import { MessageGenerator } from './crypto/MessageGenerator'
+import { PresenceTracker } from './presence/PresenceTracker'
 import type { NetworkSimulator, NetworkEvent } from './network/NetworkSimulator'
+import { WireNegotiator, decodePacket, encodePacket, LEGACY_WIRE_VERSION, SESSION_WIRE_VERSION, PING_WIRE_VERSION, RELIABLE_WIRE_VERSION } from './network/WireFormat'
+import type { WirePacket } from './network/WireFormat'
+import { PacketSigner } from './crypto/PacketSigner'
+import { PeerSessions } from './network/PeerSessions'
+import { PeerDiscovery } from './network/PeerDiscovery'
+import { PeerTable } from './network/PeerTable'
+import { ReliableChannel } from './network/ReliableChannel'
+import { FileTransfer } from './files/FileTransfer'
 
 const app = express()
 const deviceId = process.env.DEVICE_ID || 'alice'
 const port = process.env.PORT || (deviceId === 'alice' ? 3001 : 3002)
 
+// How often DirectP2PNetwork checks whether a peer is due a ping
+const PING_TICK = 500
+
 // P2P configuration
 interface PeerEndpoint {
   deviceId: string
   host: string
   port: number
+  discovered: boolean // Found by LAN discovery rather than configured
 }
 
 /**
  * DirectP2PNetwork - Real UDP communication between backends
- * No intermediary service needed - backends talk directly to each other
+ * No intermediary service needed - backends talk directly to each other.
+ * Each peer is sent the newest wire format it has said hello with.
+ *
+ * Every datagram is signed with this device's key, and one arrives at the
+ * handlers only if it is signed by the device named as its source, is
+ * fresh and hasn't been seen before. Nothing is sent or accepted until
+ * setPacketSigner, once keys are loaded. ALLOW_UNSIGNED_PACKETS=true lets
+ * unsigned packets through, and sends them to wire v0 peers, while old
+ * backends are still being upgraded.
+ *
+ * Peers on wire v2 and up also get every frame sealed in a per-peer
+ * session (setPeerSessions), so the community PSK alone reads nothing live.
+ * A peer's first hello drops our sessions with it: it has just started and
+ * lost its side of them.
+ *
+ * Peers on wire v3 are pinged; the PeerTable behind getPeers tracks RTT,
+ * loss and whether each peer is alive. Broadcasts skip dead peers, and
+ * isPeerReachable lets sync skip them too.
  */
 class DirectP2PNetwork implements NetworkSimulator {
   private socket: dgram.Socket
@@ -28,10 +65,22 @@ class DirectP2PNetwork implements NetworkSimulator {
   private peers: Map<string, PeerEndpoint> = new Map()
   private eventHandlers: Array<(event: NetworkEvent) => void> = []
   private isOnline: boolean = true
+  private bound = false
+  private wire = new WireNegotiator()
+  private signer: PacketSigner | null = null
+  private sessions: PeerSessions | null = null
+  private links = new PeerTable()
+  private pingTimer: NodeJS.Timeout | null = null
+  private allowUnsigned = process.env.ALLOW_UNSIGNED_PACKETS === 'true'
   private stats = {
     packetsSent: 0,
     packetsReceived: 0,
-    packetsDropped: 0
+    packetsDropped: 0,
+    packetsForged: 0, // Unsigned, from unknown keys, or signed by someone else
+    packetsReplayed: 0, // Seen before or too old
+    packetsUnsigned: 0, // Let through by ALLOW_UNSIGNED_PACKETS
+    packetsUnopened: 0, // Sealed in a session we don't have
+    ephemeralPackets: 0 // Typing/presence signals; never stored or synced
   }
 
   constructor(deviceId: string, udpPort: number) {
@@ -48,12 +97,59 @@ class DirectP2PNetwork implements NetworkSimulator {
       this.stats.packetsReceived++
       
       try {
-        // Parse packet: source:target:type:payload
-        const packet = msg.toString()
-        const [source, target, type, ...payloadParts] = packet.split(':')
-        const payload = JSON.parse(payloadParts.join(':'))
+        const opened = this.open(msg)
+        if (!opened) {
+          return
+        }
+        const { packet: outer, version } = decodePacket(opened.frame)
+        const source = outer.source
+        if (opened.signedBy !== null && opened.signedBy !== source) {
+          this.stats.packetsForged++
+          console.warn(`[P2P] ${this.deviceId} dropped packet claiming to be from ${source}, signed by ${opened.signedBy}`)
+          return
+        }
+        this.links.heard(source)
+        const agreed = this.wire.versionFor(source)
+        if (this.wire.observe(outer, version)) {
+          console.log(`[P2P] ${this.deviceId} speaking wire v${this.wire.versionFor(source)} to ${source}`)
+          if (!outer.payload?.reply) {
+            this.sessions?.forget(source)
+            this.sendFrame(this.wire.hello(this.deviceId, source, true), source)
+          }
+          return
+        }
+        // A v0 packet from a peer we agreed with was sent before our hello
+        // reached it, or the peer is now an old backend. Hello again: a new
+        // backend goes back to our version (and so we to its), an old one
+        // ignores it. Otherwise both sides can settle on v0 for good.
+        if (agreed !== LEGACY_WIRE_VERSION && this.wire.versionFor(source) === LEGACY_WIRE_VERSION) {
+          this.sendFrame(this.wire.hello(this.deviceId, source, true), source)
+        }
+        if (outer.type === 'handshake') {
+          this.sessions?.handleHandshake(source, outer.payload)
+          return
+        }
+        const packet = outer.type === 'sealed' ? this.unseal(outer) : outer
+        if (!packet) {
+          return
+        }
+        const { target, type, payload } = packet
+        if (type === 'ping') {
+          this.transmit({ source: this.deviceId, target: source, type: 'pong', payload: { nonce: payload?.nonce } }, source)
+          return
+        }
+        if (type === 'pong') {
+          this.links.handlePong(source, payload?.nonce)
+          return
+        }
+        const ephemeral = type === 'ephemeral'
         
-        console.log(`[P2P] ${this.deviceId} received ${type} from ${source} (target: ${target})`)
+        if (ephemeral) {
+          // Heartbeats arrive every few seconds; keep them out of the log
+          this.stats.ephemeralPackets++
+        } else {
+          console.log(`[P2P] ${this.deviceId} received ${type} from ${source} (target: ${target})`)
+        }
         
         // Only process if we're the target or it's a broadcast
         if (target === this.deviceId || target === '*') {
@@ -61,20 +157,21 @@ class DirectP2PNetwork implements NetworkSimulator {
             id: `${Date.now()}-${Math.random()}`,
             sourceDevice: source,
             targetDevice: target,
-            type,
+            type: type as NetworkEvent['type'],
             payload,
             timestamp: Date.now(),
             status: 'delivered'
           }
           
-          console.log(`[P2P] ${this.deviceId} delivering event to ${this.eventHandlers.length} handlers`)
+          if (!ephemeral) {
+            console.log(`[P2P] ${this.deviceId} delivering event to ${this.eventHandlers.length} handlers`)
+          }
           
           // Notify all handlers
           this.eventHandlers.forEach(handler => handler(event))
         }
       } catch (err) {
         console.error(`[P2P] Error parsing packet from ${rinfo.address}:${rinfo.port}:`, err)
-        console.error(`[P2P] Raw packet: ${msg.toString()}`)
       }
     })
     
@@ -85,32 +182,164 @@ class DirectP2PNetwork implements NetworkSimulator {
     // Bind to specified port
     this.socket.bind(udpPort, () => {
       console.log(`[P2P] ${deviceId} listening on UDP port ${udpPort}`)
+      this.bound = true
+      this.greetPeers()
     })
   }
 
-  addPeer(deviceId: string, host: string, port: number) {
-    this.peers.set(deviceId, { deviceId, host, port })
-    console.log(`[P2P] Added peer ${deviceId} at ${host}:${port}`)
+  /**
+   * Start signing and verifying with this device's keys
+   */
+  setPacketSigner(signer: PacketSigner) {
+    this.signer = signer
+    this.greetPeers()
+  }
+
+  /**
+   * Seal frames to v2 peers in per-peer sessions
+   */
+  setPeerSessions(sessions: PeerSessions) {
+    this.sessions = sessions
+    sessions.onSend((peerId, type, payload) => {
+      const frame = encodePacket({ source: this.deviceId, target: peerId, type, payload }, this.wire.versionFor(peerId))
+      this.sendFrame(frame, peerId, (err) => {
+        if (!err) this.stats.packetsSent++
+      })
+    })
+  }
+
+  addPeer(deviceId: string, host: string, port: number, discovered: boolean = false) {
+    if (discovered && this.peers.get(deviceId)?.discovered === false) {
+      return // Configured peers keep their configured address
+    }
+    this.peers.set(deviceId, { deviceId, host, port, discovered })
+    this.links.add(deviceId)
+    console.log(`[P2P] Added ${discovered ? 'discovered ' : ''}peer ${deviceId} at ${host}:${port}`)
+    if (this.bound && this.signer) {
+      this.sendFrame(this.wire.hello(this.deviceId, deviceId, false), deviceId)
+    }
+  }
+  
+  // Sending before bind would bind a random port, and before keys would go unsigned
+  private greetPeers() {
+    if (this.bound && this.signer) {
+      this.peers.forEach(peer => this.sendFrame(this.wire.hello(this.deviceId, peer.deviceId, false), peer.deviceId))
+      this.pingTimer ??= setInterval(() => this.pingPeers(), PING_TICK)
+    }
+  }
+  
+  // Peers on older wire versions don't answer; the table judges them by what we hear
+  private pingPeers() {
+    if (!this.isOnline) {
+      return
+    }
+    const pings = this.links.due(Date.now(), peerId => this.wire.versionFor(peerId) >= PING_WIRE_VERSION)
+    for (const { peerId, nonce } of pings) {
+      this.transmit({ source: this.deviceId, target: peerId, type: 'ping', payload: { nonce } }, peerId, (err) => {
+        if (!err) this.stats.packetsSent++
+      })
+    }
+  }
+  
+  // Encode for the peer's wire version, sealed if it takes sessions; a frame
+  // waiting on a handshake goes out later via the sessions' onSend. Returns
+  // the datagram's size, 0 if nothing went out now.
+  private transmit(packet: WirePacket, targetDevice: string, callback?: (err: Error | null) => void): number {
+    const version = this.wire.versionFor(targetDevice)
+    const frame = encodePacket(packet, version)
+    if (!this.sessions || version < SESSION_WIRE_VERSION) {
+      return this.sendFrame(frame, targetDevice, callback)
+    }
+    const sealed = this.sessions.seal(targetDevice, frame)
+    if (!sealed) {
+      return 0
+    }
+    return this.sendFrame(encodePacket({ source: this.deviceId, target: targetDevice, type: 'sealed', payload: sealed }, version), targetDevice, callback)
+  }
+
+  /**
+   * The packet inside a sealed one, or null if we can't open it or it
+   * claims another source
+   */
+  private unseal(outer: WirePacket): WirePacket | null {
+    const frame = this.sessions?.open(outer.source, outer.payload)
+    if (!frame) {
+      this.stats.packetsUnopened++
+      console.warn(`[P2P] ${this.deviceId} dropped sealed packet from ${outer.source}: no session opens it`)
+      return null
+    }
+    const { packet } = decodePacket(frame)
+    if (packet.source !== outer.source) {
+      this.stats.packetsForged++
+      console.warn(`[P2P] ${this.deviceId} dropped sealed packet from ${outer.source} claiming to be from ${packet.source}`)
+      return null
+    }
+    return packet
+  }
+  
+  private sendFrame(frame: Buffer, targetDevice: string, callback?: (err: Error | null) => void): number {
+    const peer = this.peers.get(targetDevice)
+    const datagram = this.seal(frame, targetDevice)
+    if (!peer || !datagram) {
+      this.stats.packetsDropped++
+      return 0
+    }
+    this.socket.send(datagram, peer.port, peer.host, callback)
+    return datagram.length
+  }
+  
+  private seal(frame: Buffer, targetDevice: string): Buffer | null {
+    if (this.allowUnsigned && this.wire.versionFor(targetDevice) === LEGACY_WIRE_VERSION) {
+      return frame
+    }
+    return this.signer ? this.signer.sign(frame) : null
+  }
+  
+  /**
+   * The frame inside a datagram we accept, and who signed it (null if
+   * unsigned and allowed); counts and drops the rest
+   */
+  private open(msg: Buffer): { frame: Buffer; signedBy: string | null } | null {
+    if (this.allowUnsigned && !PacketSigner.isSigned(msg)) {
+      this.stats.packetsUnsigned++
+      return { frame: msg, signedBy: null }
+    }
+    if (!this.signer) {
+      this.stats.packetsDropped++
+      return null
+    }
+    
+    const { verdict, deviceId, frame } = this.signer.verify(msg)
+    if (verdict === 'valid' && frame && deviceId) {
+      return { frame, signedBy: deviceId }
+    }
+    if (verdict === 'replayed' || verdict === 'stale') {
+      this.stats.packetsReplayed++
+    } else {
+      this.stats.packetsForged++
+    }
+    console.warn(`[P2P] ${this.deviceId} dropped ${verdict} packet${deviceId ? ` from ${deviceId}` : ''}`)
+    return null
   }
 
-  sendEvent(sourceDevice: string, targetDevice: string, type: string, payload: any): string {
+  sendEvent(sourceDevice: string, targetDevice: string, type: string, payload: any): NetworkEvent {
+    const event = outgoing(sourceDevice, targetDevice, type, payload)
     if (!this.isOnline) {
       this.stats.packetsDropped++
-      return `dropped-${Date.now()}`
+      return { ...event, status: 'dropped' }
     }
     
     const peer = this.peers.get(targetDevice)
     if (!peer) {
       console.warn(`[P2P] No peer found for ${targetDevice}`)
-      return `no-peer-${Date.now()}`
+      return { ...event, status: 'dropped' }
     }
     
-    const packet = `${sourceDevice}:${targetDevice}:${type}:${JSON.stringify(payload)}`
-    const buffer = Buffer.from(packet)
+    const packet = { source: sourceDevice, target: targetDevice, type, payload }
     
     console.log(`[P2P] ${sourceDevice} sending ${type} to ${peer.deviceId} at ${peer.host}:${peer.port}`)
     
-    this.socket.send(buffer, peer.port, peer.host, (err) => {
+    event.bytes = this.transmit(packet, targetDevice, (err) => {
       if (err) {
         console.error(`[P2P] Error sending to ${targetDevice}:`, err)
         this.stats.packetsDropped++
@@ -120,21 +349,26 @@ class DirectP2PNetwork implements NetworkSimulator {
       }
     })
     
-    return `${Date.now()}-${Math.random()}`
+    return event
   }
 
-  broadcastEvent(sourceDevice: string, type: string, payload: any): string {
+  broadcastEvent(sourceDevice: string, type: string, payload: any): NetworkEvent[] {
     if (!this.isOnline) {
       this.stats.packetsDropped += this.peers.size
-      return `dropped-${Date.now()}`
+      return []
     }
     
-    const packet = `${sourceDevice}:*:${type}:${JSON.stringify(payload)}`
-    const buffer = Buffer.from(packet)
+    const packet = { source: sourceDevice, target: '*', type, payload }
+    const events: NetworkEvent[] = []
     
-    // Send to all peers
+    // Send to all live peers, each in the wire format it speaks
     this.peers.forEach(peer => {
-      this.socket.send(buffer, peer.port, peer.host, (err) => {
+      if (!this.links.isReachable(peer.deviceId)) {
+        return
+      }
+      const event = outgoing(sourceDevice, peer.deviceId, type, payload)
+      events.push(event)
+      event.bytes = this.transmit(packet, peer.deviceId, (err) => {
         if (err) {
           console.error(`[P2P] Error broadcasting to ${peer.deviceId}:`, err)
           this.stats.packetsDropped++
@@ -144,11 +378,14 @@ class DirectP2PNetwork implements NetworkSimulator {
       })
     })
     
-    return `broadcast-${Date.now()}`
+    return events
   }
 
-  onNetworkEvent(handler: (event: NetworkEvent) => void): void {
+  onNetworkEvent(handler: (event: NetworkEvent) => void): () => void {
     this.eventHandlers.push(handler)
+    return () => {
+      this.eventHandlers = this.eventHandlers.filter(h => h !== handler)
+    }
   }
 
   getDevices(): string[] {
@@ -162,6 +399,40 @@ class DirectP2PNetwork implements NetworkSimulator {
 
   removeDevice(deviceId: string): void {
     this.peers.delete(deviceId)
+    this.sessions?.forget(deviceId)
+    this.links.remove(deviceId)
+  }
+
+  /**
+   * False only for peers the pings have declared dead
+   */
+  isPeerReachable(deviceId: string): boolean {
+    return this.links.isReachable(deviceId)
+  }
+
+  supportsReliable(deviceId: string): boolean {
+    return this.wire.versionFor(deviceId) >= RELIABLE_WIRE_VERSION
+  }
+
+  /**
+   * Each peer's address, wire version and link quality
+   */
+  getPeers() {
+    return Array.from(this.peers.values()).map(peer => ({
+      ...peer,
+      wireVersion: this.wire.versionFor(peer.deviceId),
+      ...this.links.get(peer.deviceId)
+    }))
+  }
+
+  /**
+   * Drop a peer that discovery has lost, unless it was configured
+   */
+  removeDiscoveredPeer(deviceId: string): void {
+    if (this.peers.get(deviceId)?.discovered) {
+      this.removeDevice(deviceId)
+      console.log(`[P2P] Removed discovered peer ${deviceId}`)
+    }
   }
 
   setOnline(online: boolean): void {
@@ -173,7 +444,7 @@ class DirectP2PNetwork implements NetworkSimulator {
     return {
       mode: 'direct-p2p',
       deviceId: this.deviceId,
-      peers: Array.from(this.peers.values()),
+      peers: Array.from(this.peers.values()).map(peer => ({ ...peer, wireVersion: this.wire.versionFor(peer.deviceId) })),
       isOnline: this.isOnline
     }
   }
@@ -185,7 +456,7 @@ class DirectP2PNetwork implements NetworkSimulator {
   }
 
   getNetworkStats(): any {
-    return this.stats
+    return { ...this.stats, sessions: this.sessions?.getStatus() ?? [] }
   }
 
   trackOwnEvent(deviceId: string): void {
@@ -197,6 +468,10 @@ class DirectP2PNetwork implements NetworkSimulator {
   }
 
   disconnect() {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer)
+      this.pingTimer = null
+    }
     return new Promise<void>((resolve) => {
       this.socket.close(() => {
         console.log(`[P2P] ${this.deviceId} socket closed`)
@@ -206,12 +481,32 @@ class DirectP2PNetwork implements NetworkSimulator {
   }
 }
 
+// What sendEvent and broadcastEvent report for each packet they send
+function outgoing(source: string, target: string, type: string, payload: any): NetworkEvent {
+  return {
+    id: `${Date.now()}-${Math.random()}`,
+    timestamp: Date.now(),
+    sourceDevice: source,
+    targetDevice: target,
+    type: type as NetworkEvent['type'],
+    payload,
+    status: 'sent'
+  }
+}
+
 // Get UDP port from environment or use defaults
 const udpPort = parseInt(process.env.UDP_PORT || (deviceId === 'alice' ? '8001' : '8002'))
 
 // Create P2P network
 const networkSimulator = new DirectP2PNetwork(deviceId, udpPort)
 
+// Acknowledged delivery for bulk transfers; gossip stays best-effort
+const reliable = new ReliableChannel(deviceId, networkSimulator)
+reliable.start()
+
+// Attachments are fetched over the reliable channel when first opened
+const files = new FileTransfer(deviceId, reliable)
+
 // Parse peer endpoints from environment
 if (process.env.PEER_ENDPOINTS) {
   const endpoints = process.env.PEER_ENDPOINTS.split(',')
@@ -229,38 +524,81 @@ if (process.env.PEER_ENDPOINTS) {
 }
 
 // Initialize store and message generator
-let syncManager: SyncManager | null = null
+let syncController: SyncController | null = null
 let messageGenerator: MessageGenerator | null = null
-let store: InMemoryStore | null = null
+let store: MessageProjection | null = null
+let presence: PresenceTracker | null = null
+let discovery: PeerDiscovery | null = null
+let fileRoutes: Router | null = null
 
 // Initialize sync after server starts
 async function initializeSync() {
-  // Create store and generator
-  store = new InMemoryStore(deviceId)
+  // Create store (STORE_TYPE=sqlite persists to DB_PATH or data/<deviceId>.db)
+  // wrapped in the decrypted projection that serves the messages API
   messageGenerator = new MessageGenerator(deviceId)
   await messageGenerator.initialize()
+  const signer = new PacketSigner(messageGenerator.getKeyManager())
+  networkSimulator.setPeerSessions(new PeerSessions(deviceId, messageGenerator.getKeyManager()))
+  networkSimulator.setPacketSigner(signer)
+  
+  // Find community members on the LAN (PEER_DISCOVERY=false to rely on configured peers only)
+  discovery = new PeerDiscovery(deviceId, udpPort, signer, messageGenerator.deriveCommunityKey('discovery'), {
+    ...(process.env.DISCOVERY_ADDRESS ? { address: process.env.DISCOVERY_ADDRESS } : {}),
+    ...(process.env.DISCOVERY_PORT ? { port: parseInt(process.env.DISCOVERY_PORT) } : {})
+  })
+  discovery.onPeerFound(peer => networkSimulator.addPeer(peer.deviceId, peer.host, peer.port, true))
+  discovery.onPeerLost(peerId => networkSimulator.removeDiscoveredPeer(peerId))
+  app.use('/api/discovery', createDiscoveryRoutes(discovery))
+  if (process.env.PEER_DISCOVERY !== 'false') {
+    await discovery.start().catch(err => console.error(`[Server] LAN discovery failed to start:`, err))
+  }
+  store = new MessageProjection(createEventStore(deviceId), messageGenerator)
+  await store.initialize()
   
   // Create message routes with initialized store and generator
   const routes = createMessageRoutes(store, messageGenerator)
   app.use('/api/messages', routes)
   app.use('/messages', routes)
+  app.use('/api/channels', createChannelRoutes(store, messageGenerator))
+  fileRoutes = createFileRoutes(files, store, () =>
+    networkSimulator.getPeers().map(peer => peer.deviceId).filter(peerId => networkSimulator.isPeerReachable(peerId)))
+  
+  // Typing and presence ride ephemeral packets that are never stored
+  presence = new PresenceTracker(deviceId, networkSimulator, messageGenerator)
+  app.use('/api', createPresenceRoutes(presence))
+  presence.start()
   
-  // Create sync manager
+  // Create sync (SYNC_STRATEGY picks bloom, iblt or range; switchable via POST /api/sync/strategy)
   const syncInterval = parseInt(process.env.SYNC_INTERVAL || '5000')
-  syncManager = new SyncManager(
-    { deviceId, syncInterval },
+  syncController = new SyncController(
+    { deviceId, syncInterval, reliable, isPeerReachable: peerId => networkSimulator.isPeerReachable(peerId) },
     store,
     networkSimulator,
-    messageGenerator
+    messageGenerator,
+    process.env.SYNC_STRATEGY || DEFAULT_SYNC_STRATEGY
   )
   
+  app.use('/api/sync', createSyncRoutes(syncController))
+  
+  // Pull reply parents and reaction targets we have never seen
+  store.onMissingEvent((eventId, referencedBy) => {
+    void syncController?.getStrategy().requestEvent(eventId, referencedBy)
+  })
+  
   // Start sync
-  await syncManager.start()
-  console.log(`[Server] Sync manager started for ${deviceId} with ${syncInterval}ms interval`)
+  await syncController.start()
+  console.log(`[Server] ${syncController.getCurrentStrategyName()} sync started for ${deviceId} with ${syncInterval}ms interval`)
 }
 
 // Middleware
 app.use(cors())
+// Uploads are raw bytes of any type, so files come before the JSON parser
+app.use('/api/files', (req, res, next) => {
+  if (!fileRoutes) {
+    return res.status(503).json({ error: 'Service not ready' })
+  }
+  fileRoutes(req, res, next)
+})
 app.use(express.json())
 
 // Add device ID to all requests
@@ -271,8 +609,8 @@ app.use((req, res, next) => {
 
 // Add sync manager to requests (only if initialized)
 app.use((req, res, next) => {
-  if (syncManager !== null) {
-    (req as any).syncManager = syncManager
+  if (syncController !== null) {
+    (req as any).syncManager = syncController.getStrategy()
   }
   (req as any).networkSimulator = networkSimulator
   next()
@@ -286,7 +624,7 @@ app.get('/api/health', (req, res) => {
     status: 'ok', 
     device: deviceId,
     timestamp: Date.now(),
-    syncActive: syncManager !== null
+    syncActive: syncController !== null
   })
 })
 
@@ -302,7 +640,7 @@ app.get('/status', async (req, res) => {
   res.json({
     device: deviceId,
     trustedPeers,
-    syncActive: syncManager !== null,
+    syncActive: syncController !== null,
     publicKey: keyManager.exportPublicKeyBase64()
   })
 })
@@ -314,15 +652,22 @@ app.get('/api/stats', async (req, res) => {
   }
   
   const events = await store.getAllEvents()
-  const messages = events.filter(e => e.type === 'message')
-  const syncPercentage = syncManager ? syncManager.getSyncPercentage() : 0
+  const messageCount = await store.getMessageCount()
+  const sync = syncController?.getStrategy()
+  const syncPercentage = sync ? await sync.getSyncPercentage() : 0
+  const peers = sync ? await sync.getPeerSyncStatus() : []
   
   res.json({
     deviceId,
     eventCount: events.length,
-    messageCount: messages.length,
+    messageCount,
     syncPercentage,
-    isOnline: syncManager ? syncManager.isOnline() : false,
+    peers,
+    syncStrategy: sync ? sync.name : null,
+    isOnline: sync ? sync.isOnline() : false,
+    transport: networkSimulator.getNetworkStats(),
+    reliable: reliable.getStats(),
+    files: files.getStats(),
     timestamp: Date.now()
   })
 })
@@ -341,11 +686,21 @@ app.post('/api/network-config', (req, res) => {
 })
 
 // Set device online/offline
-app.post('/api/device-status', (req, res) => {
+app.post('/api/device-status', async (req, res) => {
   const { online } = req.body
   
-  if (syncManager) {
-    syncManager.setOnline(online)
+  if (presence) {
+    if (online) {
+      presence.start()
+    } else {
+      // Say goodbye while the network can still send it
+      await presence.announceOffline()
+      presence.stop()
+    }
+  }
+  
+  if (syncController) {
+    syncController.getStrategy().setOnline(online)
   }
   
   // Also notify network simulator
@@ -359,6 +714,11 @@ app.post('/api/device-status', (req, res) => {
   })
 })
 
+// Peers with their state (unknown, alive, suspect, dead), RTT and loss
+app.get('/api/peers', (req, res) => {
+  res.json({ peers: networkSimulator.getPeers(), timestamp: Date.now() })
+})
+
 // Add peer for P2P communication
 app.post('/api/add-peer', (req, res) => {
   const { deviceId: peerId, address, port } = req.body
@@ -447,12 +807,25 @@ app.delete('/api/messages/clear', async (req, res) => {
 process.on('SIGTERM', async () => {
   console.log(`[Server] ${deviceId} received SIGTERM, shutting down...`)
   
-  if (syncManager) {
-    syncManager.stop()
+  if (syncController) {
+    await syncController.stop()
+  }
+  if (presence) {
+    presence.stop()
+    await presence.announceOffline()
+  }
+  if (discovery) {
+    await discovery.stop()
   }
+  files.stop()
+  reliable.stop()
   
   await networkSimulator.disconnect()
   
+  if (store) {
+    await store.close()
+  }
+  
   process.exit(0)
 })
 
@@ -468,4 +841,4 @@ app.listen(port, async () => {
 })
 
 // Export for testing
-export { store, messageGenerator, syncManager }
\ No newline at end of file
+export { store, messageGenerator, syncController }
\ No newline at end of file
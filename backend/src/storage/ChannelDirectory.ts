@@ -0,0 +1,162 @@
+import type { ChannelEvent, ChannelMembershipEvent } from '../crypto/MessageGenerator'
+import { compareCursors } from '../routes/pagination'
+
+// Messages without a channelId (including everything sent before channels existed) land here
+export const DEFAULT_CHANNEL_ID = 'general'
+
+export interface ProjectedChannel {
+  id: string
+  name: string
+  createdBy: string | null // null for the built-in default channel
+  createdAt: number
+  archived: boolean
+  members: string[]
+}
+
+interface ChannelCreation {
+  name: string
+  author: string
+  timestamp: number
+}
+
+interface ChannelUpdate {
+  eventId: string
+  action: 'rename' | 'archive' | 'unarchive'
+  name?: string
+  author: string
+  timestamp: number
+}
+
+interface MembershipState {
+  eventId: string
+  joined: boolean
+  timestamp: number
+}
+
+const byTimestampThenEventId = (a: { timestamp: number, eventId: string }, b: { timestamp: number, eventId: string }) =>
+  compareCursors({ timestamp: a.timestamp, id: a.eventId }, { timestamp: b.timestamp, id: b.eventId })
+
+/**
+ * ChannelDirectory - channel list folded from synced channel events
+ *
+ * Channels are identified by the event_id of their create event. Renames and
+ * archiving count only when signed by the creator, and the latest
+ * (timestamp, event_id) wins, so every peer converges on the same list no
+ * matter which order Bloom sync delivers the events in.
+ */
+export class ChannelDirectory {
+  private creations: Map<string, ChannelCreation> = new Map()
+  private updates: Map<string, ChannelUpdate[]> = new Map()
+  private memberships: Map<string, Map<string, MembershipState>> = new Map()
+
+  applyChannelEvent(eventId: string, payload: ChannelEvent): void {
+    if (payload.action === 'create') {
+      this.creations.set(eventId, {
+        name: payload.name || 'untitled',
+        author: payload.author,
+        timestamp: payload.timestamp
+      })
+      // Creating a channel joins it
+      this.applyMembership(eventId, payload.author, { eventId, joined: true, timestamp: payload.timestamp })
+      return
+    }
+
+    if (!payload.channelId) {
+      return
+    }
+    // Kept even before the create arrives; authorship is checked on read
+    const updates = this.updates.get(payload.channelId) || []
+    updates.push({
+      eventId,
+      action: payload.action,
+      name: payload.name,
+      author: payload.author,
+      timestamp: payload.timestamp
+    })
+    updates.sort(byTimestampThenEventId)
+    this.updates.set(payload.channelId, updates)
+  }
+
+  applyMembershipEvent(eventId: string, payload: ChannelMembershipEvent): void {
+    this.applyMembership(payload.channelId, payload.author, {
+      eventId,
+      joined: payload.joined,
+      timestamp: payload.timestamp
+    })
+  }
+
+  /**
+   * Default channel first, then channels in creation order
+   */
+  getChannels(): ProjectedChannel[] {
+    const channels = Array.from(this.creations.keys())
+      .map(id => this.getChannel(id)!)
+      .sort((a, b) => compareCursors({ timestamp: a.createdAt, id: a.id }, { timestamp: b.createdAt, id: b.id }))
+    return [this.getChannel(DEFAULT_CHANNEL_ID)!, ...channels]
+  }
+
+  getChannel(id: string): ProjectedChannel | null {
+    if (id === DEFAULT_CHANNEL_ID) {
+      return {
+        id,
+        name: DEFAULT_CHANNEL_ID,
+        createdBy: null,
+        createdAt: 0,
+        archived: false,
+        members: this.getMembers(id)
+      }
+    }
+
+    const creation = this.creations.get(id)
+    if (!creation) {
+      return null
+    }
+
+    let name = creation.name
+    let archived = false
+    for (const update of this.updates.get(id) || []) {
+      if (update.author !== creation.author) continue
+      if (update.action === 'rename' && update.name) {
+        name = update.name
+      } else if (update.action === 'archive' || update.action === 'unarchive') {
+        archived = update.action === 'archive'
+      }
+    }
+
+    return {
+      id,
+      name,
+      createdBy: creation.author,
+      createdAt: creation.timestamp,
+      archived,
+      members: this.getMembers(id)
+    }
+  }
+
+  clear(): void {
+    this.creations.clear()
+    this.updates.clear()
+    this.memberships.clear()
+  }
+
+  // Latest join/leave per member wins, like reactions
+  private applyMembership(channelId: string, member: string, candidate: MembershipState): void {
+    const states = this.memberships.get(channelId) || new Map<string, MembershipState>()
+    const current = states.get(member)
+    if (!current || byTimestampThenEventId(candidate, current) > 0) {
+      states.set(member, candidate)
+    }
+    this.memberships.set(channelId, states)
+  }
+
+  private getMembers(channelId: string): string[] {
+    const states = this.memberships.get(channelId)
+    if (!states) {
+      return []
+    }
+    return Array.from(states.entries())
+      .filter(([, state]) => state.joined)
+      .map(([member]) => member)
+      .sort()
+  }
+}
@@ -0,0 +1,32 @@
+export interface StoredEvent {
+  event_id: string
+  device_id: string
+  created_at: number
+  received_at: number
+  encrypted: Buffer
+}
+
+/**
+ * EventStore - storage contract shared by every backend store
+ *
+ * Events are opaque encrypted blobs keyed by their content-addressed ID.
+ * Stores never see plaintext; decryption happens in MessageGenerator.
+ *
+ * Purged events (e.g. messages retracted by a delete tombstone) lose their
+ * ciphertext but their IDs are remembered, so sync still counts them as
+ * held and storing them again is a no-op. Their device_id is kept too, so
+ * a deletion can be replayed under the right author.
+ */
+export interface EventStore {
+  storeEvent(event: Omit<StoredEvent, 'event_id'>, eventId: string): Promise<void>
+  getEvent(eventId: string): Promise<StoredEvent | null>
+  getAllEvents(): Promise<StoredEvent[]>
+  getMessagesSince(timestamp: number): Promise<StoredEvent[]>
+  getAllEventsSince(timestamp: number): Promise<StoredEvent[]>
+  purgeEvent(eventId: string): Promise<void>
+  isPurged(eventId: string): Promise<boolean>
+  getPurgedAuthor(eventId: string): Promise<string | null>
+  getPurgedEventIds(): Promise<string[]>
+  clear(): Promise<void>
+  close(): Promise<void>
+}
@@ -1,20 +1,24 @@
-// Simple in-memory storage for initial testing
-// Will be replaced with SQLite integration
-
-export interface StoredEvent {
-  event_id: string
-  device_id: string
-  created_at: number
-  received_at: number
-  encrypted: Buffer
-}
+// Simple in-memory storage for tests and ephemeral dev runs
+// Use SQLiteStore for persistence across restarts
+
+import type { EventStore, StoredEvent } from './EventStore'
+
+export type { StoredEvent } from './EventStore'
+
+// Same order as SQLiteStore: created_at, then event_id for ties
+const byCreatedAt = (a: StoredEvent, b: StoredEvent) =>
+  a.created_at - b.created_at || (a.event_id < b.event_id ? -1 : a.event_id > b.event_id ? 1 : 0)
 
-export class InMemoryStore {
+export class InMemoryStore implements EventStore {
   private events: Map<string, StoredEvent> = new Map()
-  
+  private purged: Map<string, string | null> = new Map() // ID to device_id
+
   constructor(private deviceId: string) {}
 
   async storeEvent(event: Omit<StoredEvent, 'event_id'>, eventId: string): Promise<void> {
+    if (this.purged.has(eventId)) {
+      return
+    }
     this.events.set(eventId, {
       ...event,
       event_id: eventId
@@ -27,23 +31,47 @@ export class InMemoryStore {
 
   async getAllEvents(): Promise<StoredEvent[]> {
     return Array.from(this.events.values())
-      .sort((a, b) => a.created_at - b.created_at)
+      .sort(byCreatedAt)
   }
 
   async getMessagesSince(timestamp: number): Promise<StoredEvent[]> {
     return Array.from(this.events.values())
       .filter(e => e.created_at > timestamp)
-      .sort((a, b) => a.created_at - b.created_at)
+      .sort(byCreatedAt)
   }
 
   async getAllEventsSince(timestamp: number): Promise<StoredEvent[]> {
     // Return all events (messages, reactions, etc.) since timestamp
     return Array.from(this.events.values())
       .filter(e => e.created_at > timestamp)
-      .sort((a, b) => a.created_at - b.created_at)
+      .sort(byCreatedAt)
+  }
+
+  async purgeEvent(eventId: string): Promise<void> {
+    if (!this.purged.has(eventId)) {
+      this.purged.set(eventId, this.events.get(eventId)?.device_id ?? null)
+    }
+    this.events.delete(eventId)
+  }
+
+  async isPurged(eventId: string): Promise<boolean> {
+    return this.purged.has(eventId)
+  }
+
+  async getPurgedAuthor(eventId: string): Promise<string | null> {
+    return this.purged.get(eventId) ?? null
+  }
+
+  async getPurgedEventIds(): Promise<string[]> {
+    return Array.from(this.purged.keys())
   }
 
   async clear(): Promise<void> {
     this.events.clear()
+    this.purged.clear()
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
   }
-}
\ No newline at end of file
+}
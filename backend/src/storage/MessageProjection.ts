@@ -0,0 +1,610 @@
+import type { EventStore, StoredEvent } from './EventStore'
+import type { MessageGenerator, EventPayload } from '../crypto/MessageGenerator'
+import { compareCursors } from '../routes/pagination'
+import { ChannelDirectory, DEFAULT_CHANNEL_ID } from './ChannelDirectory'
+import type { ProjectedChannel } from './ChannelDirectory'
+
+export interface ProjectedReaction {
+  emoji: string
+  author: string
+  timestamp: number
+}
+
+export interface MessageVersion {
+  content: string
+  timestamp: number
+}
+
+export interface ProjectedMessage {
+  id: string
+  author: string
+  content: string
+  timestamp: number
+  attachments: any[]
+  channelId: string
+  replyTo?: string
+  editedAt?: number
+  editHistory: MessageVersion[] // Every version, original first; empty if never edited
+}
+
+/**
+ * One device's acknowledgement of a message; reading implies delivery
+ */
+export interface MessageReceipt {
+  device: string
+  deliveredAt: number
+  readAt?: number
+}
+
+export interface MessageThread {
+  root: ProjectedMessage
+  messages: ProjectedMessage[] // Root first, every reply after its parent
+}
+
+export type ProjectionChange =
+  | { type: 'upsert', message: ProjectedMessage }
+  | { type: 'delete', id: string }
+  | { type: 'clear' }
+
+// Latest reaction event per (author, emoji), so add/remove converge in any arrival order
+interface ReactionState extends ProjectedReaction {
+  eventId: string
+  remove: boolean
+}
+
+interface EditState extends MessageVersion {
+  eventId: string
+  author: string
+}
+
+interface Tombstone {
+  eventId: string
+  author: string
+}
+
+interface DeletedMessage {
+  author: string
+  revision: number
+}
+
+const byTimestampThenEventId = (a: { timestamp: number, eventId: string }, b: { timestamp: number, eventId: string }) =>
+  compareCursors({ timestamp: a.timestamp, id: a.eventId }, { timestamp: b.timestamp, id: b.eventId })
+
+/**
+ * MessageProjection - decrypted read model kept in backend memory
+ *
+ * Wraps an EventStore and folds every stored event into decrypted messages
+ * and aggregated reactions as it is written, so reads never re-run AES-GCM
+ * or Ed25519 verification. The wrapped store still only holds ciphertext.
+ *
+ * Each change to a message (arrival, edit, reaction, deletion) bumps a
+ * revision counter so clients can poll for only what changed.
+ *
+ * Replies are indexed by parent ID as they arrive, so a reply synced before
+ * its parent joins the thread as soon as the parent shows up.
+ *
+ * Receipts are folded per message and device, keeping the earliest
+ * delivered and read times, so duplicate or reordered receipts converge.
+ *
+ * A delete tombstone signed by the message's author hides the message with
+ * its reactions and attachments, and purges the original and its edits
+ * from the store. Their IDs stay known so sync never fetches them again.
+ *
+ * A reply, reaction, edit or delete whose message we have never seen is
+ * reported to onMissingEvent listeners, so sync can ask peers for it.
+ */
+export class MessageProjection implements EventStore {
+  private originals: Map<string, ProjectedMessage> = new Map()
+  private messages: Map<string, ProjectedMessage> = new Map()
+  private orderedMessages: ProjectedMessage[] = []
+  private reactions: Map<string, Map<string, ReactionState>> = new Map()
+  private edits: Map<string, EditState[]> = new Map()
+  private tombstones: Map<string, Tombstone[]> = new Map()
+  private deletedMessages: Map<string, DeletedMessage> = new Map()
+  private replies: Map<string, Set<string>> = new Map()
+  private receipts: Map<string, Map<string, MessageReceipt>> = new Map()
+  private channels = new ChannelDirectory()
+  private revision = 0
+  private messageRevisions: Map<string, number> = new Map()
+  private appliedEvents: Set<string> = new Set()
+  private loading: Promise<void> | null = null
+  private changeHandlers: Array<(change: ProjectionChange) => void> = []
+  private missingHandlers: Array<(eventId: string, referencedBy: string) => void> = []
+
+  constructor(private store: EventStore, private messageGenerator: MessageGenerator) {}
+
+  /**
+   * Replay events already in the underlying store (e.g. a persisted SQLite db)
+   * Safe to call repeatedly; the replay only runs once.
+   */
+  initialize(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const events = await this.store.getAllEvents()
+        for (const event of events) {
+          await this.applyEvent(event)
+        }
+        console.log(`[MessageProjection] Loaded ${this.messages.size} messages from ${events.length} events`)
+      })()
+    }
+    return this.loading
+  }
+
+  async storeEvent(event: Omit<StoredEvent, 'event_id'>, eventId: string): Promise<void> {
+    if (await this.store.isPurged(eventId)) {
+      return
+    }
+    await this.store.storeEvent(event, eventId)
+    await this.applyEvent({ ...event, event_id: eventId })
+  }
+
+  getEvent(eventId: string): Promise<StoredEvent | null> {
+    return this.store.getEvent(eventId)
+  }
+
+  getAllEvents(): Promise<StoredEvent[]> {
+    return this.store.getAllEvents()
+  }
+
+  getMessagesSince(timestamp: number): Promise<StoredEvent[]> {
+    return this.store.getMessagesSince(timestamp)
+  }
+
+  getAllEventsSince(timestamp: number): Promise<StoredEvent[]> {
+    return this.store.getAllEventsSince(timestamp)
+  }
+
+  purgeEvent(eventId: string): Promise<void> {
+    return this.store.purgeEvent(eventId)
+  }
+
+  isPurged(eventId: string): Promise<boolean> {
+    return this.store.isPurged(eventId)
+  }
+
+  getPurgedAuthor(eventId: string): Promise<string | null> {
+    return this.store.getPurgedAuthor(eventId)
+  }
+
+  getPurgedEventIds(): Promise<string[]> {
+    return this.store.getPurgedEventIds()
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear()
+    this.originals.clear()
+    this.messages.clear()
+    this.orderedMessages = []
+    this.reactions.clear()
+    this.edits.clear()
+    this.tombstones.clear()
+    this.deletedMessages.clear()
+    this.replies.clear()
+    this.receipts.clear()
+    this.channels.clear()
+    this.messageRevisions.clear()
+    this.appliedEvents.clear()
+    this.notify({ type: 'clear' })
+  }
+
+  close(): Promise<void> {
+    return this.store.close()
+  }
+
+  /**
+   * Subscribe to message changes, e.g. to keep a search index current
+   */
+  onChange(handler: (change: ProjectionChange) => void): void {
+    this.changeHandlers.push(handler)
+  }
+
+  /**
+   * Subscribe to references to events we don't hold
+   */
+  onMissingEvent(handler: (eventId: string, referencedBy: string) => void): void {
+    this.missingHandlers.push(handler)
+  }
+
+  /**
+   * Decrypted messages ordered by (timestamp, id), without reactions
+   */
+  async getMessages(): Promise<ProjectedMessage[]> {
+    await this.initialize()
+    return this.orderedMessages
+  }
+
+  async getMessage(id: string): Promise<ProjectedMessage | null> {
+    await this.initialize()
+    return this.messages.get(id) || null
+  }
+
+  async getMessageCount(): Promise<number> {
+    await this.initialize()
+    return this.messages.size
+  }
+
+  /**
+   * Monotonic counter bumped whenever any message changes
+   */
+  getRevision(): number {
+    return this.revision
+  }
+
+  /**
+   * Messages that arrived or changed after the given revision, oldest first
+   */
+  async getMessagesChangedSince(revision: number): Promise<ProjectedMessage[]> {
+    await this.initialize()
+    return this.orderedMessages.filter(message => (this.messageRevisions.get(message.id) || 0) > revision)
+  }
+
+  async getChannels(): Promise<ProjectedChannel[]> {
+    await this.initialize()
+    return this.channels.getChannels()
+  }
+
+  async getChannel(id: string): Promise<ProjectedChannel | null> {
+    await this.initialize()
+    return this.channels.getChannel(id)
+  }
+
+  /**
+   * Number of visible direct replies to a message
+   */
+  getReplyCount(messageId: string): number {
+    const replyIds = this.replies.get(messageId)
+    if (!replyIds) {
+      return 0
+    }
+    return Array.from(replyIds).filter(id => this.messages.has(id)).length
+  }
+
+  /**
+   * The whole thread a message belongs to, in causal order: walks up to the
+   * oldest visible ancestor, then emits each message after its parent,
+   * earliest (timestamp, id) first among those ready.
+   */
+  async getThread(messageId: string): Promise<MessageThread | null> {
+    await this.initialize()
+    const message = this.messages.get(messageId)
+    if (!message) {
+      return null
+    }
+
+    let root = message
+    const visited = new Set([root.id])
+    while (root.replyTo) {
+      const parent = this.messages.get(root.replyTo)
+      if (!parent || visited.has(parent.id)) {
+        break
+      }
+      visited.add(parent.id)
+      root = parent
+    }
+
+    const ordered: ProjectedMessage[] = []
+    const ready = [root]
+    while (ready.length > 0) {
+      ready.sort(compareCursors)
+      const next = ready.shift()!
+      ordered.push(next)
+      for (const replyId of this.replies.get(next.id) || []) {
+        const reply = this.messages.get(replyId)
+        if (reply) {
+          ready.push(reply)
+        }
+      }
+    }
+
+    return { root, messages: ordered }
+  }
+
+  /**
+   * IDs of messages deleted after the given revision
+   */
+  getDeletedSince(revision: number): string[] {
+    return Array.from(this.deletedMessages.entries())
+      .filter(([, deleted]) => deleted.revision > revision)
+      .map(([id]) => id)
+  }
+
+  isDeleted(messageId: string): boolean {
+    return this.deletedMessages.has(messageId)
+  }
+
+  /**
+   * Current reactions on a message, oldest first
+   */
+  getReactions(messageId: string): ProjectedReaction[] {
+    const states = this.reactions.get(messageId)
+    if (!states) {
+      return []
+    }
+
+    return Array.from(states.values())
+      .filter(state => !state.remove)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(({ emoji, author, timestamp }) => ({ emoji, author, timestamp }))
+  }
+
+  /**
+   * Delivery and read receipts from devices other than the message's author
+   */
+  getReceipts(messageId: string): MessageReceipt[] {
+    const message = this.messages.get(messageId)
+    const receipts = this.receipts.get(messageId)
+    if (!message || !receipts) {
+      return []
+    }
+
+    return Array.from(receipts.values())
+      .filter(receipt => receipt.device !== message.author)
+      .sort((a, b) => a.device.localeCompare(b.device))
+  }
+
+  /**
+   * Whether a device has already sent a read receipt for a message
+   */
+  hasRead(messageId: string, device: string): boolean {
+    return this.receipts.get(messageId)?.get(device)?.readAt !== undefined
+  }
+
+  private async applyEvent(event: StoredEvent): Promise<void> {
+    if (this.appliedEvents.has(event.event_id)) {
+      return
+    }
+    this.appliedEvents.add(event.event_id)
+
+    const payload = await this.messageGenerator.decryptEvent(event)
+    if (!payload) {
+      // Leave it unapplied so a later store of the same event can retry
+      this.appliedEvents.delete(event.event_id)
+      console.warn(`[MessageProjection] Could not decrypt event ${event.event_id}`)
+      return
+    }
+
+    await this.applyPayload(event.event_id, payload)
+  }
+
+  private async applyPayload(eventId: string, payload: EventPayload): Promise<void> {
+    switch (payload.type) {
+      case 'message':
+        this.originals.set(eventId, {
+          id: eventId,
+          author: payload.author,
+          content: payload.content,
+          timestamp: payload.timestamp,
+          attachments: payload.attachments || [],
+          channelId: payload.channelId || DEFAULT_CHANNEL_ID,
+          ...(payload.replyTo ? { replyTo: payload.replyTo } : {}),
+          editHistory: []
+        })
+        if (payload.replyTo) {
+          const replyIds = this.replies.get(payload.replyTo) || new Set<string>()
+          replyIds.add(eventId)
+          this.replies.set(payload.replyTo, replyIds)
+          await this.checkDependency(payload.replyTo, eventId)
+        }
+        await this.refreshMessage(eventId)
+        // The parent's reply count changed
+        if (payload.replyTo && this.messages.has(payload.replyTo)) {
+          this.touch(payload.replyTo)
+        }
+        break
+
+      case 'reaction': {
+        if (this.deletedMessages.has(payload.messageId)) {
+          break
+        }
+        await this.checkDependency(payload.messageId, eventId)
+        const states = this.reactions.get(payload.messageId) || new Map<string, ReactionState>()
+        const key = `${payload.author}:${payload.emoji}`
+        const current = states.get(key)
+        const candidate: ReactionState = {
+          emoji: payload.emoji,
+          author: payload.author,
+          timestamp: payload.timestamp,
+          eventId,
+          remove: payload.remove
+        }
+
+        if (!current || byTimestampThenEventId(candidate, current) > 0) {
+          states.set(key, candidate)
+          this.touch(payload.messageId)
+        }
+        this.reactions.set(payload.messageId, states)
+        break
+      }
+
+      case 'edit': {
+        // Kept even before the original arrives; authorship is checked on refresh
+        const edits = this.edits.get(payload.messageId) || []
+        edits.push({
+          eventId,
+          author: payload.author,
+          content: payload.content,
+          timestamp: payload.timestamp
+        })
+        edits.sort(byTimestampThenEventId)
+        this.edits.set(payload.messageId, edits)
+        await this.refreshMessage(payload.messageId)
+        await this.checkDependency(payload.messageId, eventId)
+        break
+      }
+
+      case 'delete': {
+        // Like edits, only honoured once we know the tombstone's author wrote the message
+        const tombstones = this.tombstones.get(payload.messageId) || []
+        tombstones.push({ eventId, author: payload.author })
+        this.tombstones.set(payload.messageId, tombstones)
+        await this.refreshMessage(payload.messageId)
+        await this.checkDependency(payload.messageId, eventId)
+        break
+      }
+
+      case 'receipt':
+        for (const messageId of payload.messageIds) {
+          this.applyReceipt(messageId, payload.author, payload.kind, payload.timestamp)
+        }
+        break
+
+      case 'channel':
+        this.channels.applyChannelEvent(eventId, payload)
+        break
+
+      case 'channel_membership':
+        this.channels.applyMembershipEvent(eventId, payload)
+        break
+    }
+  }
+
+  // Earliest time wins for each kind, so duplicates and reordering don't matter
+  private applyReceipt(messageId: string, device: string, kind: 'delivered' | 'read', timestamp: number): void {
+    if (this.deletedMessages.has(messageId)) {
+      return
+    }
+    const receipts = this.receipts.get(messageId) || new Map<string, MessageReceipt>()
+    const current = receipts.get(device)
+    const deliveredAt = Math.min(current?.deliveredAt ?? timestamp, timestamp)
+    const readAt = kind === 'read'
+      ? Math.min(current?.readAt ?? timestamp, timestamp)
+      : current?.readAt
+
+    if (current && current.deliveredAt === deliveredAt && current.readAt === readAt) {
+      return
+    }
+    receipts.set(device, { device, deliveredAt, ...(readAt !== undefined ? { readAt } : {}) })
+    this.receipts.set(messageId, receipts)
+    if (this.messages.has(messageId)) {
+      this.touch(messageId)
+    }
+  }
+
+  /**
+   * Rebuild a message's current view from its original and edits.
+   * Only edits signed by the original author count, and the latest
+   * (timestamp, event_id) wins so concurrent edits converge on every peer.
+   */
+  private async refreshMessage(id: string): Promise<void> {
+    const deleted = this.deletedMessages.get(id)
+    if (deleted) {
+      // Edits that trail the tombstone are purged too
+      await this.purgeEdits(id, deleted.author)
+      return
+    }
+
+    const original = this.originals.get(id)
+    if (!original) {
+      // Replayed after a restart: the original was purged when its
+      // author's tombstone was honoured, and the store kept that author
+      const author = await this.store.getPurgedAuthor(id)
+      if (author && this.tombstones.get(id)?.some(tombstone => tombstone.author === author)) {
+        this.markDeleted(id, author)
+        await this.purgeEdits(id, author)
+      }
+      return
+    }
+
+    const tombstones = this.tombstones.get(id) || []
+    if (tombstones.some(tombstone => tombstone.author === original.author)) {
+      await this.deleteMessage(original)
+      return
+    }
+
+    const edits = (this.edits.get(id) || []).filter(edit => edit.author === original.author)
+    const latest = edits[edits.length - 1]
+    const message: ProjectedMessage = latest
+      ? {
+          ...original,
+          content: latest.content,
+          editedAt: latest.timestamp,
+          editHistory: [
+            { content: original.content, timestamp: original.timestamp },
+            ...edits.map(({ content, timestamp }) => ({ content, timestamp }))
+          ]
+        }
+      : original
+
+    const index = this.findIndex(message)
+    if (this.messages.has(id)) {
+      this.orderedMessages[index] = message
+    } else {
+      this.orderedMessages.splice(index, 0, message)
+    }
+    this.messages.set(id, message)
+    this.touch(id)
+    this.notify({ type: 'upsert', message })
+  }
+
+  private async deleteMessage(original: ProjectedMessage): Promise<void> {
+    const { id, author } = original
+    const visible = this.messages.get(id)
+    if (visible) {
+      this.orderedMessages.splice(this.findIndex(visible), 1)
+      this.messages.delete(id)
+    }
+    this.originals.delete(id)
+    this.markDeleted(id, author)
+    this.notify({ type: 'delete', id })
+    if (original.replyTo && this.messages.has(original.replyTo)) {
+      this.touch(original.replyTo)
+    }
+
+    await this.store.purgeEvent(id)
+    await this.purgeEdits(id, author)
+  }
+
+  // Drop what hung off the message; later reactions and receipts are ignored
+  private markDeleted(id: string, author: string): void {
+    this.reactions.delete(id)
+    this.receipts.delete(id)
+    this.tombstones.delete(id)
+    this.messageRevisions.delete(id)
+
+    this.revision++
+    this.deletedMessages.set(id, { author, revision: this.revision })
+  }
+
+  private async purgeEdits(messageId: string, author: string): Promise<void> {
+    const edits = this.edits.get(messageId) || []
+    for (const edit of edits.filter(edit => edit.author === author)) {
+      await this.store.purgeEvent(edit.eventId)
+    }
+    this.edits.delete(messageId)
+  }
+
+  // Binary search keeps orderedMessages sorted without re-sorting on every read
+  private findIndex(message: ProjectedMessage): number {
+    let low = 0
+    let high = this.orderedMessages.length
+    while (low < high) {
+      const mid = (low + high) >>> 1
+      if (compareCursors(this.orderedMessages[mid], message) < 0) {
+        low = mid + 1
+      } else {
+        high = mid
+      }
+    }
+    return low
+  }
+
+  private touch(messageId: string): void {
+    this.revision++
+    this.messageRevisions.set(messageId, this.revision)
+  }
+
+  // Held, deleted or purged all count as known; only a true gap is reported
+  private async checkDependency(messageId: string, referencedBy: string): Promise<void> {
+    if (this.originals.has(messageId) || this.deletedMessages.has(messageId)) {
+      return
+    }
+    if (await this.store.isPurged(messageId) || await this.store.getEvent(messageId)) {
+      return
+    }
+    this.missingHandlers.forEach(handler => handler(messageId, referencedBy))
+  }
+
+  private notify(change: ProjectionChange): void {
+    this.changeHandlers.forEach(handler => handler(change))
+  }
+}
@@ -0,0 +1,152 @@
+import Database from 'better-sqlite3'
+import * as fs from 'fs'
+import * as path from 'path'
+import type { EventStore, StoredEvent } from './EventStore'
+
+interface EventRow {
+  event_id: string
+  device_id: string
+  created_at: number
+  received_at: number
+  encrypted: Buffer
+}
+
+/**
+ * SQLiteStore - persistent event storage backed by a per-device database file
+ *
+ * Uses the same `events` table layout as the frontend DeviceDB so data can be
+ * inspected with the same queries. Only encrypted blobs are written to disk.
+ */
+export class SQLiteStore implements EventStore {
+  private db: Database.Database
+  private insertStmt: Database.Statement
+  private getStmt: Database.Statement
+  private allStmt: Database.Statement
+  private sinceStmt: Database.Statement
+  private purgeStmt: Database.Statement
+  private deleteStmt: Database.Statement
+  private isPurgedStmt: Database.Statement
+  private purgedAuthorStmt: Database.Statement
+  private purgedStmt: Database.Statement
+
+  constructor(private deviceId: string, dbPath: string) {
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true })
+    }
+
+    this.db = new Database(dbPath)
+    this.db.pragma('journal_mode = WAL')
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS events (
+        event_id TEXT PRIMARY KEY,
+        device_id TEXT,
+        created_at INTEGER,
+        received_at INTEGER,
+        encrypted BLOB
+      );
+      CREATE INDEX IF NOT EXISTS idx_events_created_at ON events(created_at);
+      CREATE TABLE IF NOT EXISTS purged_events (
+        event_id TEXT PRIMARY KEY,
+        device_id TEXT,
+        purged_at INTEGER
+      );
+    `)
+
+    // Databases from before purged events kept their author
+    const purgedColumns = this.db.prepare('PRAGMA table_info(purged_events)').all() as Array<{ name: string }>
+    if (!purgedColumns.some(column => column.name === 'device_id')) {
+      this.db.exec('ALTER TABLE purged_events ADD COLUMN device_id TEXT')
+    }
+
+    // Purged IDs stay purged even if a peer sends the event again
+    this.insertStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO events (event_id, device_id, created_at, received_at, encrypted)
+      SELECT ?, ?, ?, ?, ?
+      WHERE NOT EXISTS (SELECT 1 FROM purged_events WHERE event_id = ?)
+    `)
+    this.getStmt = this.db.prepare('SELECT * FROM events WHERE event_id = ?')
+    this.allStmt = this.db.prepare('SELECT * FROM events ORDER BY created_at ASC, event_id ASC')
+    this.sinceStmt = this.db.prepare(
+      'SELECT * FROM events WHERE created_at > ? ORDER BY created_at ASC, event_id ASC'
+    )
+    this.purgeStmt = this.db.prepare(`
+      INSERT OR IGNORE INTO purged_events (event_id, device_id, purged_at)
+      VALUES (?, (SELECT device_id FROM events WHERE event_id = ?), ?)
+    `)
+    this.deleteStmt = this.db.prepare('DELETE FROM events WHERE event_id = ?')
+    this.isPurgedStmt = this.db.prepare('SELECT 1 FROM purged_events WHERE event_id = ?')
+    this.purgedAuthorStmt = this.db.prepare('SELECT device_id FROM purged_events WHERE event_id = ?')
+    this.purgedStmt = this.db.prepare('SELECT event_id FROM purged_events')
+
+    console.log(`[SQLiteStore] ${deviceId} using database at ${dbPath}`)
+  }
+
+  async storeEvent(event: Omit<StoredEvent, 'event_id'>, eventId: string): Promise<void> {
+    this.insertStmt.run(
+      eventId,
+      event.device_id,
+      event.created_at,
+      event.received_at,
+      Buffer.from(event.encrypted),
+      eventId
+    )
+  }
+
+  async getEvent(eventId: string): Promise<StoredEvent | null> {
+    const row = this.getStmt.get(eventId) as EventRow | undefined
+    return row ? this.rowToEvent(row) : null
+  }
+
+  async getAllEvents(): Promise<StoredEvent[]> {
+    return (this.allStmt.all() as EventRow[]).map(row => this.rowToEvent(row))
+  }
+
+  async getMessagesSince(timestamp: number): Promise<StoredEvent[]> {
+    return this.getAllEventsSince(timestamp)
+  }
+
+  async getAllEventsSince(timestamp: number): Promise<StoredEvent[]> {
+    return (this.sinceStmt.all(timestamp) as EventRow[]).map(row => this.rowToEvent(row))
+  }
+
+  async purgeEvent(eventId: string): Promise<void> {
+    this.db.transaction(() => {
+      this.purgeStmt.run(eventId, eventId, Date.now())
+      this.deleteStmt.run(eventId)
+    })()
+  }
+
+  async isPurged(eventId: string): Promise<boolean> {
+    return this.isPurgedStmt.get(eventId) !== undefined
+  }
+
+  async getPurgedAuthor(eventId: string): Promise<string | null> {
+    const row = this.purgedAuthorStmt.get(eventId) as { device_id: string | null } | undefined
+    return row?.device_id ?? null
+  }
+
+  async getPurgedEventIds(): Promise<string[]> {
+    return (this.purgedStmt.all() as Array<{ event_id: string }>).map(row => row.event_id)
+  }
+
+  async clear(): Promise<void> {
+    this.db.exec('DELETE FROM events; DELETE FROM purged_events')
+  }
+
+  async close(): Promise<void> {
+    if (this.db.open) {
+      this.db.close()
+    }
+  }
+
+  private rowToEvent(row: EventRow): StoredEvent {
+    return {
+      event_id: row.event_id,
+      device_id: row.device_id,
+      created_at: row.created_at,
+      received_at: row.received_at,
+      encrypted: row.encrypted
+    }
+  }
+}
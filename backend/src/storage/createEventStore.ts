@@ -0,0 +1,35 @@
+import * as path from 'path'
+import type { EventStore } from './EventStore'
+import { InMemoryStore } from './InMemoryStore'
+import { SQLiteStore } from './SQLiteStore'
+
+export type StoreType = 'memory' | 'sqlite'
+
+export interface EventStoreOptions {
+  type?: StoreType
+  dbPath?: string
+}
+
+/**
+ * Create the event store for a device
+ *
+ * Defaults come from the environment:
+ * - STORE_TYPE: 'memory' (default) or 'sqlite'
+ * - DB_PATH: SQLite file, defaults to backend/data/<deviceId>.db
+ */
+export function createEventStore(deviceId: string, options: EventStoreOptions = {}): EventStore {
+  const type = options.type || (process.env.STORE_TYPE as StoreType) || 'memory'
+
+  if (type === 'sqlite') {
+    const dbPath = options.dbPath
+      || process.env.DB_PATH
+      || path.join(__dirname, '..', '..', 'data', `${deviceId}.db`)
+    return new SQLiteStore(deviceId, dbPath)
+  }
+
+  if (type !== 'memory') {
+    throw new Error(`Unknown store type: ${type}`)
+  }
+
+  return new InMemoryStore(deviceId)
+}
@@ -0,0 +1,85 @@
+import type { BloomFilter } from './BloomFilter'
+import type { MessageGenerator } from '../crypto/MessageGenerator'
+
+export interface BloomUpdateConfig {
+  maxAge: number // Rebuild at least this often
+  maxNewEvents: number // Or once this many events were added since
+  minInterval: number // But never more often than this
+}
+
+export interface CachedBloomBlob {
+  version: number
+  createdAt: number
+  eventCount: number
+  filterSize: number // Serialized filter bytes, before sealing
+  blob: Buffer // Signed and PSK-encrypted, sent as-is to every peer
+}
+
+export const DEFAULT_BLOOM_UPDATE: BloomUpdateConfig = {
+  maxAge: 10000,
+  maxNewEvents: 100,
+  minInterval: 1000
+}
+
+/**
+ * Signed, versioned Bloom filter broadcasts
+ *
+ * A filter is sealed once when the update schedule says it's due and the
+ * same blob is re-sent until the next rebuild, so the per-round cost is a
+ * cache lookup instead of a signature and an encryption.
+ */
+export class BloomBroadcastCache {
+  private cached: CachedBloomBlob | null = null
+  private config: BloomUpdateConfig
+
+  constructor(
+    private deviceId: string,
+    private messageGenerator: MessageGenerator,
+    config: Partial<BloomUpdateConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_BLOOM_UPDATE, ...config }
+  }
+
+  /**
+   * Whether a filter over eventCount events should replace the cached one
+   */
+  needsUpdate(eventCount: number, now: number = Date.now()): boolean {
+    if (!this.cached) {
+      return true
+    }
+    const age = now - this.cached.createdAt
+    if (age < this.config.minInterval) {
+      return false
+    }
+    return age >= this.config.maxAge || eventCount - this.cached.eventCount >= this.config.maxNewEvents
+  }
+
+  /**
+   * The blob to broadcast, rebuilt from the filter only when due
+   */
+  async getBlob(filter: BloomFilter, eventCount: number, now: number = Date.now()): Promise<CachedBloomBlob> {
+    if (this.cached && !this.needsUpdate(eventCount, now)) {
+      return this.cached
+    }
+
+    // Versions are millisecond timestamps when possible, so a restarted
+    // device doesn't reuse versions its peers already processed
+    const version = Math.max((this.cached?.version ?? 0) + 1, now)
+    const serialized = filter.serialize()
+    const blob = await this.messageGenerator.sealBloomFilter({
+      type: 'bloom_filter',
+      version,
+      filter: Buffer.from(serialized).toString('base64'),
+      eventCount,
+      author: this.deviceId,
+      timestamp: now
+    })
+
+    this.cached = { version, createdAt: now, eventCount, filterSize: serialized.length, blob }
+    return this.cached
+  }
+
+  getCached(): CachedBloomBlob | null {
+    return this.cached
+  }
+}
@@ -1,13 +1,21 @@
+import { randomInt } from 'crypto'
+
 /**
  * UDP-safe Bloom filter implementation
  * Target: ~500 bytes for 10K events with 1% false positive rate
+ *
+ * A salt is mixed into every hash and carried in the wire header, so a
+ * filter built with a fresh salt has independent false positives.
+ * Salt 0 hashes exactly like the unsalted version 1 format.
  */
 export class BloomFilter {
   private bits: Uint8Array
   private bitSize: number
   private hashCount: number
+  private salt: number
   
-  constructor(expectedItems: number, falsePositiveRate: number) {
+  constructor(expectedItems: number, falsePositiveRate: number, salt: number = 0) {
+    this.salt = salt >>> 0
     // Calculate optimal parameters using standard Bloom filter formulas
     this.bitSize = Math.ceil(
       -expectedItems * Math.log(falsePositiveRate) / (Math.log(2) ** 2)
@@ -21,10 +29,21 @@ export class BloomFilter {
   /**
    * Create a filter optimized for UDP transmission (~500 bytes)
    */
-  static createUDPOptimal(): BloomFilter {
+  static createUDPOptimal(salt: number = 0): BloomFilter {
     // Target: 400 bytes = 3200 bits, optimize for ~500 events with 5% FPR
     // This balances UDP constraints with reasonable accuracy
-    return new BloomFilter(500, 0.05)
+    return new BloomFilter(500, 0.05, salt)
+  }
+  
+  /**
+   * A random non-zero salt for a new filter version
+   */
+  static randomSalt(): number {
+    return randomInt(1, 0xffffffff)
+  }
+  
+  getSalt(): number {
+    return this.salt
   }
   
   /**
@@ -61,8 +80,11 @@ export class BloomFilter {
     if (filter1.bitSize !== filter2.bitSize) {
       throw new Error('Cannot merge filters of different sizes')
     }
+    if (filter1.salt !== filter2.salt) {
+      throw new Error('Cannot merge filters with different salts')
+    }
     
-    const merged = new BloomFilter(0, 0) // Create empty shell
+    const merged = new BloomFilter(0, 0, filter1.salt) // Create empty shell
     merged.bitSize = filter1.bitSize
     merged.hashCount = filter1.hashCount
     merged.bits = new Uint8Array(filter1.bits.length)
@@ -75,6 +97,18 @@ export class BloomFilter {
     return merged
   }
   
+  /**
+   * Chance that test() says yes for an ID never added, from how full the
+   * bit array actually is rather than the size it was planned for
+   */
+  estimateFalsePositiveRate(): number {
+    let setBits = 0
+    for (const byte of this.bits) {
+      for (let b = byte; b; b &= b - 1) setBits++
+    }
+    return (setBits / this.bitSize) ** this.hashCount
+  }
+  
   /**
    * Get size in bytes for network transmission
    */
@@ -86,27 +120,32 @@ export class BloomFilter {
    * Serialize to wire format for UDP transmission
    */
   serialize(): Uint8Array {
-    // Format: [version:1][bitSize:4][hashCount:1][bits:variable]
-    const result = new Uint8Array(6 + this.bits.length)
-    result[0] = 1 // version
-    new DataView(result.buffer).setUint32(1, this.bitSize, true)
+    // Format: [version:1][bitSize:4][hashCount:1][salt:4][bits:variable]
+    const result = new Uint8Array(10 + this.bits.length)
+    const view = new DataView(result.buffer)
+    result[0] = 2 // version
+    view.setUint32(1, this.bitSize, true)
     result[5] = this.hashCount
-    result.set(this.bits, 6)
+    view.setUint32(6, this.salt, true)
+    result.set(this.bits, 10)
     return result
   }
   
   /**
    * Deserialize from wire format
+   * Version 1 (no salt) is still accepted from older peers
    */
   static deserialize(data: Uint8Array): BloomFilter {
     const version = data[0]
-    if (version !== 1) throw new Error(`Unsupported version: ${version}`)
+    if (version !== 1 && version !== 2) throw new Error(`Unsupported version: ${version}`)
     
-    const bitSize = new DataView(data.buffer).getUint32(1, true)
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+    const bitSize = view.getUint32(1, true)
     const hashCount = data[5]
-    const bits = data.slice(6)
+    const salt = version === 2 ? view.getUint32(6, true) : 0
+    const bits = data.slice(version === 2 ? 10 : 6)
     
-    const filter = new BloomFilter(0, 0) // Create empty shell
+    const filter = new BloomFilter(0, 0, salt) // Create empty shell
     filter.bitSize = bitSize
     filter.hashCount = hashCount
     filter.bits = new Uint8Array(bits)
@@ -118,8 +157,8 @@ export class BloomFilter {
    * Generate hash functions using double hashing
    */
   private getHashes(item: string): number[] {
-    const hash1 = this.simpleHash(item + ':1')
-    const hash2 = this.simpleHash(item + ':2')
+    const hash1 = this.applySalt(this.simpleHash(item + ':1'))
+    const hash2 = this.applySalt(this.simpleHash(item + ':2'))
     
     const hashes: number[] = []
     for (let i = 0; i < this.hashCount; i++) {
@@ -128,6 +167,24 @@ export class BloomFilter {
     return hashes
   }
   
+  /**
+   * Scramble a hash with the salt. simpleHash is close to linear, so a
+   * salt merely prepended to the input would shift every position alike
+   * and keep the same false positives; the murmur3 finalizer doesn't.
+   */
+  private applySalt(hash: number): number {
+    if (!this.salt) {
+      return hash
+    }
+    let h = (hash ^ this.salt) >>> 0
+    h ^= h >>> 16
+    h = Math.imul(h, 0x85ebca6b)
+    h ^= h >>> 13
+    h = Math.imul(h, 0xc2b2ae35)
+    h ^= h >>> 16
+    return h >>> 0
+  }
+  
   /**
    * Simple hash function for demo purposes
    * In production, would use crypto.subtle.digest
@@ -173,6 +230,15 @@ export class CumulativeBloomFilter {
     return this.currentFilter.test(eventId)
   }
   
+  /**
+   * Start over with an empty filter under a new salt; the caller re-adds
+   * every event it holds
+   */
+  rotateSalt(salt: number = BloomFilter.randomSalt()): void {
+    this.currentFilter = BloomFilter.createUDPOptimal(salt)
+    this.eventCount = 0
+  }
+  
   /**
    * Get the current filter for network transmission
    */
@@ -201,57 +267,154 @@ export class CumulativeBloomFilter {
   }
 }
 
+export interface PeerSyncEstimate {
+  peerId: string
+  syncPercentage: number
+  localEvents: number // Event IDs we hold, purged included
+  peerEvents: number // As announced in the peer's last filter
+  sharedEvents: number // Ours the peer's filter contains, false positives discounted
+  pendingEvents: number // Sent since, not yet acknowledged
+  deliveryRate: number | null // Share of recent sends that arrived; null before any
+  lastFilterAt: number
+}
+
+// Outcomes kept per peer for the delivery rate
+const DELIVERY_HISTORY = 100
+
 /**
  * Tracks accumulated knowledge about what each peer has
- * Builds increasingly accurate picture over multiple Bloom filter rounds
+ * Combines the peer's latest Bloom filter with what we've sent it since,
+ * so an event in flight isn't re-sent every round before the peer's
+ * next filter can acknowledge it.
  */
 export class PeerKnowledge {
-  private peerFilters: Map<string, CumulativeBloomFilter> = new Map()
+  private peerFilters: Map<string, BloomFilter> = new Map()
+  private sentEvents: Map<string, Map<string, number>> = new Map() // peer -> event_id -> sent at
+  private peerEventCounts: Map<string, number> = new Map()
+  private filterTimes: Map<string, number> = new Map()
+  private deliveries: Map<string, boolean[]> = new Map() // peer -> recent sends, true if acknowledged
+  
+  constructor(private resendAfter: number = 15000) {}
   
   /**
    * Update knowledge about a peer from received Bloom filter
    */
-  updatePeer(peerId: string, receivedFilter: BloomFilter): void {
-    if (!this.peerFilters.has(peerId)) {
-      this.peerFilters.set(peerId, new CumulativeBloomFilter())
+  updatePeer(peerId: string, receivedFilter: BloomFilter, eventCount?: number, now: number = Date.now()): void {
+    this.peerFilters.set(peerId, receivedFilter)
+    this.filterTimes.set(peerId, now)
+    if (eventCount !== undefined) {
+      this.peerEventCounts.set(peerId, eventCount)
     }
     
-    // For Phase 2, simulate accumulation by storing the received filter directly
-    // In production, we'd merge with existing knowledge using OR operations
-    const knowledge = this.peerFilters.get(peerId)!
-    
-    // Simulate knowledge accumulation by marking events from the filter
-    // This is a simplified approach for testing the concept
-    knowledge['currentFilter'] = receivedFilter
+    // Events the filter now contains have arrived; stop tracking them
+    const sent = this.sentEvents.get(peerId)
+    if (sent) {
+      for (const eventId of sent.keys()) {
+        if (receivedFilter.test(eventId)) {
+          sent.delete(eventId)
+          this.recordDelivery(peerId, true)
+        }
+      }
+    }
+  }
+  
+  /**
+   * Remember that events were just sent to a peer
+   */
+  markSent(peerId: string, eventIds: string[], now: number = Date.now()): void {
+    const sent = this.sentEvents.get(peerId) || new Map<string, number>()
+    for (const eventId of eventIds) {
+      sent.set(eventId, now)
+    }
+    this.sentEvents.set(peerId, sent)
   }
   
   /**
    * Check if we should send an event to a peer
-   * Returns true if peer likely doesn't have it, false if they probably do
+   * Returns true if peer likely doesn't have it and it isn't already in flight
    */
-  shouldSendEvent(peerId: string, eventId: string): boolean {
-    const peerKnowledge = this.peerFilters.get(peerId)
-    if (!peerKnowledge) {
-      return true // No knowledge = send everything
+  shouldSendEvent(peerId: string, eventId: string, now: number = Date.now()): boolean {
+    const peerFilter = this.peerFilters.get(peerId)
+    if (peerFilter && peerFilter.test(eventId)) {
+      return false
     }
     
-    // Check if the peer's filter indicates they have the event
-    const peerFilter = peerKnowledge['currentFilter'] as BloomFilter
-    if (!peerFilter) {
+    // Sent but not yet acknowledged: retry only once it has probably been lost
+    const sentAt = this.sentEvents.get(peerId)?.get(eventId)
+    if (sentAt === undefined) {
       return true
     }
-    
-    // Only send if peer's filter says they DON'T have it
-    return !peerFilter.test(eventId)
+    if (now - sentAt < this.resendAfter) {
+      return false
+    }
+    this.sentEvents.get(peerId)!.delete(eventId)
+    this.recordDelivery(peerId, false)
+    return true
+  }
+  
+  /**
+   * Events sent to a peer that its filter hasn't acknowledged yet
+   */
+  getPendingCount(peerId: string): number {
+    return this.sentEvents.get(peerId)?.size ?? 0
   }
   
   /**
    * Get estimated sync percentage for a peer
    */
-  getPeerSyncEstimate(peerId: string, totalEvents: number): number {
-    // This would estimate based on filter density
-    // Simplified for Phase 2
-    return 50 // Placeholder
+  getPeerSyncEstimate(peerId: string, localEventIds: string[]): PeerSyncEstimate | null {
+    const filter = this.peerFilters.get(peerId)
+    if (!filter) {
+      return null
+    }
+    
+    // Some of our IDs test positive by chance; discount the expected share
+    const localEvents = localEventIds.length
+    const positives = localEventIds.filter(eventId => filter.test(eventId)).length
+    const fpr = filter.estimateFalsePositiveRate()
+    const corrected = fpr < 1 ? (positives - localEvents * fpr) / (1 - fpr) : positives
+    const peerEvents = this.peerEventCounts.get(peerId) ?? positives
+    const sharedEvents = Math.max(0, Math.min(Math.round(corrected), localEvents, peerEvents))
+    
+    // Events sent since that filter count at the rate recent sends arrived
+    const pendingEvents = this.getPendingCount(peerId)
+    const deliveryRate = this.getDeliveryRate(peerId)
+    const inFlight = Math.min(pendingEvents * (deliveryRate ?? 0), localEvents - sharedEvents)
+    
+    // Both sides' events together; the peer's unshared ones are what we lack
+    const union = localEvents + peerEvents - sharedEvents
+    const syncPercentage = union === 0 ? 100 : Math.floor((sharedEvents + inFlight) / union * 100)
+    
+    return {
+      peerId,
+      syncPercentage: Math.max(0, Math.min(100, syncPercentage)),
+      localEvents,
+      peerEvents,
+      sharedEvents,
+      pendingEvents,
+      deliveryRate,
+      lastFilterAt: this.filterTimes.get(peerId)!
+    }
+  }
+  
+  /**
+   * Share of recent sends to a peer that its filters acknowledged
+   */
+  getDeliveryRate(peerId: string): number | null {
+    const history = this.deliveries.get(peerId)
+    if (!history || history.length === 0) {
+      return null
+    }
+    return history.filter(Boolean).length / history.length
+  }
+  
+  /**
+   * Peers whose latest filter claims an event, false positives and all
+   */
+  getPeersWithEvent(eventId: string): string[] {
+    return Array.from(this.peerFilters.entries())
+      .filter(([, filter]) => filter.test(eventId))
+      .map(([peerId]) => peerId)
   }
   
   /**
@@ -260,4 +423,13 @@ export class PeerKnowledge {
   getKnownPeers(): string[] {
     return Array.from(this.peerFilters.keys())
   }
+  
+  private recordDelivery(peerId: string, delivered: boolean): void {
+    const history = this.deliveries.get(peerId) || []
+    history.push(delivered)
+    if (history.length > DELIVERY_HISTORY) {
+      history.shift()
+    }
+    this.deliveries.set(peerId, history)
+  }
 }
\ No newline at end of file
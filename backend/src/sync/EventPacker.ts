@@ -0,0 +1,193 @@
+import { MAX_BLOBS } from '../network/WireFormat'
+
+export const DEFAULT_MTU = 1200
+
+// Leaves room for the transport header (`source:target:type:`) under a 1280 byte IPv6 MTU
+const MIN_MTU = 256
+
+// An event split further than this is not one we would ever have written
+const MAX_FRAGMENTS = 1024
+
+// Each event's ciphertext is one blob of a binary frame
+const MAX_BATCH_EVENTS = MAX_BLOBS
+
+export interface PackedEvent {
+  id: string
+  data: string // Ciphertext, base64
+}
+
+export interface EventBatch {
+  events: PackedEvent[]
+}
+
+export interface EventFragment {
+  id: string
+  index: number
+  count: number
+  data: string // This fragment's slice of the ciphertext, base64
+}
+
+export type EventPacket =
+  | { type: 'event_batch'; payload: EventBatch }
+  | { type: 'event_fragment'; payload: EventFragment }
+
+export interface UnpackedEvent {
+  eventId: string
+  encrypted: Uint8Array
+}
+
+const byteLength = (payload: unknown) => Buffer.byteLength(JSON.stringify(payload))
+
+/**
+ * EventPacker - fits events into datagrams of at most `mtu` payload bytes
+ *
+ * Ciphertext travels as base64 rather than a JSON number array, which cost
+ * three to four bytes per byte. Small events are batched greedily in the
+ * order given; one that cannot fit a datagram alone is split into
+ * fragments, each small enough to send by itself.
+ */
+export class EventPacker {
+  constructor(private mtu: number = DEFAULT_MTU) {
+    if (mtu < MIN_MTU) {
+      throw new Error(`MTU must be at least ${MIN_MTU} bytes`)
+    }
+  }
+
+  pack(events: Array<{ event_id: string; encrypted: Uint8Array }>): EventPacket[] {
+    const packets: EventPacket[] = []
+    let batch: PackedEvent[] = []
+    let batchBytes = byteLength({ events: [] })
+
+    const flush = () => {
+      if (batch.length > 0) {
+        packets.push({ type: 'event_batch', payload: { events: batch } })
+      }
+      batch = []
+      batchBytes = byteLength({ events: [] })
+    }
+
+    for (const event of events) {
+      const packed = { id: event.event_id, data: Buffer.from(event.encrypted).toString('base64') }
+      // Entries after the first cost a separating comma
+      const entryBytes = byteLength(packed) + (batch.length > 0 ? 1 : 0)
+
+      if (batchBytes + entryBytes <= this.mtu && batch.length < MAX_BATCH_EVENTS) {
+        batch.push(packed)
+        batchBytes += entryBytes
+      } else if (byteLength({ events: [packed] }) <= this.mtu) {
+        flush()
+        batch.push(packed)
+        batchBytes += byteLength(packed)
+      } else {
+        packets.push(...this.fragment(event.event_id, event.encrypted))
+      }
+    }
+    flush()
+    return packets
+  }
+
+  private fragment(eventId: string, encrypted: Uint8Array): EventPacket[] {
+    // Sized with the widest index and count, so every fragment fits
+    const overhead = byteLength({ id: eventId, index: MAX_FRAGMENTS, count: MAX_FRAGMENTS, data: '' })
+    // Whole base64 quanta, so each fragment decodes on its own
+    const chunkBytes = Math.floor((this.mtu - overhead) / 4) * 3
+    const count = Math.ceil(encrypted.length / chunkBytes)
+    if (count > MAX_FRAGMENTS) {
+      throw new Error(`Event ${eventId} needs ${count} fragments, more than ${MAX_FRAGMENTS}`)
+    }
+
+    const packets: EventPacket[] = []
+    for (let index = 0; index < count; index++) {
+      const chunk = encrypted.subarray(index * chunkBytes, (index + 1) * chunkBytes)
+      packets.push({
+        type: 'event_fragment',
+        payload: { id: eventId, index, count, data: Buffer.from(chunk).toString('base64') }
+      })
+    }
+    return packets
+  }
+}
+
+/**
+ * Read a received event_batch, skipping malformed entries
+ */
+export function unpackBatch(payload: any): UnpackedEvent[] {
+  if (!Array.isArray(payload?.events)) {
+    return []
+  }
+  return payload.events
+    .filter((entry: any) => typeof entry?.id === 'string' && typeof entry?.data === 'string')
+    .map((entry: PackedEvent) => ({ eventId: entry.id, encrypted: new Uint8Array(Buffer.from(entry.data, 'base64')) }))
+}
+
+interface PartialEvent {
+  chunks: Array<Buffer | undefined>
+  received: number
+  startedAt: number
+}
+
+/**
+ * FragmentAssembler - puts fragmented events back together
+ *
+ * Fragments may arrive in any order, duplicated or not at all. Partial
+ * events are kept per sender, dropped once `timeout` passes without
+ * completing, and capped so a flood of first fragments can't grow memory
+ * without bound; the sender's next sync round resends whatever was lost.
+ */
+export class FragmentAssembler {
+  private partial: Map<string, PartialEvent> = new Map()
+
+  constructor(private timeout: number = 30000, private maxPending: number = 64) {}
+
+  /**
+   * Add one fragment; returns the event once its last fragment is in
+   */
+  add(sourceDevice: string, fragment: any, now: number = Date.now()): UnpackedEvent | null {
+    const { id, index, count, data } = fragment ?? {}
+    if (typeof id !== 'string' || typeof data !== 'string' ||
+        !Number.isInteger(count) || count < 1 || count > MAX_FRAGMENTS ||
+        !Number.isInteger(index) || index < 0 || index >= count) {
+      return null
+    }
+
+    const key = `${sourceDevice}|${id}`
+    let partial = this.partial.get(key)
+    if (!partial || partial.chunks.length !== count) {
+      partial = { chunks: new Array(count).fill(undefined), received: 0, startedAt: now }
+      this.partial.set(key, partial)
+      this.evictOldest()
+    }
+
+    if (!partial.chunks[index]) {
+      partial.chunks[index] = Buffer.from(data, 'base64')
+      partial.received++
+    }
+    if (partial.received < count) {
+      return null
+    }
+
+    this.partial.delete(key)
+    return { eventId: id, encrypted: new Uint8Array(Buffer.concat(partial.chunks as Buffer[])) }
+  }
+
+  /**
+   * Drop partial events that stopped arriving
+   */
+  expire(now: number = Date.now()): void {
+    for (const [key, partial] of this.partial) {
+      if (now - partial.startedAt >= this.timeout) {
+        this.partial.delete(key)
+      }
+    }
+  }
+
+  getPendingCount(): number {
+    return this.partial.size
+  }
+
+  private evictOldest() {
+    while (this.partial.size > this.maxPending) {
+      this.partial.delete(this.partial.keys().next().value!)
+    }
+  }
+}
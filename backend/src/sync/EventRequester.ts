@@ -0,0 +1,127 @@
+export interface EventRequestConfig {
+  timeout: number // How long to wait for a response before asking again
+  maxAttempts: number // Requests per event, across all peers, before giving up
+}
+
+export const DEFAULT_EVENT_REQUEST: EventRequestConfig = {
+  timeout: 5000,
+  maxAttempts: 3
+}
+
+export interface EventRequestTarget {
+  eventId: string
+  peerId: string
+}
+
+interface PendingRequest {
+  candidates: string[] // Peers believed to hold the event, best first
+  nextCandidate: number
+  attempts: number
+  sentAt: number
+}
+
+/**
+ * EventRequester - bookkeeping for pulling events by ID
+ *
+ * One pending request per event ID, however many times it is asked for.
+ * Each attempt goes to the next peer that advertised the event, round-robin,
+ * so one peer that dropped or lost it doesn't stall the request. A peer
+ * answering that it lacks the event moves on at once instead of waiting
+ * out the timeout.
+ *
+ * It only decides who to ask and when; sending is the caller's.
+ */
+export class EventRequester {
+  private pending: Map<string, PendingRequest> = new Map()
+  private config: EventRequestConfig
+
+  constructor(config: Partial<EventRequestConfig> = {}) {
+    this.config = { ...DEFAULT_EVENT_REQUEST, ...config }
+  }
+
+  /**
+   * Ask for an event. Returns who to send the request to now, or null when
+   * it is already pending (new candidates are still remembered) or nobody
+   * is known to have it.
+   */
+  request(eventId: string, candidates: string[], now: number = Date.now()): EventRequestTarget | null {
+    const existing = this.pending.get(eventId)
+    if (existing) {
+      candidates.forEach(peerId => {
+        if (!existing.candidates.includes(peerId)) existing.candidates.push(peerId)
+      })
+      return null
+    }
+
+    const unique = Array.from(new Set(candidates))
+    if (unique.length === 0) {
+      return null
+    }
+
+    const request: PendingRequest = { candidates: unique, nextCandidate: 0, attempts: 0, sentAt: now }
+    this.pending.set(eventId, request)
+    return this.attempt(eventId, request, now)
+  }
+
+  /**
+   * The event arrived, from whatever path
+   */
+  resolve(eventId: string): boolean {
+    return this.pending.delete(eventId)
+  }
+
+  /**
+   * A peer answered without the event: try the next one, if any are left
+   */
+  peerLacks(eventId: string, peerId: string, now: number = Date.now()): EventRequestTarget | null {
+    const request = this.pending.get(eventId)
+    if (!request) {
+      return null
+    }
+
+    request.candidates = request.candidates.filter(candidate => candidate !== peerId)
+    if (request.candidates.length === 0) {
+      this.pending.delete(eventId)
+      return null
+    }
+    return this.attempt(eventId, request, now)
+  }
+
+  /**
+   * Requests whose response is overdue, each re-aimed at its next peer.
+   * Those out of attempts are dropped.
+   */
+  due(now: number = Date.now()): EventRequestTarget[] {
+    const targets: EventRequestTarget[] = []
+    for (const [eventId, request] of this.pending) {
+      if (now - request.sentAt < this.config.timeout) {
+        continue
+      }
+      const target = this.attempt(eventId, request, now)
+      if (target) targets.push(target)
+    }
+    return targets
+  }
+
+  isPending(eventId: string): boolean {
+    return this.pending.has(eventId)
+  }
+
+  getPendingCount(): number {
+    return this.pending.size
+  }
+
+  private attempt(eventId: string, request: PendingRequest, now: number): EventRequestTarget | null {
+    if (request.attempts >= this.config.maxAttempts) {
+      console.log(`[EventRequester] Giving up on ${eventId} after ${request.attempts} requests`)
+      this.pending.delete(eventId)
+      return null
+    }
+
+    const peerId = request.candidates[request.nextCandidate % request.candidates.length]
+    request.nextCandidate++
+    request.attempts++
+    request.sentAt = now
+    return { eventId, peerId }
+  }
+}
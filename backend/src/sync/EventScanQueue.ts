@@ -0,0 +1,109 @@
+import type { StoredEvent } from '../storage/EventStore'
+
+export interface ScanOptions {
+  recentEventsBatch: number // Recent events checked per round
+  olderEventsBatch: number // Older events checked per round
+  maxEventsPerRound: number // Events sent per round, to stay UDP-friendly
+}
+
+/**
+ * Prioritized event scanning for UDP-safe sync
+ * Focuses on recent events first, round-robin through older events.
+ *
+ * Each peer has its own cursor into both tiers, and a cursor only advances
+ * past events it actually checked, so every missing event is reached within
+ * a bounded number of rounds no matter how large the store grows.
+ */
+export class EventScanQueue {
+  private recentEvents: StoredEvent[] = []
+  private olderEvents: StoredEvent[] = []
+  private cursors: Map<string, { recent: number, older: number }> = new Map()
+  private lastUpdateTime = 0
+
+  constructor(private recentWindow: number = 60000) {}
+
+  /**
+   * Update the scan queue with current store state
+   */
+  updateFromStore(events: StoredEvent[], now: number = Date.now()): void {
+    const newestFirst = [...events].sort((a, b) => b.created_at - a.created_at)
+    const cutoff = now - this.recentWindow
+    this.recentEvents = newestFirst.filter(e => e.created_at > cutoff)
+    this.olderEvents = newestFirst.filter(e => e.created_at <= cutoff)
+    this.lastUpdateTime = now
+  }
+
+  /**
+   * Pick events to send to a peer. shouldSend is asked per event, so the
+   * caller decides using the peer's filter and what is already in flight.
+   */
+  getEventsToSend(peerId: string, shouldSend: (eventId: string) => boolean, options: ScanOptions): StoredEvent[] {
+    const cursor = this.cursors.get(peerId) || { recent: 0, older: 0 }
+    const eventsToSend: StoredEvent[] = []
+
+    // 1. Recent events first (highest priority)
+    cursor.recent = this.scanTier(this.recentEvents, cursor.recent, options.recentEventsBatch, shouldSend, eventsToSend, options.maxEventsPerRound)
+
+    // 2. Then round-robin through older events with whatever room is left
+    cursor.older = this.scanTier(this.olderEvents, cursor.older, options.olderEventsBatch, shouldSend, eventsToSend, options.maxEventsPerRound)
+
+    this.cursors.set(peerId, cursor)
+    return eventsToSend
+  }
+
+  /**
+   * Get statistics about the scan queue
+   */
+  getStats(): {
+    totalEvents: number
+    recentEvents: number
+    peerCursors: Record<string, { recent: number, older: number }>
+    lastUpdateTime: number
+  } {
+    return {
+      totalEvents: this.recentEvents.length + this.olderEvents.length,
+      recentEvents: this.recentEvents.length,
+      peerCursors: Object.fromEntries(this.cursors),
+      lastUpdateTime: this.lastUpdateTime
+    }
+  }
+
+  /**
+   * Forget a peer's scan position, e.g. when it resets its store
+   */
+  resetPeer(peerId: string): void {
+    this.cursors.delete(peerId)
+  }
+
+  reset(): void {
+    this.recentEvents = []
+    this.olderEvents = []
+    this.cursors.clear()
+    this.lastUpdateTime = 0
+  }
+
+  // Check up to batch events starting at start (wrapping); returns the next start
+  private scanTier(
+    events: StoredEvent[],
+    start: number,
+    batch: number,
+    shouldSend: (eventId: string) => boolean,
+    eventsToSend: StoredEvent[],
+    maxEvents: number
+  ): number {
+    if (events.length === 0) {
+      return 0
+    }
+
+    let position = start % events.length
+    const limit = Math.min(batch, events.length)
+    for (let checked = 0; checked < limit && eventsToSend.length < maxEvents; checked++) {
+      const event = events[position]
+      if (shouldSend(event.event_id)) {
+        eventsToSend.push(event)
+      }
+      position = (position + 1) % events.length
+    }
+    return position
+  }
+}
@@ -1,5 +1,5 @@
 import { BloomFilter, CumulativeBloomFilter } from './BloomFilter'
-import { InMemoryStore } from '../storage/InMemoryStore'
+import type { EventStore } from '../storage/EventStore'
 import { MessageGenerator } from '../crypto/MessageGenerator'
 import fetch from 'node-fetch'
 
@@ -15,7 +15,7 @@ interface SyncConfig {
  */
 export class HttpSyncManager {
   private bloomFilter: CumulativeBloomFilter
-  private store: InMemoryStore
+  private store: EventStore
   private messageGenerator: MessageGenerator
   private config: SyncConfig
   private syncTimer?: NodeJS.Timer
@@ -23,7 +23,7 @@ export class HttpSyncManager {
   
   constructor(
     config: SyncConfig,
-    store: InMemoryStore,
+    store: EventStore,
     messageGenerator: MessageGenerator
   ) {
     this.config = config
@@ -73,6 +73,10 @@ export class HttpSyncManager {
     for (const event of events) {
       this.bloomFilter.add(event.event_id)
     }
+    // Purged events still count as held so peers don't send them back
+    for (const eventId of await this.store.getPurgedEventIds()) {
+      this.bloomFilter.add(eventId)
+    }
   }
   
   private async performSync() {
@@ -0,0 +1,216 @@
+/**
+ * Invertible Bloom lookup table over 64-bit event IDs
+ *
+ * Unlike a Bloom filter, subtracting a peer's table from ours cancels every
+ * event both sides hold, and what remains can be listed: the table decodes
+ * the exact symmetric difference as long as it has roughly 1.5 cells per
+ * differing event, however large the two sets are.
+ */
+export interface IBLTDifference {
+  ours: string[] // Only in the table subtracted from
+  theirs: string[] // Only in the table subtracted
+  complete: boolean // False when the table was too small to list everything
+}
+
+const CELL_BYTES = 16 // count, key hi, key lo, check: 4 bytes each
+const WIRE_VERSION = 1
+
+// murmur3 finalizer: cheap, and every input bit affects every output bit
+function mix32(h: number): number {
+  h ^= h >>> 16
+  h = Math.imul(h, 0x85ebca6b)
+  h ^= h >>> 13
+  h = Math.imul(h, 0xc2b2ae35)
+  h ^= h >>> 16
+  return h >>> 0
+}
+
+function keyHash(hi: number, lo: number, seed: number): number {
+  return mix32(mix32((hi + Math.imul(seed, 0x9e3779b9)) >>> 0) ^ lo)
+}
+
+export class IBLT {
+  static readonly HASH_COUNT = 3
+  readonly cellCount: number
+  private counts: Int32Array
+  private keysHi: Uint32Array
+  private keysLo: Uint32Array
+  private checks: Uint32Array
+
+  constructor(cellCount: number) {
+    // One equal partition per hash, so an ID never lands in a cell twice
+    this.cellCount = Math.max(1, Math.ceil(cellCount / IBLT.HASH_COUNT)) * IBLT.HASH_COUNT
+    this.counts = new Int32Array(this.cellCount)
+    this.keysHi = new Uint32Array(this.cellCount)
+    this.keysLo = new Uint32Array(this.cellCount)
+    this.checks = new Uint32Array(this.cellCount)
+  }
+
+  /**
+   * Cells to decode a difference of this many events with high probability
+   */
+  static cellsFor(differences: number): number {
+    return Math.max(IBLT.HASH_COUNT * 8, Math.ceil(differences * 1.5) + IBLT.HASH_COUNT)
+  }
+
+  static fromEventIds(eventIds: Iterable<string>, cellCount: number): IBLT {
+    const table = new IBLT(cellCount)
+    for (const eventId of eventIds) {
+      table.insert(eventId)
+    }
+    return table
+  }
+
+  insert(eventId: string): void {
+    const [hi, lo] = IBLT.parseKey(eventId)
+    this.update(hi, lo, 1)
+  }
+
+  delete(eventId: string): void {
+    const [hi, lo] = IBLT.parseKey(eventId)
+    this.update(hi, lo, -1)
+  }
+
+  /**
+   * This table minus another of the same size; shared events cancel out
+   */
+  subtract(other: IBLT): IBLT {
+    if (other.cellCount !== this.cellCount) {
+      throw new Error(`Cannot subtract IBLTs of different sizes: ${this.cellCount} vs ${other.cellCount}`)
+    }
+
+    const result = new IBLT(this.cellCount)
+    for (let i = 0; i < this.cellCount; i++) {
+      result.counts[i] = this.counts[i] - other.counts[i]
+      result.keysHi[i] = this.keysHi[i] ^ other.keysHi[i]
+      result.keysLo[i] = this.keysLo[i] ^ other.keysLo[i]
+      result.checks[i] = this.checks[i] ^ other.checks[i]
+    }
+    return result
+  }
+
+  /**
+   * List the events in a difference table by repeatedly peeling cells that
+   * hold exactly one event. Leaves this table untouched.
+   */
+  decode(): IBLTDifference {
+    const work = this.subtract(new IBLT(this.cellCount)) // A copy to peel
+    const ours: string[] = []
+    const theirs: string[] = []
+
+    const queue: number[] = []
+    for (let i = 0; i < work.cellCount; i++) {
+      if (work.isPure(i)) queue.push(i)
+    }
+
+    while (queue.length > 0) {
+      const i = queue.pop()!
+      if (!work.isPure(i)) continue
+
+      const hi = work.keysHi[i]
+      const lo = work.keysLo[i]
+      const sign = work.counts[i]
+      if (sign > 0) {
+        ours.push(IBLT.formatKey(hi, lo))
+      } else {
+        theirs.push(IBLT.formatKey(hi, lo))
+      }
+
+      // Removing the event may leave its other cells with a single event
+      for (const cell of work.cellsOf(hi, lo)) {
+        work.counts[cell] -= sign
+        work.keysHi[cell] ^= hi
+        work.keysLo[cell] ^= lo
+        work.checks[cell] ^= keyHash(hi, lo, 0)
+        if (work.isPure(cell)) queue.push(cell)
+      }
+    }
+
+    const complete = work.counts.every(c => c === 0) &&
+      work.keysHi.every(k => k === 0) &&
+      work.keysLo.every(k => k === 0)
+    return { ours, theirs, complete }
+  }
+
+  sizeInBytes(): number {
+    return 5 + this.cellCount * CELL_BYTES
+  }
+
+  /**
+   * Format: [version:1][cellCount:4][cells: count, keyHi, keyLo, check]
+   */
+  serialize(): Uint8Array {
+    const result = new Uint8Array(this.sizeInBytes())
+    const view = new DataView(result.buffer)
+    result[0] = WIRE_VERSION
+    view.setUint32(1, this.cellCount, true)
+    for (let i = 0; i < this.cellCount; i++) {
+      const offset = 5 + i * CELL_BYTES
+      view.setInt32(offset, this.counts[i], true)
+      view.setUint32(offset + 4, this.keysHi[i], true)
+      view.setUint32(offset + 8, this.keysLo[i], true)
+      view.setUint32(offset + 12, this.checks[i], true)
+    }
+    return result
+  }
+
+  static deserialize(data: Uint8Array, maxCells: number = Infinity): IBLT {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+    if (data.length < 5 || data[0] !== WIRE_VERSION) {
+      throw new Error(`Unsupported IBLT version: ${data[0]}`)
+    }
+    const cellCount = view.getUint32(1, true)
+    if (cellCount === 0 || cellCount % IBLT.HASH_COUNT !== 0 || cellCount > maxCells ||
+        data.length !== 5 + cellCount * CELL_BYTES) {
+      throw new Error(`Malformed IBLT of ${cellCount} cells in ${data.length} bytes`)
+    }
+
+    const table = new IBLT(cellCount)
+    for (let i = 0; i < cellCount; i++) {
+      const offset = 5 + i * CELL_BYTES
+      table.counts[i] = view.getInt32(offset, true)
+      table.keysHi[i] = view.getUint32(offset + 4, true)
+      table.keysLo[i] = view.getUint32(offset + 8, true)
+      table.checks[i] = view.getUint32(offset + 12, true)
+    }
+    return table
+  }
+
+  private update(hi: number, lo: number, delta: number): void {
+    const check = keyHash(hi, lo, 0)
+    for (const cell of this.cellsOf(hi, lo)) {
+      this.counts[cell] += delta
+      this.keysHi[cell] ^= hi
+      this.keysLo[cell] ^= lo
+      this.checks[cell] ^= check
+    }
+  }
+
+  private cellsOf(hi: number, lo: number): number[] {
+    const partition = this.cellCount / IBLT.HASH_COUNT
+    const cells: number[] = []
+    for (let j = 0; j < IBLT.HASH_COUNT; j++) {
+      cells.push(j * partition + keyHash(hi, lo, j + 1) % partition)
+    }
+    return cells
+  }
+
+  // Exactly one event, from either side; the check rules out collisions
+  private isPure(cell: number): boolean {
+    const count = this.counts[cell]
+    return (count === 1 || count === -1) &&
+      this.checks[cell] === keyHash(this.keysHi[cell], this.keysLo[cell], 0)
+  }
+
+  // Event IDs are the first 8 bytes of a SHA-256, as 16 hex characters
+  private static parseKey(eventId: string): [number, number] {
+    if (!/^[0-9a-f]{16}$/.test(eventId)) {
+      throw new Error(`IBLT keys must be 16 hex characters: ${eventId}`)
+    }
+    return [parseInt(eventId.slice(0, 8), 16), parseInt(eventId.slice(8), 16)]
+  }
+
+  private static formatKey(hi: number, lo: number): string {
+    return hi.toString(16).padStart(8, '0') + lo.toString(16).padStart(8, '0')
+  }
+}
@@ -0,0 +1,110 @@
+import { SyncManager } from './SyncManager'
+import { IBLT } from './IBLT'
+
+// Decodes ~40 differing events, 1KB on the wire; enough for steady state
+const DEFAULT_CELLS = 63
+// 32KB, the most we put in one datagram
+const MAX_CELLS = 2046
+// Exact differences, so more per round than Bloom scanning can afford
+const MAX_EVENTS_PER_ROUND = 50
+
+interface SketchPacket {
+  kind: 'sketch'
+  cells: string // Base64 of IBLT.serialize()
+}
+
+interface DifferencePacket {
+  kind: 'difference'
+  want: string[] // IDs the responder lacks, for the sketch's sender to send
+  senderOnly: number // Events only the sketch's sender holds
+  responderOnly: number // Events only the responder holds
+  complete: boolean // False: send a bigger sketch
+  cellCount: number
+}
+
+/**
+ * IBLTSyncManager - sync by exact set reconciliation instead of Bloom filters
+ *
+ * Each round we broadcast an IBLT of the event IDs we hold. A peer subtracts
+ * its own table of the same size and decodes the symmetric difference: it
+ * sends what only it has and replies with the IDs only we have, which we
+ * then send. That is one and a half round trips when the sketch is big
+ * enough; when it isn't, the reply asks for one four times the size.
+ *
+ * Sketches go out unsigned; every event they bring in is still verified.
+ */
+export class IBLTSyncManager extends SyncManager {
+  static readonly description = 'Exchange invertible Bloom lookup tables and decode the exact difference'
+  readonly name = 'iblt'
+
+  protected async performSync() {
+    if (!this.isRunning || !this.online) return
+
+    const sketch = await this.buildSketch(DEFAULT_CELLS)
+    console.log(`[IBLTSyncManager] ${this.config.deviceId} broadcasting ${DEFAULT_CELLS}-cell sketch`)
+    this.broadcast('reconcile', sketch)
+    if (this.hasBloomPeers()) await super.performSync()
+  }
+
+  protected async handleReconcile(packet: any, sourceDevice: string): Promise<void> {
+    try {
+      if (packet?.kind === 'sketch' && typeof packet.cells === 'string') {
+        await this.handleSketch(packet, sourceDevice)
+      } else if (packet?.kind === 'difference' && Array.isArray(packet.want)) {
+        await this.handleDifference(packet, sourceDevice)
+      }
+    } catch (error) {
+      console.error(`[IBLTSyncManager] ${this.config.deviceId} error handling reconcile packet:`, error)
+    }
+  }
+
+  private async buildSketch(cellCount: number): Promise<SketchPacket> {
+    const table = IBLT.fromEventIds(await this.getHeldEventIds(), cellCount)
+    return { kind: 'sketch', cells: Buffer.from(table.serialize()).toString('base64') }
+  }
+
+  private async handleSketch(packet: SketchPacket, sourceDevice: string) {
+    const theirs = IBLT.deserialize(new Uint8Array(Buffer.from(packet.cells, 'base64')), MAX_CELLS)
+    const eventIds = await this.getHeldEventIds()
+    const difference = IBLT.fromEventIds(eventIds, theirs.cellCount).subtract(theirs).decode()
+
+    // Even a partial decode lists real differences, so act on what we got
+    const ourEvents = await this.findEvents(difference.ours.slice(0, MAX_EVENTS_PER_ROUND))
+    if (ourEvents.length > 0) {
+      console.log(`[IBLTSyncManager] ${this.config.deviceId}: Sending ${ourEvents.length} events peer ${sourceDevice} is missing`)
+      await this.sendEvents(sourceDevice, ourEvents)
+    }
+
+    if (difference.complete) {
+      this.recordDifference(sourceDevice, eventIds.length, difference.ours.length, difference.theirs.length)
+    }
+
+    const reply: DifferencePacket = {
+      kind: 'difference',
+      want: difference.theirs.slice(0, MAX_EVENTS_PER_ROUND),
+      senderOnly: difference.theirs.length,
+      responderOnly: difference.ours.length,
+      complete: difference.complete,
+      cellCount: theirs.cellCount
+    }
+    this.send(sourceDevice, 'reconcile', reply)
+  }
+
+  private async handleDifference(packet: DifferencePacket, sourceDevice: string) {
+    const wanted = await this.findEvents(packet.want.filter((id): id is string => typeof id === 'string').slice(0, MAX_EVENTS_PER_ROUND))
+    if (wanted.length > 0) {
+      console.log(`[IBLTSyncManager] ${this.config.deviceId}: Sending ${wanted.length} events peer ${sourceDevice} asked for`)
+      await this.sendEvents(sourceDevice, wanted)
+    }
+
+    if (packet.complete) {
+      const localEvents = (await this.getHeldEventIds()).length
+      this.recordDifference(sourceDevice, localEvents, packet.senderOnly, packet.responderOnly)
+    } else if (packet.cellCount < MAX_CELLS) {
+      // Too many differences for that size: retry this peer alone, bigger
+      const cellCount = Math.min(Math.max(packet.cellCount, DEFAULT_CELLS) * 4, MAX_CELLS)
+      console.log(`[IBLTSyncManager] ${this.config.deviceId} resending ${cellCount}-cell sketch to ${sourceDevice}`)
+      this.send(sourceDevice, 'reconcile', await this.buildSketch(cellCount))
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import { createHash } from 'crypto'
+
+/**
+ * A position in the (created_at, event_id) order. An empty ID means "before
+ * every event at that timestamp", so most bounds need no ID at all.
+ */
+export type Bound = [number, string]
+
+/**
+ * One range of a reconciliation message, from the previous range's upper
+ * bound (or the very start) up to but excluding `upper`. It carries either
+ * a fingerprint of the sender's events there, their full ID list, the IDs
+ * from the peer's list the sender lacks, or nothing: the range is settled.
+ */
+export interface RangeEntry {
+  upper: Bound
+  fingerprint?: string
+  ids?: string[]
+  want?: string[]
+}
+
+export interface RangeItem {
+  createdAt: number
+  eventId: string
+}
+
+export interface ReconcileStep {
+  ranges: RangeEntry[] // Reply to send; empty once everything matched
+  have: string[] // Ours the peer lacks or asked for: send them
+  need: string[] // The peer's we lack: the reply asks for them
+}
+
+export interface RangeReconcilerOptions {
+  buckets?: number // Ranges a mismatched range is split into
+  idListThreshold?: number // At or below this many events, list IDs instead
+  maxMessageBytes?: number // Ranges past this are folded into one fingerprint
+}
+
+export const END: Bound = [Number.MAX_SAFE_INTEGER, '']
+
+const isSettled = (range: RangeEntry) => range.fingerprint === undefined && !range.ids && !range.want
+
+const compare = (item: RangeItem, bound: Bound): number =>
+  item.createdAt - bound[0] || (item.eventId < bound[1] ? -1 : item.eventId > bound[1] ? 1 : 0)
+
+/**
+ * RangeReconciler - Negentropy-style range-based set reconciliation
+ *
+ * Both sides sort their events by (created_at, event_id) and compare
+ * fingerprints of matching ranges. Equal ranges are settled; unequal ones
+ * are split into buckets and compared again, until ranges are small enough
+ * to swap ID lists outright. Weeks of missed history costs a few round
+ * trips of small messages rather than many rounds of Bloom filters.
+ *
+ * It is stateless between messages: each reply is computed from the
+ * incoming message and the current event set alone. Purged events have no
+ * place in the order; passing their IDs as `held` keeps us from asking for
+ * them back, though ranges holding them never match by fingerprint.
+ */
+export class RangeReconciler {
+  private items: RangeItem[]
+  private held: Set<string>
+  private options: Required<RangeReconcilerOptions>
+
+  constructor(items: RangeItem[], options: RangeReconcilerOptions = {}, held: Iterable<string> = []) {
+    this.items = [...items].sort((a, b) => compare(a, [b.createdAt, b.eventId]))
+    this.held = new Set(held)
+    this.options = {
+      buckets: 8,
+      idListThreshold: 16,
+      maxMessageBytes: 1200,
+      ...options
+    }
+  }
+
+  /**
+   * Opening message covering the whole history
+   */
+  initiate(): RangeEntry[] {
+    return this.fitMessage(this.split(0, this.items.length, END))
+  }
+
+  /**
+   * Answer a peer's message: settle matching ranges, split mismatched
+   * ones, and diff any ID lists outright
+   */
+  reconcile(ranges: RangeEntry[]): ReconcileStep {
+    const output: RangeEntry[] = []
+    const have: string[] = []
+    const need: string[] = []
+
+    let start = 0
+    for (const range of ranges) {
+      const end = this.indexOf(range.upper, start)
+      if (range.ids) {
+        // Their full list for the range: the difference is exact either way
+        const theirs = new Set(range.ids)
+        const ours = this.items.slice(start, end).map(item => item.eventId)
+        const ourSet = new Set(ours)
+        const needed = range.ids.filter(id => !ourSet.has(id) && !this.held.has(id))
+        have.push(...ours.filter(id => !theirs.has(id)))
+        need.push(...needed)
+        output.push(needed.length > 0 ? { upper: range.upper, want: needed } : { upper: range.upper })
+      } else if (range.want) {
+        const ours = new Set(this.items.slice(start, end).map(item => item.eventId))
+        have.push(...range.want.filter(id => ours.has(id)))
+        output.push({ upper: range.upper })
+      } else if (range.fingerprint !== undefined && range.fingerprint !== this.fingerprint(start, end)) {
+        output.push(...this.split(start, end, range.upper))
+      } else {
+        output.push({ upper: range.upper })
+      }
+      start = end
+    }
+
+    const pending = output.some(range => !isSettled(range))
+    return { ranges: pending ? this.fitMessage(this.mergeSettled(output)) : [], have, need }
+  }
+
+  /**
+   * Fingerprint of the events in [start, end): a hash of their IDs summed
+   * as 64-bit numbers, plus the count, so order and grouping don't matter
+   */
+  private fingerprint(start: number, end: number): string {
+    let sum = 0n
+    for (let i = start; i < end; i++) {
+      sum = (sum + BigInt('0x' + this.items[i].eventId)) & 0xffffffffffffffffn
+    }
+    return createHash('sha256')
+      .update(`${sum.toString(16)}:${end - start}`)
+      .digest('hex')
+      .slice(0, 16)
+  }
+
+  private split(start: number, end: number, upper: Bound): RangeEntry[] {
+    const count = end - start
+    if (count <= this.options.idListThreshold) {
+      return [{ upper, ids: this.items.slice(start, end).map(item => item.eventId) }]
+    }
+
+    const entries: RangeEntry[] = []
+    const per = Math.ceil(count / this.options.buckets)
+    for (let bucketStart = start; bucketStart < end; bucketStart += per) {
+      const bucketEnd = Math.min(bucketStart + per, end)
+      const bucketUpper = bucketEnd === end ? upper : this.boundBetween(bucketEnd)
+      entries.push({ upper: bucketUpper, fingerprint: this.fingerprint(bucketStart, bucketEnd) })
+    }
+    return entries
+  }
+
+  // Shortest bound that separates items[index - 1] from items[index]
+  private boundBetween(index: number): Bound {
+    const next = this.items[index]
+    const previous = this.items[index - 1]
+    return previous.createdAt === next.createdAt ? [next.createdAt, next.eventId] : [next.createdAt, '']
+  }
+
+  // First item at or after the bound, searching from `from`
+  private indexOf(bound: Bound, from: number): number {
+    let low = from
+    let high = this.items.length
+    while (low < high) {
+      const mid = (low + high) >>> 1
+      if (compare(this.items[mid], bound) < 0) low = mid + 1
+      else high = mid
+    }
+    return low
+  }
+
+  private mergeSettled(entries: RangeEntry[]): RangeEntry[] {
+    const merged: RangeEntry[] = []
+    for (const entry of entries) {
+      const last = merged[merged.length - 1]
+      if (last && isSettled(entry) && isSettled(last)) {
+        last.upper = entry.upper
+      } else {
+        merged.push({ ...entry })
+      }
+    }
+    return merged
+  }
+
+  /**
+   * Keep a message datagram-sized: once the next range would overflow,
+   * everything from there on becomes one fingerprint for the next round
+   */
+  private fitMessage(entries: RangeEntry[]): RangeEntry[] {
+    const fitted: RangeEntry[] = []
+    let size = 2
+    let start = 0
+    for (const [index, entry] of entries.entries()) {
+      const entrySize = JSON.stringify(entry).length + 1
+      const last = index === entries.length - 1
+      // Leave room for the folded range unless this is the last one
+      if (size + entrySize > this.options.maxMessageBytes - (last ? 0 : 80)) {
+        const upper = entries[entries.length - 1].upper
+        fitted.push({ upper, fingerprint: this.fingerprint(start, this.indexOf(upper, start)) })
+        return fitted
+      }
+      fitted.push(entry)
+      size += entrySize
+      start = this.indexOf(entry.upper, start)
+    }
+    return fitted
+  }
+}
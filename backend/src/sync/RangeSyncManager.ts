@@ -0,0 +1,113 @@
+import { SyncManager } from './SyncManager'
+import { RangeReconciler } from './RangeReconciler'
+import type { RangeEntry } from './RangeReconciler'
+
+// Replies bounce straight back, so cap a session that keeps finding work
+const MAX_ROUNDS = 32
+// One ID list can reveal a whole offline stretch; the rest waits for next session
+const MAX_EVENTS_PER_MESSAGE = 500
+// Sessions whose packets were lost are forgotten after this long
+const SESSION_TIMEOUT = 60000
+
+interface RangesPacket {
+  kind: 'ranges'
+  session: string // Initiator's device and start time
+  round: number
+  ranges: RangeEntry[]
+}
+
+interface RangeSession {
+  sent: Set<string>
+  needed: Set<string>
+  startedAt: number
+}
+
+/**
+ * RangeSyncManager - sync by range-based reconciliation instead of Bloom filters
+ *
+ * Each round we broadcast fingerprints of our history split into ranges of
+ * (created_at, event_id). Every peer answers; the two sides narrow down the
+ * ranges that differ until they can swap ID lists, sending each other the
+ * events they find missing as they go. A session ends when a reply would
+ * hold nothing left to compare.
+ *
+ * Range messages go out unsigned; every event they bring in is still verified.
+ */
+export class RangeSyncManager extends SyncManager {
+  static readonly description = 'Compare fingerprints of time-ordered ranges, splitting the ones that differ'
+  readonly name = 'range'
+  private sessions: Map<string, RangeSession> = new Map()
+
+  protected async performSync() {
+    if (!this.isRunning || !this.online) return
+
+    const now = Date.now()
+    for (const [key, session] of this.sessions) {
+      if (now - session.startedAt > SESSION_TIMEOUT) this.sessions.delete(key)
+    }
+
+    const ranges = (await this.buildReconciler()).initiate()
+    const packet: RangesPacket = { kind: 'ranges', session: `${this.config.deviceId}:${now}`, round: 0, ranges }
+    console.log(`[RangeSyncManager] ${this.config.deviceId} broadcasting ${ranges.length} ranges`)
+    this.broadcast('reconcile', packet)
+    if (this.hasBloomPeers()) await super.performSync()
+  }
+
+  protected async handleReconcile(packet: any, sourceDevice: string): Promise<void> {
+    if (packet?.kind !== 'ranges' || typeof packet.session !== 'string' ||
+        typeof packet.round !== 'number' || !Array.isArray(packet.ranges) || !packet.ranges.every(isRangeEntry)) {
+      return
+    }
+
+    try {
+      await this.handleRanges(packet, sourceDevice)
+    } catch (error) {
+      console.error(`[RangeSyncManager] ${this.config.deviceId} error handling reconcile packet:`, error)
+    }
+  }
+
+  private async handleRanges(packet: RangesPacket, sourceDevice: string) {
+    const step = (await this.buildReconciler()).reconcile(packet.ranges)
+
+    const key = `${sourceDevice}|${packet.session}`
+    const session = this.sessions.get(key) ?? { sent: new Set(), needed: new Set(), startedAt: Date.now() }
+    this.sessions.set(key, session)
+
+    const toSend = step.have.filter(id => !session.sent.has(id)).slice(0, MAX_EVENTS_PER_MESSAGE)
+    const events = await this.findEvents(toSend)
+    if (events.length > 0) {
+      console.log(`[RangeSyncManager] ${this.config.deviceId}: Sending ${events.length} events peer ${sourceDevice} is missing`)
+      await this.sendEvents(sourceDevice, events)
+    }
+    toSend.forEach(id => session.sent.add(id))
+    step.need.forEach(id => session.needed.add(id))
+
+    const localEvents = (await this.getHeldEventIds()).length
+    this.recordDifference(sourceDevice, localEvents, session.sent.size, session.needed.size)
+
+    if (step.ranges.length === 0 || packet.round + 1 >= MAX_ROUNDS) {
+      this.sessions.delete(key)
+      return
+    }
+
+    const reply: RangesPacket = { kind: 'ranges', session: packet.session, round: packet.round + 1, ranges: step.ranges }
+    this.send(sourceDevice, 'reconcile', reply)
+  }
+
+  private async buildReconciler(): Promise<RangeReconciler> {
+    const events = await this.store.getAllEventsSince(Number.MIN_SAFE_INTEGER)
+    const items = events.map(event => ({ createdAt: event.created_at, eventId: event.event_id }))
+    return new RangeReconciler(items, {}, await this.store.getPurgedEventIds())
+  }
+}
+
+function isRangeEntry(range: any): range is RangeEntry {
+  return Array.isArray(range?.upper) &&
+    typeof range.upper[0] === 'number' && typeof range.upper[1] === 'string' &&
+    (range.fingerprint === undefined || typeof range.fingerprint === 'string') &&
+    (range.ids === undefined || isStringArray(range.ids)) &&
+    (range.want === undefined || isStringArray(range.want))
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string')
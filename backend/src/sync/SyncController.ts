@@ -0,0 +1,120 @@
+import { SyncManager } from './SyncManager'
+import type { SyncConfig } from './SyncManager'
+import { IBLTSyncManager } from './IBLTSyncManager'
+import { RangeSyncManager } from './RangeSyncManager'
+import type { SyncStrategy, SyncStrategyConstructor, SyncStrategyRegistry, SyncStrategyStats } from './SyncStrategy.interface'
+import type { EventStore } from '../storage/EventStore'
+import type { NetworkSimulator } from '../network/NetworkSimulator'
+import type { MessageGenerator } from '../crypto/MessageGenerator'
+
+export const DEFAULT_SYNC_STRATEGY = 'bloom'
+
+/**
+ * SyncController runs one sync strategy at a time and swaps it at runtime.
+ * The store is shared, so a new strategy starts from every event the old
+ * one synced; only its own protocol state starts over.
+ */
+export class SyncController {
+  private static strategies: SyncStrategyRegistry = {
+    bloom: SyncManager,
+    iblt: IBLTSyncManager,
+    range: RangeSyncManager
+  }
+
+  private config: SyncConfig
+  private store: EventStore
+  private networkSimulator: NetworkSimulator
+  private messageGenerator: MessageGenerator
+  private current: SyncStrategy
+  private previous: SyncStrategyStats[] = []
+  private started = false
+  private switching: Promise<void> = Promise.resolve()
+
+  constructor(
+    config: SyncConfig,
+    store: EventStore,
+    networkSimulator: NetworkSimulator,
+    messageGenerator: MessageGenerator,
+    initialStrategy: string = DEFAULT_SYNC_STRATEGY
+  ) {
+    this.config = config
+    this.store = store
+    this.networkSimulator = networkSimulator
+    this.messageGenerator = messageGenerator
+    this.current = this.create(initialStrategy)
+  }
+
+  async start() {
+    this.started = true
+    await this.current.start()
+  }
+
+  async stop() {
+    this.started = false
+    await this.current.stop()
+  }
+
+  /**
+   * Replace the running strategy, keeping its online state. Throws for an
+   * unknown name, leaving the current strategy running. Switches run one
+   * at a time, so none is started only to be orphaned by another.
+   */
+  switchStrategy(strategyName: string): Promise<void> {
+    const switched = this.switching.then(() => this.replaceStrategy(strategyName))
+    this.switching = switched.catch(() => {})
+    return switched
+  }
+
+  private async replaceStrategy(strategyName: string): Promise<void> {
+    const next = this.create(strategyName)
+    const online = this.current.isOnline()
+
+    await this.current.shutdown()
+    this.previous.push(this.current.getStats())
+    this.current = next
+    this.current.setOnline(online)
+    console.log(`[SyncController] ${this.config.deviceId} switched to ${strategyName} sync`)
+
+    if (this.started) {
+      await this.current.start()
+    }
+  }
+
+  getStrategy(): SyncStrategy {
+    return this.current
+  }
+
+  getCurrentStrategyName(): string {
+    return this.current.name
+  }
+
+  /**
+   * Stats of the running strategy and of each one it replaced, oldest first
+   */
+  getStats(): { current: SyncStrategyStats; previous: SyncStrategyStats[] } {
+    return { current: this.current.getStats(), previous: [...this.previous] }
+  }
+
+  static getAvailableStrategies(): string[] {
+    return Object.keys(SyncController.strategies)
+  }
+
+  static getStrategyInfo(): Array<{ name: string; description: string }> {
+    return Object.entries(SyncController.strategies).map(([name, StrategyClass]) => ({
+      name,
+      description: StrategyClass.description
+    }))
+  }
+
+  static registerStrategy(name: string, StrategyClass: SyncStrategyConstructor): void {
+    SyncController.strategies[name] = StrategyClass
+  }
+
+  private create(strategyName: string): SyncStrategy {
+    const StrategyClass = SyncController.strategies[strategyName]
+    if (!StrategyClass) {
+      throw new Error(`Unknown sync strategy: ${strategyName}`)
+    }
+    return new StrategyClass(this.config, this.store, this.networkSimulator, this.messageGenerator)
+  }
+}
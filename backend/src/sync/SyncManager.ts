@@ -1,27 +1,117 @@
-import { BloomFilter, CumulativeBloomFilter } from './BloomFilter'
-import { InMemoryStore } from '../storage/InMemoryStore'
-import { NetworkSimulator, NetworkEvent } from '../network/NetworkSimulator'
+import { BloomFilter, CumulativeBloomFilter, PeerKnowledge } from './BloomFilter'
+import type { PeerSyncEstimate } from './BloomFilter'
+import { BloomBroadcastCache } from './BloomBroadcastCache'
+import type { BloomUpdateConfig } from './BloomBroadcastCache'
+import { EventScanQueue } from './EventScanQueue'
+import type { ScanOptions } from './EventScanQueue'
+import { EventRequester } from './EventRequester'
+import type { EventRequestConfig, EventRequestTarget } from './EventRequester'
+import { EventPacker, FragmentAssembler, unpackBatch } from './EventPacker'
+import type { EventPacket } from './EventPacker'
+import type { EventStore, StoredEvent } from '../storage/EventStore'
+import { NetworkSimulator, NetworkEvent, wireBytes } from '../network/NetworkSimulator'
+import type { ReliableChannel } from '../network/ReliableChannel'
 import { MessageGenerator } from '../crypto/MessageGenerator'
+import type { ReceiptEvent } from '../crypto/MessageGenerator'
+import type { SyncStrategy, SyncStrategyStats } from './SyncStrategy.interface'
 
-interface SyncConfig {
+export interface SyncConfig {
   deviceId: string
   syncInterval?: number
+  receiptDelay?: number // How long delivered receipts are collected before one is sent
+  bloomUpdate?: Partial<BloomUpdateConfig> // When our broadcast filter is rebuilt
+  eventRequest?: Partial<EventRequestConfig> // Timeout and retries when pulling events by ID
+  mtu?: number // Largest event datagram payload, in bytes
+  isPeerReachable?: (peerId: string) => boolean // False for peers the transport knows are dead
+  reliable?: ReliableChannel // Catch-up transfers that must arrive; without it all sync is gossip
+  bootstrapThreshold?: number // Events a peer must lack before it is caught up over `reliable`
+  bootstrapRetryDelay?: number // After a failed bootstrap, gossip only for this long
 }
 
-export class SyncManager {
+// Keeps a receipt event well under a datagram even with every ID listed
+const MAX_RECEIPT_BATCH = 64
+
+// Events answered per event_request; the rest are asked for again later
+const MAX_EVENTS_PER_RESPONSE = 16
+
+// Who sent us each recent event, so we know whom to ask for what it references
+const MAX_EVENT_SOURCES = 1000
+
+// What each recent event is, so the bytes spent sending it can be told apart by it
+const MAX_EVENT_TYPES = 10000
+
+// Missing events that make a Bloom-slice catch-up too slow
+const DEFAULT_BOOTSTRAP_THRESHOLD = 50
+
+// Events handed to the reliable channel at once; the next window waits for
+// these to be acknowledged, so a long history never overruns its queue
+const BOOTSTRAP_WINDOW = 200
+
+const DEFAULT_BOOTSTRAP_RETRY_DELAY = 60000
+
+// A peer's difference as counted by set reconciliation rather than estimated
+interface ReconciledPeer {
+  localEvents: number
+  peerEvents: number
+  sharedEvents: number
+  reconciledAt: number
+}
+
+// Per peer, per Bloom round: every recent event, a slice of older ones
+const SCAN_OPTIONS: ScanOptions = {
+  recentEventsBatch: 50,
+  olderEventsBatch: 20,
+  maxEventsPerRound: 10
+}
+
+/**
+ * SyncManager - the default `bloom` sync strategy, and the base the
+ * reconciling strategies build on
+ */
+export class SyncManager implements SyncStrategy {
+  static readonly description: string = 'Broadcast a signed Bloom filter; peers send the events it lacks'
+  readonly name: string = 'bloom'
   private bloomFilter: CumulativeBloomFilter
-  private store: InMemoryStore
-  private networkSimulator: NetworkSimulator
-  private messageGenerator: MessageGenerator
-  private config: SyncConfig
+  private bloomCache: BloomBroadcastCache
+  private peerBloomVersions: Map<string, number> = new Map()
+  private peerKnowledge: PeerKnowledge
+  private scanQueue: EventScanQueue
+  private requester: EventRequester
+  private packer: EventPacker
+  private assembler: FragmentAssembler = new FragmentAssembler()
+  private eventSources: Map<string, string> = new Map()
+  private eventTypes: Map<string, string> = new Map()
+  private bootstrapping: Set<string> = new Set()
+  private bootstrapRetryAt: Map<string, number> = new Map() // Stopped acknowledging; gossip until then
+  protected store: EventStore
+  protected networkSimulator: NetworkSimulator
+  protected messageGenerator: MessageGenerator
+  protected config: SyncConfig
   private syncTimer?: NodeJS.Timer
-  private isRunning = false
+  protected isRunning = false
   private currentTime = 0
-  private online = true
+  protected online = true
+  private pendingReceipts: string[] = []
+  private reconciledPeers: Map<string, ReconciledPeer> = new Map()
+  private stats: Omit<SyncStrategyStats, 'strategy'> = {
+    startedAt: null,
+    stoppedAt: null,
+    rounds: 0,
+    packetsSent: 0,
+    bytesSent: 0,
+    eventsSent: 0,
+    eventsReceived: 0,
+    eventsRequested: 0,
+    bytesByType: {},
+    bytesByEventType: {}
+  }
+  private shutDown = false
+  private receiptTimer?: NodeJS.Timeout
+  private unsubscribers: Array<() => void> = []
   
   constructor(
     config: SyncConfig,
-    store: InMemoryStore,
+    store: EventStore,
     networkSimulator: NetworkSimulator,
     messageGenerator: MessageGenerator
   ) {
@@ -30,17 +120,28 @@ export class SyncManager {
     this.networkSimulator = networkSimulator
     this.messageGenerator = messageGenerator
     this.bloomFilter = new CumulativeBloomFilter()
+    this.bloomCache = new BloomBroadcastCache(config.deviceId, messageGenerator, config.bloomUpdate)
+    // Re-send unacknowledged events after a couple of Bloom rounds
+    this.peerKnowledge = new PeerKnowledge((config.syncInterval || 5000) * 3)
+    this.scanQueue = new EventScanQueue()
+    this.requester = new EventRequester(config.eventRequest)
+    this.packer = new EventPacker(config.mtu)
     
     // Register with network simulator
     this.networkSimulator.addDevice(config.deviceId)
     
-    // Listen for network events
-    this.networkSimulator.onNetworkEvent(this.handleNetworkEvent.bind(this))
+    // Listen for network events, and for what arrives over the reliable channel
+    this.unsubscribers.push(this.networkSimulator.onNetworkEvent(this.handleNetworkEvent.bind(this)))
+    if (config.reliable) {
+      this.unsubscribers.push(config.reliable.onMessage(this.handleNetworkEvent.bind(this)))
+    }
   }
   
   async start() {
-    console.log(`[SyncManager] Starting sync for ${this.config.deviceId}`)
+    console.log(`[SyncManager] Starting ${this.name} sync for ${this.config.deviceId}`)
     this.isRunning = true
+    this.stats.startedAt = Date.now()
+    this.stats.stoppedAt = null
     
     // Update bloom filter with current events
     await this.updateBloomFilter()
@@ -49,52 +150,137 @@ export class SyncManager {
     const interval = this.config.syncInterval || 5000
     this.syncTimer = setInterval(() => {
       if (this.isRunning) {
-        this.performSync()
+        this.runRound()
       }
     }, interval)
     
     // Do initial sync
-    await this.performSync()
+    await this.runRound()
   }
   
-  stop() {
+  async stop() {
+    // Receipts still batching go out now rather than being lost
+    await this.flushDeliveryReceipts()
     this.isRunning = false
     if (this.syncTimer) {
       clearInterval(this.syncTimer)
       this.syncTimer = undefined
     }
+    if (this.receiptTimer) {
+      clearTimeout(this.receiptTimer)
+      this.receiptTimer = undefined
+    }
+    if (this.stats.startedAt !== null && this.stats.stoppedAt === null) {
+      this.stats.stoppedAt = Date.now()
+    }
   }
   
+  async shutdown() {
+    this.shutDown = true
+    this.unsubscribers.forEach(unsubscribe => unsubscribe())
+    this.unsubscribers = []
+    await this.stop()
+  }
   
-  private async updateBloomFilter() {
-    const events = await this.store.getAllEvents()
-    for (const event of events) {
-      this.bloomFilter.add(event.event_id)
+  getStats(): SyncStrategyStats {
+    return {
+      strategy: this.name,
+      ...this.stats,
+      bytesByType: { ...this.stats.bytesByType },
+      bytesByEventType: { ...this.stats.bytesByEventType }
+    }
+  }
+  
+  
+  private async updateBloomFilter(): Promise<string[]> {
+    const eventIds = await this.getHeldEventIds()
+    // Each broadcast version gets a fresh salt, so an event that is a false
+    // positive in one version is almost certainly a true negative in the next
+    if (this.bloomCache.needsUpdate(eventIds.length)) {
+      this.bloomFilter.rotateSalt()
+    }
+    for (const eventId of eventIds) {
+      this.bloomFilter.add(eventId)
     }
+    return eventIds
   }
   
-  private async performSync() {
+  // Purged events still count as held so peers don't send them back
+  protected async getHeldEventIds(): Promise<string[]> {
+    const events = await this.store.getAllEvents()
+    return [...events.map(event => event.event_id), ...await this.store.getPurgedEventIds()]
+  }
+  
+  protected async performSync() {
     if (!this.isRunning || !this.online) return
     
     // Update bloom filter before syncing
-    await this.updateBloomFilter()
+    const eventIds = await this.updateBloomFilter()
     
-    // Send bloom filter to all peers
-    const bloomData = this.bloomFilter.getFilterForTransmission().serialize()
+    // Send the cached signed filter to all peers; it is only rebuilt when due
+    const cached = await this.bloomCache.getBlob(this.bloomFilter.getFilterForTransmission(), eventIds.length)
     const packet = {
       type: 'bloom_sync' as const,
       deviceId: this.config.deviceId,
-      bloom: Array.from(bloomData), // Convert to array for JSON
+      sealed: cached.blob.toString('base64'),
       timestamp: this.currentTime
     }
     
-    console.log(`[SyncManager] ${this.config.deviceId} broadcasting bloom filter`)
-    this.networkSimulator.broadcastEvent(this.config.deviceId, 'bloom_filter', packet)
+    console.log(`[SyncManager] ${this.config.deviceId} broadcasting bloom filter v${cached.version}`)
+    this.broadcast('bloom_filter', packet)
+  }
+  
+  private async runRound() {
+    if (this.isRunning && this.online) {
+      this.stats.rounds++
+      this.sendEventRequests(this.requester.due())
+      this.assembler.expire()
+    }
+    await this.performSync()
+  }
+  
+  /**
+   * Whether any peer still syncs by Bloom filter. Reconciling strategies
+   * broadcast a filter too once they hear one, so such peers can serve them.
+   */
+  protected hasBloomPeers(): boolean {
+    return this.peerKnowledge.getKnownPeers().length > 0
+  }
+  
+  /**
+   * Send to one peer, returning the bytes that went on the wire. Dead peers
+   * would only drop what we send; they are pinged until they answer.
+   */
+  protected send(targetDevice: string, type: NetworkEvent['type'], payload: any): number {
+    if (!this.isPeerReachable(targetDevice)) {
+      return 0
+    }
+    const sent = this.networkSimulator.sendEvent(this.config.deviceId, targetDevice, type, payload)
+    const bytes = wireBytes(sent, { source: this.config.deviceId, target: targetDevice, type, payload })
+    this.countPacket(type, bytes)
+    return bytes
+  }
+  
+  protected broadcast(type: NetworkEvent['type'], payload: any): number {
+    const sent = this.networkSimulator.broadcastEvent(this.config.deviceId, type, payload)
+    const bytes = wireBytes(sent, { source: this.config.deviceId, target: '*', type, payload })
+    this.countPacket(type, bytes)
+    return bytes
+  }
+  
+  protected isPeerReachable(peerId: string): boolean {
+    return this.config.isPeerReachable?.(peerId) ?? true
+  }
+  
+  private countPacket(type: NetworkEvent['type'], bytes: number) {
+    this.stats.packetsSent++
+    this.stats.bytesSent += bytes
+    this.stats.bytesByType[type] = (this.stats.bytesByType[type] || 0) + bytes
   }
   
   private async handleNetworkEvent(event: NetworkEvent) {
     // Only process delivered events when online
-    if (event.status !== 'delivered' || !this.online) {
+    if (event.status !== 'delivered' || !this.online || this.shutDown) {
       return
     }
     
@@ -103,96 +289,369 @@ export class SyncManager {
       return
     }
     
+    // Typing and presence are PresenceTracker's, segments the ReliableChannel's, files FileTransfer's
+    if (event.type === 'ephemeral' || event.type === 'reliable_data' || event.type === 'reliable_ack' ||
+        event.type === 'file_chunk' || event.type === 'file_request') {
+      return
+    }
+    
     console.log(`[SyncManager] ${this.config.deviceId} received ${event.type} from ${event.sourceDevice}`)
     
     if (event.type === 'bloom_filter') {
       await this.handleBloomSync(event.payload, event.sourceDevice)
+    } else if (event.type === 'reconcile') {
+      await this.handleReconcile(event.payload, event.sourceDevice)
+    } else if (event.type === 'event_batch') {
+      for (const { eventId, encrypted } of unpackBatch(event.payload)) {
+        await this.receiveEvent(eventId, encrypted, event.sourceDevice)
+      }
+    } else if (event.type === 'event_fragment') {
+      const assembled = this.assembler.add(event.sourceDevice, event.payload)
+      if (assembled) {
+        await this.receiveEvent(assembled.eventId, assembled.encrypted, event.sourceDevice)
+      }
     } else if (event.type === 'message') {
       await this.handleIncomingMessage(event.payload, event.sourceDevice)
+    } else if (event.type === 'event_request') {
+      await this.handleEventRequest(event.payload, event.sourceDevice)
+    } else if (event.type === 'event_response') {
+      await this.handleEventResponse(event.payload, event.sourceDevice)
     }
   }
   
   private async handleBloomSync(packet: any, sourceDevice: string) {
     try {
-      const peerBloom = BloomFilter.deserialize(new Uint8Array(packet.bloom))
-      const localEvents = await this.store.getAllEvents()
+      if (typeof packet?.sealed !== 'string') {
+        return
+      }
+      
+      // Decrypting proves the community, decryptEvent checks the signature
+      const announcement = await this.messageGenerator.openBloomFilter(Buffer.from(packet.sealed, 'base64'))
+      if (!announcement || announcement.author !== sourceDevice) {
+        console.error(`[SyncManager] ${this.config.deviceId} rejected bloom filter from ${sourceDevice}`)
+        return
+      }
       
-      // Find events peer doesn't have
-      const missingEvents = []
-      for (const event of localEvents) {
-        if (!peerBloom.test(event.event_id)) {
-          missingEvents.push(event)
+      // The same version is re-sent until the peer rebuilds; act on it once
+      if (announcement.version <= (this.peerBloomVersions.get(sourceDevice) ?? 0)) {
+        return
+      }
+      this.peerBloomVersions.set(sourceDevice, announcement.version)
+      
+      const peerBloom = BloomFilter.deserialize(new Uint8Array(Buffer.from(announcement.filter, 'base64')))
+      const eventCount = Number.isInteger(announcement.eventCount) && announcement.eventCount >= 0 ? announcement.eventCount : undefined
+      this.peerKnowledge.updatePeer(sourceDevice, peerBloom, eventCount)
+      const events = await this.store.getAllEvents()
+      this.scanQueue.updateFromStore(events)
+      
+      if (this.bootstrapping.has(sourceDevice)) {
+        return
+      }
+      if (this.config.reliable?.canSend(sourceDevice) && (this.bootstrapRetryAt.get(sourceDevice) ?? 0) <= Date.now()) {
+        const lacking = events.filter(event => !peerBloom.test(event.event_id))
+        if (lacking.length >= (this.config.bootstrapThreshold ?? DEFAULT_BOOTSTRAP_THRESHOLD)) {
+          void this.bootstrap(sourceDevice, lacking)
+          return
         }
       }
       
+      // Recent events first, then this peer's next slice of older ones
+      const now = Date.now()
+      const missingEvents = this.scanQueue.getEventsToSend(
+        sourceDevice,
+        eventId => this.peerKnowledge.shouldSendEvent(sourceDevice, eventId, now),
+        SCAN_OPTIONS
+      )
+      
       if (missingEvents.length > 0) {
-        console.log(`[SyncManager] ${this.config.deviceId}: Peer ${sourceDevice} missing ${missingEvents.length} events`)
-        
-        // Send missing events directly
-        for (const event of missingEvents.slice(0, 10)) { // Limit to 10 at a time
-          const messagePayload = {
-            event_id: event.event_id,
-            encrypted: Array.from(event.encrypted),
-            timestamp: this.currentTime
-          }
-          
-          this.networkSimulator.sendEvent(
-            this.config.deviceId,
-            sourceDevice,
-            'message',
-            messagePayload
-          )
-        }
+        console.log(`[SyncManager] ${this.config.deviceId}: Sending ${missingEvents.length} events peer ${sourceDevice} is missing`)
+        this.peerKnowledge.markSent(sourceDevice, missingEvents.map(event => event.event_id), now)
+        await this.sendEvents(sourceDevice, missingEvents)
       }
     } catch (error) {
       console.error(`[SyncManager] ${this.config.deviceId} error handling bloom sync:`, error)
     }
   }
   
+  /**
+   * Set-difference strategies exchange their sketches as `reconcile`
+   * packets; Bloom sync has no use for them
+   */
+  protected async handleReconcile(packet: any, sourceDevice: string): Promise<void> {}
+  
+  /**
+   * Send stored events directly to one peer, as many to a datagram as fit
+   */
+  protected async sendEvents(targetDevice: string, events: StoredEvent[]) {
+    const types = await this.getEventTypes(events)
+    for (const packet of this.packer.pack(events)) {
+      this.countEventBytes(packet, this.send(targetDevice, packet.type, packet.payload), types)
+    }
+    this.stats.eventsSent += events.length
+  }
+  
+  /**
+   * Charge a packet's bytes to the types of the events in it, each by its
+   * share of the ciphertext carried
+   */
+  private countEventBytes(packet: EventPacket, bytes: number, types: Map<string, string>) {
+    const shares = packet.type === 'event_batch'
+      ? packet.payload.events.map(event => ({ id: event.id, size: event.data.length }))
+      : [{ id: packet.payload.id, size: 1 }]
+    const total = shares.reduce((sum, share) => sum + share.size, 0)
+    let counted = 0
+    shares.forEach((share, i) => {
+      const type = types.get(share.id) ?? 'unknown'
+      const charged = i === shares.length - 1 ? bytes - counted : Math.floor(bytes * share.size / total)
+      counted += charged
+      this.stats.bytesByEventType[type] = (this.stats.bytesByEventType[type] || 0) + charged
+    })
+  }
+  
+  private async getEventTypes(events: Array<{ event_id: string; encrypted: Uint8Array }>): Promise<Map<string, string>> {
+    const types = new Map<string, string>()
+    for (const event of events) {
+      let type = this.eventTypes.get(event.event_id)
+      if (!type) {
+        const payload = await this.messageGenerator.decryptEvent({ encrypted: Buffer.from(event.encrypted) }).catch(() => null)
+        type = payload?.type ?? 'unknown'
+        this.rememberType(event.event_id, type)
+      }
+      types.set(event.event_id, type)
+    }
+    return types
+  }
+  
+  /**
+   * Catch a peer that is far behind up on everything it lacks over the
+   * reliable channel, a window of events at a time, instead of a slice per
+   * Bloom round. Its filters are ignored meanwhile. If the peer stops
+   * acknowledging, it is left to gossip for bootstrapRetryDelay.
+   */
+  private async bootstrap(peerId: string, events: StoredEvent[]) {
+    this.bootstrapping.add(peerId)
+    console.log(`[SyncManager] ${this.config.deviceId} bootstrapping ${peerId} with ${events.length} events`)
+    try {
+      for (let start = 0; start < events.length; start += BOOTSTRAP_WINDOW) {
+        const window = events.slice(start, start + BOOTSTRAP_WINDOW)
+        this.peerKnowledge.markSent(peerId, window.map(event => event.event_id))
+        const types = await this.getEventTypes(window)
+        await Promise.all(this.packer.pack(window).map(async packet => {
+          // Charged once acknowledged, retransmitted segments included
+          const bytes = await this.config.reliable!.send(peerId, packet.type, packet.payload)
+          this.countPacket(packet.type, bytes)
+          this.countEventBytes(packet, bytes, types)
+        }))
+        this.stats.eventsSent += window.length
+      }
+      this.bootstrapRetryAt.delete(peerId)
+      console.log(`[SyncManager] ${this.config.deviceId} finished bootstrapping ${peerId}`)
+    } catch (error) {
+      this.bootstrapRetryAt.set(peerId, Date.now() + (this.config.bootstrapRetryDelay ?? DEFAULT_BOOTSTRAP_RETRY_DELAY))
+      console.warn(`[SyncManager] ${this.config.deviceId} bootstrap of ${peerId} failed, falling back to gossip:`, (error as Error).message)
+    } finally {
+      this.bootstrapping.delete(peerId)
+    }
+  }
+  
+  // Single-event `message` packets from peers that predate batching
   private async handleIncomingMessage(payload: any, sourceDevice: string) {
+    // Convert array back to Uint8Array
+    await this.storeReceivedEvent(payload.event_id, new Uint8Array(payload.encrypted), sourceDevice, false)
+  }
+  
+  /**
+   * An event we asked for may be relayed by any peer, as long as its bytes
+   * hash to the ID we asked for; any other must come from its author
+   */
+  private async receiveEvent(eventId: string, encrypted: Uint8Array, sourceDevice: string) {
+    if (!this.requester.isPending(eventId)) {
+      await this.storeReceivedEvent(eventId, encrypted, sourceDevice, false)
+      return
+    }
+    if (this.messageGenerator.computeEventId(Buffer.from(encrypted)) !== eventId) {
+      console.error(`[SyncManager] ${this.config.deviceId} got event ${eventId} from ${sourceDevice} with the wrong contents`)
+      return
+    }
+    await this.storeReceivedEvent(eventId, encrypted, sourceDevice, true)
+  }
+  
+  /**
+   * Verify and store an event from a peer. Pushed events must come from
+   * their author; requested ones may be relayed by anyone, since the
+   * signature inside still proves who wrote them.
+   */
+  private async storeReceivedEvent(eventId: string, encrypted: Uint8Array, sourceDevice: string, relayed: boolean) {
     try {
-      // Convert array back to Uint8Array
-      const encrypted = new Uint8Array(payload.encrypted)
-      const eventId = payload.event_id
-      
       // Check if we already have this event
       const existing = await this.store.getEvent(eventId)
       if (existing) {
         console.log(`[SyncManager] ${this.config.deviceId} already has event ${eventId}`)
         return
       }
+      if (await this.store.isPurged(eventId)) {
+        console.log(`[SyncManager] ${this.config.deviceId} ignoring purged event ${eventId}`)
+        this.bloomFilter.add(eventId)
+        return
+      }
       
-      // Verify and decrypt the event
-      const decrypted = await this.messageGenerator.decryptMessage({ encrypted })
+      // Verify and decrypt the event; its payload author must be its signer
+      const decrypted = await this.messageGenerator.decryptEvent({ encrypted })
       if (!decrypted) {
         console.error(`[SyncManager] ${this.config.deviceId} failed to decrypt event ${eventId}`)
         return
       }
       
       // Verify the author matches the source
-      if (decrypted.author !== sourceDevice) {
+      if (!relayed && decrypted.author !== sourceDevice) {
         console.error(`[SyncManager] ${this.config.deviceId} author mismatch: ${decrypted.author} != ${sourceDevice}`)
         return
       }
       
-      // Store the event
+      // Store the event; anything it references that we lack is asked of this peer
+      this.rememberSource(eventId, sourceDevice)
+      this.rememberType(eventId, decrypted.type)
       await this.store.storeEvent({
-        device_id: sourceDevice,
+        device_id: decrypted.author,
         created_at: decrypted.timestamp,
         received_at: Date.now(),
         encrypted
       }, eventId)
       this.bloomFilter.add(eventId)
+      this.requester.resolve(eventId)
+      this.stats.eventsReceived++
       
       // Track that we received this event
       this.networkSimulator.trackOwnEvent(this.config.deviceId)
       
-      console.log(`[SyncManager] ${this.config.deviceId} stored event ${eventId} from ${sourceDevice}: "${decrypted.content}"`)
+      if (decrypted.type === 'message') {
+        this.queueDeliveryReceipt(eventId)
+      }
+      
+      console.log(`[SyncManager] ${this.config.deviceId} stored ${decrypted.type} event ${eventId} from ${sourceDevice}`)
     } catch (error) {
       console.error(`[SyncManager] ${this.config.deviceId} error handling message:`, error)
     }
   }
   
+  /**
+   * Pull an event we know of only by ID, e.g. the parent of a reply. We ask
+   * the peer that sent us the event referencing it, then any whose Bloom
+   * filter claims it.
+   */
+  async requestEvent(eventId: string, referencedBy?: string) {
+    if (!this.isRunning || !this.online) return
+    if (await this.store.getEvent(eventId) || await this.store.isPurged(eventId)) return
+    
+    const advertisedBy = referencedBy ? this.eventSources.get(referencedBy) : undefined
+    const candidates = [...(advertisedBy ? [advertisedBy] : []), ...this.peerKnowledge.getPeersWithEvent(eventId)]
+      .filter(peerId => this.isPeerReachable(peerId))
+    const target = this.requester.request(eventId, candidates)
+    if (target) {
+      this.sendEventRequests([target])
+    } else if (!this.requester.isPending(eventId)) {
+      console.log(`[SyncManager] ${this.config.deviceId} has no peer to ask for ${eventId}`)
+    }
+  }
+  
+  private sendEventRequests(targets: EventRequestTarget[]) {
+    const byPeer = new Map<string, string[]>()
+    for (const { eventId, peerId } of targets) {
+      byPeer.set(peerId, [...(byPeer.get(peerId) || []), eventId])
+    }
+    for (const [peerId, eventIds] of byPeer) {
+      console.log(`[SyncManager] ${this.config.deviceId} requesting ${eventIds.length} events from ${peerId}`)
+      this.send(peerId, 'event_request', { eventIds })
+      this.stats.eventsRequested += eventIds.length
+    }
+  }
+  
+  private async handleEventRequest(packet: any, sourceDevice: string) {
+    if (!Array.isArray(packet?.eventIds)) return
+    
+    const eventIds = packet.eventIds
+      .filter((id: unknown): id is string => typeof id === 'string')
+      .slice(0, MAX_EVENTS_PER_RESPONSE)
+    const events = await this.findEvents(eventIds)
+    const found = new Set(events.map(event => event.event_id))
+    const missing = eventIds.filter((id: string) => !found.has(id))
+    
+    // The events travel like any others; the response only lists what we lack
+    await this.sendEvents(sourceDevice, events)
+    if (missing.length > 0) {
+      this.send(sourceDevice, 'event_response', { missing })
+    }
+  }
+  
+  private async handleEventResponse(packet: any, sourceDevice: string) {
+    if (!Array.isArray(packet?.missing)) return
+    
+    const retries = packet.missing
+      .filter((id: unknown): id is string => typeof id === 'string')
+      .map((id: string) => this.requester.peerLacks(id, sourceDevice))
+      .filter((target: EventRequestTarget | null): target is EventRequestTarget => target !== null)
+    this.sendEventRequests(retries)
+  }
+  
+  private rememberSource(eventId: string, sourceDevice: string) {
+    this.eventSources.set(eventId, sourceDevice)
+    if (this.eventSources.size > MAX_EVENT_SOURCES) {
+      this.eventSources.delete(this.eventSources.keys().next().value!)
+    }
+  }
+  
+  private rememberType(eventId: string, type: string) {
+    this.eventTypes.set(eventId, type)
+    if (this.eventTypes.size > MAX_EVENT_TYPES) {
+      this.eventTypes.delete(this.eventTypes.keys().next().value!)
+    }
+  }
+  
+  /**
+   * Acknowledge a stored message. Receipts are collected for receiptDelay
+   * so a burst of synced messages costs one receipt event, not one each.
+   */
+  private queueDeliveryReceipt(messageId: string) {
+    if (this.pendingReceipts.includes(messageId)) return
+    this.pendingReceipts.push(messageId)
+    if (this.pendingReceipts.length >= MAX_RECEIPT_BATCH) {
+      void this.flushDeliveryReceipts()
+    } else if (!this.receiptTimer) {
+      this.receiptTimer = setTimeout(() => this.flushDeliveryReceipts(), this.config.receiptDelay ?? 1000)
+    }
+  }
+  
+  async flushDeliveryReceipts() {
+    if (this.receiptTimer) {
+      clearTimeout(this.receiptTimer)
+      this.receiptTimer = undefined
+    }
+    
+    while (this.pendingReceipts.length > 0) {
+      const messageIds = this.pendingReceipts.splice(0, MAX_RECEIPT_BATCH)
+      try {
+        const timestamp = Date.now()
+        const payload: ReceiptEvent = {
+          type: 'receipt',
+          kind: 'delivered',
+          messageIds,
+          author: this.config.deviceId,
+          timestamp
+        }
+        const event = await this.messageGenerator.createEvent(payload, timestamp)
+        const eventId = this.messageGenerator.computeEventId(event.encrypted)
+        
+        // Stored like any event, so Bloom sync delivers it if the broadcast is lost
+        await this.store.storeEvent(event, eventId)
+        this.rememberType(eventId, 'receipt')
+        await this.broadcastNewMessage(event, eventId)
+        console.log(`[SyncManager] ${this.config.deviceId} acknowledged ${messageIds.length} delivered messages`)
+      } catch (error) {
+        console.error(`[SyncManager] ${this.config.deviceId} error sending delivery receipt:`, error)
+      }
+    }
+  }
+  
   /**
    * Send a new message (called when user creates a message)
    */
@@ -202,24 +661,71 @@ export class SyncManager {
     // Add to our bloom filter
     this.bloomFilter.add(eventId)
     
-    // Broadcast to all peers
-    const messagePayload = {
-      event_id: eventId,
-      encrypted: Array.from(event.encrypted),
-      timestamp: this.currentTime
-    }
-    
+    // Broadcast to all peers, fragmented if it won't fit one datagram
     console.log(`[SyncManager] ${this.config.deviceId} broadcasting new message ${eventId}`)
-    this.networkSimulator.broadcastEvent(this.config.deviceId, 'message', messagePayload)
+    const events = [{ event_id: eventId, encrypted: event.encrypted }]
+    const types = await this.getEventTypes(events)
+    for (const packet of this.packer.pack(events)) {
+      this.countEventBytes(packet, this.broadcast(packet.type, packet.payload), types)
+    }
     
     // Track that we sent this event
     this.networkSimulator.trackOwnEvent(this.config.deviceId)
   }
   
-  getSyncPercentage(): number {
-    // Calculate sync percentage based on bloom filter comparison
-    // For now, return a simple estimate
-    return 100 // Since we're actively syncing
+  /**
+   * How in sync we are with each peer: exact counts where a reconciling
+   * strategy recorded them, Bloom filter estimates otherwise
+   */
+  async getPeerSyncStatus(): Promise<PeerSyncEstimate[]> {
+    const eventIds = await this.getHeldEventIds()
+    const bloomPeers = this.peerKnowledge.getKnownPeers()
+      .filter(peerId => !this.reconciledPeers.has(peerId))
+      .map(peerId => this.peerKnowledge.getPeerSyncEstimate(peerId, eventIds)!)
+    const reconciled = Array.from(this.reconciledPeers.entries()).map(([peerId, peer]) => {
+      const union = peer.localEvents + peer.peerEvents - peer.sharedEvents
+      return {
+        peerId,
+        syncPercentage: union === 0 ? 100 : Math.floor(peer.sharedEvents / union * 100),
+        localEvents: peer.localEvents,
+        peerEvents: peer.peerEvents,
+        sharedEvents: peer.sharedEvents,
+        pendingEvents: 0,
+        deliveryRate: null,
+        lastFilterAt: peer.reconciledAt
+      }
+    })
+    return [...bloomPeers, ...reconciled].sort((a, b) => a.peerId.localeCompare(b.peerId))
+  }
+  
+  /**
+   * Record an exact difference with a peer, found by set reconciliation
+   */
+  protected recordDifference(peerId: string, localEvents: number, onlyHere: number, onlyThere: number) {
+    const sharedEvents = localEvents - onlyHere
+    this.reconciledPeers.set(peerId, {
+      localEvents,
+      peerEvents: sharedEvents + onlyThere,
+      sharedEvents,
+      reconciledAt: Date.now()
+    })
+  }
+  
+  protected async findEvents(eventIds: string[]): Promise<StoredEvent[]> {
+    const events: StoredEvent[] = []
+    for (const eventId of eventIds) {
+      const event = await this.store.getEvent(eventId)
+      if (event) events.push(event)
+    }
+    return events
+  }
+  
+  /**
+   * Sync with the least-synced peer; 100 until a peer has been heard from
+   */
+  async getSyncPercentage(): Promise<number> {
+    const peers = await this.getPeerSyncStatus()
+    return peers.length === 0 ? 100 : Math.min(...peers.map(peer => peer.syncPercentage))
   }
   
   isOnline(): boolean {
@@ -239,7 +745,7 @@ export class SyncManager {
       const interval = this.config.syncInterval || 5000
       this.syncTimer = setInterval(() => {
         if (this.isRunning && this.online) {
-          this.performSync()
+          this.runRound()
         }
       }, interval)
     }
@@ -0,0 +1,74 @@
+import type { PeerSyncEstimate } from './BloomFilter'
+import type { SyncConfig } from './SyncManager'
+import type { EventStore } from '../storage/EventStore'
+import type { NetworkSimulator } from '../network/NetworkSimulator'
+import type { MessageGenerator } from '../crypto/MessageGenerator'
+
+/**
+ * What a strategy has cost and achieved since it started. A broadcast
+ * counts as one packet, however many peers it reaches, but its bytes are
+ * counted for every datagram the transport sent.
+ */
+export interface SyncStrategyStats {
+  strategy: string
+  startedAt: number | null
+  stoppedAt: number | null
+  rounds: number
+  packetsSent: number
+  bytesSent: number
+  eventsSent: number
+  eventsReceived: number
+  eventsRequested: number
+  bytesByType: Record<string, number> // Bytes on the wire per packet type, e.g. event_batch
+  bytesByEventType: Record<string, number> // event_batch/event_fragment bytes per event type, e.g. message
+}
+
+export interface SyncStrategy {
+  readonly name: string
+
+  start(): Promise<void>
+
+  /**
+   * Stop syncing, first sending anything still batched
+   */
+  stop(): Promise<void>
+
+  /**
+   * Stop for good and detach from the transport
+   */
+  shutdown(): Promise<void>
+
+  isOnline(): boolean
+
+  setOnline(online: boolean): void
+
+  /**
+   * Push an event we just created to peers straight away
+   */
+  broadcastNewMessage(event: { encrypted: Uint8Array }, eventId: string): Promise<void>
+
+  /**
+   * Pull an event we know only by ID from a peer likely to hold it
+   */
+  requestEvent(eventId: string, referencedBy?: string): Promise<void>
+
+  getPeerSyncStatus(): Promise<PeerSyncEstimate[]>
+
+  getSyncPercentage(): Promise<number>
+
+  getStats(): SyncStrategyStats
+}
+
+export interface SyncStrategyConstructor {
+  readonly description: string
+  new(
+    config: SyncConfig,
+    store: EventStore,
+    networkSimulator: NetworkSimulator,
+    messageGenerator: MessageGenerator
+  ): SyncStrategy
+}
+
+export interface SyncStrategyRegistry {
+  [strategyName: string]: SyncStrategyConstructor
+}
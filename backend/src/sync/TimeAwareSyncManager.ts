@@ -1,6 +1,6 @@
 import { SyncManager } from './SyncManager'
 import { TimeListener, TimeEvent } from '../simulation/TimeController'
-import { InMemoryStore } from '../storage/InMemoryStore'
+import type { EventStore } from '../storage/EventStore'
 import { NetworkSimulator } from '../network/NetworkSimulator'
 import { MessageGenerator } from '../crypto/MessageGenerator'
 
@@ -20,7 +20,7 @@ export class TimeAwareSyncManager extends SyncManager implements TimeListener {
   
   constructor(
     config: TimeAwareSyncConfig,
-    store: InMemoryStore,
+    store: EventStore,
     networkSimulator: NetworkSimulator,
     messageGenerator: MessageGenerator
   ) {
@@ -39,13 +39,14 @@ export class TimeAwareSyncManager extends SyncManager implements TimeListener {
     await this['updateBloomFilter']()
     
     // Do initial sync
-    await this['performSync']()
+    await this['runRound']()
   }
   
   /**
    * Override stop to not clear real-time intervals
    */
-  stop() {
+  async stop() {
+    await this.flushDeliveryReceipts()
     this.isRunning = false
   }
   
@@ -61,7 +62,7 @@ export class TimeAwareSyncManager extends SyncManager implements TimeListener {
     // Check if it's time to sync
     if (this.simulationTime - this.lastSyncTime >= this.syncIntervalMs) {
       if (this.isRunning) {
-        this['performSync']()
+        this['runRound']()
       }
       this.lastSyncTime = Math.floor(this.simulationTime / this.syncIntervalMs) * this.syncIntervalMs
     }
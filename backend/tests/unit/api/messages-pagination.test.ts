@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import request from 'supertest'
+import express from 'express'
+import { createMessageRoutes } from '../../../src/routes/messages'
+import { decodeCursor, encodeCursor } from '../../../src/routes/pagination'
+import { InMemoryStore } from '../../../src/storage/InMemoryStore'
+import { MessageProjection } from '../../../src/storage/MessageProjection'
+import { MessageGenerator } from '../../../src/crypto/MessageGenerator'
+import * as fs from 'fs'
+import * as path from 'path'
+
+describe('Messages API pagination', () => {
+  let app: express.Application
+  let store: MessageProjection
+  let messageGenerator: MessageGenerator
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+
+  beforeAll(async () => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+
+    messageGenerator = new MessageGenerator('test-device')
+    await messageGenerator.initialize()
+    store = new MessageProjection(new InMemoryStore('test-device'), messageGenerator)
+    await store.initialize()
+
+    app = express()
+    app.use(express.json())
+    app.use((req, res, next) => {
+      (req as any).deviceId = 'test-device'
+      next()
+    })
+    app.use('/api/messages', createMessageRoutes(store, messageGenerator))
+
+    // 10 messages, three of which share timestamp 1003
+    const timestamps = [1000, 1001, 1002, 1003, 1003, 1003, 1004, 1005, 1006, 1007]
+    for (let i = 0; i < timestamps.length; i++) {
+      const event = await messageGenerator.createMessage(`Message ${i}`, timestamps[i])
+      await store.storeEvent(event, messageGenerator.computeEventId(event.encrypted))
+    }
+  })
+
+  afterAll(() => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should round-trip cursors', () => {
+    expect(decodeCursor(encodeCursor({ timestamp: 1234, id: 'abcd' }))).toEqual({ timestamp: 1234, id: 'abcd' })
+    expect(decodeCursor('not-a-cursor')).toBeNull()
+  })
+
+  it('should return everything with no pagination parameters', async () => {
+    const response = await request(app).get('/api/messages').expect(200)
+
+    expect(response.body.messages).toHaveLength(10)
+    expect(response.body.hasMore).toBe(false)
+    expect(response.body.nextCursor).toBeNull()
+  })
+
+  it('should return the newest page when only limit is given', async () => {
+    const response = await request(app).get('/api/messages?limit=3').expect(200)
+
+    const timestamps = response.body.messages.map((m: any) => m.timestamp)
+    expect(timestamps).toEqual([1005, 1006, 1007])
+    expect(response.body.hasMore).toBe(true)
+    expect(response.body.nextCursor).toBe(response.body.messages[0].cursor)
+  })
+
+  it('should walk backwards through history without gaps or duplicates', async () => {
+    const seen: string[] = []
+    let cursor: string | null = null
+    let hasMore = true
+
+    while (hasMore) {
+      const url: string = cursor ? `/api/messages?limit=4&before=${cursor}` : '/api/messages?limit=4'
+      const response = await request(app).get(url).expect(200)
+      seen.unshift(...response.body.messages.map((m: any) => m.id))
+      cursor = response.body.nextCursor
+      hasMore = response.body.hasMore
+    }
+
+    const all = await request(app).get('/api/messages').expect(200)
+    expect(seen).toEqual(all.body.messages.map((m: any) => m.id))
+  })
+
+  it('should page forwards from an after cursor through equal timestamps', async () => {
+    const first = await request(app).get(`/api/messages?limit=4&after=${encodeCursor({ timestamp: 0, id: '0' })}`).expect(200)
+    expect(first.body.messages.map((m: any) => m.timestamp)).toEqual([1000, 1001, 1002, 1003])
+    expect(first.body.hasMore).toBe(true)
+
+    const second = await request(app).get(`/api/messages?limit=4&after=${first.body.nextCursor}`).expect(200)
+    expect(second.body.messages.map((m: any) => m.timestamp)).toEqual([1003, 1003, 1004, 1005])
+
+    const ids = [...first.body.messages, ...second.body.messages].map((m: any) => m.id)
+    expect(new Set(ids).size).toBe(8)
+  })
+
+  it('should keep the after cursor when there is nothing newer', async () => {
+    const latest = await request(app).get('/api/messages?limit=1').expect(200)
+    const cursor = latest.body.messages[0].cursor
+
+    const response = await request(app).get(`/api/messages?after=${cursor}`).expect(200)
+    expect(response.body.messages).toEqual([])
+    expect(response.body.hasMore).toBe(false)
+    expect(response.body.nextCursor).toBe(cursor)
+  })
+
+  it('should reject invalid pagination parameters', async () => {
+    await request(app).get('/api/messages?limit=0').expect(400)
+    await request(app).get('/api/messages?before=bogus').expect(400)
+    await request(app).get(`/api/messages?before=${encodeCursor({ timestamp: 1, id: 'a' })}&after=${encodeCursor({ timestamp: 1, id: 'a' })}`).expect(400)
+  })
+})
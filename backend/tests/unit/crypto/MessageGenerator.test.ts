@@ -58,6 +58,16 @@ describe('MessageGenerator', () => {
       expect(decrypted?.attachments).toEqual(attachments)
     })
 
+    it('should refuse file attachments with out-of-range sizes', async () => {
+      const generator = new MessageGenerator(deviceId)
+      await generator.initialize()
+
+      const attachment = { fileId: 'ab'.repeat(16), fileKey: Buffer.alloc(32).toString('base64'), mimeType: 'image/png', size: 100, chunkCount: 1 }
+      await expect(generator.createMessage('ok', Date.now(), [attachment])).resolves.toBeDefined()
+      await expect(generator.createMessage('huge', Date.now(), [{ ...attachment, chunkCount: 1e9 }])).rejects.toThrow('chunkCount')
+      await expect(generator.createMessage('huge', Date.now(), [{ ...attachment, size: 1e12 }])).rejects.toThrow('size')
+    })
+
     it('should throw error if not initialized', async () => {
       const generator = new MessageGenerator(deviceId)
       
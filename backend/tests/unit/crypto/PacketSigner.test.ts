@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import { PacketSigner } from '../../../src/crypto/PacketSigner'
+import { KeyManager } from '../../../src/crypto/KeyManager'
+import { encodePacket } from '../../../src/network/WireFormat'
+import { setupTrust } from '../../../src/setup-trust'
+
+describe('PacketSigner', () => {
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+  const frame = encodePacket({ source: 'alice', target: 'bob', type: 'event_request', payload: { eventIds: ['abc'] } })
+  let aliceSigner: PacketSigner
+  let bobSigner: PacketSigner
+
+  beforeAll(async () => {
+    await setupTrust()
+    const alice = new KeyManager('alice')
+    await alice.initialize()
+    const bob = new KeyManager('bob')
+    await bob.initialize()
+    aliceSigner = new PacketSigner(alice)
+    bobSigner = new PacketSigner(bob, { maxClockSkew: 60000, replayWindow: 300000 })
+  })
+
+  afterAll(() => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should accept a signed packet once', () => {
+    const now = Date.now()
+    const signed = aliceSigner.sign(frame, now)
+
+    expect(PacketSigner.isSigned(signed)).toBe(true)
+    expect(bobSigner.verify(signed, now + 100)).toEqual({ verdict: 'valid', deviceId: 'alice', frame })
+    expect(bobSigner.verify(signed, now + 200).verdict).toBe('replayed')
+
+    // The same frame signed again is a new packet
+    expect(bobSigner.verify(aliceSigner.sign(frame, now), now + 300).verdict).toBe('valid')
+  })
+
+  it('should drop tampered, stale, unsigned and unknown packets', () => {
+    const now = Date.now()
+    const signed = aliceSigner.sign(frame, now)
+
+    const tampered = Buffer.from(signed)
+    tampered[tampered.length - 1] ^= 0xff
+    expect(bobSigner.verify(tampered, now).verdict).toBe('forged')
+
+    // Claiming to be bob with alice's signature
+    const renamed = Buffer.from(signed)
+    renamed.write('bobby', 3)
+    expect(bobSigner.verify(renamed, now).verdict).not.toBe('valid')
+
+    expect(bobSigner.verify(aliceSigner.sign(frame, now - 120000), now).verdict).toBe('stale')
+    expect(bobSigner.verify(frame, now).verdict).toBe('unsigned')
+    expect(bobSigner.verify(signed.subarray(0, 40), now).verdict).toBe('forged')
+
+    // Bob doesn't know his own key as a peer's
+    expect(aliceSigner.verify(bobSigner.sign(frame, now), now).verdict).toBe('valid')
+    expect(bobSigner.verify(bobSigner.sign(frame, now), now)).toEqual({ verdict: 'unknown_sender', deviceId: 'bob' })
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import * as ed from '@noble/ed25519'
+import { randomBytes } from 'crypto'
+import {
+  HandshakeState,
+  edToX25519Private,
+  edToX25519Public,
+  x25519PublicFromPrivate
+} from '../../../src/crypto/SessionHandshake'
+
+describe('SessionHandshake', () => {
+  const aliceSeed = randomBytes(32)
+  const bobSeed = randomBytes(32)
+  const alicePublic = edToX25519Public(ed.getPublicKey(aliceSeed))
+  const bobPublic = edToX25519Public(ed.getPublicKey(bobSeed))
+
+  it('should derive the same X25519 key from either half of an Ed25519 pair', () => {
+    expect(x25519PublicFromPrivate(edToX25519Private(aliceSeed))).toEqual(alicePublic)
+    expect(x25519PublicFromPrivate(edToX25519Private(bobSeed))).toEqual(bobPublic)
+  })
+
+  it('should agree on crossed transport keys', () => {
+    const alice = new HandshakeState(true, edToX25519Private(aliceSeed), bobPublic, 'alice', 'bob')
+    const bob = new HandshakeState(false, edToX25519Private(bobSeed), alicePublic, 'alice', 'bob')
+
+    const init = alice.writeInit(Buffer.from('hello'))
+    expect(bob.readInit(init.e, init.data)).toEqual(Buffer.from('hello'))
+    const response = bob.writeResponse(Buffer.alloc(0))
+    expect(alice.readResponse(response.e, response.data)).toEqual(Buffer.alloc(0))
+
+    const aliceKeys = alice.split()
+    const bobKeys = bob.split()
+    expect(aliceKeys.sendKey).toEqual(bobKeys.receiveKey)
+    expect(aliceKeys.receiveKey).toEqual(bobKeys.sendKey)
+    expect(aliceKeys.sendKey).not.toEqual(aliceKeys.receiveKey)
+  })
+
+  it('should refuse an initiator without the expected static key', () => {
+    const mallorySeed = randomBytes(32)
+    const mallory = new HandshakeState(true, edToX25519Private(mallorySeed), bobPublic, 'alice', 'bob')
+    const bob = new HandshakeState(false, edToX25519Private(bobSeed), alicePublic, 'alice', 'bob')
+
+    const init = mallory.writeInit(Buffer.from('hello'))
+    expect(bob.readInit(init.e, init.data)).toBeNull()
+  })
+})
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import request from 'supertest'
+import express from 'express'
+import { randomBytes } from 'crypto'
+import { FileTransfer, attachmentError } from '../../../src/files/FileTransfer'
+import { createFileRoutes } from '../../../src/routes/files'
+import { NetworkSimulator } from '../../../src/network/NetworkSimulator'
+import { ReliableChannel } from '../../../src/network/ReliableChannel'
+import type { MessageProjection } from '../../../src/storage/MessageProjection'
+
+describe('FileTransfer', () => {
+  const channelConfig = { initialRto: 200, minRto: 100, maxRto: 1000, maxRetransmits: 3 }
+
+  function setup(devices: string[], packetLossRate = 0) {
+    let now = 0
+    const network = new NetworkSimulator({ packetLossRate, minLatency: 10, maxLatency: 30, jitter: 5 })
+    devices.forEach(device => network.addDevice(device))
+    const channels = devices.map(device => new ReliableChannel(device, network, channelConfig, () => now))
+    const files = Object.fromEntries(devices.map((device, i) =>
+      [device, new FileTransfer(device, channels[i], { chunkSize: 4096 })]))
+
+    // Step until the promise settles, letting handlers run between ticks
+    const settle = async <T>(promise: Promise<T>, limit = 60000): Promise<T> => {
+      let settled = false
+      promise.then(() => { settled = true }, () => { settled = true })
+      for (const stop = now + limit; !settled && now <= stop; now += 10) {
+        network.tick(now)
+        channels.forEach(channel => channel.tick())
+        await new Promise(resolve => setImmediate(resolve))
+      }
+      return promise
+    }
+    return { network, channels, files, settle }
+  }
+
+  it('should fetch a file from a holder over a lossy link and then serve it', async () => {
+    const { network, files, settle } = setup(['alice', 'bob', 'carol'], 0.1)
+    const data = randomBytes(20000)
+    const attachment = files.alice.upload(data, 'image/png', 'cat.png')
+    expect(attachment).toMatchObject({ mimeType: 'image/png', fileName: 'cat.png', size: 20000, chunkCount: 5 })
+
+    // Carol hasn't got it yet and says so; Bob moves on to Alice
+    expect(await settle(files.bob.download(attachment, ['carol', 'alice']))).toEqual(data)
+    expect(files.bob.hasFile(attachment.fileId)).toBe(true)
+
+    // Now Bob is a holder too, and serves Carol while Alice is away
+    network.setDeviceOnline('alice', false)
+    expect(await settle(files.carol.download(attachment, ['alice', 'bob']))).toEqual(data)
+  })
+
+  it('should refuse chunks that do not hash to the file ID', async () => {
+    const { channels, files, settle } = setup(['alice', 'bob', 'mallory'])
+    const attachment = files.alice.upload(randomBytes(5000), 'text/plain')
+
+    // Mallory answers every request with junk of the right shape
+    files.mallory.stop()
+    const mallory = channels[2]
+    mallory.onMessage(event => {
+      if (event.type === 'file_request') {
+        void mallory.send(event.sourceDevice, 'file_chunk', { fileId: event.payload.fileId, index: 0, count: 2, data: randomBytes(100).toString('base64') })
+        void mallory.send(event.sourceDevice, 'file_chunk', { fileId: event.payload.fileId, index: 1, count: 2, data: randomBytes(100).toString('base64') })
+      }
+    })
+    await expect(settle(files.bob.download(attachment, ['mallory']))).rejects.toThrow('No peer could send')
+    expect(files.bob.hasFile(attachment.fileId)).toBe(false)
+
+    // The real holder still gets through
+    expect((await settle(files.bob.download(attachment, ['mallory', 'alice']))).length).toBe(5000)
+    expect(files.bob.getStats().fetching).toBe(0)
+  })
+
+  it('should refuse attachments too large to fetch', async () => {
+    const { files, settle } = setup(['alice', 'bob'])
+    const attachment = files.alice.upload(randomBytes(100), 'text/plain')
+    expect(attachmentError(attachment)).toBeNull()
+    expect(attachmentError({ ...attachment, chunkCount: 1e9 })).toContain('chunkCount')
+    expect(attachmentError({ ...attachment, chunkCount: 0 })).toContain('chunkCount')
+    expect(attachmentError({ ...attachment, size: 11 * 1024 * 1024 })).toContain('size')
+    expect(attachmentError({ ...attachment, fileKey: 'short' })).toContain('fileKey')
+    expect(attachmentError({ type: 'image', url: 'cat.jpg' })).toBeNull()
+
+    // Nothing is allocated or requested for a bogus count
+    await expect(settle(files.bob.download({ ...attachment, chunkCount: 1e9 }, ['alice']))).rejects.toThrow('Invalid attachment')
+    expect(files.bob.getStats().fetching).toBe(0)
+  })
+
+  it('should upload and serve files attached to visible messages', async () => {
+    const { files } = setup(['alice'])
+    const attachments: any[] = []
+    const store = {
+      getMessages: async () => [{ id: 'm1', author: 'alice', attachments }]
+    } as unknown as MessageProjection
+    const app = express()
+    app.use('/api/files', createFileRoutes(files.alice, store, () => []))
+    app.use(express.json())
+
+    const data = randomBytes(9000)
+    const upload = await request(app).post('/api/files?name=notes.bin').set('Content-Type', 'application/octet-stream').send(data).expect(200)
+    expect(upload.body).toMatchObject({ size: 9000, chunkCount: 3, fileName: 'notes.bin' })
+
+    // Not in any message yet
+    await request(app).get(`/api/files/${upload.body.fileId}`).expect(404)
+    attachments.push(upload.body)
+    const download = await request(app).get(`/api/files/${upload.body.fileId}`).buffer(true).parse((res, callback) => {
+      const parts: Buffer[] = []
+      res.on('data', (part: Buffer) => parts.push(part))
+      res.on('end', () => callback(null, Buffer.concat(parts)))
+    }).expect(200)
+    expect(download.headers['content-disposition']).toContain('notes.bin')
+    expect(download.body).toEqual(data)
+
+    await request(app).post('/api/files').expect(400)
+
+    // A JSON file is still just bytes
+    const json = JSON.stringify({ hello: 'world' })
+    const jsonUpload = await request(app).post('/api/files').set('Content-Type', 'application/json').send(json).expect(200)
+    expect(jsonUpload.body).toMatchObject({ size: json.length, mimeType: 'application/json' })
+  })
+
+  it('should answer with an error when messages cannot be read', async () => {
+    const { files } = setup(['alice'])
+    const store = {
+      getMessages: async () => { throw new Error('disk gone') }
+    } as unknown as MessageProjection
+    const app = express()
+    app.use('/api/files', createFileRoutes(files.alice, store, () => []))
+
+    const response = await request(app).get(`/api/files/${'ab'.repeat(16)}`).expect(500)
+    expect(response.body.error).toBe('Failed to read messages')
+  })
+})
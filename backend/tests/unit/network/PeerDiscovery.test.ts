@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import { randomBytes } from 'crypto'
+import { PeerDiscovery } from '../../../src/network/PeerDiscovery'
+import type { DiscoveredPeer } from '../../../src/network/PeerDiscovery'
+import { PacketSigner } from '../../../src/crypto/PacketSigner'
+import { KeyManager } from '../../../src/crypto/KeyManager'
+import { setupTrust } from '../../../src/setup-trust'
+
+describe('PeerDiscovery', () => {
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+  const config = { port: 20000 + Math.floor(Math.random() * 5000), announceInterval: 50, peerTimeout: 300 }
+  const communityKey = randomBytes(32)
+  const running: PeerDiscovery[] = []
+  let aliceSigner: PacketSigner
+  let bobKeys: KeyManager
+
+  beforeAll(async () => {
+    await setupTrust()
+    const aliceKeys = new KeyManager('alice')
+    await aliceKeys.initialize()
+    bobKeys = new KeyManager('bob')
+    await bobKeys.initialize()
+    aliceSigner = new PacketSigner(aliceKeys)
+  })
+
+  afterAll(async () => {
+    await Promise.all(running.map(discovery => discovery.stop()))
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  async function startDiscovery(deviceId: string, udpPort: number, signer: PacketSigner, key: Buffer) {
+    const discovery = new PeerDiscovery(deviceId, udpPort, signer, key, config)
+    running.push(discovery)
+    await discovery.start()
+    return discovery
+  }
+
+  it('should find community members on localhost and lose them when they go quiet', async () => {
+    const alice = await startDiscovery('alice', 8101, aliceSigner, communityKey)
+    const found: DiscoveredPeer[] = []
+    const lost: string[] = []
+    alice.onPeerFound(peer => found.push(peer))
+    alice.onPeerLost(deviceId => lost.push(deviceId))
+
+    // Bob's key in another community, then bob himself
+    const outsider = await startDiscovery('bob', 8102, new PacketSigner(bobKeys), randomBytes(32))
+    await new Promise(resolve => setTimeout(resolve, 200))
+    expect(found).toEqual([])
+    expect(alice.getStats().announcementsRejected).toBeGreaterThan(0)
+    await outsider.stop()
+
+    const bob = await startDiscovery('bob', 8102, new PacketSigner(bobKeys), communityKey)
+    await new Promise(resolve => setTimeout(resolve, 200))
+    expect(found).toEqual([expect.objectContaining({ deviceId: 'bob', port: 8102 })])
+    expect(alice.getPeers().map(peer => peer.deviceId)).toEqual(['bob'])
+
+    await bob.stop()
+    await new Promise(resolve => setTimeout(resolve, 500))
+    expect(lost).toEqual(['bob'])
+    expect(alice.getPeers()).toEqual([])
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import { PeerSessions } from '../../../src/network/PeerSessions'
+import type { SealedFrame } from '../../../src/network/PeerSessions'
+import { KeyManager } from '../../../src/crypto/KeyManager'
+import { setupTrust } from '../../../src/setup-trust'
+
+describe('PeerSessions', () => {
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+  let aliceKeys: KeyManager
+  let bobKeys: KeyManager
+
+  beforeAll(async () => {
+    await setupTrust()
+    aliceKeys = new KeyManager('alice')
+    await aliceKeys.initialize()
+    bobKeys = new KeyManager('bob')
+    await bobKeys.initialize()
+  })
+
+  afterAll(() => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  // Two devices wired back to back; sealed frames are collected instead of delivered
+  function connect(config = {}) {
+    const alice = new PeerSessions('alice', aliceKeys, config)
+    const bob = new PeerSessions('bob', bobKeys, config)
+    const sealed: Record<string, SealedFrame[]> = { alice: [], bob: [] }
+    const now = { value: Date.now() }
+    alice.onSend((peerId, type, payload) => type === 'handshake' ? bob.handleHandshake('alice', payload, now.value) : sealed.alice.push(payload))
+    bob.onSend((peerId, type, payload) => type === 'handshake' ? alice.handleHandshake('bob', payload, now.value) : sealed.bob.push(payload))
+    return { alice, bob, sealed, now }
+  }
+
+  it('should queue frames behind a handshake, then seal each one freshly', () => {
+    const { alice, bob, sealed, now } = connect()
+    const frame = Buffer.from('bloom filter')
+
+    expect(alice.seal('bob', frame, now.value)).toBeNull()
+    expect(sealed.alice).toHaveLength(1)
+    expect(bob.open('alice', sealed.alice[0], now.value)).toEqual(frame)
+
+    const again = alice.seal('bob', frame, now.value)!
+    expect(again.data).not.toBe(sealed.alice[0].data)
+    expect(bob.open('alice', again, now.value)).toEqual(frame)
+
+    // And back the other way on the same session
+    expect(alice.open('bob', bob.seal('alice', frame, now.value), now.value)).toEqual(frame)
+  })
+
+  it('should refuse replayed, tampered and foreign frames', () => {
+    const { alice, bob, sealed, now } = connect()
+    alice.seal('bob', Buffer.from('first'), now.value)
+    const packet = alice.seal('bob', Buffer.from('second'), now.value)!
+
+    expect(bob.open('alice', packet, now.value)).toEqual(Buffer.from('second'))
+    expect(bob.open('alice', packet, now.value)).toBeNull()
+    expect(bob.open('alice', sealed.alice[0], now.value)).toEqual(Buffer.from('first'))
+
+    const tampered = alice.seal('bob', Buffer.from('third'), now.value)!
+    const bytes = Buffer.from(tampered.data, 'base64')
+    bytes[0] ^= 0xff
+    expect(bob.open('alice', { ...tampered, data: bytes.toString('base64') }, now.value)).toBeNull()
+
+    // Bob has no session with himself under alice's name
+    expect(bob.open('carol', alice.seal('bob', Buffer.from('fourth'), now.value), now.value)).toBeNull()
+  })
+
+  it('should rekey while the old session still opens late packets, then expire it', () => {
+    const { alice, bob, now } = connect({ rekeyAfter: 3000, sessionLifetime: 5000 })
+    alice.seal('bob', Buffer.from('setup'), now.value)
+    const late = alice.seal('bob', Buffer.from('late'), now.value)!
+    const tooLate = alice.seal('bob', Buffer.from('too late'), now.value)!
+
+    now.value += 3500
+    const rekeyed = alice.seal('bob', Buffer.from('rekeyed'), now.value)!
+    expect(rekeyed.session).not.toBe(late.session)
+    expect(bob.open('alice', rekeyed, now.value)).toEqual(Buffer.from('rekeyed'))
+    expect(bob.open('alice', late, now.value)).toEqual(Buffer.from('late'))
+    expect(alice.getStatus(now.value)[0].sessions).toHaveLength(2)
+
+    now.value += 2000
+    expect(bob.open('alice', tooLate, now.value)).toBeNull()
+    alice.seal('bob', Buffer.from('expire'), now.value)
+    expect(alice.getStatus(now.value)[0].sessions.map(s => s.id)).toEqual([rekeyed.session])
+  })
+
+  it('should start over with a peer that forgot its sessions', () => {
+    const { alice, bob, sealed, now } = connect()
+    alice.seal('bob', Buffer.from('before'), now.value)
+    bob.forget('alice')
+    expect(bob.open('alice', alice.seal('bob', Buffer.from('lost'), now.value), now.value)).toBeNull()
+
+    alice.forget('bob')
+    expect(alice.seal('bob', Buffer.from('after'), now.value)).toBeNull()
+    expect(bob.open('alice', sealed.alice[sealed.alice.length - 1], now.value)).toEqual(Buffer.from('after'))
+  })
+})
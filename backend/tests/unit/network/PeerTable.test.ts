@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { PeerTable } from '../../../src/network/PeerTable'
+
+describe('PeerTable', () => {
+  const config = { pingInterval: 1000, pingTimeout: 1500, suspectAfter: 2, deadAfter: 3, maxBackoff: 8000, silenceTimeout: 5000 }
+
+  it('should smooth RTT from pongs', () => {
+    const table = new PeerTable(config)
+    table.add('bob', 0)
+
+    const [first] = table.due(0)
+    expect(first.peerId).toBe('bob')
+    table.handlePong('bob', first.nonce, 100)
+    expect(table.get('bob')).toMatchObject({ state: 'alive', rtt: 100, rttVariance: 50, loss: 0, lastSeen: 100 })
+
+    expect(table.due(500)).toEqual([])
+    const [second] = table.due(1000)
+    table.handlePong('bob', second.nonce, 1200)
+    expect(table.get('bob')).toMatchObject({ rtt: 112.5, rttVariance: 62.5, pingsSent: 2, pongsReceived: 2 })
+
+    // A pong nobody asked for changes nothing
+    table.handlePong('bob', 'unknown', 1300)
+    expect(table.get('bob')!.pongsReceived).toBe(2)
+  })
+
+  it('should go suspect, then dead with backoff, and revive on any packet', () => {
+    const table = new PeerTable(config)
+    table.add('bob', 0)
+
+    const sentAt: number[] = []
+    for (let now = 0; now <= 40000; now += 250) {
+      if (table.due(now).length > 0) sentAt.push(now)
+      if (now === 2750) expect(table.get('bob')!.state).toBe('suspect')
+    }
+    expect(table.get('bob')).toMatchObject({ state: 'dead', pingsSent: sentAt.length })
+    expect(table.isReachable('bob')).toBe(false)
+
+    // Every second until dead, then ever further apart up to maxBackoff
+    const gaps = sentAt.slice(1).map((at, i) => at - sentAt[i])
+    expect(gaps.slice(0, 4)).toEqual([1000, 1000, 1000, 1000])
+    expect(gaps.slice(4)).toEqual([2000, 4000, 8000, 8000, 8000])
+    expect(table.get('bob')!.loss).toBeGreaterThan(0.5)
+
+    table.heard('bob', 40100)
+    expect(table.get('bob')).toMatchObject({ state: 'alive', missedPings: 0 })
+    expect(table.due(40100)).toHaveLength(1)
+  })
+
+  it('should judge peers that can\'t be pinged by silence alone', () => {
+    const table = new PeerTable(config)
+    table.add('old-bob', 0)
+
+    expect(table.due(0, () => false)).toEqual([])
+    expect(table.get('old-bob')!.state).toBe('unknown')
+
+    table.heard('old-bob', 1000)
+    table.due(5000, () => false)
+    expect(table.get('old-bob')!.state).toBe('alive')
+    table.due(60000, () => false)
+    expect(table.get('old-bob')).toMatchObject({ state: 'suspect', loss: null, rtt: null })
+    expect(table.isReachable('old-bob')).toBe(true)
+  })
+})
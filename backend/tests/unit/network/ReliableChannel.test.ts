@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { NetworkSimulator, type NetworkEvent } from '../../../src/network/NetworkSimulator'
+import { ReliableChannel } from '../../../src/network/ReliableChannel'
+
+describe('ReliableChannel', () => {
+  const config = { segmentSize: 100, initialRto: 200, minRto: 100, maxRto: 2000, maxRetransmits: 4 }
+
+  function setup(packetLossRate: number, maxRetransmits = config.maxRetransmits, maxMessageBytes?: number) {
+    let now = 0
+    const network = new NetworkSimulator({ packetLossRate, minLatency: 10, maxLatency: 50, jitter: 10 })
+    network.addDevice('alice')
+    network.addDevice('bob')
+    const alice = new ReliableChannel('alice', network, { ...config, maxRetransmits }, () => now)
+    const bob = new ReliableChannel('bob', network, { ...config, maxRetransmits, ...(maxMessageBytes ? { maxMessageBytes } : {}) }, () => now)
+    const received: NetworkEvent[] = []
+    bob.onMessage(event => received.push(event))
+
+    const run = (until: number) => {
+      for (; now <= until; now += 10) {
+        network.tick(now)
+        alice.tick()
+        bob.tick()
+      }
+    }
+    return { network, alice, bob, received, run }
+  }
+
+  it('should deliver every message once and in order over a lossy link', async () => {
+    // Room enough that no segment runs out of retries at this loss
+    const { alice, received, run } = setup(0.2, 15)
+
+    const batches = Array.from({ length: 5 }, (_, i) => ({ batch: i, events: 'x'.repeat(450) }))
+    const settled: number[] = []
+    const sends = batches.map((payload, i) => alice.send('bob', 'event_batch', payload).then(bytes => { settled[i] = bytes }))
+    run(60000)
+    await Promise.all(sends)
+
+    // Each send reports what its segments cost on the wire, retries included
+    expect(settled).toHaveLength(5)
+    expect(settled.every(bytes => bytes > 450)).toBe(true)
+    expect(settled.reduce((sum, bytes) => sum + bytes, 0)).toBe(alice.getStats().bytesSent)
+    expect(received.map(event => event.payload)).toEqual(batches)
+    expect(received.every(event => event.type === 'event_batch' && event.sourceDevice === 'alice')).toBe(true)
+    expect(alice.getStats()).toMatchObject({ messagesSent: 5, messagesFailed: 0 })
+    expect(alice.getStats().retransmissions).toBeGreaterThan(0)
+  })
+
+  it('should give up on a peer that stops answering', async () => {
+    const { network, alice, received, run } = setup(0)
+    network.setDeviceOnline('bob', false)
+
+    const sent = alice.send('bob', 'event_batch', { events: [] })
+    const outcome = sent.then(() => 'delivered', () => 'failed')
+    run(30000)
+
+    expect(await outcome).toBe('failed')
+    expect(received).toEqual([])
+    expect(alice.getStats()).toMatchObject({ messagesFailed: 1, peers: [] })
+
+    // Back online, the next send starts a fresh stream
+    network.setDeviceOnline('bob', true)
+    const again = alice.send('bob', 'event_batch', { events: ['a'] })
+    run(35000)
+    await again
+    expect(received.map(event => event.payload)).toEqual([{ events: ['a'] }])
+  })
+
+  it('should drop a stream whose message outgrows the limit', async () => {
+    const { alice, bob, received, run } = setup(0, config.maxRetransmits, 1000)
+
+    // Never delivered or acked past the limit, so Alice gives up on it
+    const huge = alice.send('bob', 'event_batch', { events: 'x'.repeat(5000) }).then(() => 'delivered', () => 'failed')
+    run(30000)
+    expect(await huge).toBe('failed')
+    expect(received).toEqual([])
+    expect((bob as any).receiving.get('alice').parts).toEqual([])
+
+    // A new stream is heard again
+    const small = alice.send('bob', 'event_batch', { events: ['a'] })
+    run(35000)
+    await small
+    expect(received.map(event => event.payload)).toEqual([{ events: ['a'] }])
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, it, expect, afterAll } from 'vitest'
+import { createSocket } from 'dgram'
+import { randomBytes } from 'crypto'
+import * as fs from 'fs'
+import * as path from 'path'
+import {
+  decodePacket,
+  encodePacket,
+  isBinaryFrame,
+  WireNegotiator,
+  LEGACY_WIRE_VERSION,
+  WIRE_HELLO,
+  WIRE_VERSION
+} from '../../../src/network/WireFormat'
+import { UDPNetworkSimulator } from '../../../src/network/UDPNetworkSimulator'
+import { UDPNetworkClient } from '../../../src/network/UDPNetworkClient'
+import type { NetworkEvent } from '../../../src/network/NetworkSimulator'
+
+describe('WireFormat', () => {
+  const batch = {
+    source: 'laptop:alice',
+    target: 'phone:bob',
+    type: 'event_batch',
+    payload: {
+      events: [
+        { id: 'aaaaaaaaaaaaaaaa', data: randomBytes(300).toString('base64') },
+        { id: 'bbbbbbbbbbbbbbbb', data: randomBytes(200).toString('base64') }
+      ]
+    }
+  }
+
+  it('should round-trip packets as binary frames with raw ciphertext', () => {
+    const frame = encodePacket(batch)
+    expect(isBinaryFrame(frame)).toBe(true)
+    expect(decodePacket(frame)).toEqual({ packet: batch, version: WIRE_VERSION })
+
+    // Base64 costs a third more than the bytes it carries
+    expect(frame.length).toBeLessThan(encodePacket(batch, LEGACY_WIRE_VERSION).length - 150)
+
+    const message = { source: 'alice', target: '*', type: 'message', payload: { event_id: 'x', encrypted: [0, 1, 255], timestamp: 5 } }
+    expect(decodePacket(encodePacket(message)).packet).toEqual(message)
+
+    // Not canonical base64, so it stays in the JSON untouched
+    const odd = { source: 'alice', target: 'bob', type: 'event_fragment', payload: { id: 'x', index: 0, count: 1, data: 'not base64!' } }
+    expect(decodePacket(encodePacket(odd)).packet).toEqual(odd)
+  })
+
+  it('should read the legacy text format and reject malformed frames', () => {
+    expect(decodePacket(Buffer.from('alice:bob:message:{"a":"b:c"}'))).toEqual({
+      packet: { source: 'alice', target: 'bob', type: 'message', payload: { a: 'b:c' } },
+      version: LEGACY_WIRE_VERSION
+    })
+
+    const frame = encodePacket(batch)
+    expect(() => decodePacket(frame.subarray(0, frame.length - 10))).toThrow('Truncated frame')
+    expect(() => decodePacket(Buffer.from([0xb5, 0x1c, 9, 1, 0]))).toThrow('Unsupported wire version 9')
+    expect(() => encodePacket({ ...batch, type: 'carrier_pigeon' })).toThrow('No wire code')
+  })
+
+  it('should refuse more blobs than the frame can count', () => {
+    const events = (count: number) => Array.from({ length: count }, (_, i) => ({ id: `e${i}`, data: randomBytes(4).toString('base64') }))
+    const full = { ...batch, payload: { events: events(255) } }
+    expect(decodePacket(encodePacket(full)).packet).toEqual(full)
+
+    // The count would wrap to 0 and the receiver would misread every field
+    expect(() => encodePacket({ ...batch, payload: { events: events(256) } })).toThrow('Too many binary fields')
+    // Text frames have no blobs, so no limit
+    expect(() => encodePacket({ ...batch, payload: { events: events(256) } }, LEGACY_WIRE_VERSION)).not.toThrow()
+  })
+
+  it('should negotiate the highest shared version per peer', () => {
+    const negotiator = new WireNegotiator()
+    expect(negotiator.versionFor('bob')).toBe(LEGACY_WIRE_VERSION)
+
+    const hello = decodePacket(new WireNegotiator().hello('bob', 'alice', false))
+    expect(hello.version).toBe(LEGACY_WIRE_VERSION)
+    expect(negotiator.observe(hello.packet, hello.version)).toBe(true)
+    expect(negotiator.versionFor('bob')).toBe(WIRE_VERSION)
+
+    // Bob restarted as an old backend
+    expect(negotiator.observe({ source: 'bob', target: 'alice', type: 'bloom_filter', payload: {} }, LEGACY_WIRE_VERSION)).toBe(false)
+    expect(negotiator.versionFor('bob')).toBe(LEGACY_WIRE_VERSION)
+
+    negotiator.observe({ source: 'carol', target: 'alice', type: WIRE_HELLO, payload: { versions: [0, 7] } }, LEGACY_WIRE_VERSION)
+    expect(negotiator.versionFor('carol')).toBe(LEGACY_WIRE_VERSION)
+    expect(isBinaryFrame(negotiator.hello('laptop:alice', 'bob', false))).toBe(true)
+  })
+
+  // The simulation service builds on its own and can't import this module
+  it('should match the simulation service copy apart from its note', () => {
+    const read = (file: string) => fs.readFileSync(path.join(__dirname, '..', '..', '..', '..', file), 'utf8')
+    const copy = read('simulation-service/src/network/WireFormat.ts')
+    const note = /^ \* A copy of backend\/src\/network\/WireFormat\.ts[\s\S]*?\n \*\n/m
+    expect(copy).toMatch(note)
+    expect(copy.replace(note, '')).toBe(read('backend/src/network/WireFormat.ts'))
+  })
+
+  describe('UDP simulator with mixed versions', () => {
+    const networkPort = 10000 + Math.floor(Math.random() * 500)
+    const legacyPort = networkPort + 600
+    const simulator = new UDPNetworkSimulator(networkPort, { packetLossRate: 0, minLatency: 0, maxLatency: 0, jitter: 0 })
+    const client = new UDPNetworkClient('alice', 'localhost', networkPort, networkPort + 700)
+    const legacy = createSocket('udp4')
+
+    afterAll(async () => {
+      await client.disconnect()
+      await new Promise<void>(resolve => legacy.close(() => resolve()))
+      await simulator.stop()
+    })
+
+    it('should relay between a binary client and an old text client', async () => {
+      await simulator.start()
+      const legacyReceived: Buffer[] = []
+      legacy.on('message', msg => legacyReceived.push(msg))
+      await new Promise<void>(resolve => legacy.bind(legacyPort, () => resolve()))
+
+      // An old backend registers with an empty payload
+      legacy.send(Buffer.from('bob:network:register:{}'), networkPort, 'localhost')
+      await client.connect()
+      const clientReceived: NetworkEvent[] = []
+      client.onNetworkEvent(event => clientReceived.push(event))
+
+      client.broadcastEvent('alice', 'bloom_filter', { sealed: randomBytes(64).toString('base64') })
+      legacy.send(Buffer.from('bob:alice:event_request:{"eventIds":["abc"]}'), networkPort, 'localhost')
+      await new Promise(resolve => setTimeout(resolve, 300))
+
+      const bloom = legacyReceived.map(msg => msg.toString()).find(msg => msg.startsWith('alice:bob:bloom_filter:'))
+      expect(bloom).toBeDefined()
+      expect(clientReceived).toEqual([
+        expect.objectContaining({ sourceDevice: 'bob', type: 'event_request', payload: { eventIds: ['abc'] } })
+      ])
+      expect(simulator.getStats().devices.map(d => [d.deviceId, d.wireVersion])).toEqual(
+        expect.arrayContaining([['alice', WIRE_VERSION], ['bob', LEGACY_WIRE_VERSION]])
+      )
+    })
+  })
+})
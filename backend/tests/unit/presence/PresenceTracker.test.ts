@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest'
+import request from 'supertest'
+import express from 'express'
+import * as fs from 'fs'
+import * as path from 'path'
+import { PresenceTracker } from '../../../src/presence/PresenceTracker'
+import { createPresenceRoutes } from '../../../src/routes/presence'
+import { MessageGenerator } from '../../../src/crypto/MessageGenerator'
+import { NetworkSimulator } from '../../../src/network/NetworkSimulator'
+import { setupTrust } from '../../../src/setup-trust'
+
+describe('PresenceTracker', () => {
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+  let alice: MessageGenerator
+  let bob: MessageGenerator
+  let network: NetworkSimulator
+  let aliceTracker: PresenceTracker
+  let bobTracker: PresenceTracker
+  let now = 0
+
+  // Deliver everything in flight and let the async handlers decrypt it
+  const deliver = async () => {
+    now += 1000
+    network.tick(now)
+    await new Promise(resolve => setTimeout(resolve, 50))
+  }
+
+  beforeAll(async () => {
+    await setupTrust()
+    alice = new MessageGenerator('alice')
+    await alice.initialize()
+    bob = new MessageGenerator('bob')
+    await bob.initialize()
+  })
+
+  beforeEach(() => {
+    now = 0
+    network = new NetworkSimulator()
+    network.addDevice('alice')
+    network.addDevice('bob')
+    aliceTracker = new PresenceTracker('alice', network, alice, { typingTimeout: 200 })
+    bobTracker = new PresenceTracker('bob', network, bob)
+  })
+
+  afterAll(() => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should show typing until it stops or times out', async () => {
+    const updates: string[] = []
+    aliceTracker.onUpdate(peers => updates.push(peers.map(p => `${p.deviceId}:${p.typingIn}`).join()))
+
+    await bobTracker.setTyping('general', true)
+    await deliver()
+    expect(aliceTracker.getPeers()).toEqual([
+      expect.objectContaining({ deviceId: 'bob', online: true, typingIn: 'general' })
+    ])
+
+    await bobTracker.setTyping('general', false)
+    await deliver()
+    expect(aliceTracker.getPeers()[0].typingIn).toBeNull()
+    expect(updates).toEqual(['bob:general', 'bob:null'])
+
+    await bobTracker.setTyping('general', true)
+    await deliver()
+    await new Promise(resolve => setTimeout(resolve, 250))
+    expect(aliceTracker.getPeers()[0].typingIn).toBeNull()
+  })
+
+  it('should send signals encrypted and as ephemeral packets only', async () => {
+    await bobTracker.setTyping('secret-channel', true)
+
+    const sent = network.getNetworkEvents().filter(event => event.sourceDevice === 'bob')
+    expect(sent.map(event => event.type)).toEqual(['ephemeral'])
+    expect(JSON.stringify(sent[0].payload)).not.toContain('secret-channel')
+  })
+
+  it('should mark a peer offline when it says goodbye, keeping its last-seen time', async () => {
+    await bobTracker.setTyping('general', true)
+    await bobTracker.announceOffline()
+    await deliver()
+
+    const [peer] = aliceTracker.getPeers()
+    expect(peer).toMatchObject({ deviceId: 'bob', online: false, typingIn: null })
+    expect(peer.lastSeen).toBeGreaterThan(0)
+  })
+
+  it('should drop stale, replayed and misattributed signals', async () => {
+    const stale = await bob.createEphemeral({ type: 'presence', status: 'online', author: 'bob', timestamp: Date.now() - 60000 })
+    network.broadcastEvent('bob', 'ephemeral', { sealed: stale.toString('base64') })
+
+    // Bob's genuine signal relayed as if it came from another device
+    const relayed = await bob.createEphemeral({ type: 'presence', status: 'online', author: 'bob', timestamp: Date.now() })
+    network.addDevice('carol')
+    network.broadcastEvent('carol', 'ephemeral', { sealed: relayed.toString('base64') })
+
+    await deliver()
+    expect(aliceTracker.getPeers()).toEqual([])
+  })
+
+  describe('presence routes', () => {
+    let app: express.Application
+
+    beforeEach(() => {
+      app = express()
+      app.use(express.json())
+      app.use('/api', createPresenceRoutes(bobTracker))
+    })
+
+    it('should broadcast typing and report peers', async () => {
+      await request(app).post('/api/typing').send({ channelId: 'general', typing: true }).expect(200)
+      await deliver()
+      expect(aliceTracker.getPeers()[0].typingIn).toBe('general')
+
+      await request(app).post('/api/typing').send({ channelId: 'general' }).expect(400)
+      await request(app).post('/api/typing').send({ typing: true }).expect(400)
+
+      const response = await request(app).get('/api/presence').expect(200)
+      expect(response.body.peers).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import request from 'supertest'
+import express from 'express'
+import * as fs from 'fs'
+import * as path from 'path'
+import { createMessageRoutes } from '../../../src/routes/messages'
+import { parseQuery } from '../../../src/search/SearchIndex'
+import { MessageProjection } from '../../../src/storage/MessageProjection'
+import { InMemoryStore } from '../../../src/storage/InMemoryStore'
+import { MessageGenerator } from '../../../src/crypto/MessageGenerator'
+
+describe('Message search', () => {
+  let app: express.Application
+  let projection: MessageProjection
+  let generator: MessageGenerator
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+
+  const addMessage = async (content: string, timestamp: number) => {
+    const event = await generator.createMessage(content, timestamp)
+    const eventId = generator.computeEventId(event.encrypted)
+    await projection.storeEvent(event, eventId)
+    return eventId
+  }
+
+  beforeAll(async () => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+
+    generator = new MessageGenerator('alice')
+    await generator.initialize()
+    projection = new MessageProjection(new InMemoryStore('alice'), generator)
+
+    // Messages stored before the routes exist must still be searchable
+    await addMessage('Meeting moved to Thursday afternoon', 1000)
+
+    app = express()
+    app.use(express.json())
+    app.use((req, res, next) => {
+      (req as any).deviceId = 'alice'
+      next()
+    })
+    app.use('/api/messages', createMessageRoutes(projection, generator))
+
+    await addMessage('Did you see the new sync protocol?', 2000)
+    await addMessage('The protocol for syncing is ready', 3000)
+    await addMessage('Thursday works for me, see you then', 4000)
+  })
+
+  afterAll(() => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  const search = async (query: string) => {
+    const response = await request(app)
+      .get('/api/messages/search')
+      .query({ q: query })
+      .expect(200)
+    return response.body.results
+  }
+
+  it('should parse phrases, prefixes and terms', () => {
+    expect(parseQuery('"sync protocol" sync* Hello')).toEqual([
+      { kind: 'phrase', terms: ['sync', 'protocol'] },
+      { kind: 'prefix', prefix: 'sync' },
+      { kind: 'term', term: 'hello' }
+    ])
+  })
+
+  it('should match whole words case-insensitively, newest first', async () => {
+    const results = await search('thursday')
+    expect(results.map((r: any) => r.timestamp)).toEqual([4000, 1000])
+  })
+
+  it('should match prefix queries', async () => {
+    const results = await search('sync*')
+    expect(results.map((r: any) => r.timestamp)).toEqual([3000, 2000])
+  })
+
+  it('should require phrase words to be consecutive', async () => {
+    const results = await search('"sync protocol"')
+    expect(results).toHaveLength(1)
+    expect(results[0].timestamp).toBe(2000)
+  })
+
+  it('should require every clause to match', async () => {
+    expect(await search('thursday protocol')).toEqual([])
+  })
+
+  it('should return snippets with highlight ranges', async () => {
+    const [result] = await search('"sync protocol"')
+    const [start, end] = result.highlights[0]
+    expect(result.snippet.slice(start, end)).toBe('sync protocol')
+  })
+
+  it('should trim long content into a snippet around the match', async () => {
+    await addMessage(`${'filler '.repeat(30)}needle ${'padding '.repeat(30)}`, 5000)
+
+    const [result] = await search('needle')
+    expect(result.snippet.startsWith('…')).toBe(true)
+    expect(result.snippet.endsWith('…')).toBe(true)
+    const [start, end] = result.highlights[0]
+    expect(result.snippet.slice(start, end)).toBe('needle')
+  })
+
+  it('should filter by author and time range', async () => {
+    const inRange = await request(app)
+      .get('/api/messages/search')
+      .query({ q: 'thursday', since: 2000, until: 5000 })
+      .expect(200)
+    expect(inRange.body.results.map((r: any) => r.timestamp)).toEqual([4000])
+
+    const otherAuthor = await request(app)
+      .get('/api/messages/search')
+      .query({ q: 'thursday', author: 'bob' })
+      .expect(200)
+    expect(otherAuthor.body.results).toEqual([])
+  })
+
+  it('should reject an empty query', async () => {
+    await request(app).get('/api/messages/search').expect(400)
+  })
+})
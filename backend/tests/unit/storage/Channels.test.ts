@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest'
+import request from 'supertest'
+import express from 'express'
+import * as fs from 'fs'
+import * as path from 'path'
+import { createMessageRoutes } from '../../../src/routes/messages'
+import { createChannelRoutes } from '../../../src/routes/channels'
+import { MessageProjection } from '../../../src/storage/MessageProjection'
+import { InMemoryStore } from '../../../src/storage/InMemoryStore'
+import { MessageGenerator } from '../../../src/crypto/MessageGenerator'
+import { setupTrust } from '../../../src/setup-trust'
+
+describe('Channels', () => {
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+  let alice: MessageGenerator
+  let bob: MessageGenerator
+  let projection: MessageProjection
+
+  const createSigned = async (generator: MessageGenerator, payload: any) => {
+    const event = await generator.createEvent(payload, payload.timestamp)
+    return { event, id: generator.computeEventId(event.encrypted) }
+  }
+
+  const storeSigned = async (generator: MessageGenerator, payload: any) => {
+    const { event, id } = await createSigned(generator, payload)
+    await projection.storeEvent(event, id)
+    return id
+  }
+
+  const createChannel = (author: string, name: string, timestamp: number) =>
+    ({ type: 'channel', action: 'create', name, author, timestamp })
+
+  beforeAll(async () => {
+    await setupTrust()
+    alice = new MessageGenerator('alice')
+    await alice.initialize()
+    bob = new MessageGenerator('bob')
+    await bob.initialize()
+  })
+
+  beforeEach(() => {
+    projection = new MessageProjection(new InMemoryStore('alice'), alice)
+  })
+
+  afterAll(() => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should list the default channel first, then channels in creation order', async () => {
+    const later = await storeSigned(bob, createChannel('bob', 'random', 2000))
+    const earlier = await storeSigned(alice, createChannel('alice', 'dev', 1000))
+
+    const channels = await projection.getChannels()
+    expect(channels.map(c => c.id)).toEqual(['general', earlier, later])
+    expect(channels[1]).toMatchObject({ name: 'dev', createdBy: 'alice', archived: false, members: ['alice'] })
+  })
+
+  it('should only apply renames and archiving from the creator, in any delivery order', async () => {
+    const create = await createSigned(alice, createChannel('alice', 'dev', 1000))
+    const channelId = create.id
+
+    // The rename outruns the create, and bob's rename must never count
+    await storeSigned(alice, { type: 'channel', action: 'rename', channelId, name: 'engineering', author: 'alice', timestamp: 2000 })
+    await storeSigned(bob, { type: 'channel', action: 'rename', channelId, name: 'hijacked', author: 'bob', timestamp: 3000 })
+    await storeSigned(bob, { type: 'channel', action: 'archive', channelId, author: 'bob', timestamp: 3000 })
+    expect(await projection.getChannel(channelId)).toBeNull()
+
+    await projection.storeEvent(create.event, channelId)
+
+    expect(await projection.getChannel(channelId)).toMatchObject({ name: 'engineering', archived: false })
+  })
+
+  it('should keep the latest join or leave per member', async () => {
+    const channelId = await storeSigned(alice, createChannel('alice', 'dev', 1000))
+    await storeSigned(bob, { type: 'channel_membership', channelId, joined: false, author: 'bob', timestamp: 3000 })
+    await storeSigned(bob, { type: 'channel_membership', channelId, joined: true, author: 'bob', timestamp: 2000 })
+    await storeSigned(alice, { type: 'channel_membership', channelId, joined: false, author: 'alice', timestamp: 1500 })
+
+    expect((await projection.getChannel(channelId))!.members).toEqual([])
+  })
+
+  it('should put messages without a channel in the default channel', async () => {
+    const event = await alice.createMessage('Hello', 1000)
+    const messageId = alice.computeEventId(event.encrypted)
+    await projection.storeEvent(event, messageId)
+
+    expect((await projection.getMessage(messageId))!.channelId).toBe('general')
+  })
+
+  describe('channel routes', () => {
+    let app: express.Application
+
+    beforeEach(() => {
+      app = express()
+      app.use(express.json())
+      app.use((req, res, next) => {
+        (req as any).deviceId = 'alice'
+        next()
+      })
+      app.use('/api/messages', createMessageRoutes(projection, alice))
+      app.use('/api/channels', createChannelRoutes(projection, alice))
+    })
+
+    it('should create a channel and serve only its messages', async () => {
+      const created = await request(app).post('/api/channels').send({ name: ' dev ' }).expect(200)
+      const channelId = created.body.id
+      expect(created.body).toMatchObject({ name: 'dev', createdBy: 'alice', members: ['alice'] })
+
+      const posted = await request(app).post('/api/messages').send({ content: 'In dev', channelId }).expect(200)
+      expect(posted.body.channelId).toBe(channelId)
+      await request(app).post('/api/messages').send({ content: 'In general' }).expect(200)
+
+      const dev = await request(app).get(`/api/channels/${channelId}/messages`).expect(200)
+      expect(dev.body.messages.map((m: any) => m.content)).toEqual(['In dev'])
+
+      const general = await request(app).get('/api/channels/general/messages').expect(200)
+      expect(general.body.messages.map((m: any) => m.content)).toEqual(['In general'])
+
+      const list = await request(app).get('/api/channels').expect(200)
+      expect(list.body.channels.map((c: any) => c.name)).toEqual(['general', 'dev'])
+
+      await request(app).get('/api/channels/unknown/messages').expect(404)
+    })
+
+    it('should keep replies in their parent\'s channel', async () => {
+      const channelId = (await request(app).post('/api/channels').send({ name: 'dev' }).expect(200)).body.id
+      const parent = (await request(app).post('/api/messages').send({ content: 'Question', channelId }).expect(200)).body
+
+      const reply = await request(app).post('/api/messages').send({ content: 'Answer', replyTo: parent.id }).expect(200)
+      expect(reply.body.channelId).toBe(channelId)
+
+      await request(app).post('/api/messages').send({ content: 'Answer', replyTo: parent.id, channelId: 'general' }).expect(400)
+    })
+
+    it('should rename and archive, then refuse new posts', async () => {
+      const channelId = (await request(app).post('/api/channels').send({ name: 'dev' }).expect(200)).body.id
+
+      const updated = await request(app).patch(`/api/channels/${channelId}`).send({ name: 'old-dev', archived: true }).expect(200)
+      expect(updated.body).toMatchObject({ name: 'old-dev', archived: true })
+
+      await request(app).post('/api/messages').send({ content: 'Too late', channelId }).expect(409)
+      await request(app).post('/api/messages').send({ content: 'Nowhere', channelId: 'unknown' }).expect(404)
+      await request(app).patch('/api/channels/general').send({ name: 'other' }).expect(400)
+    })
+
+    it('should refuse changes from anyone but the creator', async () => {
+      const channelId = await storeSigned(bob, createChannel('bob', 'bobs', 1000))
+
+      await request(app).patch(`/api/channels/${channelId}`).send({ archived: true }).expect(403)
+
+      const joined = await request(app).post(`/api/channels/${channelId}/join`).expect(200)
+      expect(joined.body.members).toEqual(['alice', 'bob'])
+      const left = await request(app).post(`/api/channels/${channelId}/leave`).expect(200)
+      expect(left.body.members).toEqual(['bob'])
+    })
+  })
+})
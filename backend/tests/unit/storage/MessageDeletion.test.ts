@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest'
+import request from 'supertest'
+import express from 'express'
+import * as fs from 'fs'
+import * as path from 'path'
+import { createMessageRoutes } from '../../../src/routes/messages'
+import { MessageProjection } from '../../../src/storage/MessageProjection'
+import { InMemoryStore } from '../../../src/storage/InMemoryStore'
+import { MessageGenerator } from '../../../src/crypto/MessageGenerator'
+import { SyncManager } from '../../../src/sync/SyncManager'
+import { NetworkSimulator } from '../../../src/network/NetworkSimulator'
+import { setupTrust } from '../../../src/setup-trust'
+
+describe('Message deletion', () => {
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+  let alice: MessageGenerator
+  let bob: MessageGenerator
+  let store: InMemoryStore
+  let projection: MessageProjection
+
+  const storeSigned = async (generator: MessageGenerator, payload: any, timestamp: number) => {
+    const event = await generator.createEvent(payload, timestamp)
+    const eventId = generator.computeEventId(event.encrypted)
+    await projection.storeEvent(event, eventId)
+    return eventId
+  }
+
+  const storeMessage = async (generator: MessageGenerator, content: string, timestamp: number) => {
+    const event = await generator.createMessage(content, timestamp)
+    const eventId = generator.computeEventId(event.encrypted)
+    await projection.storeEvent(event, eventId)
+    return eventId
+  }
+
+  const tombstone = (author: string, messageId: string, timestamp: number) =>
+    ({ type: 'delete', messageId, author, timestamp })
+
+  beforeAll(async () => {
+    await setupTrust()
+    alice = new MessageGenerator('alice')
+    await alice.initialize()
+    bob = new MessageGenerator('bob')
+    await bob.initialize()
+  })
+
+  beforeEach(() => {
+    store = new InMemoryStore('alice')
+    projection = new MessageProjection(store, alice)
+  })
+
+  afterAll(() => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should hide the message and purge its ciphertext and edits', async () => {
+    const messageId = await storeMessage(alice, 'Oops', 1000)
+    const editId = await storeSigned(alice, { type: 'edit', messageId, content: 'Oops!', author: 'alice', timestamp: 1500 }, 1500)
+    await storeSigned(bob, { type: 'reaction', messageId, emoji: '😂', author: 'bob', timestamp: 1600, remove: false }, 1600)
+
+    await storeSigned(alice, tombstone('alice', messageId, 2000), 2000)
+
+    expect(await projection.getMessage(messageId)).toBeNull()
+    expect(projection.getReactions(messageId)).toEqual([])
+    expect(await store.getEvent(messageId)).toBeNull()
+    expect(await store.getEvent(editId)).toBeNull()
+    expect((await store.getPurgedEventIds()).sort()).toEqual([messageId, editId].sort())
+  })
+
+  it('should ignore tombstones from anyone but the author', async () => {
+    const messageId = await storeMessage(alice, 'Keep me', 1000)
+    await storeSigned(bob, tombstone('bob', messageId, 2000), 2000)
+
+    expect((await projection.getMessage(messageId))!.content).toBe('Keep me')
+    expect(await store.getEvent(messageId)).not.toBeNull()
+  })
+
+  it('should never show a message whose tombstone arrived first', async () => {
+    const event = await alice.createMessage('Retracted early', 1000)
+    const messageId = alice.computeEventId(event.encrypted)
+
+    await storeSigned(alice, tombstone('alice', messageId, 2000), 2000)
+    await projection.storeEvent(event, messageId)
+    expect(await projection.getMessage(messageId)).toBeNull()
+    expect(await store.isPurged(messageId)).toBe(true)
+
+    // A peer sending the original again changes nothing
+    await projection.storeEvent(event, messageId)
+    expect(await store.getEvent(messageId)).toBeNull()
+  })
+
+  it('should stay deleted when replayed after a restart', async () => {
+    const messageId = await storeMessage(alice, 'Gone for good', 1000)
+    await storeSigned(alice, tombstone('alice', messageId, 2000), 2000)
+
+    // The store keeps the tombstone but not the original
+    projection = new MessageProjection(store, alice)
+    await projection.initialize()
+    expect(projection.isDeleted(messageId)).toBe(true)
+
+    await storeSigned(bob, { type: 'reaction', messageId, emoji: '👀', author: 'bob', timestamp: 3000, remove: false }, 3000)
+    await storeSigned(bob, { type: 'receipt', messageIds: [messageId], kind: 'read', author: 'bob', timestamp: 3000 }, 3000)
+    expect(projection.getReactions(messageId)).toEqual([])
+    expect(projection.getReceipts(messageId)).toEqual([])
+  })
+
+  it('should replay a deletion under its author when another tombstone came first', async () => {
+    const messageId = await storeMessage(alice, 'Gone for good', 1000)
+    await storeSigned(bob, tombstone('bob', messageId, 1500), 1500)
+    await storeSigned(alice, tombstone('alice', messageId, 2000), 2000)
+
+    projection = new MessageProjection(store, alice)
+    await projection.initialize()
+    expect(projection.isDeleted(messageId)).toBe(true)
+
+    // An edit of Alice's that arrives late is purged like the rest
+    const editId = await storeSigned(alice, { type: 'edit', messageId, content: 'Still here?', author: 'alice', timestamp: 2500 }, 2500)
+    expect(await store.getEvent(editId)).toBeNull()
+    expect(await store.isPurged(editId)).toBe(true)
+  })
+
+  it('should keep purged IDs in the sync bloom filter', async () => {
+    const messageId = await storeMessage(alice, 'Gone', 1000)
+    await storeSigned(alice, tombstone('alice', messageId, 2000), 2000)
+
+    const sync = new SyncManager({ deviceId: 'alice' }, projection, new NetworkSimulator(), alice)
+    await (sync as any).updateBloomFilter()
+
+    expect((sync as any).bloomFilter.test(messageId)).toBe(true)
+    sync.stop()
+  })
+
+  describe('DELETE /api/messages/:id', () => {
+    let app: express.Application
+
+    beforeEach(() => {
+      app = express()
+      app.use(express.json())
+      app.use((req, res, next) => {
+        (req as any).deviceId = 'alice'
+        next()
+      })
+      app.use('/api/messages', createMessageRoutes(projection, alice))
+    })
+
+    it('should delete our own message and report it to changedSince polling', async () => {
+      const messageId = await storeMessage(alice, 'Delete me', 1000)
+      await storeMessage(alice, 'Not me', 2000)
+      const before = await request(app).get('/api/messages').expect(200)
+
+      await request(app).delete(`/api/messages/${messageId}`).expect(200)
+
+      const after = await request(app).get('/api/messages').expect(200)
+      expect(after.body.messages.map((m: any) => m.content)).toEqual(['Not me'])
+
+      const changed = await request(app)
+        .get('/api/messages')
+        .query({ changedSince: before.body.revision })
+        .expect(200)
+      expect(changed.body.messages).toEqual([])
+      expect(changed.body.deleted).toEqual([messageId])
+
+      const search = await request(app).get('/api/messages/search').query({ q: 'delete' }).expect(200)
+      expect(search.body.results).toEqual([])
+    })
+
+    it('should refuse to delete someone else\'s message', async () => {
+      const messageId = await storeMessage(bob, 'Bob said this', 1000)
+      await request(app).delete(`/api/messages/${messageId}`).expect(403)
+    })
+
+    it('should 404 for unknown messages', async () => {
+      await request(app).delete('/api/messages/unknown').expect(404)
+    })
+  })
+})
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest'
+import request from 'supertest'
+import express from 'express'
+import * as fs from 'fs'
+import * as path from 'path'
+import { createMessageRoutes } from '../../../src/routes/messages'
+import { MessageProjection } from '../../../src/storage/MessageProjection'
+import { InMemoryStore } from '../../../src/storage/InMemoryStore'
+import { MessageGenerator } from '../../../src/crypto/MessageGenerator'
+import { setupTrust } from '../../../src/setup-trust'
+
+describe('Message edits', () => {
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+  let alice: MessageGenerator
+  let bob: MessageGenerator
+  let projection: MessageProjection
+
+  const storeMessage = async (generator: MessageGenerator, content: string, timestamp: number) => {
+    const event = await generator.createMessage(content, timestamp)
+    const eventId = generator.computeEventId(event.encrypted)
+    await projection.storeEvent(event, eventId)
+    return eventId
+  }
+
+  const storeEdit = async (generator: MessageGenerator, messageId: string, content: string, timestamp: number, author = generator === alice ? 'alice' : 'bob') => {
+    const event = await generator.createEvent({ type: 'edit', messageId, content, author, timestamp }, timestamp)
+    const eventId = generator.computeEventId(event.encrypted)
+    await projection.storeEvent(event, eventId)
+    return eventId
+  }
+
+  beforeAll(async () => {
+    // Both generators must trust each other before they snapshot their peers
+    await setupTrust()
+    alice = new MessageGenerator('alice')
+    await alice.initialize()
+    bob = new MessageGenerator('bob')
+    await bob.initialize()
+  })
+
+  beforeEach(() => {
+    projection = new MessageProjection(new InMemoryStore('alice'), alice)
+  })
+
+  afterAll(() => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should show the latest edit with the full history', async () => {
+    const messageId = await storeMessage(alice, 'Helo', 1000)
+    await storeEdit(alice, messageId, 'Hello', 2000)
+    await storeEdit(alice, messageId, 'Hello!', 3000)
+
+    const message = await projection.getMessage(messageId)
+    expect(message!.content).toBe('Hello!')
+    expect(message!.timestamp).toBe(1000)
+    expect(message!.editedAt).toBe(3000)
+    expect(message!.editHistory.map(v => v.content)).toEqual(['Helo', 'Hello', 'Hello!'])
+  })
+
+  it('should ignore edits by anyone but the original author', async () => {
+    const messageId = await storeMessage(alice, 'Mine', 1000)
+    await storeEdit(bob, messageId, 'Hijacked', 2000)
+
+    const message = await projection.getMessage(messageId)
+    expect(message!.content).toBe('Mine')
+    expect(message!.editHistory).toEqual([])
+  })
+
+  it('should reject edits that claim an author other than the signer', async () => {
+    const messageId = await storeMessage(alice, 'Mine', 1000)
+    await storeEdit(bob, messageId, 'Forged', 2000, 'alice')
+
+    expect((await projection.getMessage(messageId))!.content).toBe('Mine')
+  })
+
+  it('should resolve concurrent edits the same way in any arrival order', async () => {
+    const original = await alice.createMessage('Original', 1000)
+    const messageId = alice.computeEventId(original.encrypted)
+    await projection.storeEvent(original, messageId)
+    const first = await alice.createEvent({ type: 'edit', messageId, content: 'Edit A', author: 'alice', timestamp: 2000 }, 2000)
+    const second = await alice.createEvent({ type: 'edit', messageId, content: 'Edit B', author: 'alice', timestamp: 2000 }, 2000)
+    const firstId = alice.computeEventId(first.encrypted)
+    const secondId = alice.computeEventId(second.encrypted)
+    const winner = firstId > secondId ? 'Edit A' : 'Edit B'
+
+    await projection.storeEvent(first, firstId)
+    await projection.storeEvent(second, secondId)
+    expect((await projection.getMessage(messageId))!.content).toBe(winner)
+
+    projection = new MessageProjection(new InMemoryStore('alice'), alice)
+    await projection.storeEvent(original, messageId)
+    await projection.storeEvent(second, secondId)
+    await projection.storeEvent(first, firstId)
+    expect((await projection.getMessage(messageId))!.content).toBe(winner)
+  })
+
+  it('should apply edits that arrive before their message', async () => {
+    const event = await alice.createMessage('Late original', 1000)
+    const messageId = alice.computeEventId(event.encrypted)
+
+    await storeEdit(alice, messageId, 'Early edit', 2000)
+    expect(await projection.getMessage(messageId)).toBeNull()
+
+    await projection.storeEvent(event, messageId)
+    expect((await projection.getMessage(messageId))!.content).toBe('Early edit')
+  })
+
+  it('should report edited messages as changed since an earlier revision', async () => {
+    const editedId = await storeMessage(alice, 'Will change', 1000)
+    await storeMessage(alice, 'Stays put', 2000)
+    const revision = projection.getRevision()
+
+    await storeEdit(alice, editedId, 'Changed', 3000)
+
+    const changed = await projection.getMessagesChangedSince(revision)
+    expect(changed.map(m => m.content)).toEqual(['Changed'])
+  })
+
+  describe('PUT /api/messages/:id', () => {
+    let app: express.Application
+
+    beforeEach(() => {
+      app = express()
+      app.use(express.json())
+      app.use((req, res, next) => {
+        (req as any).deviceId = 'alice'
+        next()
+      })
+      app.use('/api/messages', createMessageRoutes(projection, alice))
+    })
+
+    it('should edit our own message and expose it to changedSince polling', async () => {
+      const messageId = await storeMessage(alice, 'Draft', 1000)
+      const before = await request(app).get('/api/messages').expect(200)
+
+      const response = await request(app)
+        .put(`/api/messages/${messageId}`)
+        .send({ content: 'Final' })
+        .expect(200)
+      expect(response.body.content).toBe('Final')
+      expect(response.body.editHistory.map((v: any) => v.content)).toEqual(['Draft', 'Final'])
+
+      const changed = await request(app)
+        .get('/api/messages')
+        .query({ changedSince: before.body.revision })
+        .expect(200)
+      expect(changed.body.messages.map((m: any) => m.content)).toEqual(['Final'])
+      expect(changed.body.revision).toBeGreaterThan(before.body.revision)
+    })
+
+    it('should refuse to edit someone else\'s message', async () => {
+      const messageId = await storeMessage(bob, 'Bob said this', 1000)
+      await request(app).put(`/api/messages/${messageId}`).send({ content: 'No' }).expect(403)
+    })
+
+    it('should 404 for unknown messages and 400 without content', async () => {
+      await request(app).put('/api/messages/unknown').send({ content: 'x' }).expect(404)
+      const messageId = await storeMessage(alice, 'Draft', 1000)
+      await request(app).put(`/api/messages/${messageId}`).send({}).expect(400)
+    })
+  })
+})
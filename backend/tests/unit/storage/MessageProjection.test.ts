@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import { MessageProjection } from '../../../src/storage/MessageProjection'
+import { InMemoryStore } from '../../../src/storage/InMemoryStore'
+import { MessageGenerator } from '../../../src/crypto/MessageGenerator'
+import { SyncManager } from '../../../src/sync/SyncManager'
+import { NetworkSimulator } from '../../../src/network/NetworkSimulator'
+import type { NetworkEvent } from '../../../src/network/NetworkSimulator'
+import { setupTrust } from '../../../src/setup-trust'
+
+describe('MessageProjection', () => {
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+  let store: InMemoryStore
+  let generator: MessageGenerator
+  let projection: MessageProjection
+
+  const storeReaction = async (messageId: string, emoji: string, timestamp: number, remove: boolean) => {
+    const event = await generator.createEvent({
+      type: 'reaction',
+      messageId,
+      emoji,
+      author: 'alice',
+      timestamp,
+      remove
+    }, timestamp)
+    const eventId = generator.computeEventId(event.encrypted)
+    await projection.storeEvent(event, eventId)
+    return eventId
+  }
+
+  beforeEach(async () => {
+    store = new InMemoryStore('alice')
+    generator = new MessageGenerator('alice')
+    await generator.initialize()
+    projection = new MessageProjection(store, generator)
+  })
+
+  afterAll(() => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should decrypt each event once and serve repeated reads from memory', async () => {
+    const decryptSpy = vi.spyOn(generator, 'decryptEvent')
+
+    const event = await generator.createMessage('Hello', 1000)
+    const eventId = generator.computeEventId(event.encrypted)
+    await projection.storeEvent(event, eventId)
+    await storeReaction(eventId, '👍', 1001, false)
+
+    for (let i = 0; i < 5; i++) {
+      const messages = await projection.getMessages()
+      expect(messages).toHaveLength(1)
+      expect(messages[0].content).toBe('Hello')
+      expect(projection.getReactions(eventId)).toHaveLength(1)
+    }
+
+    expect(decryptSpy).toHaveBeenCalledTimes(2)
+  })
+
+  it('should keep the underlying store encrypted', async () => {
+    const event = await generator.createMessage('Secret text', 1000)
+    await projection.storeEvent(event, generator.computeEventId(event.encrypted))
+
+    const [stored] = await store.getAllEvents()
+    expect(stored.encrypted.toString()).not.toContain('Secret text')
+  })
+
+  it('should keep messages ordered by timestamp regardless of arrival order', async () => {
+    for (const timestamp of [3000, 1000, 2000]) {
+      const event = await generator.createMessage(`At ${timestamp}`, timestamp)
+      await projection.storeEvent(event, generator.computeEventId(event.encrypted))
+    }
+
+    const messages = await projection.getMessages()
+    expect(messages.map(m => m.timestamp)).toEqual([1000, 2000, 3000])
+  })
+
+  it('should resolve reaction add/remove by timestamp, not arrival order', async () => {
+    const event = await generator.createMessage('React to me', 1000)
+    const messageId = generator.computeEventId(event.encrypted)
+
+    // Removal arrives before the add it cancels, and both before the message
+    await storeReaction(messageId, '❤️', 1002, true)
+    await storeReaction(messageId, '❤️', 1001, false)
+    await storeReaction(messageId, '🎉', 1003, false)
+    await projection.storeEvent(event, messageId)
+
+    const reactions = projection.getReactions(messageId)
+    expect(reactions.map(r => r.emoji)).toEqual(['🎉'])
+  })
+
+  it('should replay existing store contents on initialize', async () => {
+    const event = await generator.createMessage('Persisted', 1000)
+    await store.storeEvent(event, generator.computeEventId(event.encrypted))
+
+    const fresh = new MessageProjection(store, generator)
+    await fresh.initialize()
+
+    expect((await fresh.getMessages()).map(m => m.content)).toEqual(['Persisted'])
+    expect(await fresh.getMessageCount()).toBe(1)
+  })
+
+  it('should reset projected state on clear', async () => {
+    const event = await generator.createMessage('Gone soon', 1000)
+    await projection.storeEvent(event, generator.computeEventId(event.encrypted))
+
+    await projection.clear()
+
+    expect(await projection.getMessages()).toEqual([])
+    expect(await store.getAllEvents()).toEqual([])
+  })
+
+  it('should project events received through SyncManager', async () => {
+    // Exchange keys and trust on disk before Bob's crypto snapshots its trusted peers
+    await setupTrust()
+    const bobGenerator = new MessageGenerator('bob')
+    await bobGenerator.initialize()
+
+    const bobProjection = new MessageProjection(new InMemoryStore('bob'), bobGenerator)
+    const bobSync = new SyncManager(
+      { deviceId: 'bob', syncInterval: 5000 },
+      bobProjection,
+      new NetworkSimulator(),
+      bobGenerator
+    )
+
+    const message = await generator.createMessage('Over the wire', Date.now())
+    const eventId = generator.computeEventId(message.encrypted)
+    const event: NetworkEvent = {
+      id: 'net-1',
+      timestamp: Date.now(),
+      sourceDevice: 'alice',
+      targetDevice: 'bob',
+      type: 'message',
+      status: 'delivered',
+      payload: {
+        event_id: eventId,
+        encrypted: Array.from(message.encrypted),
+        timestamp: Date.now()
+      }
+    }
+    await (bobSync as any).handleNetworkEvent(event)
+
+    const messages = await bobProjection.getMessages()
+    expect(messages).toHaveLength(1)
+    expect(messages[0].id).toBe(eventId)
+    expect(messages[0].author).toBe('alice')
+    bobSync.stop()
+  })
+})
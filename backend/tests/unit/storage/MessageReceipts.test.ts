@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest'
+import request from 'supertest'
+import express from 'express'
+import * as fs from 'fs'
+import * as path from 'path'
+import { createMessageRoutes } from '../../../src/routes/messages'
+import { MessageProjection } from '../../../src/storage/MessageProjection'
+import { InMemoryStore } from '../../../src/storage/InMemoryStore'
+import { MessageGenerator } from '../../../src/crypto/MessageGenerator'
+import { SyncManager } from '../../../src/sync/SyncManager'
+import { NetworkSimulator } from '../../../src/network/NetworkSimulator'
+import { setupTrust } from '../../../src/setup-trust'
+
+describe('Message receipts', () => {
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+  let alice: MessageGenerator
+  let bob: MessageGenerator
+  let projection: MessageProjection
+
+  const storeSigned = async (generator: MessageGenerator, payload: any) => {
+    const event = await generator.createEvent(payload, payload.timestamp)
+    const eventId = generator.computeEventId(event.encrypted)
+    await projection.storeEvent(event, eventId)
+    return eventId
+  }
+
+  const storeMessage = async (generator: MessageGenerator, content: string, timestamp: number) => {
+    const event = await generator.createMessage(content, timestamp)
+    const eventId = generator.computeEventId(event.encrypted)
+    await projection.storeEvent(event, eventId)
+    return eventId
+  }
+
+  const receipt = (author: string, kind: 'delivered' | 'read', messageIds: string[], timestamp: number) =>
+    ({ type: 'receipt', kind, messageIds, author, timestamp })
+
+  // Let async network handlers finish decrypting and storing
+  const settle = () => new Promise(resolve => setTimeout(resolve, 100))
+
+  beforeAll(async () => {
+    await setupTrust()
+    alice = new MessageGenerator('alice')
+    await alice.initialize()
+    bob = new MessageGenerator('bob')
+    await bob.initialize()
+  })
+
+  beforeEach(() => {
+    projection = new MessageProjection(new InMemoryStore('alice'), alice)
+  })
+
+  afterAll(() => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should fold delivered and read receipts per device, earliest first', async () => {
+    const messageId = await storeMessage(alice, 'Hi Bob', 1000)
+
+    await storeSigned(bob, receipt('bob', 'read', [messageId], 3000))
+    expect(projection.getReceipts(messageId)).toEqual([{ device: 'bob', deliveredAt: 3000, readAt: 3000 }])
+
+    // A delivered receipt that was overtaken by the read receipt still sets deliveredAt
+    await storeSigned(bob, receipt('bob', 'delivered', [messageId], 2000))
+    await storeSigned(bob, receipt('bob', 'read', [messageId], 4000))
+    expect(projection.getReceipts(messageId)).toEqual([{ device: 'bob', deliveredAt: 2000, readAt: 3000 }])
+    expect(projection.hasRead(messageId, 'bob')).toBe(true)
+  })
+
+  it('should ignore receipts from the message\'s own author', async () => {
+    const messageId = await storeMessage(alice, 'Note to self', 1000)
+    await storeSigned(alice, receipt('alice', 'read', [messageId], 2000))
+
+    expect(projection.getReceipts(messageId)).toEqual([])
+  })
+
+  it('should apply receipts that arrive before their message', async () => {
+    const event = await alice.createMessage('Late', 1000)
+    const messageId = alice.computeEventId(event.encrypted)
+
+    await storeSigned(bob, receipt('bob', 'delivered', [messageId], 2000))
+    await projection.storeEvent(event, messageId)
+
+    expect(projection.getReceipts(messageId)).toEqual([{ device: 'bob', deliveredAt: 2000 }])
+  })
+
+  it('should batch delivered receipts for messages stored by sync', async () => {
+    const network = new NetworkSimulator()
+    const bobProjection = new MessageProjection(new InMemoryStore('bob'), bob)
+    const aliceSync = new SyncManager({ deviceId: 'alice', syncInterval: 60000, receiptDelay: 60000 }, projection, network, alice)
+    const bobSync = new SyncManager({ deviceId: 'bob', syncInterval: 60000, receiptDelay: 60000 }, bobProjection, network, bob)
+    await aliceSync.start()
+    await bobSync.start()
+
+    const messageIds: string[] = []
+    for (const content of ['one', 'two', 'three']) {
+      const event = await alice.createMessage(content, Date.now())
+      const eventId = alice.computeEventId(event.encrypted)
+      await projection.storeEvent(event, eventId)
+      await aliceSync.broadcastNewMessage(event, eventId)
+      messageIds.push(eventId)
+    }
+    network.tick(1000)
+    await settle()
+
+    await bobSync.flushDeliveryReceipts()
+    const bobEvents = await bobProjection.getAllEvents()
+    expect(bobEvents).toHaveLength(4)
+
+    network.tick(2000)
+    await settle()
+
+    for (const messageId of messageIds) {
+      const receipts = projection.getReceipts(messageId)
+      expect(receipts.map(r => r.device)).toEqual(['bob'])
+      expect(receipts[0].readAt).toBeUndefined()
+    }
+
+    aliceSync.stop()
+    bobSync.stop()
+  })
+
+  describe('POST /api/messages/read', () => {
+    let app: express.Application
+
+    beforeEach(() => {
+      app = express()
+      app.use(express.json())
+      app.use((req, res, next) => {
+        (req as any).deviceId = 'alice'
+        next()
+      })
+      app.use('/api/messages', createMessageRoutes(projection, alice))
+    })
+
+    it('should send one read receipt for unread messages from others', async () => {
+      const fromBob = await storeMessage(bob, 'Hello Alice', 1000)
+      const alsoFromBob = await storeMessage(bob, 'Are you there?', 2000)
+      const fromAlice = await storeMessage(alice, 'Hello Bob', 3000)
+      const before = await request(app).get('/api/messages').expect(200)
+
+      const response = await request(app)
+        .post('/api/messages/read')
+        .send({ messageIds: [fromBob, alsoFromBob, fromAlice, fromBob, 'unknown'] })
+        .expect(200)
+      expect(response.body.messageIds).toEqual([fromBob, alsoFromBob])
+
+      const again = await request(app).post('/api/messages/read').send({ messageIds: [fromBob] }).expect(200)
+      expect(again.body.messageIds).toEqual([])
+
+      const changed = await request(app)
+        .get('/api/messages')
+        .query({ changedSince: before.body.revision })
+        .expect(200)
+      expect(changed.body.messages.map((m: any) => m.id)).toEqual([fromBob, alsoFromBob])
+      expect(changed.body.messages[0].receipts).toEqual([
+        expect.objectContaining({ device: 'alice', readAt: expect.any(Number) })
+      ])
+    })
+
+    it('should reject malformed requests', async () => {
+      await request(app).post('/api/messages/read').send({ messageIds: 'abc' }).expect(400)
+    })
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest'
+import request from 'supertest'
+import express from 'express'
+import * as fs from 'fs'
+import * as path from 'path'
+import { createMessageRoutes } from '../../../src/routes/messages'
+import { MessageProjection } from '../../../src/storage/MessageProjection'
+import { InMemoryStore } from '../../../src/storage/InMemoryStore'
+import { MessageGenerator } from '../../../src/crypto/MessageGenerator'
+
+describe('Threaded replies', () => {
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+  let generator: MessageGenerator
+  let projection: MessageProjection
+  let app: express.Application
+
+  const createMessage = async (content: string, timestamp: number, replyTo?: string) => {
+    const event = await generator.createMessage(content, timestamp, [], { replyTo })
+    return { event, id: generator.computeEventId(event.encrypted) }
+  }
+
+  const addMessage = async (content: string, timestamp: number, replyTo?: string) => {
+    const { event, id } = await createMessage(content, timestamp, replyTo)
+    await projection.storeEvent(event, id)
+    return id
+  }
+
+  const getThread = async (id: string) => {
+    const response = await request(app).get(`/api/messages/${id}/thread`).expect(200)
+    return response.body
+  }
+
+  beforeAll(async () => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+    generator = new MessageGenerator('alice')
+    await generator.initialize()
+  })
+
+  beforeEach(() => {
+    projection = new MessageProjection(new InMemoryStore('alice'), generator)
+    app = express()
+    app.use(express.json())
+    app.use((req, res, next) => {
+      (req as any).deviceId = 'alice'
+      next()
+    })
+    app.use('/api/messages', createMessageRoutes(projection, generator))
+  })
+
+  afterAll(() => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should return the whole thread from any message in it', async () => {
+    const root = await addMessage('Lunch?', 1000)
+    const reply = await addMessage('Sure', 2000, root)
+    const nested = await addMessage('Where?', 3000, reply)
+    await addMessage('Unrelated', 2500)
+
+    for (const id of [root, reply, nested]) {
+      const thread = await getThread(id)
+      expect(thread.rootId).toBe(root)
+      expect(thread.missingParentId).toBeNull()
+      expect(thread.messages.map((m: any) => m.content)).toEqual(['Lunch?', 'Sure', 'Where?'])
+    }
+  })
+
+  it('should put replies after their parent even with a skewed clock', async () => {
+    const root = await addMessage('Question', 5000)
+    // The replier's clock is behind, so its timestamps predate the parent's
+    const answer = await addMessage('Answer', 4000, root)
+    await addMessage('Follow-up', 3000, answer)
+    await addMessage('Second answer', 6000, root)
+
+    const thread = await getThread(root)
+    expect(thread.messages.map((m: any) => m.content)).toEqual(['Question', 'Answer', 'Follow-up', 'Second answer'])
+  })
+
+  it('should attach replies that arrive before their parent', async () => {
+    const parent = await createMessage('Parent', 1000)
+    const reply = await addMessage('Early reply', 2000, parent.id)
+
+    const orphaned = await getThread(reply)
+    expect(orphaned.rootId).toBe(reply)
+    expect(orphaned.missingParentId).toBe(parent.id)
+
+    await projection.storeEvent(parent.event, parent.id)
+
+    const joined = await getThread(reply)
+    expect(joined.rootId).toBe(parent.id)
+    expect(joined.messages.map((m: any) => m.content)).toEqual(['Parent', 'Early reply'])
+    expect(joined.messages[0].replyCount).toBe(1)
+  })
+
+  it('should report reply counts to changedSince pollers', async () => {
+    const root = await addMessage('Root', 1000)
+    const revision = projection.getRevision()
+
+    await addMessage('Reply', 2000, root)
+
+    const changed = await request(app).get('/api/messages').query({ changedSince: revision }).expect(200)
+    const updatedRoot = changed.body.messages.find((m: any) => m.id === root)
+    expect(updatedRoot.replyCount).toBe(1)
+  })
+
+  it('should post replies and reject unknown parents', async () => {
+    const root = await addMessage('Root', 1000)
+
+    const response = await request(app).post('/api/messages').send({ content: 'Reply', replyTo: root }).expect(200)
+    expect(response.body.replyTo).toBe(root)
+
+    await request(app).post('/api/messages').send({ content: 'Reply', replyTo: 'missing' }).expect(404)
+    await request(app).get('/api/messages/missing/thread').expect(404)
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { SQLiteStore } from '../../../src/storage/SQLiteStore'
+import { InMemoryStore } from '../../../src/storage/InMemoryStore'
+import { createEventStore } from '../../../src/storage/createEventStore'
+
+describe('SQLiteStore', () => {
+  let tmpDir: string
+  let dbPath: string
+  let store: SQLiteStore
+
+  const makeEvent = (createdAt: number, bytes: number[]) => ({
+    device_id: 'alice',
+    created_at: createdAt,
+    received_at: createdAt + 5,
+    encrypted: Buffer.from(bytes)
+  })
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-store-'))
+    dbPath = path.join(tmpDir, 'alice.db')
+    store = new SQLiteStore('alice', dbPath)
+  })
+
+  afterEach(async () => {
+    await store.close()
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it('should store and retrieve events', async () => {
+    await store.storeEvent(makeEvent(1000, [1, 2, 3]), 'event-1')
+
+    const event = await store.getEvent('event-1')
+    expect(event).not.toBeNull()
+    expect(event!.event_id).toBe('event-1')
+    expect(event!.device_id).toBe('alice')
+    expect(event!.created_at).toBe(1000)
+    expect(event!.received_at).toBe(1005)
+    expect(Buffer.isBuffer(event!.encrypted)).toBe(true)
+    expect(Array.from(event!.encrypted)).toEqual([1, 2, 3])
+  })
+
+  it('should return null for unknown events', async () => {
+    expect(await store.getEvent('missing')).toBeNull()
+  })
+
+  it('should return events ordered by created_at', async () => {
+    await store.storeEvent(makeEvent(3000, [3]), 'c')
+    await store.storeEvent(makeEvent(1000, [1]), 'a')
+    await store.storeEvent(makeEvent(2000, [2]), 'b')
+
+    const all = await store.getAllEvents()
+    expect(all.map(e => e.event_id)).toEqual(['a', 'b', 'c'])
+
+    const since = await store.getAllEventsSince(1000)
+    expect(since.map(e => e.event_id)).toEqual(['b', 'c'])
+  })
+
+  it('should persist events across reopen', async () => {
+    await store.storeEvent(makeEvent(1000, [9, 9]), 'persisted')
+    await store.close()
+
+    store = new SQLiteStore('alice', dbPath)
+    const event = await store.getEvent('persisted')
+    expect(event).not.toBeNull()
+    expect(Array.from(event!.encrypted)).toEqual([9, 9])
+  })
+
+  it('should clear all events', async () => {
+    await store.storeEvent(makeEvent(1000, [1]), 'a')
+    await store.clear()
+
+    expect(await store.getAllEvents()).toEqual([])
+  })
+
+  it('should drop purged ciphertext and refuse to store it again across reopen', async () => {
+    await store.storeEvent(makeEvent(1000, [1]), 'retracted')
+    await store.purgeEvent('retracted')
+    await store.close()
+
+    store = new SQLiteStore('alice', dbPath)
+    await store.storeEvent(makeEvent(1000, [1]), 'retracted')
+
+    expect(await store.getEvent('retracted')).toBeNull()
+    expect(await store.isPurged('retracted')).toBe(true)
+    expect(await store.getPurgedEventIds()).toEqual(['retracted'])
+    expect(await store.getPurgedAuthor('retracted')).toBe('alice')
+  })
+
+  it('should add the purged author column to an older database', async () => {
+    await store.close()
+    fs.rmSync(dbPath)
+    const Database = (await import('better-sqlite3')).default
+    const db = new Database(dbPath)
+    db.exec('CREATE TABLE purged_events (event_id TEXT PRIMARY KEY, purged_at INTEGER)')
+    db.prepare('INSERT INTO purged_events VALUES (?, ?)').run('old', 1)
+    db.close()
+
+    store = new SQLiteStore('alice', dbPath)
+    expect(await store.getPurgedAuthor('old')).toBeNull()
+    await store.storeEvent(makeEvent(1000, [2]), 'new')
+    await store.purgeEvent('new')
+    expect(await store.getPurgedAuthor('new')).toBe('alice')
+  })
+})
+
+describe('createEventStore', () => {
+  it('should default to an in-memory store', async () => {
+    const store = createEventStore('alice', { type: 'memory' })
+    expect(store).toBeInstanceOf(InMemoryStore)
+  })
+
+  it('should create a per-device SQLite store', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-store-'))
+    const dbPath = path.join(tmpDir, 'nested', 'bob.db')
+
+    const store = createEventStore('bob', { type: 'sqlite', dbPath })
+    expect(store).toBeInstanceOf(SQLiteStore)
+    expect(fs.existsSync(dbPath)).toBe(true)
+
+    await store.close()
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import { BloomBroadcastCache } from '../../../src/sync/BloomBroadcastCache'
+import { BloomFilter, PeerKnowledge } from '../../../src/sync/BloomFilter'
+import { SyncManager } from '../../../src/sync/SyncManager'
+import { InMemoryStore } from '../../../src/storage/InMemoryStore'
+import { MessageGenerator } from '../../../src/crypto/MessageGenerator'
+import { NetworkSimulator } from '../../../src/network/NetworkSimulator'
+import { setupTrust } from '../../../src/setup-trust'
+
+describe('BloomBroadcastCache', () => {
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+  let alice: MessageGenerator
+  let bob: MessageGenerator
+
+  beforeAll(async () => {
+    await setupTrust()
+    alice = new MessageGenerator('alice')
+    await alice.initialize()
+    bob = new MessageGenerator('bob')
+    await bob.initialize()
+  })
+
+  afterAll(() => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should seal a filter peers can open and read back', async () => {
+    const filter = BloomFilter.createUDPOptimal()
+    filter.add('event-1')
+    const cache = new BloomBroadcastCache('alice', alice)
+
+    const cached = await cache.getBlob(filter, 1, 5000)
+    const opened = await bob.openBloomFilter(cached.blob)
+
+    expect(opened).toMatchObject({ type: 'bloom_filter', version: cached.version, eventCount: 1, author: 'alice' })
+    const received = BloomFilter.deserialize(new Uint8Array(Buffer.from(opened!.filter, 'base64')))
+    expect(received.test('event-1')).toBe(true)
+    expect(cached.filterSize).toBe(filter.sizeInBytes() + 10)
+  })
+
+  it('should reuse the blob until the age or new-event trigger fires', async () => {
+    const filter = BloomFilter.createUDPOptimal()
+    const cache = new BloomBroadcastCache('alice', alice, { maxAge: 10000, maxNewEvents: 5, minInterval: 1000 })
+
+    const first = await cache.getBlob(filter, 10, 0)
+    expect(await cache.getBlob(filter, 14, 5000)).toBe(first)
+
+    // Enough new events, but too soon after the last build
+    expect(cache.needsUpdate(20, 500)).toBe(false)
+
+    const second = await cache.getBlob(filter, 15, 5000)
+    expect(second).not.toBe(first)
+    expect(second.version).toBeGreaterThan(first.version)
+
+    expect(cache.needsUpdate(15, 14999)).toBe(false)
+    const third = await cache.getBlob(filter, 15, 15000)
+    expect(third.version).toBeGreaterThan(second.version)
+  })
+
+  it('should reject tampered filters and filters from another community', async () => {
+    const cache = new BloomBroadcastCache('alice', alice)
+    const { blob } = await cache.getBlob(BloomFilter.createUDPOptimal(), 0)
+
+    const tampered = Buffer.from(blob)
+    tampered[tampered.length - 1] ^= 0xff
+    expect(await bob.openBloomFilter(tampered)).toBeNull()
+
+    const outsider = new MessageGenerator('alice')
+    ;(outsider as any).communityPSK = 'another-community'
+    await outsider.initialize()
+    const foreign = await new BloomBroadcastCache('alice', outsider).getBlob(BloomFilter.createUDPOptimal(), 0)
+    expect(await bob.openBloomFilter(foreign.blob)).toBeNull()
+
+    // Signed events aren't filters
+    const message = await alice.createMessage('Hello', Date.now())
+    expect(await bob.openBloomFilter(message.encrypted)).toBeNull()
+  })
+
+  describe('SyncManager', () => {
+    it('should act on each filter version once and ignore forged senders', async () => {
+      const network = new NetworkSimulator()
+      const aliceStore = new InMemoryStore('alice')
+      for (let i = 0; i < 3; i++) {
+        const event = await alice.createMessage(`Hello ${i}`, Date.now() + i)
+        await aliceStore.storeEvent(event, alice.computeEventId(event.encrypted))
+      }
+
+      // Resend at once, so only the version check holds repeats back
+      const aliceSync = new SyncManager({ deviceId: 'alice', syncInterval: 60000, bloomUpdate: { maxAge: 60000 } }, aliceStore, network, alice)
+      ;(aliceSync as any).peerKnowledge = new PeerKnowledge(0)
+      await aliceSync.start()
+
+      const { blob } = await new BloomBroadcastCache('bob', bob).getBlob(BloomFilter.createUDPOptimal(), 0)
+      const packet = { type: 'bloom_sync', deviceId: 'bob', sealed: blob.toString('base64') }
+      const sentTo = (target: string) => network.getNetworkEvents()
+        .filter(e => e.type === 'event_batch' && e.targetDevice === target)
+        .reduce((count, e) => count + e.payload.events.length, 0)
+
+      await (aliceSync as any).handleBloomSync(packet, 'bob')
+      expect(sentTo('bob')).toBe(3)
+
+      await (aliceSync as any).handleBloomSync(packet, 'bob')
+      expect(sentTo('bob')).toBe(3)
+
+      // Bob's signature doesn't make carol's packet
+      await (aliceSync as any).handleBloomSync(packet, 'carol')
+      expect(sentTo('carol')).toBe(0)
+
+      aliceSync.stop()
+    })
+  })
+})
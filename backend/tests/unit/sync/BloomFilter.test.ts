@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { BloomFilter } from '../../../src/sync/BloomFilter'
+
+describe('BloomFilter salts', () => {
+  const ids = (prefix: string, count: number) =>
+    Array.from({ length: count }, (_, i) => `${prefix}${i.toString(16).padStart(12, '0')}`)
+
+  it('should carry the salt through the version 2 wire format', () => {
+    const filter = BloomFilter.createUDPOptimal(0xdeadbeef)
+    filter.add('event-1')
+
+    const data = filter.serialize()
+    expect(data[0]).toBe(2)
+
+    const received = BloomFilter.deserialize(data)
+    expect(received.getSalt()).toBe(0xdeadbeef)
+    expect(received.test('event-1')).toBe(true)
+  })
+
+  it('should still read unsalted version 1 filters', () => {
+    const filter = BloomFilter.createUDPOptimal()
+    filter.add('event-1')
+    const v2 = filter.serialize()
+
+    // Version 1 is the same header without the salt field
+    const v1 = new Uint8Array(v2.length - 4)
+    v1.set(v2.subarray(0, 6))
+    v1.set(v2.subarray(10), 6)
+    v1[0] = 1
+
+    const received = BloomFilter.deserialize(v1)
+    expect(received.getSalt()).toBe(0)
+    expect(received.test('event-1')).toBe(true)
+    expect(received.test('event-2')).toBe(false)
+  })
+
+  it('should refuse to merge filters built with different salts', () => {
+    expect(() => BloomFilter.merge(BloomFilter.createUDPOptimal(1), BloomFilter.createUDPOptimal(2))).toThrow()
+  })
+
+  it('should give each salt independent false positives', () => {
+    const held = ids('a', 400)
+    const probes = ids('b', 400)
+    const falsePositives = (salt: number) => {
+      const filter = new BloomFilter(300, 0.1, salt)
+      held.forEach(id => filter.add(id))
+      return new Set(probes.filter(id => filter.test(id)))
+    }
+
+    const first = falsePositives(11)
+    const second = falsePositives(12)
+    const both = [...first].filter(id => second.has(id))
+
+    expect(first.size).toBeGreaterThan(40)
+    // Independent sets overlap about as much as chance predicts, not entirely
+    expect(both.length).toBeLessThan(first.size * (second.size / probes.length) * 2)
+  })
+
+  it('should converge to 100% under a high false positive rate', () => {
+    // The receiver holds half of what the sender has; full, the filter is at
+    // twice its capacity and about 40% false positives
+    const senderIds = ids('e', 600)
+    const receiverHas = new Set(senderIds.filter((_, i) => i % 2 === 0))
+
+    const sync = (nextSalt: (round: number) => number) => {
+      const has = new Set(receiverHas)
+      for (let round = 0; round < 30 && has.size < senderIds.length; round++) {
+        const filter = new BloomFilter(300, 0.1, nextSalt(round))
+        has.forEach(id => filter.add(id))
+        senderIds.filter(id => !filter.test(id)).forEach(id => has.add(id))
+      }
+      return has.size / senderIds.length
+    }
+
+    // Fixed seeds: the same events hide behind false positives every round
+    expect(sync(() => 0)).toBeLessThan(1)
+    // A fresh salt each round reaches them all
+    expect(sync(round => round + 1)).toBe(1)
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import { createHash, randomBytes } from 'crypto'
+import { EventPacker, FragmentAssembler, unpackBatch } from '../../../src/sync/EventPacker'
+import { SyncManager } from '../../../src/sync/SyncManager'
+import { InMemoryStore } from '../../../src/storage/InMemoryStore'
+import { MessageGenerator } from '../../../src/crypto/MessageGenerator'
+import { NetworkSimulator } from '../../../src/network/NetworkSimulator'
+import { setupTrust } from '../../../src/setup-trust'
+
+const event = (size: number, label: string) => ({
+  event_id: createHash('sha256').update(label).digest('hex').slice(0, 16),
+  encrypted: new Uint8Array(randomBytes(size))
+})
+
+describe('EventPacker', () => {
+  it('should batch events into datagrams no larger than the MTU', () => {
+    const events = Array.from({ length: 20 }, (_, i) => event(150, `small ${i}`))
+    const packets = new EventPacker(1200).pack(events)
+
+    expect(packets.every(packet => packet.type === 'event_batch')).toBe(true)
+    expect(packets.length).toBeLessThan(events.length / 3)
+    packets.forEach(packet => expect(Buffer.byteLength(JSON.stringify(packet.payload))).toBeLessThanOrEqual(1200))
+
+    const unpacked = packets.flatMap(packet => unpackBatch(packet.payload))
+    expect(unpacked.map(e => e.eventId)).toEqual(events.map(e => e.event_id))
+    expect(unpacked[7].encrypted).toEqual(events[7].encrypted)
+  })
+
+  it('should keep batches within what one binary frame can carry', () => {
+    const events = Array.from({ length: 600 }, (_, i) => event(8, `tiny ${i}`))
+    const packets = new EventPacker(100000).pack(events)
+
+    expect(packets.map(packet => packet.type === 'event_batch' && packet.payload.events.length)).toEqual([255, 255, 90])
+  })
+
+  it('should fragment an oversized event and reassemble it in any order', () => {
+    const big = event(5000, 'big')
+    const packets = new EventPacker(1200).pack([event(100, 'before'), big, event(100, 'after')])
+    const fragments = packets.filter(packet => packet.type === 'event_fragment')
+
+    expect(fragments.length).toBeGreaterThan(4)
+    packets.forEach(packet => expect(Buffer.byteLength(JSON.stringify(packet.payload))).toBeLessThanOrEqual(1200))
+
+    const assembler = new FragmentAssembler()
+    const shuffled = [...fragments].reverse()
+    const results = shuffled.map(packet => assembler.add('bob', packet.payload))
+    // Duplicates and strays from another sender don't complete it early
+    expect(assembler.add('carol', fragments[0].payload)).toBeNull()
+    expect(results.slice(0, -1).every(result => result === null)).toBe(true)
+    expect(results[results.length - 1]).toEqual({ eventId: big.event_id, encrypted: big.encrypted })
+    expect(assembler.getPendingCount()).toBe(1)
+
+    assembler.expire(Date.now() + 30000)
+    expect(assembler.getPendingCount()).toBe(0)
+    expect(() => new EventPacker(100)).toThrow('MTU must be at least')
+  })
+})
+
+describe('SyncManager event packing', () => {
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+  let alice: MessageGenerator
+  let bob: MessageGenerator
+
+  beforeAll(async () => {
+    await setupTrust()
+    alice = new MessageGenerator('alice')
+    await alice.initialize()
+    bob = new MessageGenerator('bob')
+    await bob.initialize()
+  })
+
+  afterAll(() => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should sync batched and fragmented events and count bytes per packet type', async () => {
+    const network = new NetworkSimulator({ packetLossRate: 0, minLatency: 10, maxLatency: 10, jitter: 0 })
+    const aliceStore = new InMemoryStore('alice')
+    const bobStore = new InMemoryStore('bob')
+    const stored: string[] = []
+    for (let i = 0; i < 10; i++) {
+      const content = i === 0 ? 'x'.repeat(4000) : `alice ${i}`
+      const message = await alice.createMessage(content, Date.now() - 3600000 + i)
+      const eventId = alice.computeEventId(message.encrypted)
+      await aliceStore.storeEvent(message, eventId)
+      stored.push(eventId)
+    }
+
+    const config = { syncInterval: 60000, receiptDelay: 60000, mtu: 1200 }
+    const aliceSync = new SyncManager({ deviceId: 'alice', ...config }, aliceStore, network, alice)
+    const bobSync = new SyncManager({ deviceId: 'bob', ...config }, bobStore, network, bob)
+
+    let time = 0
+    const deliver = async (hops: number) => {
+      for (let hop = 0; hop < hops; hop++) {
+        time += 1000
+        network.tick(time)
+        await new Promise(resolve => setTimeout(resolve, 100))
+      }
+    }
+
+    // Bob's filter reaches Alice, who answers with everything it lacks
+    await aliceSync.start()
+    await bobSync.start()
+    await deliver(4)
+
+    const received = (await bobStore.getAllEvents()).map(e => e.event_id)
+    expect(received).toEqual(expect.arrayContaining(stored))
+
+    const packets = network.getNetworkEvents().filter(e => e.sourceDevice === 'alice' && e.status === 'sent')
+    const types = packets.map(e => e.type)
+    expect(types).toContain('event_fragment')
+    expect(types).not.toContain('message')
+    packets
+      .filter(e => e.type === 'event_batch' || e.type === 'event_fragment')
+      .forEach(e => expect(Buffer.byteLength(JSON.stringify(e.payload))).toBeLessThanOrEqual(1200))
+
+    const stats = aliceSync.getStats()
+    expect(stats.bytesByType.event_batch).toBeGreaterThan(0)
+    expect(stats.bytesByType.event_fragment).toBeGreaterThan(4000)
+    expect(Object.values(stats.bytesByType).reduce((a, b) => a + b, 0)).toBe(stats.bytesSent)
+
+    // Counted as encoded for the wire, and split by what the events were
+    expect(packets.reduce((sum, e) => sum + e.bytes!, 0)).toBe(stats.bytesSent)
+    expect(stats.bytesByEventType).toEqual({ message: stats.bytesByType.event_batch + stats.bytesByType.event_fragment })
+
+    aliceSync.stop()
+    bobSync.stop()
+  })
+})
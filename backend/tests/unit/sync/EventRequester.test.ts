@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import { EventRequester } from '../../../src/sync/EventRequester'
+import { SyncManager } from '../../../src/sync/SyncManager'
+import { InMemoryStore } from '../../../src/storage/InMemoryStore'
+import { MessageProjection } from '../../../src/storage/MessageProjection'
+import { MessageGenerator } from '../../../src/crypto/MessageGenerator'
+import { NetworkSimulator } from '../../../src/network/NetworkSimulator'
+import { setupTrust } from '../../../src/setup-trust'
+
+describe('EventRequester', () => {
+  it('should keep one request per event and rotate peers on timeout', () => {
+    const requester = new EventRequester({ timeout: 1000, maxAttempts: 3 })
+
+    expect(requester.request('e1', ['bob', 'carol'], 0)).toEqual({ eventId: 'e1', peerId: 'bob' })
+    expect(requester.request('e1', ['carol', 'dave'], 100)).toBeNull()
+    expect(requester.due(999)).toEqual([])
+
+    expect(requester.due(1000)).toEqual([{ eventId: 'e1', peerId: 'carol' }])
+    expect(requester.due(2000)).toEqual([{ eventId: 'e1', peerId: 'dave' }])
+    expect(requester.due(3000)).toEqual([])
+    expect(requester.isPending('e1')).toBe(false)
+  })
+
+  it('should move on when a peer lacks the event', () => {
+    const requester = new EventRequester()
+
+    requester.request('e1', ['bob', 'carol'], 0)
+    expect(requester.peerLacks('e1', 'bob', 10)).toEqual({ eventId: 'e1', peerId: 'carol' })
+    expect(requester.peerLacks('e1', 'carol', 20)).toBeNull()
+    expect(requester.getPendingCount()).toBe(0)
+
+    expect(requester.request('e2', [], 0)).toBeNull()
+    requester.request('e3', ['bob'], 0)
+    expect(requester.resolve('e3')).toBe(true)
+    expect(requester.due(Number.MAX_SAFE_INTEGER)).toEqual([])
+  })
+})
+
+describe('SyncManager event requests', () => {
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+  let alice: MessageGenerator
+  let bob: MessageGenerator
+
+  beforeAll(async () => {
+    await setupTrust()
+    alice = new MessageGenerator('alice')
+    await alice.initialize()
+    bob = new MessageGenerator('bob')
+    await bob.initialize()
+  })
+
+  afterAll(() => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should pull the parent of a reply from the peer that sent it', async () => {
+    const network = new NetworkSimulator({ packetLossRate: 0, minLatency: 10, maxLatency: 10, jitter: 0 })
+    const aliceStore = new MessageProjection(new InMemoryStore('alice'), alice)
+    const bobStore = new InMemoryStore('bob')
+    const config = { syncInterval: 60000, receiptDelay: 60000 }
+    const aliceSync = new SyncManager({ deviceId: 'alice', ...config }, aliceStore, network, alice)
+    const bobSync = new SyncManager({ deviceId: 'bob', ...config }, bobStore, network, bob)
+    aliceStore.onMissingEvent((eventId, referencedBy) => {
+      void aliceSync.requestEvent(eventId, referencedBy)
+    })
+
+    let time = 0
+    const deliver = async (hops: number) => {
+      for (let hop = 0; hop < hops; hop++) {
+        time += 1000
+        network.tick(time)
+        await new Promise(resolve => setTimeout(resolve, 100))
+      }
+    }
+
+    await aliceSync.start()
+    await bobSync.start()
+    await deliver(4)
+
+    // Bob stores the parent quietly, then pushes only the reply
+    const parent = await bob.createMessage('parent', Date.now())
+    const parentId = bob.computeEventId(parent.encrypted)
+    await bobStore.storeEvent(parent, parentId)
+    const reply = await bob.createMessage('reply', Date.now(), undefined, { replyTo: parentId })
+    const replyId = bob.computeEventId(reply.encrypted)
+    await bobStore.storeEvent(reply, replyId)
+    await bobSync.broadcastNewMessage(reply, replyId)
+    await deliver(4)
+
+    expect(await aliceStore.getEvent(replyId)).not.toBeNull()
+    expect(await aliceStore.getEvent(parentId)).not.toBeNull()
+    expect((await aliceStore.getMessage(parentId))?.author).toBe('bob')
+    expect(aliceStore.getReplyCount(parentId)).toBe(1)
+    expect(aliceSync.getStats().eventsRequested).toBe(1)
+
+    aliceSync.stop()
+    bobSync.stop()
+  })
+
+  it('should refuse a relayed event whose author is not its signer', async () => {
+    const network = new NetworkSimulator({ packetLossRate: 0, minLatency: 10, maxLatency: 10, jitter: 0 })
+    const aliceStore = new MessageProjection(new InMemoryStore('alice'), alice)
+    const bobStore = new InMemoryStore('bob')
+    const config = { syncInterval: 60000, receiptDelay: 60000 }
+    const aliceSync = new SyncManager({ deviceId: 'alice', ...config }, aliceStore, network, alice)
+    const bobSync = new SyncManager({ deviceId: 'bob', ...config }, bobStore, network, bob)
+    aliceStore.onMissingEvent((eventId, referencedBy) => {
+      void aliceSync.requestEvent(eventId, referencedBy)
+    })
+
+    let time = 0
+    const deliver = async (hops: number) => {
+      for (let hop = 0; hop < hops; hop++) {
+        time += 1000
+        network.tick(time)
+        await new Promise(resolve => setTimeout(resolve, 100))
+      }
+    }
+
+    await aliceSync.start()
+    await bobSync.start()
+    await deliver(4)
+
+    // Signed by Bob but claiming Carol wrote it, then relayed as a reply's parent
+    const forged = await bob.createEvent({ type: 'message', content: 'from carol', timestamp: Date.now(), author: 'carol' }, Date.now())
+    const forgedId = bob.computeEventId(forged.encrypted)
+    await bobStore.storeEvent({ ...forged, device_id: 'carol' }, forgedId)
+    const reply = await bob.createMessage('reply', Date.now(), undefined, { replyTo: forgedId })
+    const replyId = bob.computeEventId(reply.encrypted)
+    await bobStore.storeEvent(reply, replyId)
+    await bobSync.broadcastNewMessage(reply, replyId)
+    await deliver(4)
+
+    expect(await aliceStore.getEvent(replyId)).not.toBeNull()
+    expect(aliceSync.getStats().eventsRequested).toBe(1)
+    expect(await aliceStore.getEvent(forgedId)).toBeNull()
+
+    aliceSync.stop()
+    bobSync.stop()
+  })
+})
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import { EventScanQueue } from '../../../src/sync/EventScanQueue'
+import { BloomFilter, PeerKnowledge } from '../../../src/sync/BloomFilter'
+import { SyncManager } from '../../../src/sync/SyncManager'
+import { InMemoryStore } from '../../../src/storage/InMemoryStore'
+import { MessageGenerator } from '../../../src/crypto/MessageGenerator'
+import { NetworkSimulator } from '../../../src/network/NetworkSimulator'
+import { setupTrust } from '../../../src/setup-trust'
+import type { StoredEvent } from '../../../src/storage/EventStore'
+
+describe('EventScanQueue', () => {
+  const now = 10_000_000
+  const options = { recentEventsBatch: 50, olderEventsBatch: 20, maxEventsPerRound: 10 }
+
+  const makeEvents = (count: number, newest: number): StoredEvent[] =>
+    Array.from({ length: count }, (_, i) => ({
+      event_id: `event-${i}`,
+      device_id: 'alice',
+      created_at: newest - i * 1000,
+      received_at: newest - i * 1000,
+      encrypted: Buffer.from([i % 256])
+    }))
+
+  it('should eventually send every missing event, oldest included', () => {
+    const queue = new EventScanQueue()
+    queue.updateFromStore(makeEvents(500, now - 120000), now)
+    const peerHas = new Set<string>()
+
+    let rounds = 0
+    while (peerHas.size < 500 && rounds < 100) {
+      const batch = queue.getEventsToSend('bob', id => !peerHas.has(id), options)
+      expect(batch.length).toBeLessThanOrEqual(options.maxEventsPerRound)
+      batch.forEach(event => peerHas.add(event.event_id))
+      rounds++
+    }
+
+    expect(peerHas.size).toBe(500)
+    expect(rounds).toBe(50)
+  })
+
+  it('should reach a single old gap within one pass over the older events', () => {
+    const queue = new EventScanQueue()
+    const events = makeEvents(200, now - 120000)
+    queue.updateFromStore(events, now)
+    const missing = events[events.length - 1].event_id
+
+    let rounds = 0
+    let found = false
+    while (!found && rounds < 20) {
+      found = queue.getEventsToSend('bob', id => id === missing, options).length > 0
+      rounds++
+    }
+
+    expect(found).toBe(true)
+    expect(rounds).toBe(Math.ceil(200 / options.olderEventsBatch))
+  })
+
+  it('should put recent events ahead of older ones', () => {
+    const queue = new EventScanQueue()
+    const recent = makeEvents(3, now).map(e => ({ ...e, event_id: `recent-${e.event_id}` }))
+    queue.updateFromStore([...makeEvents(100, now - 120000), ...recent], now)
+
+    const batch = queue.getEventsToSend('bob', () => true, options)
+    expect(batch.slice(0, 3).map(e => e.event_id)).toEqual(recent.map(e => e.event_id))
+    expect(batch).toHaveLength(options.maxEventsPerRound)
+  })
+
+  it('should keep a separate position for each peer', () => {
+    const queue = new EventScanQueue()
+    queue.updateFromStore(makeEvents(100, now - 120000), now)
+
+    const first = queue.getEventsToSend('bob', () => true, options)
+    const second = queue.getEventsToSend('bob', () => true, options)
+    const carol = queue.getEventsToSend('carol', () => true, options)
+
+    expect(second[0].event_id).not.toBe(first[0].event_id)
+    expect(carol.map(e => e.event_id)).toEqual(first.map(e => e.event_id))
+  })
+})
+
+describe('PeerKnowledge', () => {
+  it('should hold back events in flight until they are acknowledged or time out', () => {
+    const knowledge = new PeerKnowledge(1000)
+    knowledge.markSent('bob', ['a', 'b'], 0)
+
+    expect(knowledge.shouldSendEvent('bob', 'a', 500)).toBe(false)
+    expect(knowledge.shouldSendEvent('bob', 'c', 500)).toBe(true)
+
+    const filter = BloomFilter.createUDPOptimal()
+    filter.add('a')
+    knowledge.updatePeer('bob', filter)
+    expect(knowledge.getPendingCount('bob')).toBe(1)
+    expect(knowledge.shouldSendEvent('bob', 'a', 5000)).toBe(false)
+
+    // b was lost; try again once the resend delay has passed
+    expect(knowledge.shouldSendEvent('bob', 'b', 1000)).toBe(true)
+  })
+})
+
+describe('SyncManager prioritized scanning', () => {
+  // Rebuild the broadcast filter on every round these tests drive by hand
+  const everyRound = { maxAge: 0, minInterval: 0 }
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+  let alice: MessageGenerator
+  let bob: MessageGenerator
+
+  beforeAll(async () => {
+    await setupTrust()
+    alice = new MessageGenerator('alice')
+    await alice.initialize()
+    bob = new MessageGenerator('bob')
+    await bob.initialize()
+  })
+
+  afterAll(() => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should deliver a backlog larger than one round over successive Bloom rounds', async () => {
+    // Fixed latency keeps filters in send order, so no version is skipped
+    const network = new NetworkSimulator({ packetLossRate: 0, minLatency: 10, maxLatency: 10, jitter: 0 })
+    const aliceStore = new InMemoryStore('alice')
+    const bobStore = new InMemoryStore('bob')
+
+    // Old history, so none of it is in the recent tier
+    const start = Date.now() - 3600000
+    for (let i = 0; i < 35; i++) {
+      const event = await alice.createMessage(`backlog ${i}`, start + i)
+      await aliceStore.storeEvent(event, alice.computeEventId(event.encrypted))
+    }
+
+    const aliceSync = new SyncManager({ deviceId: 'alice', syncInterval: 60000, bloomUpdate: everyRound }, aliceStore, network, alice)
+    const bobSync = new SyncManager({ deviceId: 'bob', syncInterval: 60000, receiptDelay: 60000, bloomUpdate: everyRound }, bobStore, network, bob)
+    await aliceSync.start()
+    await bobSync.start()
+
+    let time = 0
+    for (let round = 0; round < 4; round++) {
+      await (bobSync as any).performSync()
+      for (let hop = 0; hop < 2; hop++) {
+        time += 1000
+        network.tick(time)
+        await new Promise(resolve => setTimeout(resolve, 100))
+      }
+    }
+
+    const received = (await bobStore.getAllEvents()).filter(e => e.device_id === 'alice')
+    expect(received).toHaveLength(35)
+
+    aliceSync.stop()
+    bobSync.stop()
+  })
+})
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import { createHash } from 'crypto'
+import { IBLT } from '../../../src/sync/IBLT'
+import { IBLTSyncManager } from '../../../src/sync/IBLTSyncManager'
+import { InMemoryStore } from '../../../src/storage/InMemoryStore'
+import { MessageGenerator } from '../../../src/crypto/MessageGenerator'
+import { NetworkSimulator } from '../../../src/network/NetworkSimulator'
+import { setupTrust } from '../../../src/setup-trust'
+
+// Fixed IDs: a 3-hash table of any size fails to decode a small fraction of
+// random differences, which the sync manager covers by retrying bigger
+const eventIds = (label: string, count: number) => Array.from({ length: count }, (_, i) =>
+  createHash('sha256').update(`${label} ${i}`).digest('hex').slice(0, 16))
+
+describe('IBLT', () => {
+  it('should decode the exact symmetric difference of large sets', () => {
+    const shared = eventIds('shared', 10000)
+    const onlyOurs = eventIds('ours', 30)
+    const onlyTheirs = eventIds('theirs', 25)
+    const cells = IBLT.cellsFor(onlyOurs.length + onlyTheirs.length)
+
+    const ours = IBLT.fromEventIds([...shared, ...onlyOurs], cells)
+    const theirs = IBLT.fromEventIds([...onlyTheirs, ...shared], cells)
+    const difference = ours.subtract(theirs).decode()
+
+    expect(difference.complete).toBe(true)
+    expect(difference.ours.sort()).toEqual([...onlyOurs].sort())
+    expect(difference.theirs.sort()).toEqual([...onlyTheirs].sort())
+  })
+
+  it('should survive the wire format', () => {
+    const ids = eventIds('wire', 50)
+    const table = IBLT.fromEventIds(ids, 90)
+    const received = IBLT.deserialize(table.serialize())
+
+    expect(received.cellCount).toBe(90)
+    expect(received.subtract(new IBLT(90)).decode().ours.sort()).toEqual(ids.sort())
+  })
+
+  it('should report an incomplete decode when the table is too small', () => {
+    const onlyOurs = eventIds('ours', 200)
+    const difference = IBLT.fromEventIds(onlyOurs, 30).decode()
+
+    expect(difference.complete).toBe(false)
+    // What it did list is genuine
+    difference.ours.forEach(id => expect(onlyOurs).toContain(id))
+  })
+
+  it('should reject malformed and oversized tables', () => {
+    const data = IBLT.fromEventIds(eventIds('malformed', 5), 30).serialize()
+
+    expect(() => IBLT.deserialize(data.slice(0, data.length - 1))).toThrow()
+    expect(() => IBLT.deserialize(data, 15)).toThrow()
+    expect(() => new IBLT(30).insert('not-an-event-id')).toThrow()
+  })
+})
+
+describe('IBLTSyncManager', () => {
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+  let alice: MessageGenerator
+  let bob: MessageGenerator
+
+  beforeAll(async () => {
+    await setupTrust()
+    alice = new MessageGenerator('alice')
+    await alice.initialize()
+    bob = new MessageGenerator('bob')
+    await bob.initialize()
+  })
+
+  afterAll(() => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  const fill = async (generator: MessageGenerator, store: InMemoryStore, count: number) => {
+    for (let i = 0; i < count; i++) {
+      const event = await generator.createMessage(`${generator['deviceId']} ${i}`, Date.now() - 3600000 + i)
+      await store.storeEvent(event, generator.computeEventId(event.encrypted))
+    }
+  }
+
+  const setup = async (aliceEvents: number, bobEvents: number) => {
+    const network = new NetworkSimulator({ packetLossRate: 0, minLatency: 10, maxLatency: 10, jitter: 0 })
+    const aliceStore = new InMemoryStore('alice')
+    const bobStore = new InMemoryStore('bob')
+    await fill(alice, aliceStore, aliceEvents)
+    await fill(bob, bobStore, bobEvents)
+
+    const aliceSync = new IBLTSyncManager({ deviceId: 'alice', syncInterval: 60000, receiptDelay: 60000 }, aliceStore, network, alice)
+    const bobSync = new IBLTSyncManager({ deviceId: 'bob', syncInterval: 60000, receiptDelay: 60000 }, bobStore, network, bob)
+
+    let time = 0
+    const deliver = async (hops: number) => {
+      for (let hop = 0; hop < hops; hop++) {
+        time += 1000
+        network.tick(time)
+        await new Promise(resolve => setTimeout(resolve, 100))
+      }
+    }
+    return { aliceStore, bobStore, aliceSync, bobSync, deliver }
+  }
+
+  it('should exchange both sides\' missing events in one round', async () => {
+    const { aliceStore, bobStore, aliceSync, bobSync, deliver } = await setup(30, 5)
+    await aliceSync.start()
+    await bobSync.start()
+
+    // Sketch, then events and the difference reply, then the wanted events
+    await deliver(3)
+
+    expect(await aliceStore.getAllEvents()).toHaveLength(35)
+    expect(await bobStore.getAllEvents()).toHaveLength(35)
+
+    await (bobSync as any).performSync()
+    await deliver(2)
+    expect(await aliceSync.getPeerSyncStatus()).toEqual([expect.objectContaining({ peerId: 'bob', syncPercentage: 100, sharedEvents: 35 })])
+    expect(await bobSync.getSyncPercentage()).toBe(100)
+
+    aliceSync.stop()
+    bobSync.stop()
+  })
+
+  it('should retry with a bigger sketch when the difference is too large to decode', async () => {
+    const { bobStore, aliceSync, bobSync, deliver } = await setup(120, 0)
+    await aliceSync.start()
+    await bobSync.start()
+
+    // Each default sketch is too small, so each side resends a bigger one
+    for (let round = 0; round < 3; round++) {
+      await (bobSync as any).performSync()
+      await deliver(4)
+    }
+
+    // Bob's store also holds the delivery receipts he sent back
+    expect((await bobStore.getAllEvents()).filter(e => e.device_id === 'alice')).toHaveLength(120)
+    aliceSync.stop()
+    bobSync.stop()
+  })
+})
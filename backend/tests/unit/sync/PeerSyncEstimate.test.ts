@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import request from 'supertest'
+import express from 'express'
+import * as fs from 'fs'
+import * as path from 'path'
+import { BloomFilter, PeerKnowledge } from '../../../src/sync/BloomFilter'
+import { SyncManager } from '../../../src/sync/SyncManager'
+import { SyncController } from '../../../src/sync/SyncController'
+import { createSyncRoutes } from '../../../src/routes/sync'
+import { InMemoryStore } from '../../../src/storage/InMemoryStore'
+import { MessageGenerator } from '../../../src/crypto/MessageGenerator'
+import { NetworkSimulator } from '../../../src/network/NetworkSimulator'
+import { setupTrust } from '../../../src/setup-trust'
+
+describe('PeerKnowledge sync estimate', () => {
+  const ids = (prefix: string, count: number) => Array.from({ length: count }, (_, i) => `${prefix}-${i}`)
+
+  const filterOf = (eventIds: string[]) => {
+    const filter = BloomFilter.createUDPOptimal()
+    eventIds.forEach(id => filter.add(id))
+    return filter
+  }
+
+  it('should have no estimate before the peer sends a filter', () => {
+    expect(new PeerKnowledge().getPeerSyncEstimate('bob', ids('a', 10))).toBeNull()
+  })
+
+  it('should report 100% only when both sides hold the same events', () => {
+    const knowledge = new PeerKnowledge()
+    const local = ids('a', 200)
+    knowledge.updatePeer('bob', filterOf(local), 200)
+    expect(knowledge.getPeerSyncEstimate('bob', local)!.syncPercentage).toBe(100)
+
+    // Same filter, but the header says bob also has 50 we lack
+    knowledge.updatePeer('bob', filterOf(local), 250)
+    expect(knowledge.getPeerSyncEstimate('bob', local)).toMatchObject({ syncPercentage: 80, sharedEvents: 200, peerEvents: 250 })
+  })
+
+  it('should discount false positives when the peer holds part of our events', () => {
+    const knowledge = new PeerKnowledge()
+    const local = ids('a', 300)
+    knowledge.updatePeer('bob', filterOf(local.slice(0, 150)), 150)
+
+    const estimate = knowledge.getPeerSyncEstimate('bob', local)!
+    expect(estimate.sharedEvents).toBeGreaterThanOrEqual(140)
+    expect(estimate.sharedEvents).toBeLessThanOrEqual(160)
+    expect(estimate.syncPercentage).toBeGreaterThanOrEqual(45)
+    expect(estimate.syncPercentage).toBeLessThanOrEqual(55)
+  })
+
+  it('should credit events in flight at the recent delivery rate', () => {
+    const knowledge = new PeerKnowledge(1000)
+    const local = ids('a', 10)
+    knowledge.updatePeer('bob', filterOf([]), 0, 0)
+
+    // Nothing delivered yet, so sends in flight earn nothing
+    knowledge.markSent('bob', local.slice(0, 4), 0)
+    expect(knowledge.getPeerSyncEstimate('bob', local)).toMatchObject({ syncPercentage: 0, pendingEvents: 4, deliveryRate: null })
+
+    // Three of the four arrive, the fourth times out and is resent
+    knowledge.updatePeer('bob', filterOf(local.slice(0, 3)), 3, 500)
+    expect(knowledge.shouldSendEvent('bob', local[3], 2000)).toBe(true)
+    knowledge.markSent('bob', local.slice(3, 7), 2000)
+
+    const estimate = knowledge.getPeerSyncEstimate('bob', local)!
+    expect(estimate.deliveryRate).toBe(0.75)
+    expect(estimate.sharedEvents).toBe(3)
+    expect(estimate.syncPercentage).toBe(60) // (3 + 4 * 0.75) / 10
+  })
+})
+
+describe('SyncManager peer sync status', () => {
+  // Rebuild the broadcast filter on every round these tests drive by hand
+  const everyRound = { maxAge: 0, minInterval: 0 }
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+  let alice: MessageGenerator
+  let bob: MessageGenerator
+
+  beforeAll(async () => {
+    await setupTrust()
+    alice = new MessageGenerator('alice')
+    await alice.initialize()
+    bob = new MessageGenerator('bob')
+    await bob.initialize()
+  })
+
+  afterAll(() => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should climb to 100% per peer as sync catches up', async () => {
+    // Fixed latency keeps filters in send order, so no version is skipped
+    const network = new NetworkSimulator({ packetLossRate: 0, minLatency: 10, maxLatency: 10, jitter: 0 })
+    const aliceStore = new InMemoryStore('alice')
+    const bobStore = new InMemoryStore('bob')
+
+    for (let i = 0; i < 25; i++) {
+      const event = await alice.createMessage(`history ${i}`, Date.now() - 3600000 + i)
+      await aliceStore.storeEvent(event, alice.computeEventId(event.encrypted))
+    }
+
+    const aliceController = new SyncController({ deviceId: 'alice', syncInterval: 60000, bloomUpdate: everyRound }, aliceStore, network, alice)
+    const bobController = new SyncController({ deviceId: 'bob', syncInterval: 60000, receiptDelay: 60000, bloomUpdate: everyRound }, bobStore, network, bob)
+    const aliceSync = aliceController.getStrategy() as SyncManager
+    const bobSync = bobController.getStrategy() as SyncManager
+    await aliceController.start()
+    await bobController.start()
+    expect(await aliceSync.getSyncPercentage()).toBe(100) // No peer heard from yet
+
+    let time = 0
+    const deliver = async () => {
+      time += 1000
+      network.tick(time)
+      await new Promise(resolve => setTimeout(resolve, 100))
+    }
+    const round = async (manager: SyncManager) => {
+      await (manager as any).performSync()
+      await deliver()
+      await deliver()
+    }
+
+    // Bob's empty filters (from start, then this round) reach alice: 20 now in flight
+    await deliver()
+    await round(bobSync)
+    const first = (await aliceSync.getPeerSyncStatus())[0]
+    expect(first).toMatchObject({ peerId: 'bob', localEvents: 25, peerEvents: 0, sharedEvents: 0, pendingEvents: 20, deliveryRate: null })
+    expect(first.syncPercentage).toBe(0)
+
+    // Bob only learns how many he lacks from the count in alice's filter
+    await round(aliceSync)
+    expect((await bobSync.getPeerSyncStatus())[0]).toMatchObject({ peerId: 'alice', peerEvents: 25, localEvents: 20 })
+    expect(await bobSync.getSyncPercentage()).toBe(80)
+
+    await round(bobSync)
+    await round(aliceSync)
+    await round(bobSync)
+    expect(await aliceSync.getSyncPercentage()).toBe(100)
+    expect(await bobSync.getSyncPercentage()).toBe(100)
+
+    const app = express()
+    app.use('/api/sync', createSyncRoutes(aliceController))
+    const response = await request(app).get('/api/sync/peers').expect(200)
+    expect(response.body.peers).toEqual([expect.objectContaining({ peerId: 'bob', syncPercentage: 100, deliveryRate: 1 })])
+
+    aliceController.stop()
+    bobController.stop()
+  })
+})
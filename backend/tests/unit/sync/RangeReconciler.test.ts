@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import { randomBytes } from 'crypto'
+import { RangeReconciler } from '../../../src/sync/RangeReconciler'
+import type { RangeItem } from '../../../src/sync/RangeReconciler'
+import { RangeSyncManager } from '../../../src/sync/RangeSyncManager'
+import { InMemoryStore } from '../../../src/storage/InMemoryStore'
+import { MessageGenerator } from '../../../src/crypto/MessageGenerator'
+import { NetworkSimulator } from '../../../src/network/NetworkSimulator'
+import { setupTrust } from '../../../src/setup-trust'
+
+// Several events per timestamp, so bounds sometimes need an ID
+const randomItems = (count: number, from: number): RangeItem[] =>
+  Array.from({ length: count }, (_, i) => ({ createdAt: from + Math.floor(i / 3), eventId: randomBytes(8).toString('hex') }))
+
+// Run a whole session between two reconcilers, as the sync manager would
+function runSession(ours: RangeItem[], theirs: RangeItem[]) {
+  const sides = [new RangeReconciler(ours), new RangeReconciler(theirs)]
+  const sent = [new Set<string>(), new Set<string>()]
+  const sizes: number[] = []
+
+  let message = sides[0].initiate()
+  let turn = 1
+  for (; message.length > 0; turn = 1 - turn) {
+    sizes.push(JSON.stringify(message).length)
+    const step = sides[turn].reconcile(message)
+    step.have.forEach(id => sent[turn].add(id))
+    message = step.ranges
+  }
+  return { sentByUs: sent[0], sentByThem: sent[1], sizes }
+}
+
+describe('RangeReconciler', () => {
+  it('should find a weeks-long offline gap in small messages', () => {
+    const shared = randomItems(10000, 1000)
+    // They were offline for the newest stretch; we missed a handful of theirs
+    const onlyOurs = randomItems(2000, 50000)
+    const onlyTheirs = randomItems(30, 20000)
+
+    const result = runSession([...shared, ...onlyOurs], [...onlyTheirs, ...shared])
+
+    expect([...result.sentByUs].sort()).toEqual(onlyOurs.map(item => item.eventId).sort())
+    expect([...result.sentByThem].sort()).toEqual(onlyTheirs.map(item => item.eventId).sort())
+    expect(Math.max(...result.sizes)).toBeLessThanOrEqual(1200)
+    // Far fewer messages than one per missing event
+    expect(result.sizes.length).toBeLessThan(200)
+  })
+
+  it('should settle identical histories in one reply', () => {
+    const items = randomItems(5000, 1000)
+    const step = new RangeReconciler(items).reconcile(new RangeReconciler([...items].reverse()).initiate())
+
+    expect(step).toEqual({ ranges: [], have: [], need: [] })
+  })
+
+  it('should not ask for purged events', () => {
+    const shared = randomItems(10, 1000)
+    const purged = randomItems(1, 2000)
+    const peer = new RangeReconciler([...shared, ...purged])
+    const step = new RangeReconciler(shared, {}, purged.map(item => item.eventId)).reconcile(peer.initiate())
+
+    expect(step.need).toEqual([])
+    expect(step.ranges).toEqual([])
+  })
+})
+
+describe('RangeSyncManager', () => {
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+  let alice: MessageGenerator
+  let bob: MessageGenerator
+
+  beforeAll(async () => {
+    await setupTrust()
+    alice = new MessageGenerator('alice')
+    await alice.initialize()
+    bob = new MessageGenerator('bob')
+    await bob.initialize()
+  })
+
+  afterAll(() => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  const fill = async (generator: MessageGenerator, store: InMemoryStore, count: number) => {
+    for (let i = 0; i < count; i++) {
+      const event = await generator.createMessage(`${generator['deviceId']} ${i}`, Date.now() - 3600000 + i)
+      await store.storeEvent(event, generator.computeEventId(event.encrypted))
+    }
+  }
+
+  it('should exchange both sides\' missing events in one session', async () => {
+    const network = new NetworkSimulator({ packetLossRate: 0, minLatency: 10, maxLatency: 10, jitter: 0 })
+    const aliceStore = new InMemoryStore('alice')
+    const bobStore = new InMemoryStore('bob')
+    await fill(alice, aliceStore, 150)
+    await fill(bob, bobStore, 5)
+
+    const aliceSync = new RangeSyncManager({ deviceId: 'alice', syncInterval: 60000, receiptDelay: 60000 }, aliceStore, network, alice)
+    const bobSync = new RangeSyncManager({ deviceId: 'bob', syncInterval: 60000, receiptDelay: 60000 }, bobStore, network, bob)
+
+    let time = 0
+    const deliver = async (hops: number) => {
+      for (let hop = 0; hop < hops; hop++) {
+        time += 1000
+        network.tick(time)
+        await new Promise(resolve => setTimeout(resolve, 100))
+      }
+    }
+
+    await aliceSync.start()
+    await bobSync.start()
+    await deliver(8)
+
+    // Bob's delivery receipts for Alice's events sync back to her as well
+    const eventIds = async (store: InMemoryStore) => (await store.getAllEvents()).map(e => e.event_id).sort()
+    expect((await bobStore.getAllEvents()).filter(e => e.device_id === 'alice')).toHaveLength(150)
+    expect(await eventIds(aliceStore)).toEqual(await eventIds(bobStore))
+
+    await (bobSync as any).performSync()
+    await deliver(2)
+    const shared = (await eventIds(aliceStore)).length
+    expect(await aliceSync.getPeerSyncStatus()).toEqual([expect.objectContaining({ peerId: 'bob', syncPercentage: 100, sharedEvents: shared })])
+
+    aliceSync.stop()
+    bobSync.stop()
+  })
+})
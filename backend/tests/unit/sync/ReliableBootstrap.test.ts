@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import { SyncManager } from '../../../src/sync/SyncManager'
+import { EventPacker } from '../../../src/sync/EventPacker'
+import { InMemoryStore } from '../../../src/storage/InMemoryStore'
+import { MessageGenerator } from '../../../src/crypto/MessageGenerator'
+import { NetworkSimulator } from '../../../src/network/NetworkSimulator'
+import { ReliableChannel } from '../../../src/network/ReliableChannel'
+import { setupTrust } from '../../../src/setup-trust'
+
+describe('SyncManager reliable bootstrap', () => {
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+  let alice: MessageGenerator
+  let bob: MessageGenerator
+
+  beforeAll(async () => {
+    await setupTrust()
+    alice = new MessageGenerator('alice')
+    await alice.initialize()
+    bob = new MessageGenerator('bob')
+    await bob.initialize()
+  })
+
+  afterAll(() => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should send a long history in windows and retry after a failure', async () => {
+    const network = new NetworkSimulator({ packetLossRate: 0, minLatency: 10, maxLatency: 10, jitter: 0 })
+    const aliceStore = new InMemoryStore('alice')
+    const bobStore = new InMemoryStore('bob')
+    for (let i = 0; i < 250; i++) {
+      const event = await alice.createMessage(`history ${i}`, Date.now() - 3600000 + i)
+      await aliceStore.storeEvent(event, alice.computeEventId(event.encrypted))
+    }
+
+    // One segment per packet, and room for one window's packets but not all of them
+    const history = await aliceStore.getAllEvents()
+    const packer = new EventPacker()
+    const maxQueued = Math.max(packer.pack(history.slice(0, 200)).length, packer.pack(history.slice(200)).length)
+    expect(packer.pack(history).length).toBeGreaterThan(maxQueued)
+
+    let time = 0
+    const channelConfig = { segmentSize: 1300, maxQueued, initialRto: 200, minRto: 100, maxRto: 400, maxRetransmits: 2 }
+    const aliceReliable = new ReliableChannel('alice', network, channelConfig, () => time)
+    const bobReliable = new ReliableChannel('bob', network, channelConfig, () => time)
+    const config = { syncInterval: 60000, receiptDelay: 60000, bootstrapRetryDelay: 0, bloomUpdate: { maxAge: 0, minInterval: 0 } }
+    const aliceSync = new SyncManager({ deviceId: 'alice', reliable: aliceReliable, ...config }, aliceStore, network, alice)
+    const bobSync = new SyncManager({ deviceId: 'bob', reliable: bobReliable, ...config }, bobStore, network, bob)
+    await aliceSync.start()
+    await bobSync.start()
+
+    const run = async (until: number) => {
+      for (; time <= until; time += 10) {
+        network.tick(time)
+        aliceReliable.tick()
+        bobReliable.tick()
+        await new Promise(resolve => setTimeout(resolve, 0))
+      }
+    }
+
+    // Bob's filter reaches Alice, then Bob drops off before any of the history does
+    await (bobSync as any).runRound()
+    await run(time + 10)
+    await new Promise(resolve => setTimeout(resolve, 100))
+    network.setDeviceOnline('bob', false)
+    await run(time + 5000)
+    expect(aliceReliable.getStats().messagesFailed).toBeGreaterThan(0)
+    expect(await bobStore.getAllEvents()).toEqual([])
+
+    // Back online, Bob's next filter starts the bootstrap over
+    network.setDeviceOnline('bob', true)
+    await (bobSync as any).runRound()
+    await run(time + 20000)
+
+    const received = new Set((await bobStore.getAllEvents()).map(event => event.event_id))
+    expect(history.every(event => received.has(event.event_id))).toBe(true)
+    expect(aliceSync.getStats().eventsSent).toBe(250)
+
+    await aliceSync.shutdown()
+    await bobSync.shutdown()
+  }, 60000)
+})
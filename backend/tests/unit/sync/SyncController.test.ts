@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import request from 'supertest'
+import express from 'express'
+import * as fs from 'fs'
+import * as path from 'path'
+import { SyncController } from '../../../src/sync/SyncController'
+import { createSyncRoutes } from '../../../src/routes/sync'
+import { InMemoryStore } from '../../../src/storage/InMemoryStore'
+import { MessageGenerator } from '../../../src/crypto/MessageGenerator'
+import { NetworkSimulator } from '../../../src/network/NetworkSimulator'
+import { setupTrust } from '../../../src/setup-trust'
+
+describe('SyncController', () => {
+  const keysDir = path.join(__dirname, '..', '..', '..', 'keys')
+  let alice: MessageGenerator
+  let bob: MessageGenerator
+
+  beforeAll(async () => {
+    await setupTrust()
+    alice = new MessageGenerator('alice')
+    await alice.initialize()
+    bob = new MessageGenerator('bob')
+    await bob.initialize()
+  })
+
+  afterAll(() => {
+    if (fs.existsSync(keysDir)) {
+      fs.rmSync(keysDir, { recursive: true, force: true })
+    }
+  })
+
+  const fill = async (generator: MessageGenerator, store: InMemoryStore, count: number) => {
+    for (let i = 0; i < count; i++) {
+      const event = await generator.createMessage(`${generator['deviceId']} ${i}`, Date.now() - 3600000 + i)
+      await store.storeEvent(event, generator.computeEventId(event.encrypted))
+    }
+  }
+
+  const setup = async (aliceStrategy: string, bobStrategy: string) => {
+    const network = new NetworkSimulator({ packetLossRate: 0, minLatency: 10, maxLatency: 10, jitter: 0 })
+    const aliceStore = new InMemoryStore('alice')
+    const bobStore = new InMemoryStore('bob')
+    await fill(alice, aliceStore, 8)
+    await fill(bob, bobStore, 5)
+
+    const config = { syncInterval: 60000, receiptDelay: 60000 }
+    const aliceSync = new SyncController({ deviceId: 'alice', ...config }, aliceStore, network, alice, aliceStrategy)
+    const bobSync = new SyncController({ deviceId: 'bob', ...config }, bobStore, network, bob, bobStrategy)
+
+    let time = 0
+    const deliver = async (hops: number) => {
+      for (let hop = 0; hop < hops; hop++) {
+        time += 1000
+        network.tick(time)
+        await new Promise(resolve => setTimeout(resolve, 100))
+      }
+    }
+    const round = async () => {
+      await (aliceSync.getStrategy() as any).runRound()
+      await (bobSync.getStrategy() as any).runRound()
+      await deliver(4)
+    }
+    const authors = async (store: InMemoryStore) => (await store.getAllEvents()).map(e => e.device_id)
+    return { network, aliceStore, bobStore, aliceSync, bobSync, deliver, round, authors }
+  }
+
+  it('should converge when peers run different strategies', async () => {
+    const { aliceStore, bobStore, aliceSync, bobSync, deliver, round, authors } = await setup('range', 'bloom')
+    await aliceSync.start()
+    await bobSync.start()
+    await deliver(4)
+
+    // Alice answers Bob's filter, then broadcasts her own so he can answer it
+    await round()
+    await round()
+
+    expect((await authors(bobStore)).filter(author => author === 'alice')).toHaveLength(8)
+    expect((await authors(aliceStore)).filter(author => author === 'bob')).toHaveLength(5)
+    aliceSync.stop()
+    bobSync.stop()
+  })
+
+  it('should switch strategy at runtime and keep per-strategy stats', async () => {
+    const { aliceStore, bobStore, aliceSync, bobSync, deliver, authors } = await setup('bloom', 'bloom')
+    await aliceSync.start()
+    await bobSync.start()
+    const bloomStats = aliceSync.getStats().current
+
+    await aliceSync.switchStrategy('range')
+    await bobSync.switchStrategy('range')
+    await deliver(6)
+
+    expect(aliceSync.getCurrentStrategyName()).toBe('range')
+    expect((await authors(bobStore)).filter(author => author === 'alice')).toHaveLength(8)
+    expect((await authors(aliceStore)).filter(author => author === 'bob')).toHaveLength(5)
+
+    const stats = aliceSync.getStats()
+    expect(stats.previous).toEqual([expect.objectContaining({ strategy: 'bloom', rounds: 1, packetsSent: bloomStats.packetsSent })])
+    expect(stats.previous[0].stoppedAt).not.toBeNull()
+    expect(stats.current).toMatchObject({ strategy: 'range', rounds: 1 })
+    expect(stats.current.packetsSent).toBeGreaterThan(0)
+    expect(stats.current.eventsReceived).toBeGreaterThan(0)
+
+    await expect(aliceSync.switchStrategy('carrier-pigeon')).rejects.toThrow('Unknown sync strategy')
+    expect(aliceSync.getCurrentStrategyName()).toBe('range')
+    aliceSync.stop()
+    bobSync.stop()
+  })
+
+  it('should detach a replaced strategy and send its batched receipts', async () => {
+    const { network, bobStore, aliceSync, bobSync, round } = await setup('bloom', 'bloom')
+    const handlers = () => (network as any).eventCallbacks.length
+    const attached = handlers()
+    await aliceSync.start()
+    await bobSync.start()
+    await round()
+
+    // Bob stored Alice's messages and is holding their delivered receipts
+    const receipts = async () => (await bobStore.getAllEvents()).length - 5 - 8
+    expect(await receipts()).toBe(0)
+    await bobSync.switchStrategy('iblt')
+    expect(await receipts()).toBe(1)
+
+    await aliceSync.switchStrategy('range')
+    await aliceSync.switchStrategy('bloom')
+    expect(handlers()).toBe(attached)
+    await aliceSync.stop()
+    await bobSync.stop()
+  })
+
+  it('should run concurrent switches one after another', async () => {
+    const { network, aliceSync } = await setup('bloom', 'bloom')
+    const handlers = () => (network as any).eventCallbacks.length
+    await aliceSync.start()
+    const attached = handlers()
+
+    await Promise.all([aliceSync.switchStrategy('range'), aliceSync.switchStrategy('iblt')])
+    expect(aliceSync.getCurrentStrategyName()).toBe('iblt')
+    expect(aliceSync.getStats().previous.map(stats => stats.strategy)).toEqual(['bloom', 'range'])
+    expect(handlers()).toBe(attached)
+
+    // A failed switch doesn't hold up the next
+    await expect(aliceSync.switchStrategy('carrier-pigeon')).rejects.toThrow('Unknown sync strategy')
+    await aliceSync.switchStrategy('bloom')
+    expect(aliceSync.getCurrentStrategyName()).toBe('bloom')
+    await aliceSync.stop()
+  })
+
+  it('should select strategies over HTTP', async () => {
+    const network = new NetworkSimulator()
+    const controller = new SyncController({ deviceId: 'alice', syncInterval: 60000 }, new InMemoryStore('alice'), network, alice)
+    const app = express()
+    app.use(express.json())
+    app.use('/api/sync', createSyncRoutes(controller))
+
+    const listing = await request(app).get('/api/sync/strategy')
+    expect(listing.body.strategy).toBe('bloom')
+    expect(listing.body.available.map((s: any) => s.name)).toEqual(['bloom', 'iblt', 'range'])
+
+    expect((await request(app).post('/api/sync/strategy').send({ strategy: 'gossip' })).status).toBe(400)
+    expect((await request(app).post('/api/sync/strategy').send({ strategy: 'iblt' })).body).toEqual({ success: true, strategy: 'iblt' })
+
+    const stats = await request(app).get('/api/sync/stats')
+    expect(stats.body.current.strategy).toBe('iblt')
+    expect(stats.body.previous.map((s: any) => s.strategy)).toEqual(['bloom'])
+
+    controller.switchStrategy = async () => { throw new Error('shutdown failed') }
+    const failed = await request(app).post('/api/sync/strategy').send({ strategy: 'range' })
+    expect(failed.status).toBe(500)
+    expect(failed.body.error).toBe('shutdown failed')
+  })
+})
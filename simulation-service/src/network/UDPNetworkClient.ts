@@ -1,10 +1,12 @@
 import { createSocket, Socket } from 'dgram'
 import { EventEmitter } from 'events'
 import type { NetworkSimulator, NetworkEvent, NetworkConfig } from './NetworkSimulator'
+import { WireNegotiator, decodePacket, encodePacket } from './WireFormat'
 
 /**
  * UDP-based network client for backends
- * Implements the NetworkSimulator interface but uses real UDP
+ * Implements the NetworkSimulator interface but uses real UDP. The wire
+ * format is agreed with the simulator when registering.
  */
 export class UDPNetworkClient extends EventEmitter implements NetworkSimulator {
   private socket: Socket
@@ -15,6 +17,7 @@ export class UDPNetworkClient extends EventEmitter implements NetworkSimulator {
   private isConnected: boolean = false
   private eventCallbacks: Array<(event: NetworkEvent) => void> = []
   private messageQueue: Array<{ target: string; type: string; payload: any }> = []
+  private wire = new WireNegotiator()
 
   constructor(
     deviceId: string, 
@@ -40,7 +43,7 @@ export class UDPNetworkClient extends EventEmitter implements NetworkSimulator {
         console.log(`[UDPNetworkClient] ${this.deviceId} listening on UDP port ${this.localPort}`)
         
         // Register with network simulator
-        this.sendPacket('network', 'register', {})
+        this.sendPacket('network', 'register', { versions: this.wire.getSupportedVersions() })
         
         // Wait for registration confirmation
         const timeout = setTimeout(() => {
@@ -176,7 +179,7 @@ export class UDPNetworkClient extends EventEmitter implements NetworkSimulator {
 
   private setupSocket() {
     this.socket.on('message', (msg, rinfo) => {
-      this.handlePacket(msg.toString())
+      this.handlePacket(msg)
     })
 
     this.socket.on('error', (err) => {
@@ -184,42 +187,24 @@ export class UDPNetworkClient extends EventEmitter implements NetworkSimulator {
     })
   }
 
-  private handlePacket(message: string) {
+  private handlePacket(message: Buffer) {
     try {
-      // Parse packet format: source:target:type:payload
-      const firstColon = message.indexOf(':')
-      const secondColon = message.indexOf(':', firstColon + 1)
-      const thirdColon = message.indexOf(':', secondColon + 1)
-      
-      if (firstColon === -1 || secondColon === -1 || thirdColon === -1) {
-        console.error(`[UDPNetworkClient] ${this.deviceId} invalid packet format`)
-        return
-      }
-      
-      const sourceDevice = message.substring(0, firstColon)
-      const targetDevice = message.substring(firstColon + 1, secondColon)
-      const messageType = message.substring(secondColon + 1, thirdColon)
-      const payloadStr = message.substring(thirdColon + 1)
+      const { packet } = decodePacket(message)
+      const { source: sourceDevice, target: targetDevice, type: messageType, payload } = packet
       
       // Only process messages for this device
       if (targetDevice !== this.deviceId) {
         return
       }
       
-      // Handle registration confirmation
+      // Handle registration confirmation; an old simulator lists no versions
       if (sourceDevice === 'network' && messageType === 'registered') {
+        const version = this.wire.agree('network', payload?.versions)
+        console.log(`[UDPNetworkClient] ${this.deviceId} speaking wire v${version} to the network`)
         this.emit('registered')
         return
       }
       
-      // Parse payload
-      let payload: any
-      try {
-        payload = JSON.parse(payloadStr)
-      } catch {
-        payload = payloadStr
-      }
-      
       // Create network event
       const event: NetworkEvent = {
         id: `${Date.now()}-${Math.random()}`,
@@ -240,9 +225,8 @@ export class UDPNetworkClient extends EventEmitter implements NetworkSimulator {
   }
 
   private sendPacket(targetDevice: string, messageType: string, payload: any) {
-    const payloadStr = typeof payload === 'string' ? payload : JSON.stringify(payload)
-    const packet = `${this.deviceId}:${targetDevice}:${messageType}:${payloadStr}`
-    const buffer = Buffer.from(packet)
+    const packet = { source: this.deviceId, target: targetDevice, type: messageType, payload }
+    const buffer = encodePacket(packet, this.wire.versionFor('network'))
     
     this.socket.send(buffer, this.networkPort, this.networkAddress, (err) => {
       if (err) {
@@ -1,16 +1,17 @@
 import { createSocket, Socket } from 'dgram'
 import { EventEmitter } from 'events'
 import { TimeController } from '../simulation/TimeController'
+import { WireNegotiator, decodePacket, encodePacket, LEGACY_WIRE_VERSION } from './WireFormat'
+import type { WirePacket } from './WireFormat'
 
 /**
- * UDP Packet Format:
- * [sourceDevice]:[targetDevice]:[messageType]:[payload]
- * 
- * Example: "alice:bob:message:{"event_id":"123","encrypted":[...]}"
+ * UDP packets use the shared WireFormat: binary frames for devices that
+ * list wire v1 when registering, `source:target:type:payload` text for the
+ * rest. Relayed packets are re-encoded for each recipient.
  */
 
 interface PendingPacket {
-  data: Buffer
+  packet: WirePacket
   sourceAddress: string
   sourcePort: number
   targetDevice: string
@@ -39,6 +40,7 @@ export class UDPNetworkSimulator extends EventEmitter {
   private pendingPackets: PendingPacket[] = []
   private config: NetworkConfig
   private timeController?: TimeController
+  private wire = new WireNegotiator()
   private stats = {
     packetsReceived: 0,
     packetsDelivered: 0,
@@ -117,7 +119,7 @@ export class UDPNetworkSimulator extends EventEmitter {
     return {
       ...this.stats,
       deliveryRate,
-      devices: Array.from(this.devices.values()),
+      devices: Array.from(this.devices.values()).map(device => ({ ...device, wireVersion: this.wire.versionFor(device.deviceId) })),
       pendingPackets: this.pendingPackets.length,
       config: this.config
     }
@@ -137,33 +139,27 @@ export class UDPNetworkSimulator extends EventEmitter {
     this.stats.packetsReceived++
     
     try {
-      // Parse packet format: source:target:type:payload
-      const message = data.toString()
-      const firstColon = message.indexOf(':')
-      const secondColon = message.indexOf(':', firstColon + 1)
-      const thirdColon = message.indexOf(':', secondColon + 1)
-      
-      if (firstColon === -1 || secondColon === -1 || thirdColon === -1) {
-        console.error('[UDPNetworkSimulator] Invalid packet format')
-        return
-      }
-      
-      const sourceDevice = message.substring(0, firstColon)
-      const targetDevice = message.substring(firstColon + 1, secondColon)
-      const messageType = message.substring(secondColon + 1, thirdColon)
-      const payload = message.substring(thirdColon + 1)
+      const { packet, version } = decodePacket(data)
+      const { source: sourceDevice, target: targetDevice, type: messageType } = packet
       
       // Register/update device info
       this.registerDevice(sourceDevice, address, port)
       
-      // Handle registration messages
+      // Handle registration messages; old devices list no versions and stay on text
       if (messageType === 'register') {
-        console.log(`[UDPNetworkSimulator] Device ${sourceDevice} registered from ${address}:${port}`)
-        // Send acknowledgment
-        const ack = Buffer.from(`network:${sourceDevice}:registered:{}`)
+        const wireVersion = this.wire.agree(sourceDevice, packet.payload?.versions)
+        console.log(`[UDPNetworkSimulator] Device ${sourceDevice} registered from ${address}:${port} (wire v${wireVersion})`)
+        // Send acknowledgment as text, which every client reads
+        const ack = encodePacket({
+          source: 'network',
+          target: sourceDevice,
+          type: 'registered',
+          payload: { versions: this.wire.getSupportedVersions() }
+        }, LEGACY_WIRE_VERSION)
         this.socket.send(ack, port, address)
         return
       }
+      this.wire.observe(packet, version)
       
       // Handle broadcast
       if (targetDevice === 'broadcast') {
@@ -171,13 +167,12 @@ export class UDPNetworkSimulator extends EventEmitter {
         for (const [deviceId, info] of this.devices) {
           if (deviceId !== sourceDevice && info.isOnline) {
             // Create new packet with correct source:target for each recipient
-            const newPacket = Buffer.from(`${sourceDevice}:${deviceId}:${messageType}:${payload}`)
-            this.queuePacket(newPacket, address, port, deviceId)
+            this.queuePacket({ ...packet, target: deviceId }, address, port, deviceId)
           }
         }
       } else {
         // Send to specific device
-        this.queuePacket(data, address, port, targetDevice)
+        this.queuePacket(packet, address, port, targetDevice)
       }
       
     } catch (error) {
@@ -202,7 +197,7 @@ export class UDPNetworkSimulator extends EventEmitter {
     }
   }
 
-  private queuePacket(data: Buffer, sourceAddress: string, sourcePort: number, targetDevice: string) {
+  private queuePacket(packet: WirePacket, sourceAddress: string, sourcePort: number, targetDevice: string) {
     // Check if should drop packet
     if (Math.random() < this.config.packetLossRate) {
       this.stats.packetsDropped++
@@ -221,7 +216,7 @@ export class UDPNetworkSimulator extends EventEmitter {
     
     // Queue packet for delivery
     this.pendingPackets.push({
-      data,
+      packet,
       sourceAddress,
       sourcePort,
       targetDevice,
@@ -258,8 +253,9 @@ export class UDPNetworkSimulator extends EventEmitter {
       return
     }
     
-    // Send packet to target device
-    this.socket.send(packet.data, targetInfo.port, targetInfo.address, (err) => {
+    // Send packet to target device, in the wire format it registered with
+    const data = encodePacket(packet.packet, this.wire.versionFor(packet.targetDevice))
+    this.socket.send(data, targetInfo.port, targetInfo.address, (err) => {
       if (err) {
         console.error(`[UDPNetworkSimulator] Error sending to ${packet.targetDevice}:`, err)
         this.stats.packetsDropped++
@@ -0,0 +1,345 @@
+/**
+ * WireFormat - how packets look on a UDP socket
+ *
+ * A copy of backend/src/network/WireFormat.ts, so simulated devices and
+ * backends read each other's frames. The backend's WireFormat test fails
+ * if the two differ beyond this note. The modules named below are the
+ * backend's.
+ *
+ * Version 0 is the original text format, `source:target:type:JSON`. It
+ * breaks on colons in device IDs and sends ciphertext as base64 or JSON
+ * number arrays. Version 1 is a binary frame:
+ *
+ *   magic      2 bytes  0xB5 0x1C (never valid text, so it can't be v0)
+ *   version    1 byte
+ *   type       1 byte   PACKET_TYPES code
+ *   flags      1 byte   FLAG_BLOBS when raw fields follow
+ *   source     1 byte length + UTF-8
+ *   target     1 byte length + UTF-8
+ *   [blobs]    1 byte count (at most MAX_BLOBS), then per blob: 1 byte
+ *              length + field path, 4 byte length + raw bytes
+ *   payload    4 byte length + JSON of everything not sent as a blob
+ *
+ * Blobs are the fields in BINARY_FIELDS (ciphertext, sealed Bloom filters,
+ * IBLT cells), moved out of the JSON and restored to their original
+ * representation on decode, so code above the transport never notices.
+ *
+ * Version 2 has the same layout and means the peer takes `handshake` and
+ * `sealed` packets, i.e. per-peer encrypted sessions (see PeerSessions).
+ * Version 3 means it also answers `ping` with `pong` (see PeerTable).
+ * Version 4 means it acknowledges `reliable_data` (see ReliableChannel).
+ *
+ * Peers agree on a version with `wire_hello` packets, sent as v0 so an old
+ * backend can read (and ignore) them. Until a peer says otherwise it gets
+ * v0.
+ */
+
+export const LEGACY_WIRE_VERSION = 0
+export const BINARY_WIRE_VERSION = 1
+export const SESSION_WIRE_VERSION = 2
+export const PING_WIRE_VERSION = 3
+export const RELIABLE_WIRE_VERSION = 4
+export const WIRE_VERSION = RELIABLE_WIRE_VERSION
+export const SUPPORTED_WIRE_VERSIONS = [LEGACY_WIRE_VERSION, BINARY_WIRE_VERSION, SESSION_WIRE_VERSION, PING_WIRE_VERSION, RELIABLE_WIRE_VERSION]
+
+// Transport-level; never handed to sync or presence
+export const WIRE_HELLO = 'wire_hello'
+
+const MAGIC = [0xb5, 0x1c]
+const HEADER_BYTES = 5
+export const FLAG_BLOBS = 0x01
+
+// The blob count is one byte; a packet with more raw fields can't be framed
+export const MAX_BLOBS = 255
+
+// Code = index + 1. Append only: the codes are on the wire.
+const PACKET_TYPES = [
+  'message', 'bloom_filter', 'file_chunk', 'ephemeral', 'reconcile',
+  'event_request', 'event_response', 'event_batch', 'event_fragment',
+  WIRE_HELLO, 'register', 'registered', 'set_online', 'update_config',
+  'handshake', 'sealed', 'announce', 'ping', 'pong', 'reliable_data', 'reliable_ack'
+]
+
+type BlobEncoding = 'base64' | 'array'
+
+// Payload fields that travel as raw bytes in binary frames; `*` matches each array element
+const BINARY_FIELDS: Record<string, Array<{ path: string[]; encoding: BlobEncoding }>> = {
+  message: [{ path: ['encrypted'], encoding: 'array' }],
+  bloom_filter: [{ path: ['sealed'], encoding: 'base64' }],
+  ephemeral: [{ path: ['sealed'], encoding: 'base64' }],
+  reconcile: [{ path: ['cells'], encoding: 'base64' }],
+  event_batch: [{ path: ['events', '*', 'data'], encoding: 'base64' }],
+  event_fragment: [{ path: ['data'], encoding: 'base64' }],
+  handshake: [{ path: ['e'], encoding: 'base64' }, { path: ['data'], encoding: 'base64' }],
+  sealed: [{ path: ['data'], encoding: 'base64' }],
+  reliable_data: [{ path: ['data'], encoding: 'base64' }]
+}
+
+export interface WirePacket {
+  source: string
+  target: string
+  type: string
+  payload: any
+}
+
+export function isBinaryFrame(data: Buffer): boolean {
+  return data.length >= HEADER_BYTES && data[0] === MAGIC[0] && data[1] === MAGIC[1]
+}
+
+/**
+ * Encode for a peer speaking `version`
+ */
+export function encodePacket(packet: WirePacket, version: number = WIRE_VERSION): Buffer {
+  if (version === LEGACY_WIRE_VERSION) {
+    const payload = typeof packet.payload === 'string' ? packet.payload : JSON.stringify(packet.payload)
+    return Buffer.from(`${packet.source}:${packet.target}:${packet.type}:${payload}`)
+  }
+  if (!isBinaryVersion(version)) {
+    throw new Error(`Unsupported wire version ${version}`)
+  }
+
+  const code = PACKET_TYPES.indexOf(packet.type) + 1
+  if (code === 0) {
+    throw new Error(`No wire code for packet type ${packet.type}`)
+  }
+
+  const skeleton = packet.payload === undefined ? null : JSON.parse(JSON.stringify(packet.payload))
+  const blobs = extractBlobs(packet.type, skeleton)
+  if (blobs.length > MAX_BLOBS) {
+    throw new Error(`Too many binary fields for one frame: ${blobs.length} > ${MAX_BLOBS}`)
+  }
+  const parts: Buffer[] = [
+    Buffer.from([...MAGIC, version, code, blobs.length > 0 ? FLAG_BLOBS : 0]),
+    shortString(packet.source),
+    shortString(packet.target)
+  ]
+  if (blobs.length > 0) {
+    parts.push(Buffer.from([blobs.length]))
+    for (const blob of blobs) {
+      parts.push(shortString(blob.path), uint32(blob.bytes.length), blob.bytes)
+    }
+  }
+  const json = Buffer.from(JSON.stringify(skeleton))
+  parts.push(uint32(json.length), json)
+  return Buffer.concat(parts)
+}
+
+/**
+ * Decode either version. Returns the packet and the version it arrived in.
+ */
+export function decodePacket(data: Buffer): { packet: WirePacket; version: number } {
+  if (!isBinaryFrame(data)) {
+    return { packet: decodeLegacy(data.toString()), version: LEGACY_WIRE_VERSION }
+  }
+
+  const version = data[2]
+  if (!isBinaryVersion(version)) {
+    throw new Error(`Unsupported wire version ${version}`)
+  }
+  const type = PACKET_TYPES[data[3] - 1]
+  if (!type) {
+    throw new Error(`Unknown packet type code ${data[3]}`)
+  }
+  const flags = data[4]
+
+  const reader = new FrameReader(data, HEADER_BYTES)
+  const source = reader.shortString()
+  const target = reader.shortString()
+  const blobs: Array<{ path: string; bytes: Buffer }> = []
+  if (flags & FLAG_BLOBS) {
+    const count = reader.byte()
+    for (let i = 0; i < count; i++) {
+      blobs.push({ path: reader.shortString(), bytes: reader.bytes(reader.uint32()) })
+    }
+  }
+  const payload = JSON.parse(reader.bytes(reader.uint32()).toString())
+  restoreBlobs(type, payload, blobs)
+
+  return { packet: { source, target, type, payload }, version }
+}
+
+/**
+ * Version 0: `source:target:type:payload`. Source, target and type can't
+ * contain colons; the payload may, and is left a string if it isn't JSON.
+ */
+function decodeLegacy(message: string): WirePacket {
+  const firstColon = message.indexOf(':')
+  const secondColon = message.indexOf(':', firstColon + 1)
+  const thirdColon = message.indexOf(':', secondColon + 1)
+  if (firstColon === -1 || secondColon === -1 || thirdColon === -1) {
+    throw new Error('Invalid packet format')
+  }
+
+  const payloadStr = message.substring(thirdColon + 1)
+  let payload: any
+  try {
+    payload = JSON.parse(payloadStr)
+  } catch {
+    payload = payloadStr
+  }
+  return {
+    source: message.substring(0, firstColon),
+    target: message.substring(firstColon + 1, secondColon),
+    type: message.substring(secondColon + 1, thirdColon),
+    payload
+  }
+}
+
+/**
+ * WireNegotiator - which version to speak to each peer
+ *
+ * A hello lists the versions a peer supports; we speak the highest we
+ * share. A binary frame proves its version. Any other v0 packet means the peer is (now)
+ * an old backend, so we drop back until it says hello again.
+ */
+export class WireNegotiator {
+  private versions: Map<string, number> = new Map()
+
+  constructor(private supported: number[] = SUPPORTED_WIRE_VERSIONS) {}
+
+  versionFor(peerId: string): number {
+    return this.versions.get(peerId) ?? LEGACY_WIRE_VERSION
+  }
+
+  /**
+   * Note a packet from a peer; returns true if it was a hello, which the
+   * transport consumes
+   */
+  observe(packet: WirePacket, version: number): boolean {
+    if (packet.type === WIRE_HELLO) {
+      this.agree(packet.source, packet.payload?.versions)
+      return true
+    }
+    if (version !== LEGACY_WIRE_VERSION) {
+      this.versions.set(packet.source, version)
+    } else if (this.versions.has(packet.source)) {
+      this.versions.delete(packet.source)
+    }
+    return false
+  }
+
+  /**
+   * Settle on the highest version both sides support; a peer that sent no
+   * list is an old backend
+   */
+  agree(peerId: string, theirs: unknown): number {
+    const shared = Array.isArray(theirs) ? this.supported.filter(v => theirs.includes(v)) : []
+    const version = Math.max(LEGACY_WIRE_VERSION, ...shared)
+    this.versions.set(peerId, version)
+    return version
+  }
+
+  getSupportedVersions(): number[] {
+    return [...this.supported]
+  }
+
+  /**
+   * A hello goes out as text unless a device ID has a colon, which text
+   * can't carry; old backends can't talk to such a device anyway
+   */
+  hello(source: string, target: string, reply: boolean): Buffer {
+    const version = source.includes(':') || target.includes(':') ? WIRE_VERSION : LEGACY_WIRE_VERSION
+    return encodePacket({ source, target, type: WIRE_HELLO, payload: { versions: this.supported, reply } }, version)
+  }
+}
+
+function isBinaryVersion(version: number): boolean {
+  return version >= BINARY_WIRE_VERSION && version <= WIRE_VERSION
+}
+
+function extractBlobs(type: string, payload: any): Array<{ path: string; bytes: Buffer }> {
+  const blobs: Array<{ path: string; bytes: Buffer }> = []
+  for (const field of BINARY_FIELDS[type] || []) {
+    walk(payload, field.path, [], (parent, key, path) => {
+      const bytes = toBytes(parent[key], field.encoding)
+      if (bytes) {
+        blobs.push({ path: path.join('.'), bytes })
+        delete parent[key]
+      }
+    })
+  }
+  return blobs
+}
+
+function restoreBlobs(type: string, payload: any, blobs: Array<{ path: string; bytes: Buffer }>) {
+  const fields = BINARY_FIELDS[type] || []
+  for (const blob of blobs) {
+    const path = blob.path.split('.')
+    const field = fields.find(f => f.path.length === path.length && f.path.every((p, i) => p === '*' || p === path[i]))
+    if (!field) {
+      throw new Error(`Unexpected binary field ${blob.path} in ${type}`)
+    }
+    let parent = payload
+    for (const key of path.slice(0, -1)) {
+      parent = parent?.[key]
+    }
+    if (parent === null || typeof parent !== 'object') {
+      throw new Error(`Binary field ${blob.path} has no place in ${type}`)
+    }
+    parent[path[path.length - 1]] = field.encoding === 'base64' ? blob.bytes.toString('base64') : Array.from(blob.bytes)
+  }
+}
+
+function walk(node: any, path: string[], seen: string[], visit: (parent: any, key: string, path: string[]) => void) {
+  if (node === null || typeof node !== 'object') return
+  const [key, ...rest] = path
+  const keys = key === '*' ? (Array.isArray(node) ? node.map((_, i) => String(i)) : []) : [key]
+  for (const k of keys) {
+    if (!(k in node)) continue
+    if (rest.length === 0) {
+      visit(node, k, [...seen, k])
+    } else {
+      walk(node[k], rest, [...seen, k], visit)
+    }
+  }
+}
+
+// Only values that come back byte-for-byte identical are moved out of the JSON
+function toBytes(value: unknown, encoding: BlobEncoding): Buffer | null {
+  if (encoding === 'base64') {
+    if (typeof value !== 'string') return null
+    const bytes = Buffer.from(value, 'base64')
+    return bytes.toString('base64') === value ? bytes : null
+  }
+  if (!Array.isArray(value) || !value.every(b => Number.isInteger(b) && b >= 0 && b <= 255)) return null
+  return Buffer.from(value)
+}
+
+function shortString(value: string): Buffer {
+  const bytes = Buffer.from(value)
+  if (bytes.length > 255) {
+    throw new Error(`Field too long for the wire: ${value.slice(0, 32)}...`)
+  }
+  return Buffer.concat([Buffer.from([bytes.length]), bytes])
+}
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4)
+  buffer.writeUInt32BE(value)
+  return buffer
+}
+
+class FrameReader {
+  constructor(private data: Buffer, private offset: number) {}
+
+  byte(): number {
+    return this.bytes(1)[0]
+  }
+
+  uint32(): number {
+    return this.bytes(4).readUInt32BE(0)
+  }
+
+  shortString(): string {
+    return this.bytes(this.byte()).toString()
+  }
+
+  bytes(length: number): Buffer {
+    if (this.offset + length > this.data.length) {
+      throw new Error('Truncated frame')
+    }
+    const slice = this.data.subarray(this.offset, this.offset + length)
+    this.offset += length
+    return slice
+  }
+}